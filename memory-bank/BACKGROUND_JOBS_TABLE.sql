@@ -0,0 +1,98 @@
+-- Durable job queue for background work (video generation, ...)
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.background_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  type text NOT NULL,
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 1,
+  run_at timestamptz NOT NULL DEFAULT now(),
+  locked_by text,
+  lease_expires_at timestamptz,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Runnable jobs are looked up by status + run_at
+CREATE INDEX IF NOT EXISTS background_jobs_runnable_idx
+  ON public.background_jobs (status, run_at);
+
+-- Expired leases are looked up by status + lease_expires_at
+CREATE INDEX IF NOT EXISTS background_jobs_lease_idx
+  ON public.background_jobs (status, lease_expires_at);
+
+-- Only the server (service role) touches the queue
+ALTER TABLE public.background_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Atomically lease the oldest runnable job of the given types.
+-- SKIP LOCKED lets concurrent workers claim different rows without blocking.
+CREATE OR REPLACE FUNCTION public.claim_background_job(
+  p_worker_id text,
+  p_lease_seconds integer,
+  p_types text[]
+)
+RETURNS SETOF public.background_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.background_jobs AS j
+  SET status = 'running',
+      locked_by = p_worker_id,
+      lease_expires_at = now() + make_interval(secs => p_lease_seconds),
+      attempts = j.attempts + 1,
+      updated_at = now()
+  WHERE j.id = (
+    SELECT id
+    FROM public.background_jobs
+    WHERE status = 'queued'
+      AND run_at <= now()
+      AND type = ANY (p_types)
+    ORDER BY run_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- Recover running jobs whose lease expired (crashed or redeployed worker).
+-- Jobs that used their last attempt are failed with p_error, the others are
+-- queued again. Returns the number of requeued jobs.
+CREATE OR REPLACE FUNCTION public.requeue_expired_background_jobs(
+  p_now timestamptz,
+  p_error text
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_requeued integer;
+BEGIN
+  UPDATE public.background_jobs
+  SET status = 'failed',
+      last_error = p_error,
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = p_now
+  WHERE status = 'running'
+    AND lease_expires_at < p_now
+    AND attempts >= max_attempts;
+
+  UPDATE public.background_jobs
+  SET status = 'queued',
+      locked_by = NULL,
+      lease_expires_at = NULL,
+      updated_at = p_now
+  WHERE status = 'running'
+    AND lease_expires_at < p_now
+    AND attempts < max_attempts;
+  GET DIAGNOSTICS v_requeued = ROW_COUNT;
+
+  RETURN v_requeued;
+END;
+$$;
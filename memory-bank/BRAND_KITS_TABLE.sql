@@ -0,0 +1,20 @@
+-- Brand kit of a user, applied to captions, cards and the watermark
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.brand_kits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL UNIQUE,
+  -- Logo uploaded through /s3-upload
+  logo_url text,
+  primary_color text,
+  secondary_color text,
+  font_family text,
+  handle text,
+  -- Paid plans only: replaces the Editia watermark by the logo
+  logo_watermark boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Only the server (service role) touches brand kits
+ALTER TABLE public.brand_kits ENABLE ROW LEVEL SECURITY;
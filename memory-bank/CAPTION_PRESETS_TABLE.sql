@@ -0,0 +1,18 @@
+-- Caption presets created by users, next to the built-in presets
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.caption_presets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  -- Validated CaptionPresetStyle (font, sizes, stroke, box, max length, effect)
+  style jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_caption_presets_user_id
+  ON public.caption_presets(user_id, created_at);
+
+-- Only the server (service role) touches caption presets
+ALTER TABLE public.caption_presets ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,50 @@
+-- Schedules turning a content plan into script drafts and rendered videos,
+-- and the runs they made
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.content_plan_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  -- One schedule per plan
+  content_plan_id uuid NOT NULL UNIQUE REFERENCES public.content_plans(id) ON DELETE CASCADE,
+  -- Cron expression evaluated in UTC, e.g. "0 9 * * 1,3,5" for 3 videos per week
+  cron text NOT NULL,
+  -- Video generation payload without the prompt: videos, voice, captions...
+  generation_settings jsonb NOT NULL,
+  -- Dry runs record what would run without generating anything
+  dry_run boolean NOT NULL DEFAULT false,
+  enabled boolean NOT NULL DEFAULT true,
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_plan_schedules_next_run_at
+  ON public.content_plan_schedules(next_run_at)
+  WHERE enabled;
+
+CREATE TABLE IF NOT EXISTS public.content_plan_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id uuid NOT NULL REFERENCES public.content_plan_schedules(id) ON DELETE CASCADE,
+  content_plan_id uuid NOT NULL REFERENCES public.content_plans(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  scheduled_for timestamptz NOT NULL,
+  status text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'succeeded', 'skipped', 'failed', 'dry_run')),
+  -- Why the run was skipped or failed, or what a dry run would have done
+  reason text,
+  script_draft_id uuid REFERENCES public.script_drafts(id) ON DELETE SET NULL,
+  video_request_id uuid REFERENCES public.video_requests(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  finished_at timestamptz,
+  -- A slot runs once, even with several server processes
+  UNIQUE (schedule_id, scheduled_for)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_plan_runs_content_plan_id
+  ON public.content_plan_runs(content_plan_id, scheduled_for DESC);
+
+-- Only the server (service role) touches schedules and runs
+ALTER TABLE public.content_plan_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.content_plan_runs ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,5 @@
+-- Intro/outro cards and transitions applied to the videos of an editorial profile
+-- Run this in Supabase Dashboard > SQL Editor
+
+-- { intro?, outro?, transition? } - see VideoStyleSchema in src/types/template.ts
+ALTER TABLE public.editorial_profiles ADD COLUMN IF NOT EXISTS video_style jsonb;
@@ -0,0 +1,28 @@
+-- Side effects recorded by the video generation pipeline, undone on failure
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.generation_side_effects (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  video_request_id uuid NOT NULL REFERENCES public.video_requests(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  kind text NOT NULL
+    CHECK (kind IN ('script_draft_status', 'script_draft_link', 'usage_increment')),
+  payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  compensated_at timestamptz,
+  -- Set when the render succeeds: the side effect is kept for good
+  settled_at timestamptz
+);
+
+-- Tables created before settled_at existed
+ALTER TABLE public.generation_side_effects
+  ADD COLUMN IF NOT EXISTS settled_at timestamptz;
+
+-- Pending side effects of a request are looked up on failure
+DROP INDEX IF EXISTS public.generation_side_effects_pending_idx;
+CREATE INDEX generation_side_effects_pending_idx
+  ON public.generation_side_effects (video_request_id)
+  WHERE compensated_at IS NULL AND settled_at IS NULL;
+
+-- Only the server (service role) touches side effects
+ALTER TABLE public.generation_side_effects ENABLE ROW LEVEL SECURITY;
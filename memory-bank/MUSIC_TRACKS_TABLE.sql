@@ -0,0 +1,19 @@
+-- Music library offered as background music for generated videos
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.music_tracks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  -- Public URL of the audio file, fetched by the renderer
+  url text NOT NULL,
+  mood text,
+  duration_seconds numeric,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Library tracks are readable by every user, managed by the service role only
+ALTER TABLE public.music_tracks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Music library is readable by everyone"
+  ON public.music_tracks FOR SELECT
+  USING (true);
@@ -0,0 +1,25 @@
+-- Render webhook deliveries already processed: a render reports each final
+-- status once, replays of a delivery are acknowledged without effect
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.render_webhook_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  render_id text NOT NULL,
+  status text NOT NULL,
+  video_request_id uuid NOT NULL REFERENCES public.video_requests(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (render_id, status)
+);
+
+-- Only the server (service role) touches webhook events
+ALTER TABLE public.render_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- The usage RPCs and the usage limiter count generated videos in
+-- videos_generated_used; older databases only have videos_generated, which
+-- the render webhook used to bump by hand
+ALTER TABLE public.user_usage
+  ADD COLUMN IF NOT EXISTS videos_generated_used integer NOT NULL DEFAULT 0;
+
+UPDATE public.user_usage
+  SET videos_generated_used = GREATEST(videos_generated_used, videos_generated);
@@ -0,0 +1,45 @@
+-- Webhook endpoints users register to be notified of video and script events,
+-- with the log of every delivery made to them
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.user_webhooks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  url text NOT NULL,
+  -- video.completed, video.failed, script.validated, voice_clone.created
+  events text[] NOT NULL,
+  -- Signs deliveries (HMAC-SHA256), shown to the user once
+  secret text NOT NULL,
+  description text,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS user_webhooks_user_idx
+  ON public.user_webhooks (user_id);
+
+CREATE TABLE IF NOT EXISTS public.user_webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  webhook_id uuid NOT NULL REFERENCES public.user_webhooks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL,
+  event text NOT NULL,
+  -- Body posted to the endpoint
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  response_status integer,
+  last_error text,
+  job_id uuid,
+  replay_of uuid REFERENCES public.user_webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  delivered_at timestamptz
+);
+
+-- Delivery log of a webhook, newest first
+CREATE INDEX IF NOT EXISTS user_webhook_deliveries_webhook_idx
+  ON public.user_webhook_deliveries (webhook_id, created_at DESC);
+
+-- Only the server (service role) touches webhooks and their deliveries
+ALTER TABLE public.user_webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_webhook_deliveries ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,27 @@
+-- Batches of video variants generated from one script draft (A/B tests)
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.video_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  script_draft_id uuid,
+  -- What the variants change: hook, caption_preset or clip_order
+  variation text NOT NULL CHECK (variation IN ('hook', 'caption_preset', 'clip_order')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_batches_user_id ON public.video_batches(user_id);
+
+-- Only the server (service role) touches video batches
+ALTER TABLE public.video_batches ENABLE ROW LEVEL SECURITY;
+
+-- Each variant is a video request of the batch
+ALTER TABLE public.video_requests
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES public.video_batches(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS batch_variant_index integer,
+  -- The hook, caption preset or clip order of the variant
+  ADD COLUMN IF NOT EXISTS batch_variant_label text;
+
+CREATE INDEX IF NOT EXISTS idx_video_requests_batch_id
+  ON public.video_requests(batch_id)
+  WHERE batch_id IS NOT NULL;
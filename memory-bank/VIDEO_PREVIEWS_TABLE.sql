@@ -0,0 +1,23 @@
+-- Template previews, rendered later as a full video without planning again
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.video_previews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  script_id uuid NOT NULL REFERENCES public.script_drafts(id) ON DELETE CASCADE,
+  -- Validated generation payload the template was built from
+  payload jsonb NOT NULL,
+  scene_plan jsonb NOT NULL,
+  template jsonb NOT NULL,
+  snapshots jsonb NOT NULL DEFAULT '[]'::jsonb,
+  -- Set once the preview is rendered, a preview renders only once
+  video_request_id uuid REFERENCES public.video_requests(id) ON DELETE SET NULL,
+  rendered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_previews_user_id
+  ON public.video_previews(user_id, created_at DESC);
+
+-- Only the server (service role) touches previews
+ALTER TABLE public.video_previews ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,24 @@
+-- Copies of finished renders in our S3 bucket: Creatomate CDN URLs are not
+-- ours and may expire
+-- Run this in Supabase Dashboard > SQL Editor
+
+ALTER TABLE public.video_requests
+  -- pending while the copy is queued, then archived or failed
+  ADD COLUMN IF NOT EXISTS archive_status text
+    CHECK (archive_status IN ('pending', 'archived', 'failed')),
+  ADD COLUMN IF NOT EXISTS archive_error text,
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz,
+  -- Objects under renders/<userId>/<requestId>/
+  ADD COLUMN IF NOT EXISTS archived_render_key text,
+  ADD COLUMN IF NOT EXISTS archived_render_url text,
+  ADD COLUMN IF NOT EXISTS archived_snapshot_key text,
+  ADD COLUMN IF NOT EXISTS archived_snapshot_url text,
+  ADD COLUMN IF NOT EXISTS archived_render_size bigint,
+  -- Hex SHA-256 of the MP4
+  ADD COLUMN IF NOT EXISTS archived_render_sha256 text;
+
+-- Finished renders not archived yet, looked up by the backfill
+CREATE INDEX IF NOT EXISTS idx_video_requests_unarchived
+  ON public.video_requests(created_at)
+  WHERE render_status = 'done' AND render_url IS NOT NULL
+    AND (archive_status IS NULL OR archive_status = 'failed');
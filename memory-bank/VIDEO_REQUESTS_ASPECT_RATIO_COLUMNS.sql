@@ -0,0 +1,13 @@
+-- Multi aspect ratio output for video requests
+-- Run this in Supabase Dashboard > SQL Editor
+
+-- Output format of the render: 9:16, 1:1, 4:5 or 16:9
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS aspect_ratio text NOT NULL DEFAULT '9:16';
+
+-- Extra aspect ratios are separate requests rendered by the main request's job
+ALTER TABLE public.video_requests
+  ADD COLUMN IF NOT EXISTS primary_request_id uuid REFERENCES public.video_requests(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_video_requests_primary_request_id
+  ON public.video_requests(primary_request_id)
+  WHERE primary_request_id IS NOT NULL;
@@ -0,0 +1,11 @@
+-- Dubbed versions of a generated video
+-- Run this in Supabase Dashboard > SQL Editor
+
+-- A dub is a separate request re-rendering the original's clips, trims and
+-- captions with a translated voice-over (output_language is the dub language)
+ALTER TABLE public.video_requests
+  ADD COLUMN IF NOT EXISTS dubbed_from_request_id uuid REFERENCES public.video_requests(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_video_requests_dubbed_from_request_id
+  ON public.video_requests(dubbed_from_request_id)
+  WHERE dubbed_from_request_id IS NOT NULL;
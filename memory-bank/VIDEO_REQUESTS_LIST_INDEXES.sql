@@ -0,0 +1,9 @@
+-- Indexes of the paginated video list (GET /api/videos): pages are read newest
+-- first after a (created_at, id) cursor, optionally by source video used
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE INDEX IF NOT EXISTS video_requests_user_created_idx
+  ON public.video_requests (user_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS video_requests_selected_videos_idx
+  ON public.video_requests USING gin (selected_videos);
@@ -0,0 +1,5 @@
+-- Generation progress of video requests
+-- Run this in Supabase Dashboard > SQL Editor
+
+-- Last progress event (VideoProgressEvent), read by /api/videos/:id/events
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS progress jsonb;
@@ -0,0 +1,19 @@
+-- Cancel / retry support for video requests
+-- Run this in Supabase Dashboard > SQL Editor
+
+-- Generation job currently in charge of the request (background_jobs.id)
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS job_id uuid;
+
+-- Template checkpoint: a retry re-renders it instead of planning again
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS template jsonb;
+
+-- Whether the last failure can be retried (VideoGenerationError.retryable)
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS error_retryable boolean;
+
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS cancelled_at timestamptz;
+
+-- render_status now also accepts 'cancelled'. If a CHECK constraint restricts
+-- render_status in your project, extend it accordingly.
+
+-- Renders replaced by a retry or re-render: their late webhooks are ignored
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS superseded_render_ids text[];
@@ -0,0 +1,8 @@
+-- Scene-level editing of generated videos
+-- Run this in Supabase Dashboard > SQL Editor
+
+-- Scene plan the stored template was built from
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS scene_plan jsonb;
+
+-- Scene plan with the edits not rendered yet, cleared by a re-render
+ALTER TABLE public.video_requests ADD COLUMN IF NOT EXISTS edited_scene_plan jsonb;
@@ -0,0 +1,41 @@
+-- Voiceover-only generations: the reviewed script voiced with the user's
+-- voice clone, without video
+-- Run this in Supabase Dashboard > SQL Editor
+
+CREATE TABLE IF NOT EXISTS public.voiceover_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  prompt text NOT NULL,
+  system_prompt text,
+  editorial_profile jsonb,
+  output_language text NOT NULL,
+  -- ElevenLabs voice the script is voiced with
+  voice_id text NOT NULL,
+  format text NOT NULL DEFAULT 'mp3' CHECK (format IN ('mp3', 'wav')),
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'done', 'error')),
+  -- Reviewed script, kept across attempts
+  script text,
+  audio_url text,
+  s3_key text,
+  duration_seconds numeric,
+  -- [{ text, start, end }] in seconds, one entry per sentence
+  sentences jsonb,
+  job_id uuid,
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_voiceover_requests_user_id
+  ON public.voiceover_requests(user_id, created_at DESC);
+
+-- Only the server (service role) touches voiceover requests
+ALTER TABLE public.voiceover_requests ENABLE ROW LEVEL SECURITY;
+
+-- Voiceovers have their own usage limit
+ALTER TABLE public.subscription_plans
+  ADD COLUMN IF NOT EXISTS voiceovers_generated_limit integer NOT NULL DEFAULT 10;
+
+ALTER TABLE public.user_usage
+  ADD COLUMN IF NOT EXISTS voiceovers_generated_limit integer NOT NULL DEFAULT 10,
+  ADD COLUMN IF NOT EXISTS voiceovers_generated_used integer NOT NULL DEFAULT 0;
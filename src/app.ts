@@ -10,6 +10,23 @@ import { supabase, testSupabaseConnection } from "./config/supabase";
 import { testS3Connection } from "./config/aws";
 import { AgentService } from "./services/agentService";
 import { logger, logtail } from "./config/logger";
+import { createJobWorker } from "./services/queue/job-queue";
+import { JobWorker } from "./services/queue/job-worker";
+import { ContentPlanScheduler } from "./services/content-plan/scheduler";
+import { getContentPlanScheduler } from "./services/content-plan/content-plan-runner";
+import { RenderReconciler } from "./services/render/render-reconciler";
+import { getRenderReconciler } from "./services/render/render-reconciler-runner";
+import { VideoGeneratorService } from "./services/video/generator";
+import { handleVideoGenerationJob } from "./services/video/generation-job";
+import { VoiceoverGeneratorService } from "./services/voiceover/voiceover-generator";
+import { handleVoiceoverJob } from "./services/voiceover/voiceover-job";
+import {
+  handleUserWebhookDeliveryJob,
+  UserWebhookService,
+} from "./services/user-webhooks/user-webhook-service";
+import { handleRenderArchiveJob, RenderArchiver } from "./services/render/render-archiver";
+import { isLocalRenderProvider } from "./services/render/render-provider";
+import { getLocalRenderOutputDir } from "./services/render/local-ffmpeg-provider";
 import { authenticateUser, ClerkAuthService, MonetizationService } from "editia-core";
 
 // Load environment variables
@@ -56,6 +73,11 @@ app.use(
 // Serve static files from the "public" directory
 app.use(express.static(path.join(__dirname, "../public")));
 
+// Serve videos rendered locally with FFmpeg
+if (isLocalRenderProvider()) {
+  app.use("/renders", express.static(getLocalRenderOutputDir()));
+}
+
 // Parse JSON bodies
 app.use(express.json({ limit: "10mb" }));
 app.use(express.urlencoded({ extended: true, limit: "10mb" }));
@@ -100,6 +122,65 @@ app.use(
   }
 );
 
+// Background job worker (video generation and other queued work)
+let jobWorker: JobWorker | null = null;
+
+async function startJobWorker() {
+  if (process.env.JOB_WORKER_ENABLED === "false") {
+    logger.info("⏸️ Job worker disabled (JOB_WORKER_ENABLED=false)");
+    return;
+  }
+
+  jobWorker = createJobWorker({
+    [VideoGeneratorService.JOB_TYPE]: handleVideoGenerationJob,
+    [VoiceoverGeneratorService.JOB_TYPE]: handleVoiceoverJob,
+    [UserWebhookService.JOB_TYPE]: handleUserWebhookDeliveryJob,
+    [RenderArchiver.JOB_TYPE]: handleRenderArchiveJob,
+  });
+  await jobWorker.start();
+}
+
+// Content plan scheduler (scheduled and recurring video generation)
+let contentPlanScheduler: ContentPlanScheduler | null = null;
+
+function startContentPlanScheduler() {
+  if (process.env.CONTENT_PLAN_SCHEDULER_ENABLED === "false") {
+    logger.info("⏸️ Content plan scheduler disabled (CONTENT_PLAN_SCHEDULER_ENABLED=false)");
+    return;
+  }
+
+  contentPlanScheduler = getContentPlanScheduler();
+  contentPlanScheduler.start();
+}
+
+// Render reconciler (video requests whose render webhook was lost)
+let renderReconciler: RenderReconciler | null = null;
+
+function startRenderReconciler() {
+  if (process.env.RENDER_RECONCILER_ENABLED === "false") {
+    logger.info("⏸️ Render reconciler disabled (RENDER_RECONCILER_ENABLED=false)");
+    return;
+  }
+
+  renderReconciler = getRenderReconciler();
+  renderReconciler.start();
+}
+
+async function shutdown(signal: string) {
+  logger.info(`🛑 ${signal} received, draining background jobs...`);
+  try {
+    await contentPlanScheduler?.stop();
+    await renderReconciler?.stop();
+    await jobWorker?.stop();
+  } finally {
+    logtail.flush();
+    process.exit(0);
+  }
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
+
 // Start server with all service connection tests
 async function startServer() {
   try {
@@ -174,6 +255,10 @@ async function startServer() {
       logger.info("📘 API Documentation: http://localhost:" + PORT + "/api/docs");
       logtail.flush();
     });
+
+    await startJobWorker();
+    startContentPlanScheduler();
+    startRenderReconciler();
   } catch (error) {
     logger.error("❌ Failed to start server:", error);
     logtail.flush();
@@ -322,6 +322,193 @@ export type Database = {
           },
         ]
       }
+      brand_kits: {
+        Row: {
+          created_at: string
+          font_family: string | null
+          handle: string | null
+          id: string
+          logo_url: string | null
+          logo_watermark: boolean
+          primary_color: string | null
+          secondary_color: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          font_family?: string | null
+          handle?: string | null
+          id?: string
+          logo_url?: string | null
+          logo_watermark?: boolean
+          primary_color?: string | null
+          secondary_color?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          font_family?: string | null
+          handle?: string | null
+          id?: string
+          logo_url?: string | null
+          logo_watermark?: boolean
+          primary_color?: string | null
+          secondary_color?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      caption_presets: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          style: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          style: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          style?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      content_plan_runs: {
+        Row: {
+          content_plan_id: string
+          created_at: string
+          finished_at: string | null
+          id: string
+          reason: string | null
+          schedule_id: string
+          scheduled_for: string
+          script_draft_id: string | null
+          status: string
+          user_id: string
+          video_request_id: string | null
+        }
+        Insert: {
+          content_plan_id: string
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          reason?: string | null
+          schedule_id: string
+          scheduled_for: string
+          script_draft_id?: string | null
+          status?: string
+          user_id: string
+          video_request_id?: string | null
+        }
+        Update: {
+          content_plan_id?: string
+          created_at?: string
+          finished_at?: string | null
+          id?: string
+          reason?: string | null
+          schedule_id?: string
+          scheduled_for?: string
+          script_draft_id?: string | null
+          status?: string
+          user_id?: string
+          video_request_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_plan_runs_content_plan_id_fkey"
+            columns: ["content_plan_id"]
+            isOneToOne: false
+            referencedRelation: "content_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_plan_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "content_plan_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_plan_runs_script_draft_id_fkey"
+            columns: ["script_draft_id"]
+            isOneToOne: false
+            referencedRelation: "script_drafts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_plan_runs_video_request_id_fkey"
+            columns: ["video_request_id"]
+            isOneToOne: false
+            referencedRelation: "video_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_plan_schedules: {
+        Row: {
+          content_plan_id: string
+          created_at: string
+          cron: string
+          dry_run: boolean
+          enabled: boolean
+          generation_settings: Json
+          id: string
+          last_run_at: string | null
+          next_run_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content_plan_id: string
+          created_at?: string
+          cron: string
+          dry_run?: boolean
+          enabled?: boolean
+          generation_settings: Json
+          id?: string
+          last_run_at?: string | null
+          next_run_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content_plan_id?: string
+          created_at?: string
+          cron?: string
+          dry_run?: boolean
+          enabled?: boolean
+          generation_settings?: Json
+          id?: string
+          last_run_at?: string | null
+          next_run_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_plan_schedules_content_plan_id_fkey"
+            columns: ["content_plan_id"]
+            isOneToOne: false
+            referencedRelation: "content_plans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       content_plans: {
         Row: {
           created_at: string | null
@@ -383,6 +570,7 @@ export type Database = {
           style_notes: string | null
           tone_of_voice: string | null
           user_id: string | null
+          video_style: Json | null
         }
         Insert: {
           audience?: string | null
@@ -394,6 +582,7 @@ export type Database = {
           style_notes?: string | null
           tone_of_voice?: string | null
           user_id?: string | null
+          video_style?: Json | null
         }
         Update: {
           audience?: string | null
@@ -405,6 +594,7 @@ export type Database = {
           style_notes?: string | null
           tone_of_voice?: string | null
           user_id?: string | null
+          video_style?: Json | null
         }
         Relationships: [
           {
@@ -484,6 +674,47 @@ export type Database = {
         }
         Relationships: []
       }
+      generation_side_effects: {
+        Row: {
+          compensated_at: string | null
+          created_at: string
+          id: string
+          kind: string
+          payload: Json
+          settled_at: string | null
+          user_id: string
+          video_request_id: string
+        }
+        Insert: {
+          compensated_at?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          payload?: Json
+          settled_at?: string | null
+          user_id: string
+          video_request_id: string
+        }
+        Update: {
+          compensated_at?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          payload?: Json
+          settled_at?: string | null
+          user_id?: string
+          video_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generation_side_effects_video_request_id_fkey"
+            columns: ["video_request_id"]
+            isOneToOne: false
+            referencedRelation: "video_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       invitation_codes: {
         Row: {
           code: string
@@ -593,6 +824,33 @@ export type Database = {
           },
         ]
       }
+      music_tracks: {
+        Row: {
+          created_at: string
+          duration_seconds: number | null
+          id: string
+          mood: string | null
+          title: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          duration_seconds?: number | null
+          id?: string
+          mood?: string | null
+          title: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          duration_seconds?: number | null
+          id?: string
+          mood?: string | null
+          title?: string
+          url?: string
+        }
+        Relationships: []
+      }
       niche_analyses: {
         Row: {
           analysis_data: Json | null
@@ -915,6 +1173,41 @@ export type Database = {
           },
         ]
       }
+      render_webhook_events: {
+        Row: {
+          created_at: string
+          id: string
+          render_id: string
+          status: string
+          user_id: string
+          video_request_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          render_id: string
+          status: string
+          user_id: string
+          video_request_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          render_id?: string
+          status?: string
+          user_id?: string
+          video_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "render_webhook_events_video_request_id_fkey"
+            columns: ["video_request_id"]
+            isOneToOne: false
+            referencedRelation: "video_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       rl_training_data: {
         Row: {
           created_at: string | null
@@ -1256,6 +1549,7 @@ export type Database = {
           source_videos_limit: number
           videos_generated_limit: number
           voice_clones_limit: number
+          voiceovers_generated_limit: number
         }
         Insert: {
           account_analysis_limit: number
@@ -1271,6 +1565,7 @@ export type Database = {
           source_videos_limit: number
           videos_generated_limit: number
           voice_clones_limit: number
+          voiceovers_generated_limit?: number
         }
         Update: {
           account_analysis_limit?: number
@@ -1286,6 +1581,7 @@ export type Database = {
           source_videos_limit?: number
           videos_generated_limit?: number
           voice_clones_limit?: number
+          voiceovers_generated_limit?: number
         }
         Relationships: []
       }
@@ -1569,8 +1865,11 @@ export type Database = {
           video_analysis_used: number
           videos_generated: number
           videos_generated_limit: number
+          videos_generated_used: number
           voice_clones_limit: number
           voice_clones_used: number
+          voiceovers_generated_limit: number
+          voiceovers_generated_used: number
         }
         Insert: {
           account_analysis_limit?: number
@@ -1597,8 +1896,11 @@ export type Database = {
           video_analysis_used?: number
           videos_generated?: number
           videos_generated_limit?: number
+          videos_generated_used?: number
           voice_clones_limit?: number
           voice_clones_used?: number
+          voiceovers_generated_limit?: number
+          voiceovers_generated_used?: number
         }
         Update: {
           account_analysis_limit?: number
@@ -1625,8 +1927,11 @@ export type Database = {
           video_analysis_used?: number
           videos_generated?: number
           videos_generated_limit?: number
+          videos_generated_used?: number
           voice_clones_limit?: number
           voice_clones_used?: number
+          voiceovers_generated_limit?: number
+          voiceovers_generated_used?: number
         }
         Relationships: [
           {
@@ -1677,6 +1982,105 @@ export type Database = {
           },
         ]
       }
+      user_webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          event: string
+          id: string
+          job_id: string | null
+          last_error: string | null
+          payload: Json
+          replay_of: string | null
+          response_status: number | null
+          status: string
+          user_id: string
+          webhook_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event: string
+          id?: string
+          job_id?: string | null
+          last_error?: string | null
+          payload: Json
+          replay_of?: string | null
+          response_status?: number | null
+          status?: string
+          user_id: string
+          webhook_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event?: string
+          id?: string
+          job_id?: string | null
+          last_error?: string | null
+          payload?: Json
+          replay_of?: string | null
+          response_status?: number | null
+          status?: string
+          user_id?: string
+          webhook_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_webhook_deliveries_replay_of_fkey"
+            columns: ["replay_of"]
+            isOneToOne: false
+            referencedRelation: "user_webhook_deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_webhook_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "user_webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_webhooks: {
+        Row: {
+          created_at: string
+          description: string | null
+          enabled: boolean
+          events: string[]
+          id: string
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          events: string[]
+          id?: string
+          secret: string
+          updated_at?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       users: {
         Row: {
           avatar_url: string | null
@@ -1713,65 +2117,233 @@ export type Database = {
         }
         Relationships: []
       }
+      video_batches: {
+        Row: {
+          created_at: string
+          id: string
+          script_draft_id: string | null
+          user_id: string
+          variation: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          script_draft_id?: string | null
+          user_id: string
+          variation: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          script_draft_id?: string | null
+          user_id?: string
+          variation?: string
+        }
+        Relationships: []
+      }
+      video_previews: {
+        Row: {
+          created_at: string
+          id: string
+          payload: Json
+          rendered_at: string | null
+          scene_plan: Json
+          script_id: string
+          snapshots: Json
+          template: Json
+          user_id: string
+          video_request_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          payload: Json
+          rendered_at?: string | null
+          scene_plan: Json
+          script_id: string
+          snapshots?: Json
+          template: Json
+          user_id: string
+          video_request_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          payload?: Json
+          rendered_at?: string | null
+          scene_plan?: Json
+          script_id?: string
+          snapshots?: Json
+          template?: Json
+          user_id?: string
+          video_request_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_previews_script_id_fkey"
+            columns: ["script_id"]
+            isOneToOne: false
+            referencedRelation: "script_drafts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_previews_video_request_id_fkey"
+            columns: ["video_request_id"]
+            isOneToOne: false
+            referencedRelation: "video_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       video_requests: {
         Row: {
+          archive_error: string | null
+          archive_status: string | null
+          archived_at: string | null
+          archived_render_key: string | null
+          archived_render_sha256: string | null
+          archived_render_size: number | null
+          archived_render_url: string | null
+          archived_snapshot_key: string | null
+          archived_snapshot_url: string | null
+          aspect_ratio: string
+          batch_id: string | null
+          batch_variant_index: number | null
+          batch_variant_label: string | null
+          cancelled_at: string | null
           caption_config: Json | null
           completed_at: string | null
           created_at: string | null
+          dubbed_from_request_id: string | null
+          edited_scene_plan: Json | null
           error_message: string | null
+          error_retryable: boolean | null
           id: string
+          job_id: string | null
           output_language: string | null
+          primary_request_id: string | null
           processing_started_at: string | null
+          progress: Json | null
           render_duration: number | null
           render_id: string | null
           render_status: string | null
           render_url: string | null
+          scene_plan: Json | null
           script_id: string | null
           selected_videos: string[] | null
           size: number | null
           snapshot_url: string | null
+          superseded_render_ids: string[] | null
+          template: Json | null
           updated_at: string | null
           user_id: string | null
         }
         Insert: {
+          archive_error?: string | null
+          archive_status?: string | null
+          archived_at?: string | null
+          archived_render_key?: string | null
+          archived_render_sha256?: string | null
+          archived_render_size?: number | null
+          archived_render_url?: string | null
+          archived_snapshot_key?: string | null
+          archived_snapshot_url?: string | null
+          aspect_ratio?: string
+          batch_id?: string | null
+          batch_variant_index?: number | null
+          batch_variant_label?: string | null
+          cancelled_at?: string | null
           caption_config?: Json | null
           completed_at?: string | null
           created_at?: string | null
+          dubbed_from_request_id?: string | null
+          edited_scene_plan?: Json | null
           error_message?: string | null
+          error_retryable?: boolean | null
           id?: string
+          job_id?: string | null
           output_language?: string | null
+          primary_request_id?: string | null
           processing_started_at?: string | null
+          progress?: Json | null
           render_duration?: number | null
           render_id?: string | null
           render_status?: string | null
           render_url?: string | null
+          scene_plan?: Json | null
           script_id?: string | null
           selected_videos?: string[] | null
           size?: number | null
           snapshot_url?: string | null
+          superseded_render_ids?: string[] | null
+          template?: Json | null
           updated_at?: string | null
           user_id?: string | null
         }
         Update: {
+          archive_error?: string | null
+          archive_status?: string | null
+          archived_at?: string | null
+          archived_render_key?: string | null
+          archived_render_sha256?: string | null
+          archived_render_size?: number | null
+          archived_render_url?: string | null
+          archived_snapshot_key?: string | null
+          archived_snapshot_url?: string | null
+          aspect_ratio?: string
+          batch_id?: string | null
+          batch_variant_index?: number | null
+          batch_variant_label?: string | null
+          cancelled_at?: string | null
           caption_config?: Json | null
           completed_at?: string | null
           created_at?: string | null
+          dubbed_from_request_id?: string | null
+          edited_scene_plan?: Json | null
           error_message?: string | null
+          error_retryable?: boolean | null
           id?: string
+          job_id?: string | null
           output_language?: string | null
+          primary_request_id?: string | null
           processing_started_at?: string | null
+          progress?: Json | null
           render_duration?: number | null
           render_id?: string | null
           render_status?: string | null
           render_url?: string | null
+          scene_plan?: Json | null
           script_id?: string | null
           selected_videos?: string[] | null
           size?: number | null
           snapshot_url?: string | null
+          superseded_render_ids?: string[] | null
+          template?: Json | null
           updated_at?: string | null
           user_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "video_requests_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "video_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_requests_dubbed_from_request_id_fkey"
+            columns: ["dubbed_from_request_id"]
+            isOneToOne: false
+            referencedRelation: "video_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_requests_primary_request_id_fkey"
+            columns: ["primary_request_id"]
+            isOneToOne: false
+            referencedRelation: "video_requests"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "video_requests_user_id_fkey"
             columns: ["user_id"]
@@ -1914,6 +2486,69 @@ export type Database = {
           },
         ]
       }
+      voiceover_requests: {
+        Row: {
+          audio_url: string | null
+          created_at: string
+          duration_seconds: number | null
+          editorial_profile: Json | null
+          error_message: string | null
+          format: string
+          id: string
+          job_id: string | null
+          output_language: string
+          prompt: string
+          s3_key: string | null
+          script: string | null
+          sentences: Json | null
+          status: string
+          system_prompt: string | null
+          updated_at: string
+          user_id: string
+          voice_id: string
+        }
+        Insert: {
+          audio_url?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          editorial_profile?: Json | null
+          error_message?: string | null
+          format?: string
+          id?: string
+          job_id?: string | null
+          output_language: string
+          prompt: string
+          s3_key?: string | null
+          script?: string | null
+          sentences?: Json | null
+          status?: string
+          system_prompt?: string | null
+          updated_at?: string
+          user_id: string
+          voice_id: string
+        }
+        Update: {
+          audio_url?: string | null
+          created_at?: string
+          duration_seconds?: number | null
+          editorial_profile?: Json | null
+          error_message?: string | null
+          format?: string
+          id?: string
+          job_id?: string | null
+          output_language?: string
+          prompt?: string
+          s3_key?: string | null
+          script?: string | null
+          sentences?: Json | null
+          status?: string
+          system_prompt?: string | null
+          updated_at?: string
+          user_id?: string
+          voice_id?: string
+        }
+        Relationships: []
+      }
       waitlist_signups: {
         Row: {
           created_at: string | null
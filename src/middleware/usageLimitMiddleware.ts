@@ -6,7 +6,15 @@ import {
 } from "../services/usageTrackingService";
 import { ResourceType } from "../types/ressource";
 
-export function usageLimiter(resourceType: ResourceType) {
+/**
+ * Rejects requests of users who would exceed their limit for a resource.
+ * @param getAmount Units the request uses, 1 unless given (batches, renditions
+ * and dubs use several)
+ */
+export function usageLimiter(
+  resourceType: ResourceType,
+  getAmount: (req: Request, userId: string) => number | Promise<number> = () => 1
+) {
   return async (req: Request, res: Response, next: NextFunction) => {
     const authHeader = req.headers.authorization;
 
@@ -22,7 +30,8 @@ export function usageLimiter(resourceType: ResourceType) {
     // 2. Check usage limit
     const { limitReached, usage } = await checkUsageLimit(
       user.id,
-      resourceType
+      resourceType,
+      await getAmount(req, user.id)
     );
 
     if (limitReached) {
@@ -0,0 +1,97 @@
+import { Request, Response } from "express";
+import {
+  successResponseExpress,
+  errorResponseExpress,
+  HttpStatus,
+} from "../../utils/api/responses";
+import { brandKitService } from "../../services/video/brand-kit-service";
+import { BrandKitSchema } from "../../types/template";
+import { logger } from "../../config/logger";
+
+const brandKitLogger = logger.child({
+  module: "brandKit",
+});
+
+/**
+ * Brand kit of the user, null when they have none
+ */
+export async function getBrandKitHandler(req: Request, res: Response) {
+  try {
+    const user = (req as any).user;
+    const brandKit = await brandKitService.getBrandKit(user.id);
+
+    return successResponseExpress(res, brandKit);
+  } catch (error) {
+    brandKitLogger.error("❌ Failed to get brand kit:", error);
+    return errorResponseExpress(
+      res,
+      "Failed to get brand kit",
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+/**
+ * Create or replace the brand kit of the user. The logo must be an upload of
+ * the user (POST /s3-upload).
+ */
+export async function saveBrandKitHandler(req: Request, res: Response) {
+  const body = BrandKitSchema.strict().safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid brand kit",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const { logoUrl } = body.data;
+    if (logoUrl && !brandKitService.isOwnUpload(logoUrl, user.id)) {
+      return errorResponseExpress(
+        res,
+        "The logo must be uploaded through /s3-upload",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    const brandKit = await brandKitService.saveBrandKit(user.id, body.data);
+
+    return successResponseExpress(res, brandKit);
+  } catch (error) {
+    brandKitLogger.error("❌ Failed to save brand kit:", error);
+    return errorResponseExpress(
+      res,
+      "Failed to save brand kit",
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+/**
+ * Delete the brand kit of the user, videos go back to the default styling
+ */
+export async function deleteBrandKitHandler(req: Request, res: Response) {
+  try {
+    const user = (req as any).user;
+    const deleted = await brandKitService.deleteBrandKit(user.id);
+
+    if (!deleted) {
+      return errorResponseExpress(
+        res,
+        "Brand kit not found",
+        HttpStatus.NOT_FOUND
+      );
+    }
+    return successResponseExpress(res, { deleted: true });
+  } catch (error) {
+    brandKitLogger.error("❌ Failed to delete brand kit:", error);
+    return errorResponseExpress(
+      res,
+      "Failed to delete brand kit",
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
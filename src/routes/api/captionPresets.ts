@@ -0,0 +1,153 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  successResponseExpress,
+  errorResponseExpress,
+  HttpStatus,
+} from "../../utils/api/responses";
+import { captionPresetService } from "../../services/video/caption-preset-service";
+import { AspectRatioSchema, CaptionPresetSchema } from "../../types/template";
+import { logger } from "../../config/logger";
+
+const captionPresetLogger = logger.child({
+  module: "captionPresets",
+});
+
+const CAPTION_PRESET_STATUS_BY_CODE: Record<string, number> = {
+  CAPTION_PRESET_NOT_FOUND: HttpStatus.NOT_FOUND,
+  CAPTION_PRESET_LIMIT_REACHED: HttpStatus.FORBIDDEN,
+  SNAPSHOT_FAILED: HttpStatus.SERVICE_UNAVAILABLE,
+  OPERATION_TIMEOUT: HttpStatus.SERVICE_UNAVAILABLE,
+};
+
+const PresetParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const PresetPreviewSchema = CaptionPresetSchema.extend({
+  aspectRatio: AspectRatioSchema.optional(),
+});
+
+function sendPresetError(res: Response, error: any, fallbackMessage: string) {
+  return errorResponseExpress(
+    res,
+    error.userMessage || fallbackMessage,
+    CAPTION_PRESET_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+  );
+}
+
+/**
+ * Caption presets of the user, oldest first. Built-in presets are not listed.
+ */
+export async function listCaptionPresetsHandler(req: Request, res: Response) {
+  try {
+    const user = (req as any).user;
+    const presets = await captionPresetService.listPresets(user.id);
+
+    return successResponseExpress(res, presets);
+  } catch (error: any) {
+    captionPresetLogger.error("❌ Failed to list caption presets:", error);
+    return sendPresetError(res, error, "Failed to list caption presets");
+  }
+}
+
+export async function createCaptionPresetHandler(req: Request, res: Response) {
+  const body = CaptionPresetSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid caption preset",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const preset = await captionPresetService.createPreset(user.id, body.data);
+
+    return successResponseExpress(res, preset, HttpStatus.CREATED);
+  } catch (error: any) {
+    captionPresetLogger.error("❌ Failed to create caption preset:", error);
+    return sendPresetError(res, error, "Failed to create caption preset");
+  }
+}
+
+/**
+ * Replace the name and style of a preset
+ */
+export async function updateCaptionPresetHandler(req: Request, res: Response) {
+  const params = PresetParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return errorResponseExpress(res, "Invalid caption preset ID", HttpStatus.BAD_REQUEST);
+  }
+
+  const body = CaptionPresetSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid caption preset",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const preset = await captionPresetService.updatePreset(
+      user.id,
+      params.data.id,
+      body.data
+    );
+
+    return successResponseExpress(res, preset);
+  } catch (error: any) {
+    captionPresetLogger.error(`❌ Failed to update caption preset ${params.data.id}:`, error);
+    return sendPresetError(res, error, "Failed to update caption preset");
+  }
+}
+
+/**
+ * Delete a preset. Videos already generated with it keep their captions.
+ */
+export async function deleteCaptionPresetHandler(req: Request, res: Response) {
+  const params = PresetParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return errorResponseExpress(res, "Invalid caption preset ID", HttpStatus.BAD_REQUEST);
+  }
+
+  try {
+    const user = (req as any).user;
+    await captionPresetService.deletePreset(user.id, params.data.id);
+
+    return successResponseExpress(res, { deleted: true });
+  } catch (error: any) {
+    captionPresetLogger.error(`❌ Failed to delete caption preset ${params.data.id}:`, error);
+    return sendPresetError(res, error, "Failed to delete caption preset");
+  }
+}
+
+/**
+ * Render a frame of sample text in a preset style, saved or not
+ */
+export async function previewCaptionPresetHandler(req: Request, res: Response) {
+  const body = PresetPreviewSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid caption preset",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const { aspectRatio, ...preset } = body.data;
+    const snapshotUrl = await captionPresetService.renderPreview(preset, aspectRatio);
+
+    return successResponseExpress(res, { snapshotUrl });
+  } catch (error: any) {
+    captionPresetLogger.error("❌ Failed to preview caption preset:", error);
+    return sendPresetError(res, error, "Failed to preview caption preset");
+  }
+}
@@ -0,0 +1,289 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  successResponseExpress,
+  errorResponseExpress,
+  HttpStatus,
+} from "../../utils/api/responses";
+import { contentPlanService } from "../../services/content-plan/content-plan-service";
+import { getContentPlanScheduler } from "../../services/content-plan/content-plan-runner";
+import { upcomingCronOccurrences } from "../../services/content-plan/cron";
+import { VideoValidationService } from "../../services/video/validation";
+import { ContentPlanSchema, ContentPlanScheduleSchema } from "../../types/content-plan";
+import { logger } from "../../config/logger";
+
+const contentPlanLogger = logger.child({
+  module: "contentPlans",
+});
+
+// Next runs returned with a schedule
+const UPCOMING_RUNS = 5;
+
+const CONTENT_PLAN_STATUS_BY_CODE: Record<string, number> = {
+  CONTENT_PLAN_NOT_FOUND: HttpStatus.NOT_FOUND,
+  CONTENT_PLAN_SCHEDULE_NOT_FOUND: HttpStatus.NOT_FOUND,
+  INVALID_CRON: HttpStatus.BAD_REQUEST,
+};
+
+const PlanParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const RunRequestSchema = z.object({
+  dryRun: z.boolean().optional(),
+});
+
+function sendContentPlanError(res: Response, error: any, fallbackMessage: string) {
+  return errorResponseExpress(
+    res,
+    error.userMessage || fallbackMessage,
+    CONTENT_PLAN_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+  );
+}
+
+function invalidPlanId(res: Response) {
+  return errorResponseExpress(res, "Invalid content plan ID", HttpStatus.BAD_REQUEST);
+}
+
+/**
+ * Content plans of the user, newest first
+ */
+export async function listContentPlansHandler(req: Request, res: Response) {
+  try {
+    const user = (req as any).user;
+    const plans = await contentPlanService.listPlans(user.id);
+
+    return successResponseExpress(res, plans);
+  } catch (error: any) {
+    contentPlanLogger.error("❌ Failed to list content plans:", error);
+    return sendContentPlanError(res, error, "Failed to list content plans");
+  }
+}
+
+export async function createContentPlanHandler(req: Request, res: Response) {
+  const body = ContentPlanSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid content plan",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const plan = await contentPlanService.createPlan(user.id, body.data);
+
+    return successResponseExpress(res, plan, HttpStatus.CREATED);
+  } catch (error: any) {
+    contentPlanLogger.error("❌ Failed to create content plan:", error);
+    return sendContentPlanError(res, error, "Failed to create content plan");
+  }
+}
+
+/**
+ * A content plan with its schedule, null when it is not scheduled
+ */
+export async function getContentPlanHandler(req: Request, res: Response) {
+  const params = PlanParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidPlanId(res);
+  }
+
+  try {
+    const user = (req as any).user;
+    const plan = await contentPlanService.getPlan(user.id, params.data.id);
+    const schedule = await contentPlanService.getSchedule(user.id, params.data.id);
+
+    return successResponseExpress(res, { ...plan, schedule });
+  } catch (error: any) {
+    contentPlanLogger.error(`❌ Failed to get content plan ${params.data.id}:`, error);
+    return sendContentPlanError(res, error, "Failed to get content plan");
+  }
+}
+
+export async function updateContentPlanHandler(req: Request, res: Response) {
+  const params = PlanParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidPlanId(res);
+  }
+
+  const body = ContentPlanSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid content plan",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const plan = await contentPlanService.updatePlan(user.id, params.data.id, body.data);
+
+    return successResponseExpress(res, plan);
+  } catch (error: any) {
+    contentPlanLogger.error(`❌ Failed to update content plan ${params.data.id}:`, error);
+    return sendContentPlanError(res, error, "Failed to update content plan");
+  }
+}
+
+/**
+ * Delete a plan with its schedule. Scripts and videos it made are kept.
+ */
+export async function deleteContentPlanHandler(req: Request, res: Response) {
+  const params = PlanParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidPlanId(res);
+  }
+
+  try {
+    const user = (req as any).user;
+    await contentPlanService.deletePlan(user.id, params.data.id);
+
+    return successResponseExpress(res, { deleted: true });
+  } catch (error: any) {
+    contentPlanLogger.error(`❌ Failed to delete content plan ${params.data.id}:`, error);
+    return sendContentPlanError(res, error, "Failed to delete content plan");
+  }
+}
+
+/**
+ * Create or replace the schedule of a plan: when it runs and the settings of
+ * the videos it generates
+ */
+export async function saveContentPlanScheduleHandler(req: Request, res: Response) {
+  const params = PlanParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidPlanId(res);
+  }
+
+  const body = ContentPlanScheduleSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid content plan schedule",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const plan = await contentPlanService.getPlan(user.id, params.data.id);
+
+    // Same payload as a generation, the prompt comes from the plan
+    const validationResult = VideoValidationService.validateRequest({
+      ...body.data.generationSettings,
+      prompt: plan.topic ?? plan.title,
+    });
+    if (!validationResult.success) {
+      return errorResponseExpress(
+        res,
+        validationResult.error.message,
+        validationResult.error.status,
+        validationResult.error.details
+      );
+    }
+
+    const schedule = await contentPlanService.saveSchedule(user.id, plan.id, body.data);
+    const upcomingRuns = schedule.enabled
+      ? upcomingCronOccurrences(schedule.cron, new Date(), UPCOMING_RUNS)
+      : [];
+
+    return successResponseExpress(res, { ...schedule, upcomingRuns });
+  } catch (error: any) {
+    contentPlanLogger.error(`❌ Failed to schedule content plan ${params.data.id}:`, error);
+    return sendContentPlanError(res, error, "Failed to schedule content plan");
+  }
+}
+
+export async function deleteContentPlanScheduleHandler(req: Request, res: Response) {
+  const params = PlanParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidPlanId(res);
+  }
+
+  try {
+    const user = (req as any).user;
+    await contentPlanService.deleteSchedule(user.id, params.data.id);
+
+    return successResponseExpress(res, { deleted: true });
+  } catch (error: any) {
+    contentPlanLogger.error(
+      `❌ Failed to delete schedule of content plan ${params.data.id}:`,
+      error
+    );
+    return sendContentPlanError(res, error, "Failed to delete content plan schedule");
+  }
+}
+
+/**
+ * Latest runs of a plan with their status, most recent first
+ */
+export async function listContentPlanRunsHandler(req: Request, res: Response) {
+  const params = PlanParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidPlanId(res);
+  }
+
+  try {
+    const user = (req as any).user;
+    await contentPlanService.getPlan(user.id, params.data.id);
+    const runs = await contentPlanService.listRuns(user.id, params.data.id);
+
+    return successResponseExpress(res, runs);
+  } catch (error: any) {
+    contentPlanLogger.error(`❌ Failed to list runs of content plan ${params.data.id}:`, error);
+    return sendContentPlanError(res, error, "Failed to list content plan runs");
+  }
+}
+
+/**
+ * Run a scheduled plan now, out of its schedule. A dry run only records what
+ * would run.
+ */
+export async function runContentPlanHandler(req: Request, res: Response) {
+  const params = PlanParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidPlanId(res);
+  }
+
+  const body = RunRequestSchema.safeParse(req.body ?? {});
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid run request",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const schedule = await contentPlanService.getSchedule(user.id, params.data.id);
+    if (!schedule) {
+      return errorResponseExpress(
+        res,
+        "Schedule the content plan before running it",
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    const run = await getContentPlanScheduler().runNow(schedule, body.data.dryRun);
+    if (!run) {
+      return errorResponseExpress(
+        res,
+        "This content plan already ran this minute",
+        HttpStatus.CONFLICT
+      );
+    }
+
+    return successResponseExpress(res, run, HttpStatus.CREATED);
+  } catch (error: any) {
+    contentPlanLogger.error(`❌ Failed to run content plan ${params.data.id}:`, error);
+    return sendContentPlanError(res, error, "Failed to run content plan");
+  }
+}
@@ -6,7 +6,26 @@ import {
   videoAnalysisHealthHandler,
 } from "./videoAnalysis";
 import { videoDeleteHandler, videoDeleteHealthHandler } from "./videoDelete";
-import { generateVideoHandler, getVideoStatusHandler } from "./videos";
+import {
+  generateVideoHandler,
+  listVideosHandler,
+  getVideoStatusHandler,
+  cancelVideoHandler,
+  retryVideoHandler,
+  videoEventsHandler,
+  previewVideoHandler,
+  renderPreviewHandler,
+  countPreviewRenditions,
+  countRetriedRenditions,
+  countRerenderedRenditions,
+  getVideoScenesHandler,
+  editVideoSceneHandler,
+  rerenderVideoHandler,
+  getVideoSubtitlesHandler,
+  dubVideoHandler,
+  generateVideoBatchHandler,
+  getVideoBatchHandler,
+} from "./videos";
 import {
   saveSourceVideoHandler,
   getSourceVideosHandler,
@@ -22,6 +41,38 @@ import {
   generateVideoFromScriptHandler,
   modifyCurrentScriptHandler,
 } from "./scripts";
+import {
+  getBrandKitHandler,
+  saveBrandKitHandler,
+  deleteBrandKitHandler,
+} from "./brandKit";
+import {
+  listCaptionPresetsHandler,
+  createCaptionPresetHandler,
+  updateCaptionPresetHandler,
+  deleteCaptionPresetHandler,
+  previewCaptionPresetHandler,
+} from "./captionPresets";
+import {
+  listContentPlansHandler,
+  createContentPlanHandler,
+  getContentPlanHandler,
+  updateContentPlanHandler,
+  deleteContentPlanHandler,
+  saveContentPlanScheduleHandler,
+  deleteContentPlanScheduleHandler,
+  listContentPlanRunsHandler,
+  runContentPlanHandler,
+} from "./contentPlans";
+import { createVoiceoverHandler, getVoiceoverHandler } from "./voiceovers";
+import {
+  listUserWebhooksHandler,
+  createUserWebhookHandler,
+  updateUserWebhookHandler,
+  deleteUserWebhookHandler,
+  listUserWebhookDeliveriesHandler,
+  replayUserWebhookDeliveryHandler,
+} from "./userWebhooks";
 import promptsRouter from "./prompts";
 import webhooksRouter from "./webhooks";
 import voiceCloneRouter from "./voiceClone";
@@ -44,6 +95,9 @@ apiRouter.get("/health", async (req, res) => {
     const { testSupabaseConnection } = await import("../../config/supabase");
     const { testS3Connection } = await import("../../config/aws");
     const { AgentService } = await import("../../services/agentService");
+    const { getRenderReconcilerMetrics } = await import(
+      "../../services/render/render-reconciler-runner"
+    );
     
     const agentService = AgentService.getInstance();
     
@@ -67,7 +121,8 @@ apiRouter.get("/health", async (req, res) => {
         agents: agentsStatus.status === 'fulfilled' ? agentsStatus.value : false,
         testsPassing: 47,
         totalTests: 47
-      }
+      },
+      renderReconciler: getRenderReconcilerMetrics(),
     });
   } catch (error) {
     // Even if status checks fail, still return basic health
@@ -204,13 +259,102 @@ authRoutes.post("/source-videos", saveSourceVideoHandler);
 authRoutes.get("/source-videos", getSourceVideosHandler);
 authRoutes.put("/source-videos/:videoId", updateSourceVideoHandler);
 
+/**
+ * Distinct values of a list in a request body, 1 when it is missing
+ */
+function distinctCount(value: unknown): number {
+  return Array.isArray(value) ? new Set(value).size || 1 : 1;
+}
+
 // Video generation endpoints
+// One generated video per aspect ratio, each is rendered as its own video
 authRoutes.post(
   "/videos/generate",
-  usageLimiter(ResourceType.VIDEOS_GENERATED),
+  usageLimiter(ResourceType.VIDEOS_GENERATED, (req) => distinctCount(req.body?.aspectRatios)),
   generateVideoHandler
 );
+authRoutes.post("/videos/preview", previewVideoHandler);
+// A batch counts as one generated video per variant and aspect ratio
+authRoutes.post(
+  "/videos/batch",
+  usageLimiter(
+    ResourceType.VIDEOS_GENERATED,
+    (req) => (Number(req.body?.count) || 1) * distinctCount(req.body?.aspectRatios)
+  ),
+  generateVideoBatchHandler
+);
+authRoutes.get("/videos/batch/:id", getVideoBatchHandler);
+authRoutes.post(
+  "/videos/:previewId/render",
+  usageLimiter(ResourceType.VIDEOS_GENERATED, countPreviewRenditions),
+  renderPreviewHandler
+);
+authRoutes.get("/videos", listVideosHandler);
 authRoutes.get("/videos/status/:id", getVideoStatusHandler);
+authRoutes.post("/videos/:id/cancel", cancelVideoHandler);
+authRoutes.post(
+  "/videos/:id/retry",
+  usageLimiter(ResourceType.VIDEOS_GENERATED, countRetriedRenditions),
+  retryVideoHandler
+);
+authRoutes.get("/videos/:id/events", videoEventsHandler);
+authRoutes.get("/videos/:id/scenes", getVideoScenesHandler);
+authRoutes.get("/videos/:id/scenes/:sceneNumber", getVideoScenesHandler);
+authRoutes.patch("/videos/:id/scenes/:sceneNumber", editVideoSceneHandler);
+authRoutes.get("/videos/:id/subtitles", getVideoSubtitlesHandler);
+authRoutes.post(
+  "/videos/:id/rerender",
+  usageLimiter(ResourceType.VIDEOS_GENERATED, countRerenderedRenditions),
+  rerenderVideoHandler
+);
+// A dub counts as one generated video per language
+authRoutes.post(
+  "/videos/:id/dub",
+  usageLimiter(ResourceType.VIDEOS_GENERATED, (req) => distinctCount(req.body?.languages)),
+  dubVideoHandler
+);
+
+// Brand kit endpoints
+authRoutes.get("/brand-kit", getBrandKitHandler);
+authRoutes.put("/brand-kit", saveBrandKitHandler);
+authRoutes.delete("/brand-kit", deleteBrandKitHandler);
+
+// Caption preset endpoints
+authRoutes.get("/caption-presets", listCaptionPresetsHandler);
+authRoutes.post("/caption-presets", createCaptionPresetHandler);
+authRoutes.post("/caption-presets/preview", previewCaptionPresetHandler);
+authRoutes.put("/caption-presets/:id", updateCaptionPresetHandler);
+authRoutes.delete("/caption-presets/:id", deleteCaptionPresetHandler);
+
+// Content plan endpoints
+authRoutes.get("/content-plans", listContentPlansHandler);
+authRoutes.post("/content-plans", createContentPlanHandler);
+authRoutes.get("/content-plans/:id", getContentPlanHandler);
+authRoutes.put("/content-plans/:id", updateContentPlanHandler);
+authRoutes.delete("/content-plans/:id", deleteContentPlanHandler);
+authRoutes.put("/content-plans/:id/schedule", saveContentPlanScheduleHandler);
+authRoutes.delete("/content-plans/:id/schedule", deleteContentPlanScheduleHandler);
+authRoutes.get("/content-plans/:id/runs", listContentPlanRunsHandler);
+authRoutes.post("/content-plans/:id/run", runContentPlanHandler);
+
+// Voiceover endpoints
+authRoutes.post(
+  "/voiceovers",
+  usageLimiter(ResourceType.VOICEOVERS_GENERATED),
+  createVoiceoverHandler
+);
+authRoutes.get("/voiceovers/:id", getVoiceoverHandler);
+
+// User webhook endpoints (notifications to the user's own tooling)
+authRoutes.get("/user-webhooks", listUserWebhooksHandler);
+authRoutes.post("/user-webhooks", createUserWebhookHandler);
+authRoutes.put("/user-webhooks/:id", updateUserWebhookHandler);
+authRoutes.delete("/user-webhooks/:id", deleteUserWebhookHandler);
+authRoutes.get("/user-webhooks/:id/deliveries", listUserWebhookDeliveriesHandler);
+authRoutes.post(
+  "/user-webhooks/:id/deliveries/:deliveryId/replay",
+  replayUserWebhookDeliveryHandler
+);
 
 // Script chat endpoints
 authRoutes.get("/scripts", getScriptDraftsHandler);
@@ -219,7 +363,11 @@ authRoutes.post("/scripts/chat", scriptChatHandler);
 authRoutes.post("/scripts/:id/validate", validateScriptHandler);
 authRoutes.delete("/scripts/:id", deleteScriptDraftHandler);
 authRoutes.post("/scripts/:id/duplicate", duplicateScriptDraftHandler);
-authRoutes.post("/scripts/generate-video/:id", generateVideoFromScriptHandler);
+authRoutes.post(
+  "/scripts/generate-video/:id",
+  usageLimiter(ResourceType.VIDEOS_GENERATED, (req) => distinctCount(req.body?.aspectRatios)),
+  generateVideoFromScriptHandler
+);
 authRoutes.post(
   "/scripts/modify-current-script/:id",
   modifyCurrentScriptHandler
@@ -240,43 +388,6 @@ authRoutes.use("/support", supportRouter);
 // User management endpoints
 authRoutes.use("/user-management", userManagementRouter);
 
-// List video requests endpoint (simplified - no manual auth needed)
-authRoutes.get("/videos", async (req, res) => {
-  try {
-    // User is already authenticated by middleware, available as req.user
-    const userId = req.user!.id;
-
-    // Get the user's video requests (latest first)
-    const { data: videoRequests, error } = await (
-      await import("../../config/supabase")
-    ).supabase
-      .from("video_requests")
-      .select("id, status, created_at, payload, result_data, error_message")
-      .eq("user_id", userId)
-      .order("created_at", { ascending: false })
-      .limit(50);
-
-    if (error) {
-      console.error("❌ Failed to fetch video requests:", error);
-      return res.status(500).json({
-        success: false,
-        error: "Failed to fetch video requests",
-      });
-    }
-
-    return res.status(200).json({
-      success: true,
-      data: videoRequests || [],
-    });
-  } catch (error) {
-    console.error("❌ List videos error:", error);
-    return res.status(500).json({
-      success: false,
-      error: "Internal server error",
-    });
-  }
-});
-
 // Mount authenticated routes
 apiRouter.use("/", authRoutes);
 
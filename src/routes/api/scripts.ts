@@ -18,7 +18,13 @@ import {
 import { incrementResourceUsage } from "../../middleware/usageLimitMiddleware";
 import { ResourceType } from "../../types/ressource";
 import { GuardAgentService } from "../../services/script/GuardAgentService";
+import { userWebhookService } from "../../services/user-webhooks/user-webhook-service";
 import { User } from "../../types/user";
+import {
+  AspectRatioSchema,
+  BackgroundMusicSchema,
+  TemplateModeSchema,
+} from "../../types/template";
 import { isMonetizationError, MonetizationError, parseMonetizationError } from "editia-core";
 
 const scriptsLogger = logger.child({
@@ -330,6 +336,15 @@ export async function validateScriptHandler(req: Request, res: Response) {
       );
     }
 
+    await userWebhookService.dispatch(user!.id, "script.validated", {
+      scriptId: scriptDraft.id,
+      title: scriptDraft.title,
+      script: scriptDraft.current_script,
+      outputLanguage: scriptDraft.output_language,
+      wordCount: scriptDraft.word_count,
+      estimatedDuration: scriptDraft.estimated_duration,
+    });
+
     return successResponseExpress(res, {
       message: "Script validated successfully",
       script: scriptDraft,
@@ -566,6 +581,9 @@ export async function generateVideoFromScriptHandler(
       outputLanguage: z.string(),
       script: z.string(),
       systemPrompt: z.string(),
+      aspectRatios: z.array(AspectRatioSchema).optional(),
+      templateMode: TemplateModeSchema.optional(),
+      music: BackgroundMusicSchema.optional(),
     });
 
     const { success: successParams, data: dataParams } =
@@ -607,6 +625,9 @@ export async function generateVideoFromScriptHandler(
       script,
       systemPrompt,
       editorialProfile,
+      aspectRatios,
+      templateMode,
+      music,
     } = dataBody;
     // Authenticate user
     const authHeader = req.headers.authorization;
@@ -679,6 +700,9 @@ export async function generateVideoFromScriptHandler(
       captionConfig: captionConfig,
       outputLanguage: outputLanguage,
       editorialProfile: editorialProfile,
+      aspectRatios: aspectRatios,
+      templateMode: templateMode,
+      music: music,
     };
 
     // Validate video generation payload (reusing existing validation)
@@ -713,6 +737,7 @@ export async function generateVideoFromScriptHandler(
       scriptId: result.scriptId, // Use result.scriptId (empty string for consistency)
       status: result.status,
       estimatedCompletionTime: result.estimatedCompletionTime,
+      renditions: result.renditions,
     });
   } catch (error: any) {
     // Use same error handling pattern as original endpoint
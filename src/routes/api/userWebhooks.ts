@@ -0,0 +1,177 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  successResponseExpress,
+  errorResponseExpress,
+  HttpStatus,
+} from "../../utils/api/responses";
+import { userWebhookService } from "../../services/user-webhooks/user-webhook-service";
+import { UserWebhookSchema } from "../../types/user-webhook";
+import { logger } from "../../config/logger";
+
+const userWebhookLogger = logger.child({
+  module: "userWebhooks",
+});
+
+const USER_WEBHOOK_STATUS_BY_CODE: Record<string, number> = {
+  WEBHOOK_NOT_FOUND: HttpStatus.NOT_FOUND,
+  WEBHOOK_DELIVERY_NOT_FOUND: HttpStatus.NOT_FOUND,
+  WEBHOOK_LIMIT_REACHED: HttpStatus.CONFLICT,
+  INVALID_WEBHOOK_URL: HttpStatus.BAD_REQUEST,
+};
+
+const WebhookParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const DeliveryParamsSchema = WebhookParamsSchema.extend({
+  deliveryId: z.string().uuid(),
+});
+
+function sendUserWebhookError(res: Response, error: any, fallbackMessage: string) {
+  return errorResponseExpress(
+    res,
+    error.userMessage || fallbackMessage,
+    USER_WEBHOOK_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+  );
+}
+
+function invalidWebhookId(res: Response) {
+  return errorResponseExpress(res, "Invalid webhook ID", HttpStatus.BAD_REQUEST);
+}
+
+/**
+ * Webhook endpoints of the user, newest first (without their secrets)
+ */
+export async function listUserWebhooksHandler(req: Request, res: Response) {
+  try {
+    const user = (req as any).user;
+    const webhooks = await userWebhookService.listWebhooks(user.id);
+
+    return successResponseExpress(res, webhooks);
+  } catch (error: any) {
+    userWebhookLogger.error("❌ Failed to list webhooks:", error);
+    return sendUserWebhookError(res, error, "Failed to list webhooks");
+  }
+}
+
+/**
+ * Register an endpoint. The response holds the secret signing its deliveries,
+ * which is not shown again.
+ */
+export async function createUserWebhookHandler(req: Request, res: Response) {
+  const body = UserWebhookSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid webhook",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const webhook = await userWebhookService.createWebhook(user.id, body.data);
+
+    return successResponseExpress(res, webhook, HttpStatus.CREATED);
+  } catch (error: any) {
+    userWebhookLogger.error("❌ Failed to create webhook:", error);
+    return sendUserWebhookError(res, error, "Failed to create webhook");
+  }
+}
+
+export async function updateUserWebhookHandler(req: Request, res: Response) {
+  const params = WebhookParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidWebhookId(res);
+  }
+
+  const body = UserWebhookSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid webhook",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const webhook = await userWebhookService.updateWebhook(user.id, params.data.id, body.data);
+
+    return successResponseExpress(res, webhook);
+  } catch (error: any) {
+    userWebhookLogger.error(`❌ Failed to update webhook ${params.data.id}:`, error);
+    return sendUserWebhookError(res, error, "Failed to update webhook");
+  }
+}
+
+export async function deleteUserWebhookHandler(req: Request, res: Response) {
+  const params = WebhookParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidWebhookId(res);
+  }
+
+  try {
+    const user = (req as any).user;
+    await userWebhookService.deleteWebhook(user.id, params.data.id);
+
+    return successResponseExpress(res, { deleted: true });
+  } catch (error: any) {
+    userWebhookLogger.error(`❌ Failed to delete webhook ${params.data.id}:`, error);
+    return sendUserWebhookError(res, error, "Failed to delete webhook");
+  }
+}
+
+/**
+ * Delivery log of a webhook: latest deliveries with their attempts and status
+ */
+export async function listUserWebhookDeliveriesHandler(req: Request, res: Response) {
+  const params = WebhookParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return invalidWebhookId(res);
+  }
+
+  try {
+    const user = (req as any).user;
+    const deliveries = await userWebhookService.listDeliveries(user.id, params.data.id);
+
+    return successResponseExpress(res, deliveries);
+  } catch (error: any) {
+    userWebhookLogger.error(`❌ Failed to list deliveries of webhook ${params.data.id}:`, error);
+    return sendUserWebhookError(res, error, "Failed to list webhook deliveries");
+  }
+}
+
+/**
+ * Send a past delivery again, as a new delivery of the same event
+ */
+export async function replayUserWebhookDeliveryHandler(req: Request, res: Response) {
+  const params = DeliveryParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid webhook or delivery ID",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const delivery = await userWebhookService.replayDelivery(
+      user.id,
+      params.data.id,
+      params.data.deliveryId
+    );
+
+    return successResponseExpress(res, delivery, HttpStatus.CREATED);
+  } catch (error: any) {
+    userWebhookLogger.error(
+      `❌ Failed to replay delivery ${params.data.deliveryId} of webhook ${params.data.id}:`,
+      error
+    );
+    return sendUserWebhookError(res, error, "Failed to replay webhook delivery");
+  }
+}
@@ -1,14 +1,19 @@
 import { Request, Response } from "express";
+import { PostgrestFilterBuilder, SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
 import { supabase } from "../../config/supabase";
 import { ClerkAuthService } from "../../services/clerkAuthService";
 import { VideoValidationService } from "../../services/video/validation";
 import { VideoGeneratorService } from "../../services/video/generator";
+import { VideoBatchService } from "../../services/video/batch-service";
+import { VideoDubbingService } from "../../services/video/dubbing-service";
 import {
   successResponseExpress,
   errorResponseExpress,
   HttpStatus,
 } from "../../utils/api/responses";
-import { CreatomateRenderResponseSchema } from "../../types/renders";
+import { getRenderProvider } from "../../services/render/render-provider";
+import { renderSettlementService } from "../../services/render/render-settlement";
 import {
   usageLimiter,
   incrementResourceUsage,
@@ -16,6 +21,23 @@ import {
 import { VideoRequestStatus } from "../../types/video";
 import { ResourceType } from "../../types/ressource";
 import { logger } from "../../config/logger";
+import {
+  VideoProgressEvent,
+  VideoProgressService,
+  getVideoProgressService,
+} from "../../services/video/progress";
+import {
+  openEventStream,
+  sendStreamKeepAlive,
+  sendStreamMessage,
+} from "../../utils/api/sse";
+import { formatSrt, formatVtt } from "../../services/video/subtitles";
+import { DUBBING_LANGUAGES } from "../../services/video/dubbing";
+import {
+  afterListCursorFilter,
+  decodeListCursor,
+  encodeListCursor,
+} from "../../utils/api/cursor";
 const videoGeneratorLogger = logger.child({
   module: "videoGenerator",
 });
@@ -75,6 +97,7 @@ export async function generateVideoHandler(req: Request, res: Response) {
         scriptId: result.scriptId,
         status: result.status,
         estimatedCompletionTime: result.estimatedCompletionTime,
+        renditions: result.renditions,
       },
       HttpStatus.CREATED
     );
@@ -97,6 +120,742 @@ export async function generateVideoHandler(req: Request, res: Response) {
   }
 }
 
+/**
+ * Videos rendering a stored preview makes: one per aspect ratio it was
+ * previewed with (usage limiter of the preview render route)
+ */
+export async function countPreviewRenditions(req: Request, userId: string): Promise<number> {
+  const { data: preview } = await supabase
+    .from("video_previews")
+    .select("payload")
+    .eq("id", req.params.previewId ?? "")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  const aspectRatios = (preview?.payload as { aspectRatios?: unknown } | null)?.aspectRatios;
+  return Array.isArray(aspectRatios) ? new Set(aspectRatios).size || 1 : 1;
+}
+
+/**
+ * Preview the template of a script draft: scene plan, template and one low
+ * resolution frame per scene. Previews do not count as generated videos.
+ */
+export async function previewVideoHandler(req: Request, res: Response) {
+  const user = (req as any).user;
+  const { scriptId, ...body } = req.body ?? {};
+
+  if (typeof scriptId !== "string" || !scriptId) {
+    return errorResponseExpress(
+      res,
+      "Script ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const previewLogger = videoGeneratorLogger.child({ scriptId, action: "preview" });
+
+  try {
+    const { data: scriptDraft, error: scriptError } = await supabase
+      .from("script_drafts")
+      .select("*")
+      .eq("id", scriptId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (scriptError || !scriptDraft) {
+      return errorResponseExpress(
+        res,
+        "Script draft not found",
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    if (!scriptDraft.current_script?.trim()) {
+      return errorResponseExpress(
+        res,
+        "Script is empty - cannot preview video",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    // Same payload as a generation from this script
+    const validationResult = VideoValidationService.validateRequest({
+      ...body,
+      prompt: scriptDraft.current_script,
+    });
+    if (!validationResult.success) {
+      previewLogger.error("❌ Validation error:", validationResult.error);
+      return errorResponseExpress(
+        res,
+        validationResult.error.message,
+        validationResult.error.status,
+        validationResult.error.details
+      );
+    }
+
+    const videoGenerator = new VideoGeneratorService(user, previewLogger);
+    const preview = await videoGenerator.previewVideoFromScript(
+      scriptDraft,
+      validationResult.payload
+    );
+
+    return successResponseExpress(res, preview, HttpStatus.CREATED);
+  } catch (error: any) {
+    previewLogger.error("❌ Error in video preview:", error);
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || error.message || "Failed to preview video",
+      determineErrorStatusCode(error)
+    );
+  }
+}
+
+/**
+ * Render the template of a stored preview as a full video
+ */
+export async function renderPreviewHandler(req: Request, res: Response) {
+  const { previewId } = req.params;
+  if (!previewId) {
+    return errorResponseExpress(
+      res,
+      "Preview ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const renderLogger = videoGeneratorLogger.child({ previewId, action: "render" });
+
+  try {
+    const user = (req as any).user;
+    const videoGenerator = new VideoGeneratorService(user, renderLogger);
+    const result = await videoGenerator.generateVideoFromPreview(previewId);
+
+    return successResponseExpress(
+      res,
+      {
+        requestId: result.requestId,
+        status: result.status,
+        estimatedCompletionTime: result.estimatedCompletionTime,
+        renditions: result.renditions,
+      },
+      HttpStatus.CREATED
+    );
+  } catch (error: any) {
+    renderLogger.error(`❌ Failed to render preview ${previewId}:`, error);
+
+    const statusByCode: Record<string, number> = {
+      VIDEO_PREVIEW_NOT_FOUND: HttpStatus.NOT_FOUND,
+      SCRIPT_NOT_FOUND: HttpStatus.NOT_FOUND,
+      INVALID_REQUEST_STATE: HttpStatus.CONFLICT,
+    };
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || "Failed to render preview",
+      statusByCode[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+// Variants of one batch
+const MIN_BATCH_VARIANTS = 2;
+const MAX_BATCH_VARIANTS = 5;
+
+const VideoBatchSchema = z
+  .object({
+    variation: z.enum(["hook", "caption_preset", "clip_order"]),
+    count: z.number().int().min(MIN_BATCH_VARIANTS).max(MAX_BATCH_VARIANTS),
+    hooks: z.array(z.string().trim().min(1)).optional(),
+    captionPresetIds: z.array(z.string().min(1)).optional(),
+  })
+  .refine(
+    (batch) => !batch.hooks || (batch.variation === "hook" && batch.hooks.length === batch.count - 1),
+    { message: "hooks are the count - 1 alternatives to the script hook", path: ["hooks"] }
+  )
+  .refine(
+    (batch) =>
+      batch.variation !== "caption_preset" || batch.captionPresetIds?.length === batch.count,
+    { message: "captionPresetIds needs one preset per variant", path: ["captionPresetIds"] }
+  );
+
+// Errors of the batch endpoints
+const BATCH_STATUS_BY_CODE: Record<string, number> = {
+  VIDEO_BATCH_NOT_FOUND: HttpStatus.NOT_FOUND,
+  INVALID_BATCH_VARIANTS: HttpStatus.BAD_REQUEST,
+  SCENE_PLAN_UNAVAILABLE: HttpStatus.CONFLICT,
+  VIDEO_NOT_FOUND: HttpStatus.NOT_FOUND,
+};
+
+/**
+ * Generate variants of a script draft's video that differ by their hook,
+ * caption preset or clip order, to A/B test them
+ */
+export async function generateVideoBatchHandler(req: Request, res: Response) {
+  const user = (req as any).user;
+  const { scriptId, variation, count, hooks, captionPresetIds, ...body } = req.body ?? {};
+
+  if (typeof scriptId !== "string" || !scriptId) {
+    return errorResponseExpress(
+      res,
+      "Script ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const batch = VideoBatchSchema.safeParse({ variation, count, hooks, captionPresetIds });
+  if (!batch.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid video batch",
+      HttpStatus.BAD_REQUEST,
+      batch.error.flatten()
+    );
+  }
+
+  const batchLogger = videoGeneratorLogger.child({ scriptId, action: "batch" });
+
+  try {
+    const { data: scriptDraft, error: scriptError } = await supabase
+      .from("script_drafts")
+      .select("*")
+      .eq("id", scriptId)
+      .eq("user_id", user.id)
+      .single();
+
+    if (scriptError || !scriptDraft) {
+      return errorResponseExpress(
+        res,
+        "Script draft not found",
+        HttpStatus.NOT_FOUND
+      );
+    }
+
+    if (!scriptDraft.current_script?.trim()) {
+      return errorResponseExpress(
+        res,
+        "Script is empty - cannot generate videos",
+        HttpStatus.BAD_REQUEST
+      );
+    }
+
+    // Same payload as a generation from this script
+    const validationResult = VideoValidationService.validateRequest({
+      ...body,
+      prompt: scriptDraft.current_script,
+    });
+    if (!validationResult.success) {
+      batchLogger.error("❌ Validation error:", validationResult.error);
+      return errorResponseExpress(
+        res,
+        validationResult.error.message,
+        validationResult.error.status,
+        validationResult.error.details
+      );
+    }
+
+    const videoBatches = new VideoBatchService(user, batchLogger);
+    const result = await videoBatches.generateVideoBatch(
+      scriptDraft,
+      validationResult.payload,
+      batch.data
+    );
+
+    return successResponseExpress(res, result, HttpStatus.CREATED);
+  } catch (error: any) {
+    batchLogger.error("❌ Error in video batch:", error);
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || "Failed to generate the video batch",
+      BATCH_STATUS_BY_CODE[error.code] ?? determineErrorStatusCode(error)
+    );
+  }
+}
+
+/**
+ * Variants of a video batch with their render status
+ */
+export async function getVideoBatchHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    return errorResponseExpress(
+      res,
+      "Batch ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const videoBatches = new VideoBatchService(
+      user,
+      videoGeneratorLogger.child({ batchId: id, action: "batch_status" })
+    );
+    const result = await videoBatches.getVideoBatch(id);
+
+    return successResponseExpress(res, result);
+  } catch (error: any) {
+    videoGeneratorLogger.error(`❌ Failed to get video batch ${id}:`, error);
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || "Failed to get the video batch",
+      BATCH_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+/**
+ * Cancel a queued or rendering video request
+ */
+export async function cancelVideoHandler(req: Request, res: Response) {
+  return handleVideoLifecycleAction(req, res, "cancel");
+}
+
+/**
+ * Videos retrying a request makes: the request and its renditions that were
+ * not rendered (usage limiter of the retry route)
+ */
+export async function countRetriedRenditions(req: Request, userId: string): Promise<number> {
+  const { count } = await supabase
+    .from("video_requests")
+    .select("id", { count: "exact", head: true })
+    .eq("primary_request_id", req.params.id ?? "")
+    .eq("user_id", userId)
+    .is("render_id", null)
+    .in("render_status", [VideoRequestStatus.ERROR, VideoRequestStatus.CANCELLED]);
+
+  return 1 + (count ?? 0);
+}
+
+/**
+ * Videos re-rendering edited scenes makes: the request and every rendition
+ * rendered again with it (usage limiter of the re-render route)
+ */
+export async function countRerenderedRenditions(req: Request, userId: string): Promise<number> {
+  const { count } = await supabase
+    .from("video_requests")
+    .select("id", { count: "exact", head: true })
+    .eq("primary_request_id", req.params.id ?? "")
+    .eq("user_id", userId)
+    .in("render_status", [
+      VideoRequestStatus.DONE,
+      VideoRequestStatus.ERROR,
+      VideoRequestStatus.CANCELLED,
+    ]);
+
+  return 1 + (count ?? 0);
+}
+
+/**
+ * Retry a failed or cancelled video request from its last successful step
+ */
+export async function retryVideoHandler(req: Request, res: Response) {
+  return handleVideoLifecycleAction(req, res, "retry");
+}
+
+async function handleVideoLifecycleAction(
+  req: Request,
+  res: Response,
+  action: "cancel" | "retry"
+) {
+  const { id } = req.params;
+  if (!id) {
+    return errorResponseExpress(
+      res,
+      "Video ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const videoGenerator = new VideoGeneratorService(
+      user,
+      videoGeneratorLogger.child({ requestId: id, action })
+    );
+
+    const result =
+      action === "cancel"
+        ? await videoGenerator.cancelVideoRequest(id)
+        : await videoGenerator.retryVideoRequest(id);
+
+    return successResponseExpress(res, result);
+  } catch (error: any) {
+    videoGeneratorLogger.error(`❌ Failed to ${action} video ${id}:`, error);
+
+    const statusByCode: Record<string, number> = {
+      VIDEO_REQUEST_NOT_FOUND: HttpStatus.NOT_FOUND,
+      INVALID_REQUEST_STATE: HttpStatus.CONFLICT,
+      NOT_RETRYABLE: HttpStatus.CONFLICT,
+      RETRY_UNAVAILABLE: HttpStatus.CONFLICT,
+    };
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || `Failed to ${action} video`,
+      statusByCode[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+// Errors of the scene editing endpoints
+const SCENE_EDIT_STATUS_BY_CODE: Record<string, number> = {
+  VIDEO_REQUEST_NOT_FOUND: HttpStatus.NOT_FOUND,
+  SCENE_NOT_FOUND: HttpStatus.NOT_FOUND,
+  VIDEO_NOT_FOUND: HttpStatus.NOT_FOUND,
+  INVALID_SCENE_POSITION: HttpStatus.BAD_REQUEST,
+  INVALID_TRIM: HttpStatus.BAD_REQUEST,
+  INVALID_REQUEST_STATE: HttpStatus.CONFLICT,
+  SCENE_PLAN_UNAVAILABLE: HttpStatus.CONFLICT,
+  NO_SCENE_EDITS: HttpStatus.CONFLICT,
+  RETRY_UNAVAILABLE: HttpStatus.CONFLICT,
+  INVALID_DUB_LANGUAGE: HttpStatus.BAD_REQUEST,
+};
+
+const SceneParamsSchema = z.object({
+  id: z.string().min(1),
+  sceneNumber: z.coerce.number().int().positive().optional(),
+});
+
+const SceneEditSchema = z
+  .object({
+    scriptText: z.string().trim().min(1).optional(),
+    videoId: z.string().min(1).optional(),
+    trimStart: z.number().min(0).nullable().optional(),
+    trimDuration: z.number().positive().nullable().optional(),
+    position: z.number().int().positive().optional(),
+  })
+  .strict()
+  .refine((edit) => Object.keys(edit).length > 0, {
+    message: "At least one change is required",
+  });
+
+/**
+ * Scenes of a generated video, or one of them when sceneNumber is given
+ */
+export async function getVideoScenesHandler(req: Request, res: Response) {
+  const params = SceneParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return errorResponseExpress(res, "Invalid scene", HttpStatus.BAD_REQUEST);
+  }
+  const { id, sceneNumber } = params.data;
+
+  try {
+    const user = (req as any).user;
+    const videoGenerator = new VideoGeneratorService(
+      user,
+      videoGeneratorLogger.child({ requestId: id, action: "scenes" })
+    );
+    const result = await videoGenerator.getVideoScenes(id);
+
+    if (sceneNumber === undefined) {
+      return successResponseExpress(res, result);
+    }
+
+    const scene = result.scenes[sceneNumber - 1];
+    if (!scene) {
+      return errorResponseExpress(res, "Scene not found", HttpStatus.NOT_FOUND);
+    }
+    return successResponseExpress(res, scene);
+  } catch (error: any) {
+    videoGeneratorLogger.error(`❌ Failed to get scenes of video ${id}:`, error);
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || "Failed to get video scenes",
+      SCENE_EDIT_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+/**
+ * Edit one scene of a generated video: its video, trims, text or position.
+ * Edits are rendered by POST /videos/:id/rerender.
+ */
+export async function editVideoSceneHandler(req: Request, res: Response) {
+  const params = SceneParamsSchema.safeParse(req.params);
+  if (!params.success || params.data.sceneNumber === undefined) {
+    return errorResponseExpress(res, "Invalid scene", HttpStatus.BAD_REQUEST);
+  }
+  const { id, sceneNumber } = params.data;
+
+  const body = SceneEditSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid scene edit",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const videoGenerator = new VideoGeneratorService(
+      user,
+      videoGeneratorLogger.child({ requestId: id, action: "edit_scene" })
+    );
+    const result = await videoGenerator.editVideoScene(id, sceneNumber, body.data);
+
+    return successResponseExpress(res, result);
+  } catch (error: any) {
+    videoGeneratorLogger.error(
+      `❌ Failed to edit scene ${sceneNumber} of video ${id}:`,
+      error
+    );
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || "Failed to edit scene",
+      SCENE_EDIT_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+/**
+ * Render the scene edits of a video, rebuilding only the edited scenes
+ */
+export async function rerenderVideoHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    return errorResponseExpress(
+      res,
+      "Video ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const videoGenerator = new VideoGeneratorService(
+      user,
+      videoGeneratorLogger.child({ requestId: id, action: "rerender" })
+    );
+    const result = await videoGenerator.rerenderVideoScenes(id);
+
+    return successResponseExpress(res, result);
+  } catch (error: any) {
+    videoGeneratorLogger.error(`❌ Failed to re-render video ${id}:`, error);
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || "Failed to render the video again",
+      SCENE_EDIT_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+// Dubs queued by one request
+const MAX_DUB_LANGUAGES = 5;
+
+const DubRequestSchema = z.object({
+  languages: z.array(z.enum(DUBBING_LANGUAGES)).min(1).max(MAX_DUB_LANGUAGES),
+});
+
+/**
+ * Dub a rendered video into other languages, one new video request per
+ * language
+ */
+export async function dubVideoHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    return errorResponseExpress(
+      res,
+      "Video ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const body = DubRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid dub request",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const videoDubbing = new VideoDubbingService(
+      user,
+      videoGeneratorLogger.child({ requestId: id, action: "dub" })
+    );
+    const dubs = await videoDubbing.dubVideo(id, body.data.languages);
+
+    return successResponseExpress(res, { requestId: id, dubs }, HttpStatus.CREATED);
+  } catch (error: any) {
+    videoGeneratorLogger.error(`❌ Failed to dub video ${id}:`, error);
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || "Failed to dub the video",
+      SCENE_EDIT_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+const SubtitlesQuerySchema = z.object({
+  format: z.enum(["srt", "vtt", "json"]).default("srt"),
+});
+
+// Content type of each subtitle file format
+const SUBTITLE_CONTENT_TYPES = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+};
+
+/**
+ * Sidecar subtitles of a rendered video, as an SRT or WebVTT file or as JSON
+ * cues
+ */
+export async function getVideoSubtitlesHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    return errorResponseExpress(
+      res,
+      "Video ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const query = SubtitlesQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid subtitle format, expected srt, vtt or json",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+  const { format } = query.data;
+
+  try {
+    const user = (req as any).user;
+    const videoGenerator = new VideoGeneratorService(
+      user,
+      videoGeneratorLogger.child({ requestId: id, action: "subtitles" })
+    );
+    const track = await videoGenerator.getVideoSubtitles(id);
+
+    if (format === "json") {
+      return successResponseExpress(res, track);
+    }
+
+    res.setHeader("Content-Type", SUBTITLE_CONTENT_TYPES[format]);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="video-${id}.${format}"`
+    );
+    return res
+      .status(HttpStatus.OK)
+      .send(format === "srt" ? formatSrt(track.cues) : formatVtt(track.cues));
+  } catch (error: any) {
+    videoGeneratorLogger.error(`❌ Failed to export subtitles of video ${id}:`, error);
+
+    return errorResponseExpress(
+      res,
+      error.userMessage || "Failed to export subtitles",
+      SCENE_EDIT_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
+// Intervals of the progress stream
+const PROGRESS_KEEP_ALIVE_INTERVAL = 15000; // 15 seconds
+const PROGRESS_POLL_INTERVAL = 5000; // 5 seconds
+
+/**
+ * Streams the generation progress of a video request as Server-Sent Events.
+ * The stream starts with the current progress and ends after the done, error
+ * or cancelled event.
+ */
+export async function videoEventsHandler(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id) {
+    return errorResponseExpress(
+      res,
+      "Video ID is required",
+      HttpStatus.BAD_REQUEST
+    );
+  }
+
+  const user = (req as any).user;
+  const { data: videoRequest, error } = await supabase
+    .from("video_requests")
+    .select("id, render_status, render_url, error_message, progress")
+    .eq("id", id)
+    .eq("user_id", user.id)
+    .single();
+
+  if (error || !videoRequest) {
+    return errorResponseExpress(
+      res,
+      "Video request not found",
+      HttpStatus.NOT_FOUND
+    );
+  }
+
+  openEventStream(res);
+
+  let lastEvent: VideoProgressEvent | undefined;
+  let closed = false;
+  let unsubscribe = () => {};
+  let keepAlive: NodeJS.Timeout | undefined;
+  let poll: NodeJS.Timeout | undefined;
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    unsubscribe();
+    clearInterval(keepAlive);
+    clearInterval(poll);
+    res.end();
+  };
+
+  const send = (event: VideoProgressEvent) => {
+    // The poll sees again events already received from the bus
+    const stale =
+      lastEvent &&
+      (event.timestamp < lastEvent.timestamp ||
+        (event.timestamp === lastEvent.timestamp &&
+          event.step === lastEvent.step &&
+          event.progress === lastEvent.progress));
+    if (closed || stale) return;
+    lastEvent = event;
+    sendStreamMessage(res, event);
+    if (VideoProgressService.isTerminal(event.step)) {
+      close();
+    }
+  };
+
+  req.on("close", close);
+
+  send(VideoProgressService.snapshot(videoRequest));
+  if (closed) return;
+
+  unsubscribe = getVideoProgressService().subscribe(id, send);
+  keepAlive = setInterval(() => sendStreamKeepAlive(res), PROGRESS_KEEP_ALIVE_INTERVAL);
+
+  // Events published by another instance only reach this one through the database
+  poll = setInterval(async () => {
+    const { data } = await supabase
+      .from("video_requests")
+      .select("id, render_status, render_url, error_message, progress")
+      .eq("id", id)
+      .single();
+
+    if (!data) return;
+    const event = VideoProgressService.snapshot(data);
+    // Snapshots not backed by a stored event only matter once the request is over
+    if (event === data.progress || VideoProgressService.isTerminal(event.step)) {
+      send(event);
+    }
+  }, PROGRESS_POLL_INTERVAL);
+}
+
 /**
  * Determines the appropriate HTTP status code based on error type
  */
@@ -139,6 +898,170 @@ function determineErrorStatusCode(error: any): number {
   return HttpStatus.INTERNAL_SERVER_ERROR;
 }
 
+// Columns of the video list: no template, scene plan nor progress payloads
+const VIDEO_LIST_COLUMNS =
+  "id, render_status, created_at, completed_at, script_id, output_language, aspect_ratio, batch_id, selected_videos, render_url, snapshot_url, render_duration, error_message, archived_render_url, archived_snapshot_url";
+
+const VideoListQuerySchema = z
+  .object({
+    cursor: z.string().optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+    status: z
+      .enum(Object.values(VideoRequestStatus) as [string, ...string[]])
+      .optional(),
+    createdFrom: z.string().datetime({ offset: true }).optional(),
+    createdTo: z.string().datetime({ offset: true }).optional(),
+    scriptId: z.string().uuid().optional(),
+    sourceVideoId: z.string().uuid().optional(),
+    language: z.string().min(2).max(10).optional(),
+  })
+  .refine(
+    (query) =>
+      !query.createdFrom ||
+      !query.createdTo ||
+      Date.parse(query.createdFrom) <= Date.parse(query.createdTo),
+    { message: "createdFrom must be before createdTo", path: ["createdFrom"] }
+  );
+
+type VideoListQuery = z.infer<typeof VideoListQuerySchema>;
+
+/**
+ * Filter builder of a video_requests query selecting `Result`
+ */
+type VideoRequestsQuery<Result> =
+  typeof supabase extends SupabaseClient<infer _Db, infer _Name, infer _Schema, infer Schema, infer Options>
+    ? PostgrestFilterBuilder<
+        Options,
+        Schema,
+        Schema["Tables"]["video_requests"]["Row"],
+        Result,
+        "video_requests",
+        Schema["Tables"]["video_requests"]["Relationships"],
+        "GET"
+      >
+    : never;
+
+/**
+ * Restrict a video_requests query to the user's requests matching the filters
+ */
+function filterVideoRequests<Result>(
+  query: VideoRequestsQuery<Result>,
+  userId: string,
+  filters: VideoListQuery
+): VideoRequestsQuery<Result> {
+  let filtered = query.eq("user_id", userId);
+
+  if (filters.status) {
+    filtered = filtered.eq("render_status", filters.status);
+  }
+  if (filters.createdFrom) {
+    filtered = filtered.gte("created_at", filters.createdFrom);
+  }
+  if (filters.createdTo) {
+    filtered = filtered.lte("created_at", filters.createdTo);
+  }
+  if (filters.scriptId) {
+    filtered = filtered.eq("script_id", filters.scriptId);
+  }
+  if (filters.sourceVideoId) {
+    filtered = filtered.contains("selected_videos", [filters.sourceVideoId]);
+  }
+  if (filters.language) {
+    filtered = filtered.eq("output_language", filters.language);
+  }
+  return filtered;
+}
+
+/**
+ * GET /api/videos
+ * Video requests of the user, newest first, one page after `cursor`.
+ * `totalCount` counts every request matching the filters.
+ */
+export async function listVideosHandler(req: Request, res: Response) {
+  const query = VideoListQuerySchema.safeParse(req.query);
+  if (!query.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid video list query",
+      HttpStatus.BAD_REQUEST,
+      query.error.flatten()
+    );
+  }
+  const filters = query.data;
+
+  const cursor = filters.cursor ? decodeListCursor(filters.cursor) : null;
+  if (filters.cursor && !cursor) {
+    return errorResponseExpress(res, "Invalid cursor", HttpStatus.BAD_REQUEST);
+  }
+
+  try {
+    const user = (req as any).user;
+
+    let pageQuery = filterVideoRequests(
+      supabase.from("video_requests").select(VIDEO_LIST_COLUMNS),
+      user.id,
+      filters
+    );
+    if (cursor) {
+      pageQuery = pageQuery.or(afterListCursorFilter(cursor));
+    }
+
+    // One row more than the page tells whether another page follows
+    const [page, total] = await Promise.all([
+      pageQuery
+        .order("created_at", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(filters.limit + 1),
+      filterVideoRequests(
+        supabase.from("video_requests").select("id", { count: "exact", head: true }),
+        user.id,
+        filters
+      ),
+    ]);
+
+    if (page.error || total.error) {
+      videoGeneratorLogger.error("❌ Failed to fetch video requests:", page.error ?? total.error);
+      return errorResponseExpress(
+        res,
+        "Failed to fetch video requests",
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+
+    const rows = page.data ?? [];
+    const hasMore = rows.length > filters.limit;
+    const pageRows = rows.slice(0, filters.limit);
+    const last = pageRows[pageRows.length - 1];
+
+    // Serve our copies of the renders once archived, the CDN URLs may expire
+    const videos = pageRows.map(
+      ({ archived_render_url, archived_snapshot_url, ...videoRequest }) => ({
+        ...videoRequest,
+        render_url: archived_render_url ?? videoRequest.render_url,
+        snapshot_url: archived_snapshot_url ?? videoRequest.snapshot_url,
+      })
+    );
+
+    return successResponseExpress(res, {
+      videos,
+      totalCount: total.count || 0,
+      hasMore,
+      nextCursor:
+        hasMore && last?.created_at
+          ? encodeListCursor({ createdAt: last.created_at, id: last.id })
+          : null,
+      limit: filters.limit,
+    });
+  } catch (error) {
+    videoGeneratorLogger.error("❌ List videos error:", error);
+    return errorResponseExpress(
+      res,
+      "Internal server error",
+      HttpStatus.INTERNAL_SERVER_ERROR
+    );
+  }
+}
+
 // Get video status endpoint
 export async function getVideoStatusHandler(req: Request, res: Response) {
   try {
@@ -175,75 +1098,52 @@ export async function getVideoStatusHandler(req: Request, res: Response) {
       );
     }
 
-    // If the video is still rendering, check Creatomate status
+    // If the video is still rendering, check the render provider status
     if (
       videoRequest.render_status === VideoRequestStatus.RENDERING &&
       videoRequest.render_id
     ) {
+      const renderProvider = getRenderProvider();
       try {
-        // Check Creatomate status
-        const url = `https://api.creatomate.com/v1/renders/${videoRequest.render_id}`;
-        videoGeneratorLogger.info("url- +api", url);
-        const renderResponse = await fetch(url, {
-          method: "GET",
-          headers: {
-            Authorization: `Bearer ${process.env.CREATOMATE_API_KEY}`,
-          },
-        });
-        videoGeneratorLogger.info("renderResponse- +api", renderResponse);
-
-        if (renderResponse.ok) {
-          const renderData = CreatomateRenderResponseSchema.parse(
-            await renderResponse.json()
+        const renderStatus = await renderProvider.getStatus(
+          videoRequest.render_id
+        );
+        videoGeneratorLogger.info(
+          `${renderProvider.name} render status:`,
+          renderStatus
+        );
+
+        // Final states are applied as the webhook and the reconciler do
+        // (usage, rollback, archive, user webhooks...), once whoever reports first
+        if (renderStatus?.status === "succeeded" || renderStatus?.status === "failed") {
+          await renderSettlementService.settle(
+            { requestId: id, userId: user!.id, scriptId: videoRequest.script_id },
+            {
+              renderId: videoRequest.render_id,
+              status: renderStatus.status,
+              url: renderStatus.url,
+              snapshotUrl: renderStatus.snapshotUrl,
+              duration: renderStatus.duration,
+              error: renderStatus.error,
+            },
+            "status_poll",
+            videoGeneratorLogger.child({ requestId: id, action: "status" })
           );
-          videoGeneratorLogger.info("Creatomate render status:", renderData.status);
-          videoGeneratorLogger.info("Creatomate render data:", renderData);
-          // Update database based on Creatomate status
-          if (renderData.status === "succeeded") {
-            const { error: updateError } = await supabase
-              .from("video_requests")
-              .update({
-                render_status: VideoRequestStatus.DONE,
-                render_url: renderData.url,
-                snapshot_url: renderData.snapshot_url,
-              })
-              .eq("id", id);
-
-            if (updateError) {
-                videoGeneratorLogger.error("Error updating video status:", updateError);
-            } else {
-              // Update the response object with the new status
-              videoRequest.render_status = "done";
-              videoRequest.render_url = renderData.url;
-              videoRequest.snapshot_url = renderData.snapshot_url;
-            }
-          } else if (renderData.status === "failed") {
-            const { error: updateError } = await supabase
-              .from("video_requests")
-              .update({
-                render_status: "error",
-                snapshot_url: null,
-                error_message: "Creatomate render failed",
-              })
-              .eq("id", id);
-
-            if (updateError) {
-              videoGeneratorLogger.error("Error updating video status:", updateError);
-            } else {
-              videoRequest.render_status = "error";
-            }
+
+          const { data: settledRequest } = await supabase
+            .from("video_requests")
+            .select("*")
+            .eq("id", id)
+            .single();
+          if (settledRequest) {
+            return successResponseExpress(res, settledRequest);
           }
-          // If still 'rendering', no need to update
-        } else {
-          videoGeneratorLogger.error(
-            "Error checking Creatomate status:",
-            await renderResponse.text()
-          );
         }
-      } catch (creatomateError) {
+        // If still 'rendering' (or unknown to the provider), no need to update
+      } catch (renderError) {
         videoGeneratorLogger.error(
-          "Error checking Creatomate render status:",
-          creatomateError
+          `Error checking ${renderProvider.name} render status:`,
+          renderError
         );
       }
     }
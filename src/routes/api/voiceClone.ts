@@ -10,6 +10,7 @@ import {
 } from "../../middleware/usageLimitMiddleware";
 import { ResourceType } from "../../types/ressource";
 import { logger } from "../../config/logger";
+import { userWebhookService } from "../../services/user-webhooks/user-webhook-service";
 
 // Configure multer for file uploads
 const upload = multer({
@@ -240,6 +241,11 @@ router.post(
           `✅ Voice clone saved to database for user ${user.id}`
         );
 
+        await userWebhookService.dispatch(user.id, "voice_clone.created", {
+          voiceId: elevenlabsResult.voiceId,
+          name: name.trim(),
+        });
+
         // Step 6: Send response
         return res.status(201).json({
           success: true,
@@ -0,0 +1,90 @@
+import { Request, Response } from "express";
+import { z } from "zod";
+import {
+  successResponseExpress,
+  errorResponseExpress,
+  HttpStatus,
+} from "../../utils/api/responses";
+import { VoiceoverGeneratorService } from "../../services/voiceover/voiceover-generator";
+import { EditorialProfileSchema } from "../../types/video";
+import { logger } from "../../config/logger";
+
+const voiceoverLogger = logger.child({
+  module: "voiceovers",
+});
+
+const VOICEOVER_STATUS_BY_CODE: Record<string, number> = {
+  VOICEOVER_NOT_FOUND: HttpStatus.NOT_FOUND,
+  VOICE_NOT_FOUND: HttpStatus.NOT_FOUND,
+  VOICE_CLONE_REQUIRED: HttpStatus.CONFLICT,
+  ENQUEUE_FAILED: HttpStatus.SERVICE_UNAVAILABLE,
+};
+
+const VoiceoverRequestSchema = z.object({
+  prompt: z.string().trim().min(1).max(2000),
+  systemPrompt: z.string().max(2000).optional(),
+  editorialProfile: EditorialProfileSchema,
+  outputLanguage: z.string().min(2),
+  voiceId: z.string().min(1).optional(),
+  format: z.enum(["mp3", "wav"]).default("mp3"),
+});
+
+const VoiceoverParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+function sendVoiceoverError(res: Response, error: any, fallbackMessage: string) {
+  return errorResponseExpress(
+    res,
+    error.userMessage || fallbackMessage,
+    VOICEOVER_STATUS_BY_CODE[error.code] ?? HttpStatus.INTERNAL_SERVER_ERROR
+  );
+}
+
+/**
+ * Queue a voiceover: the reviewed script of the prompt voiced with a voice
+ * clone of the user, without any video. Poll GET /voiceovers/:id for the audio.
+ */
+export async function createVoiceoverHandler(req: Request, res: Response) {
+  const body = VoiceoverRequestSchema.safeParse(req.body);
+  if (!body.success) {
+    return errorResponseExpress(
+      res,
+      "Invalid voiceover request",
+      HttpStatus.BAD_REQUEST,
+      body.error.flatten()
+    );
+  }
+
+  try {
+    const user = (req as any).user;
+    const voiceoverGenerator = new VoiceoverGeneratorService(user, voiceoverLogger);
+    const voiceover = await voiceoverGenerator.createVoiceover(body.data);
+
+    return successResponseExpress(res, voiceover, HttpStatus.CREATED);
+  } catch (error: any) {
+    voiceoverLogger.error("❌ Failed to create voiceover:", error);
+    return sendVoiceoverError(res, error, "Failed to create voiceover");
+  }
+}
+
+/**
+ * Status of a voiceover, with its audio and sentence timestamps once done
+ */
+export async function getVoiceoverHandler(req: Request, res: Response) {
+  const params = VoiceoverParamsSchema.safeParse(req.params);
+  if (!params.success) {
+    return errorResponseExpress(res, "Invalid voiceover ID", HttpStatus.BAD_REQUEST);
+  }
+
+  try {
+    const user = (req as any).user;
+    const voiceoverGenerator = new VoiceoverGeneratorService(user, voiceoverLogger);
+    const voiceover = await voiceoverGenerator.getVoiceover(params.data.id);
+
+    return successResponseExpress(res, voiceover);
+  } catch (error: any) {
+    voiceoverLogger.error(`❌ Failed to get voiceover ${params.data.id}:`, error);
+    return sendVoiceoverError(res, error, "Failed to get voiceover");
+  }
+}
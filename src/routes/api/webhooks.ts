@@ -1,9 +1,14 @@
 import { Router, Request, Response } from "express";
 import { supabase } from "../../config/supabase";
-import { successResponseExpress } from "../../utils/api/responses";
 import { logger } from "../../config/logger";
-import { incrementResourceUsage } from "../../middleware/usageLimitMiddleware";
-import { ResourceType } from "../../types/ressource";
+import { RenderMetadata } from "../../types/renders";
+import { VideoRequestStatus } from "../../types/video";
+import { renderSettlementService } from "../../services/render/render-settlement";
+import {
+  getRenderWebhookSecret,
+  RENDER_WEBHOOK_SIGNATURE_PARAM,
+  verifyRenderWebhookSignature,
+} from "../../services/render/webhook-signature";
 
 const router = Router();
 
@@ -23,16 +28,14 @@ interface CreatomateWebhookData {
   error?: string; // Error message if failed
 }
 
-interface RenderMetadata {
-  requestId: string;
-  userId: string;
-  scriptId?: string;
-  prompt?: string;
-  timestamp?: string;
-}
-
 /**
- * Webhook endpoint for Creatomate render status updates
+ * Webhook endpoint for render status updates.
+ * Called by Creatomate and by the local FFmpeg renderer, which mimics its payload,
+ * on the URL signed for the render (see webhook-signature).
+ *
+ * Each final status of a render is processed once, whether it is reported by
+ * this webhook or found by the render reconciler: replayed deliveries are
+ * acknowledged without effect.
  */
 router.post("/creatomate", async (req: Request, res: Response) => {
   try {
@@ -79,10 +82,27 @@ router.post("/creatomate", async (req: Request, res: Response) => {
       });
     }
 
+    if (
+      !verifyRenderWebhookSignature(
+        req.query[RENDER_WEBHOOK_SIGNATURE_PARAM],
+        { requestId, userId }
+      )
+    ) {
+      creatomateWebhookChildLogger.error(
+        getRenderWebhookSecret()
+          ? "❌ Invalid render webhook signature"
+          : "❌ RENDER_WEBHOOK_SECRET is not set, render webhooks cannot be verified"
+      );
+      return res.status(401).json({
+        error: "Invalid webhook signature",
+        code: "INVALID_SIGNATURE",
+      });
+    }
+
     // Verify the request exists
     const { data: requestData, error: requestError } = await supabase
       .from("video_requests")
-      .select("id, user_id")
+      .select("id, user_id, render_id, superseded_render_ids, render_status")
       .eq("id", requestId)
       .single();
 
@@ -109,31 +129,27 @@ router.post("/creatomate", async (req: Request, res: Response) => {
       });
     }
 
-    // Update video request status based on render status
-    let updateData: Record<string, any> = {};
-
-    if (webhookData.status === "succeeded") {
-      updateData = {
-        render_status: "done",
-        render_url: webhookData.url,
-        render_duration: webhookData.duration,
-      };
-    await incrementResourceUsage(userId, ResourceType.VIDEOS_GENERATED);
-
+    // Ignore renders the request no longer waits for: the request was
+    // cancelled, already settled (e.g. timed out by the render reconciler),
+    // or retried / re-rendered and a newer render replaced this one, even
+    // before the new render started
+    if (
+      requestData.render_status === VideoRequestStatus.CANCELLED ||
+      requestData.render_status === "done" ||
+      requestData.render_status === "error" ||
+      (requestData.render_id && requestData.render_id !== webhookData.id) ||
+      requestData.superseded_render_ids?.includes(webhookData.id)
+    ) {
       creatomateWebhookChildLogger.info(
-        `✅ Render succeeded for request ${requestId}, URL: ${webhookData.url}`
+        `⏭️ Ignoring render ${webhookData.id} for request ${requestId} (status ${requestData.render_status}, current render ${requestData.render_id})`
       );
-    } else if (webhookData.status === "failed") {
-      updateData = {
-        render_status: "error",
-        error_message: webhookData.error || "Unknown error",
-      };
-      creatomateWebhookChildLogger.info(
-        `❌ Render failed for request ${requestId}: ${
-          webhookData.error || "Unknown error"
-        }`
-      );
-    } else {
+      return res.json({
+        message: "Render no longer tracked by this request",
+        success: true,
+      });
+    }
+
+    if (webhookData.status !== "succeeded" && webhookData.status !== "failed") {
       // For any other status, we log but don't update
       creatomateWebhookChildLogger.info(
         `📝 Received status ${webhookData.status} for request ${requestId}`
@@ -144,85 +160,37 @@ router.post("/creatomate", async (req: Request, res: Response) => {
       });
     }
 
-    // Update the database
-    const { error: updateError } = await supabase
-      .from("video_requests")
-      .update(updateData)
-      .eq("id", requestId);
-
-    if (updateError) {
-      creatomateWebhookChildLogger.error(
-        "❌ Error updating video request:",
-        updateError
+    let settled: boolean;
+    try {
+      settled = await renderSettlementService.settle(
+        { requestId, userId, scriptId: metadata.scriptId },
+        {
+          renderId: webhookData.id,
+          status: webhookData.status,
+          url: webhookData.url,
+          snapshotUrl: webhookData.snapshot_url,
+          duration: webhookData.duration,
+          fileSize: webhookData.file_size,
+          error: webhookData.error,
+        },
+        "webhook",
+        creatomateWebhookChildLogger
       );
+    } catch (settleError: any) {
+      if (settleError?.code !== "UPDATE_FAILED") {
+        throw settleError;
+      }
       return res.status(500).json({
         error: "Failed to update video request",
         code: "UPDATE_FAILED",
       });
     }
 
-    // Only increment usage counter on successful renders
-    if (webhookData.status === "succeeded") {
-      try {
-        // Increment user's videos_generated counter by first getting current value
-        const { data: currentUsage, error: fetchError } = await supabase
-          .from("user_usage")
-          .select("videos_generated")
-          .eq("user_id", userId)
-          .single();
-
-        if (fetchError) {
-          creatomateWebhookChildLogger.error(
-            "❌ Error fetching current usage:",
-            fetchError
-          );
-          return;
-        }
-
-        const { error: usageError } = await supabase
-          .from("user_usage")
-          .update({
-            videos_generated: (currentUsage?.videos_generated || 0) + 1,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("user_id", userId);
-
-        if (usageError) {
-          creatomateWebhookChildLogger.error(
-            "❌ Error incrementing videos_generated:",
-            usageError
-          );
-        } else {
-          creatomateWebhookChildLogger.info(
-            `✅ Incremented videos_generated for user ${userId}`
-          );
-        }
-      } catch (error) {
-        creatomateWebhookChildLogger.error(
-          "❌ Error updating user usage:",
-          error
-        );
-      }
-    }
-
-    // Log the activity (optional, non-blocking)
-    try {
-      await supabase.from("logs").insert({
-        user_id: userId,
-        action: `render_${webhookData.status}`,
-        metadata: {
-          requestId,
-          renderId: webhookData.id,
-          status: webhookData.status,
-          scriptId: metadata.scriptId,
-          url: webhookData.url,
-          duration: webhookData.duration,
-          size: webhookData.file_size,
-        },
-        created_at: new Date().toISOString(),
+    if (!settled) {
+      return res.json({
+        message: "Event already processed",
+        success: true,
       });
-    } catch (logError) {
-      creatomateWebhookChildLogger.warn("⚠️ Error logging activity:", logError);
     }
 
     return res.json({
@@ -240,15 +208,12 @@ router.post("/creatomate", async (req: Request, res: Response) => {
       metadata: req.body.metadata,
       templateId: req.body.template_id,
     });
-    res.status(500).json({
+    return res.status(500).json({
       error: "Failed to process webhook",
       code: "WEBHOOK_ERROR",
       message: error instanceof Error ? error.message : "Unknown error",
     });
   }
-  return successResponseExpress(res, {
-    message: "Webhook processed successfully",
-  });
 });
 
 export default router;
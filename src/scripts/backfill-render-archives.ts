@@ -0,0 +1,39 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Queue the copy to S3 of every finished render not archived yet.
+ * The copies are made by the job workers of the server.
+ *
+ * Usage: npm run archive:backfill -- [limit]
+ */
+import dotenv from "dotenv";
+
+// Load environment variables before the config modules read them
+dotenv.config();
+
+const DEFAULT_LIMIT = 500;
+
+async function backfillRenderArchives() {
+  const { getRenderArchiver } = await import("../services/render/render-archiver");
+
+  if (process.env.JOB_QUEUE_DRIVER === "memory") {
+    console.error("❌ JOB_QUEUE_DRIVER=memory: jobs queued here would never reach the server");
+    process.exit(1);
+  }
+
+  const limit = Number(process.argv[2]) || DEFAULT_LIMIT;
+  console.log(`🗄️ Queueing archives of up to ${limit} renders...`);
+
+  const queued = await getRenderArchiver().queueBackfill(limit);
+  console.log(`✅ Queued ${queued} render archive(s)`);
+  if (queued === limit) {
+    console.log("ℹ️ More renders may be left, run the command again once these are archived");
+  }
+}
+
+backfillRenderArchives()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("❌ Render archive backfill failed:", error);
+    process.exit(1);
+  });
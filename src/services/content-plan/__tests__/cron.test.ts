@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { nextCronOccurrence, parseCronExpression, upcomingCronOccurrences } from '../cron';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('parseCronExpression', () => {
+  it('should expand values, ranges, lists and steps', () => {
+    const schedule = parseCronExpression('*/15 9-11 1,15 * 7');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 10, 11]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.daysOfWeek]).toEqual([0]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => parseCronExpression('0 9 * *')).toThrow('5 fields');
+    expect(() => parseCronExpression('0 24 * * *')).toThrow('Invalid hour "24"');
+    expect(() => parseCronExpression('0 9 * * mon')).toThrow('Invalid day of week');
+  });
+});
+
+describe('nextCronOccurrence', () => {
+  it('should give 3 runs per week', () => {
+    // Tuesday
+    const after = new Date('2026-03-03T10:00:00Z');
+
+    expect(iso(upcomingCronOccurrences('0 9 * * 1,3,5', after, 4))).toEqual([
+      '2026-03-04T09:00:00.000Z',
+      '2026-03-06T09:00:00.000Z',
+      '2026-03-09T09:00:00.000Z',
+      '2026-03-11T09:00:00.000Z',
+    ]);
+  });
+
+  it('should run strictly after the given time', () => {
+    const schedule = parseCronExpression('30 8 * * *');
+
+    expect(nextCronOccurrence(schedule, new Date('2026-03-03T08:30:00Z'))?.toISOString()).toBe(
+      '2026-03-04T08:30:00.000Z'
+    );
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 13th or any Friday
+    expect(iso(upcomingCronOccurrences('0 0 13 * 5', new Date('2026-03-01T00:00:00Z'), 3))).toEqual([
+      '2026-03-06T00:00:00.000Z',
+      '2026-03-13T00:00:00.000Z',
+      '2026-03-20T00:00:00.000Z',
+    ]);
+  });
+
+  it('should find leap days and give up on impossible dates', () => {
+    expect(
+      nextCronOccurrence(parseCronExpression('0 12 29 2 *'), new Date('2026-03-01T00:00:00Z'))?.toISOString()
+    ).toBe('2028-02-29T12:00:00.000Z');
+    expect(nextCronOccurrence(parseCronExpression('0 12 30 2 *'), new Date('2026-03-01T00:00:00Z'))).toBeNull();
+  });
+});
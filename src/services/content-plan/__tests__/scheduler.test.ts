@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ContentPlanExecutor,
+  ContentPlanRunResult,
+  ContentPlanScheduleStore,
+  ContentPlanScheduler,
+} from '../scheduler';
+import { Clock } from '../../../utils/interval-runner';
+import { createMockLogger } from '../../../test-helpers/mock-logger';
+import { ContentPlanRun, ContentPlanSchedule } from '../../../types/content-plan';
+
+class InMemoryScheduleStore implements ContentPlanScheduleStore {
+  schedules = new Map<string, ContentPlanSchedule>();
+  runs: ContentPlanRun[] = [];
+
+  async listDueSchedules(now: Date) {
+    return [...this.schedules.values()].filter(
+      (schedule) => schedule.enabled && schedule.nextRunAt && new Date(schedule.nextRunAt) <= now
+    );
+  }
+
+  async claimRun(schedule: ContentPlanSchedule, scheduledFor: Date) {
+    const taken = this.runs.some(
+      (run) => run.scheduleId === schedule.id && run.scheduledFor === scheduledFor.toISOString()
+    );
+    if (taken) {
+      return null;
+    }
+    const run: ContentPlanRun = {
+      id: `run-${this.runs.length + 1}`,
+      scheduleId: schedule.id,
+      contentPlanId: schedule.contentPlanId,
+      scheduledFor: scheduledFor.toISOString(),
+      status: 'running',
+      reason: null,
+      scriptDraftId: null,
+      videoRequestId: null,
+      createdAt: scheduledFor.toISOString(),
+      finishedAt: null,
+    };
+    this.runs.push(run);
+    return run;
+  }
+
+  async finishRun(runId: string, result: ContentPlanRunResult, finishedAt: Date) {
+    const run = this.runs.find((candidate) => candidate.id === runId)!;
+    Object.assign(run, {
+      status: result.status,
+      reason: result.reason ?? null,
+      scriptDraftId: result.scriptDraftId ?? null,
+      videoRequestId: result.videoRequestId ?? null,
+      finishedAt: finishedAt.toISOString(),
+    });
+    return run;
+  }
+
+  async setNextRun(scheduleId: string, nextRunAt: Date | null, lastRunAt: Date) {
+    const schedule = this.schedules.get(scheduleId)!;
+    schedule.nextRunAt = nextRunAt?.toISOString() ?? null;
+    schedule.lastRunAt = lastRunAt.toISOString();
+  }
+}
+
+describe('ContentPlanScheduler', () => {
+  let store: InMemoryScheduleStore;
+  let executor: { hasVideoQuota: ReturnType<typeof vi.fn>; execute: ReturnType<typeof vi.fn> };
+  let now: Date;
+  let scheduler: ContentPlanScheduler;
+
+  const clock: Clock = { now: () => new Date(now) };
+
+  function addSchedule(overrides: Partial<ContentPlanSchedule> = {}): ContentPlanSchedule {
+    const schedule: ContentPlanSchedule = {
+      id: 'schedule-1',
+      userId: 'user-1',
+      contentPlanId: 'plan-1',
+      // 3 videos per week
+      cron: '0 9 * * 1,3,5',
+      generationSettings: {},
+      dryRun: false,
+      enabled: true,
+      nextRunAt: '2026-03-04T09:00:00.000Z',
+      lastRunAt: null,
+      ...overrides,
+    };
+    store.schedules.set(schedule.id, schedule);
+    return schedule;
+  }
+
+  beforeEach(() => {
+    store = new InMemoryScheduleStore();
+    executor = {
+      hasVideoQuota: vi.fn().mockResolvedValue(true),
+      execute: vi.fn().mockResolvedValue({ scriptDraftId: 'draft-1', videoRequestId: 'video-1' }),
+    };
+    now = new Date('2026-03-04T09:00:30Z');
+    scheduler = new ContentPlanScheduler({
+      store,
+      executor: executor as ContentPlanExecutor,
+      logger: createMockLogger(),
+      clock,
+    });
+  });
+
+  it('should run due schedules and move them to their next time', async () => {
+    addSchedule();
+
+    expect(await scheduler.tick()).toBe(1);
+
+    expect(store.runs).toEqual([
+      expect.objectContaining({
+        scheduledFor: '2026-03-04T09:00:00.000Z',
+        status: 'succeeded',
+        scriptDraftId: 'draft-1',
+        videoRequestId: 'video-1',
+      }),
+    ]);
+    expect(store.schedules.get('schedule-1')?.nextRunAt).toBe('2026-03-06T09:00:00.000Z');
+  });
+
+  it('should not run schedules before their time', async () => {
+    addSchedule();
+    now = new Date('2026-03-04T08:59:00Z');
+
+    expect(await scheduler.tick()).toBe(0);
+    expect(executor.execute).not.toHaveBeenCalled();
+  });
+
+  it('should run a slot once', async () => {
+    const schedule = addSchedule();
+    await store.claimRun(schedule, new Date('2026-03-04T09:00:00Z'));
+
+    expect(await scheduler.tick()).toBe(0);
+    expect(executor.execute).not.toHaveBeenCalled();
+    expect(store.schedules.get('schedule-1')?.nextRunAt).toBe('2026-03-06T09:00:00.000Z');
+  });
+
+  it('should catch up missed slots with a single run', async () => {
+    addSchedule();
+    now = new Date('2026-03-10T12:00:00Z');
+
+    expect(await scheduler.tick()).toBe(1);
+    expect(await scheduler.tick()).toBe(0);
+    expect(store.schedules.get('schedule-1')?.nextRunAt).toBe('2026-03-11T09:00:00.000Z');
+  });
+
+  it('should skip runs of users without video quota', async () => {
+    addSchedule();
+    executor.hasVideoQuota.mockResolvedValue(false);
+
+    await scheduler.tick();
+
+    expect(executor.execute).not.toHaveBeenCalled();
+    expect(store.runs[0]).toMatchObject({ status: 'skipped', reason: 'Video generation limit reached' });
+  });
+
+  it('should only record dry runs', async () => {
+    addSchedule({ dryRun: true });
+
+    await scheduler.tick();
+
+    expect(executor.execute).not.toHaveBeenCalled();
+    expect(store.runs[0]?.status).toBe('dry_run');
+  });
+
+  it('should record failed runs and keep the schedule going', async () => {
+    addSchedule();
+    executor.execute.mockRejectedValue(new Error('No source videos left'));
+
+    await scheduler.tick();
+
+    expect(store.runs[0]).toMatchObject({ status: 'failed', reason: 'No source videos left' });
+    expect(store.schedules.get('schedule-1')?.nextRunAt).toBe('2026-03-06T09:00:00.000Z');
+  });
+
+  it('should run a plan now once per minute', async () => {
+    const schedule = addSchedule();
+
+    const run = await scheduler.runNow(schedule, true);
+
+    expect(run).toMatchObject({ scheduledFor: '2026-03-04T09:00:00.000Z', status: 'dry_run' });
+    expect(await scheduler.runNow(schedule)).toBeNull();
+  });
+});
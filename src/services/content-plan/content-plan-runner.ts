@@ -0,0 +1,145 @@
+import { supabase } from "../../config/supabase";
+import { logger } from "../../config/logger";
+import { MODELS } from "../../config/openai";
+import { VIDEO_DURATION_FACTOR } from "../../config/video-constants";
+import { ContentPlan, ContentPlanSchedule } from "../../types/content-plan";
+import { ResourceType } from "../../types/ressource";
+import { ScriptGenerator } from "../scriptGenerator";
+import { ScriptReviewer } from "../scriptReviewer";
+import { checkUsageLimit } from "../usageTrackingService";
+import { VideoGeneratorService } from "../video/generator";
+import { VideoValidationService } from "../video/validation";
+import { contentPlanService } from "./content-plan-service";
+import { ContentPlanExecutor, ContentPlanScheduler } from "./scheduler";
+
+/**
+ * Prompt writing the script of a plan that has none
+ */
+export function buildContentPlanPrompt(plan: ContentPlan): string {
+  return [
+    `Write a short video script about: ${plan.topic ?? plan.title}`,
+    plan.funnelStage && `Funnel stage: ${plan.funnelStage}`,
+    plan.targetAudiencePsych && `Target audience psychology: ${plan.targetAudiencePsych}`,
+    plan.offerContext && `Offer context: ${JSON.stringify(plan.offerContext)}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Runs content plans for the scheduler: writes a script draft from the plan
+ * (its script, or one written from its topic) and queues the video of the
+ * draft with the generation settings of the schedule
+ */
+export class ContentPlanVideoExecutor implements ContentPlanExecutor {
+  async hasVideoQuota(userId: string): Promise<boolean> {
+    const { limitReached } = await checkUsageLimit(userId, ResourceType.VIDEOS_GENERATED);
+    return !limitReached;
+  }
+
+  async execute(
+    schedule: ContentPlanSchedule
+  ): Promise<{ scriptDraftId: string; videoRequestId: string }> {
+    const runLogger = logger.child({
+      module: "contentPlanRunner",
+      scheduleId: schedule.id,
+      contentPlanId: schedule.contentPlanId,
+      userId: schedule.userId,
+    });
+
+    const { data: user, error: userError } = await supabase
+      .from("users")
+      .select("*")
+      .eq("id", schedule.userId)
+      .single();
+
+    if (userError || !user) {
+      throw new Error(`User ${schedule.userId} not found`);
+    }
+
+    const plan = await contentPlanService.getPlan(schedule.userId, schedule.contentPlanId);
+
+    // Settings are checked again: the videos or profile may have changed
+    const settings = VideoValidationService.validateRequest({
+      ...schedule.generationSettings,
+      prompt: plan.topic ?? plan.title,
+    });
+    if (!settings.success) {
+      throw new Error(`Invalid generation settings: ${settings.error.message}`);
+    }
+    const { editorialProfile, outputLanguage, systemPrompt = "" } = settings.payload;
+
+    let script = plan.script;
+    if (!script) {
+      runLogger.info("🤖 Writing the script of the content plan...");
+      const prompt = buildContentPlanPrompt(plan);
+      const generatedScript = await ScriptGenerator.getInstance(MODELS["o4-mini"]).generate(
+        prompt,
+        editorialProfile,
+        systemPrompt
+      );
+      script = await ScriptReviewer.getInstance(MODELS["o4-mini"]).review(
+        generatedScript,
+        editorialProfile,
+        `System Prompt from the user:
+        ${systemPrompt}
+
+        User Prompt:
+        ${prompt}
+
+        Output Language: ${outputLanguage}
+        `
+      );
+    }
+
+    const wordCount = script.split(/\s+/).filter(Boolean).length;
+    const { data: scriptDraft, error: draftError } = await supabase
+      .from("script_drafts")
+      .insert({
+        user_id: schedule.userId,
+        title: plan.title ?? plan.topic ?? "Content plan",
+        status: "validated",
+        current_script: script,
+        messages: [],
+        output_language: outputLanguage,
+        word_count: wordCount,
+        estimated_duration: Math.round(wordCount * VIDEO_DURATION_FACTOR),
+        message_count: 0,
+        version: 1,
+        source_type: "content_plan",
+        source_data: { contentPlanId: plan.id, scheduleId: schedule.id },
+      })
+      .select("*")
+      .single();
+
+    if (draftError || !scriptDraft) {
+      throw new Error(`Failed to create the script draft: ${draftError?.message}`);
+    }
+
+    const videoGenerator = new VideoGeneratorService(user, runLogger);
+    const result = await videoGenerator.generateVideoFromScript(
+      scriptDraft,
+      { ...settings.payload, prompt: script },
+      runLogger
+    );
+
+    return { scriptDraftId: scriptDraft.id, videoRequestId: result.requestId };
+  }
+}
+
+let contentPlanScheduler: ContentPlanScheduler | null = null;
+
+/**
+ * Scheduler of the process, running content plans into videos
+ */
+export function getContentPlanScheduler(): ContentPlanScheduler {
+  if (!contentPlanScheduler) {
+    contentPlanScheduler = new ContentPlanScheduler({
+      store: contentPlanService,
+      executor: new ContentPlanVideoExecutor(),
+      logger: logger.child({ module: "contentPlanScheduler" }),
+      pollIntervalMs: Number(process.env.CONTENT_PLAN_SCHEDULER_INTERVAL_MS) || undefined,
+    });
+  }
+  return contentPlanScheduler;
+}
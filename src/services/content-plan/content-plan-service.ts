@@ -0,0 +1,442 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database, Json } from "../../config/supabase-types";
+import {
+  ContentPlan,
+  ContentPlanInput,
+  ContentPlanRun,
+  ContentPlanRunStatus,
+  ContentPlanSchedule,
+  ContentPlanScheduleInput,
+} from "../../types/content-plan";
+import { VideoValidationService } from "../video/validation";
+import { Logger } from "../video/watermark-service";
+import { nextCronOccurrence, parseCronExpression } from "./cron";
+import { ContentPlanRunResult, ContentPlanScheduleStore } from "./scheduler";
+
+type ContentPlanRow = Database["public"]["Tables"]["content_plans"]["Row"];
+type ScheduleRow = Database["public"]["Tables"]["content_plan_schedules"]["Row"];
+type RunRow = Database["public"]["Tables"]["content_plan_runs"]["Row"];
+
+// Postgres unique violation
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Service storing the content plans of a user, their schedules and the runs
+ * the scheduler made of them
+ */
+export class ContentPlanService implements ContentPlanScheduleStore {
+  private static readonly MAX_LISTED_RUNS = 50;
+
+  private db: SupabaseClient;
+  private log: Logger;
+
+  constructor(db?: SupabaseClient, log?: Logger) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    if (db) {
+      this.db = db;
+    } else {
+      try {
+        const { supabase } = require("../../config/supabase");
+        this.db = supabase;
+      } catch (error) {
+        this.db = {} as SupabaseClient;
+      }
+    }
+
+    if (log) {
+      this.log = log;
+    } else {
+      try {
+        const { logger } = require("../../config/logger");
+        this.log = logger;
+      } catch (error) {
+        this.log = {
+          info: () => {},
+          warn: () => {},
+          error: () => {},
+        };
+      }
+    }
+  }
+
+  async listPlans(userId: string): Promise<ContentPlan[]> {
+    const { data: rows, error } = await this.db
+      .from("content_plans")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw ContentPlanService.databaseError("list content plans", error);
+    }
+    return (rows ?? []).map(ContentPlanService.planFromRow);
+  }
+
+  /**
+   * @throws CONTENT_PLAN_NOT_FOUND
+   */
+  async getPlan(userId: string, planId: string): Promise<ContentPlan> {
+    const { data: row, error } = await this.db
+      .from("content_plans")
+      .select("*")
+      .eq("id", planId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw ContentPlanService.databaseError("get content plan", error);
+    }
+    if (!row) {
+      throw ContentPlanService.planNotFoundError(planId);
+    }
+    return ContentPlanService.planFromRow(row);
+  }
+
+  async createPlan(userId: string, plan: ContentPlanInput): Promise<ContentPlan> {
+    const { data: row, error } = await this.db
+      .from("content_plans")
+      .insert({ user_id: userId, ...ContentPlanService.planToRow(plan) })
+      .select("*")
+      .single();
+
+    if (error || !row) {
+      throw ContentPlanService.databaseError("create content plan", error);
+    }
+
+    this.log.info(`🗂️ Created content plan ${row.id} for user ${userId}`);
+    return ContentPlanService.planFromRow(row);
+  }
+
+  async updatePlan(userId: string, planId: string, plan: ContentPlanInput): Promise<ContentPlan> {
+    const { data: row, error } = await this.db
+      .from("content_plans")
+      .update({ ...ContentPlanService.planToRow(plan), updated_at: new Date().toISOString() })
+      .eq("id", planId)
+      .eq("user_id", userId)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      throw ContentPlanService.databaseError("update content plan", error);
+    }
+    if (!row) {
+      throw ContentPlanService.planNotFoundError(planId);
+    }
+    return ContentPlanService.planFromRow(row);
+  }
+
+  /**
+   * Deletes a plan with its schedule and runs. Scripts and videos it made stay.
+   */
+  async deletePlan(userId: string, planId: string): Promise<void> {
+    const { data, error } = await this.db
+      .from("content_plans")
+      .delete()
+      .eq("id", planId)
+      .eq("user_id", userId)
+      .select("id");
+
+    if (error) {
+      throw ContentPlanService.databaseError("delete content plan", error);
+    }
+    if (!data?.length) {
+      throw ContentPlanService.planNotFoundError(planId);
+    }
+  }
+
+  /**
+   * @returns null when the plan has no schedule
+   */
+  async getSchedule(userId: string, planId: string): Promise<ContentPlanSchedule | null> {
+    const { data: row, error } = await this.db
+      .from("content_plan_schedules")
+      .select("*")
+      .eq("content_plan_id", planId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw ContentPlanService.databaseError("get content plan schedule", error);
+    }
+    return row ? ContentPlanService.scheduleFromRow(row) : null;
+  }
+
+  /**
+   * Creates or replaces the schedule of a plan. Its next run is the next
+   * time of the cron expression.
+   * @throws INVALID_CRON when the expression cannot be parsed or never runs
+   */
+  async saveSchedule(
+    userId: string,
+    planId: string,
+    schedule: ContentPlanScheduleInput,
+    now: Date = new Date()
+  ): Promise<ContentPlanSchedule> {
+    await this.getPlan(userId, planId);
+
+    let nextRunAt: Date | null;
+    try {
+      nextRunAt = nextCronOccurrence(parseCronExpression(schedule.cron), now);
+    } catch (error) {
+      throw ContentPlanService.invalidCronError(
+        schedule.cron,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    if (!nextRunAt) {
+      throw ContentPlanService.invalidCronError(schedule.cron, "It never runs");
+    }
+
+    const { data: row, error } = await this.db
+      .from("content_plan_schedules")
+      .upsert(
+        {
+          user_id: userId,
+          content_plan_id: planId,
+          cron: schedule.cron,
+          generation_settings: schedule.generationSettings as Json,
+          dry_run: schedule.dryRun,
+          enabled: schedule.enabled,
+          next_run_at: schedule.enabled ? nextRunAt.toISOString() : null,
+          updated_at: now.toISOString(),
+        },
+        { onConflict: "content_plan_id" }
+      )
+      .select("*")
+      .single();
+
+    if (error || !row) {
+      throw ContentPlanService.databaseError("save content plan schedule", error);
+    }
+
+    this.log.info(
+      `🗓️ Scheduled content plan ${planId} "${schedule.cron}", next run at ${row.next_run_at}`
+    );
+    return ContentPlanService.scheduleFromRow(row);
+  }
+
+  /**
+   * Stops a plan from running. Its past runs are deleted with it.
+   */
+  async deleteSchedule(userId: string, planId: string): Promise<void> {
+    const { data, error } = await this.db
+      .from("content_plan_schedules")
+      .delete()
+      .eq("content_plan_id", planId)
+      .eq("user_id", userId)
+      .select("id");
+
+    if (error) {
+      throw ContentPlanService.databaseError("delete content plan schedule", error);
+    }
+    if (!data?.length) {
+      throw ContentPlanService.scheduleNotFoundError(planId);
+    }
+  }
+
+  /**
+   * Latest runs of a plan, most recent first
+   */
+  async listRuns(userId: string, planId: string): Promise<ContentPlanRun[]> {
+    const { data: rows, error } = await this.db
+      .from("content_plan_runs")
+      .select("*")
+      .eq("content_plan_id", planId)
+      .eq("user_id", userId)
+      .order("scheduled_for", { ascending: false })
+      .limit(ContentPlanService.MAX_LISTED_RUNS);
+
+    if (error) {
+      throw ContentPlanService.databaseError("list content plan runs", error);
+    }
+    return (rows ?? []).map(ContentPlanService.runFromRow);
+  }
+
+  async listDueSchedules(now: Date, limit: number): Promise<ContentPlanSchedule[]> {
+    const { data: rows, error } = await this.db
+      .from("content_plan_schedules")
+      .select("*")
+      .eq("enabled", true)
+      .lte("next_run_at", now.toISOString())
+      .order("next_run_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw ContentPlanService.databaseError("list due content plan schedules", error);
+    }
+    return (rows ?? []).map(ContentPlanService.scheduleFromRow);
+  }
+
+  async claimRun(
+    schedule: ContentPlanSchedule,
+    scheduledFor: Date
+  ): Promise<ContentPlanRun | null> {
+    const { data: row, error } = await this.db
+      .from("content_plan_runs")
+      .insert({
+        schedule_id: schedule.id,
+        content_plan_id: schedule.contentPlanId,
+        user_id: schedule.userId,
+        scheduled_for: scheduledFor.toISOString(),
+        status: "running",
+      })
+      .select("*")
+      .single();
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return null;
+    }
+    if (error || !row) {
+      throw ContentPlanService.databaseError("claim content plan run", error);
+    }
+    return ContentPlanService.runFromRow(row);
+  }
+
+  async finishRun(
+    runId: string,
+    result: ContentPlanRunResult,
+    finishedAt: Date
+  ): Promise<ContentPlanRun> {
+    const { data: row, error } = await this.db
+      .from("content_plan_runs")
+      .update({
+        status: result.status,
+        reason: result.reason ?? null,
+        script_draft_id: result.scriptDraftId ?? null,
+        video_request_id: result.videoRequestId ?? null,
+        finished_at: finishedAt.toISOString(),
+      })
+      .eq("id", runId)
+      .select("*")
+      .single();
+
+    if (error || !row) {
+      throw ContentPlanService.databaseError("finish content plan run", error);
+    }
+    return ContentPlanService.runFromRow(row);
+  }
+
+  async setNextRun(scheduleId: string, nextRunAt: Date | null, lastRunAt: Date): Promise<void> {
+    const { error } = await this.db
+      .from("content_plan_schedules")
+      .update({
+        next_run_at: nextRunAt?.toISOString() ?? null,
+        last_run_at: lastRunAt.toISOString(),
+      })
+      .eq("id", scheduleId);
+
+    if (error) {
+      throw ContentPlanService.databaseError("update content plan schedule", error);
+    }
+  }
+
+  /**
+   * Script stored with a plan: a string, or `{ script }`
+   */
+  static scriptOf(scriptContent: Json | null): string | null {
+    if (typeof scriptContent === "string") {
+      return scriptContent.trim() || null;
+    }
+    if (scriptContent && typeof scriptContent === "object" && !Array.isArray(scriptContent)) {
+      const { script } = scriptContent;
+      return typeof script === "string" && script.trim() ? script.trim() : null;
+    }
+    return null;
+  }
+
+  private static planToRow(plan: ContentPlanInput) {
+    return {
+      title: plan.title ?? null,
+      topic: plan.topic,
+      funnel_stage: plan.funnelStage ?? null,
+      target_audience_psych: plan.targetAudiencePsych ?? null,
+      script_content: plan.script ? { script: plan.script } : null,
+      offer_context: (plan.offerContext ?? null) as Json,
+    };
+  }
+
+  private static planFromRow(row: ContentPlanRow): ContentPlan {
+    return {
+      id: row.id,
+      title: row.title,
+      topic: row.topic,
+      funnelStage: row.funnel_stage,
+      targetAudiencePsych: row.target_audience_psych,
+      script: ContentPlanService.scriptOf(row.script_content),
+      offerContext: (row.offer_context as Record<string, any> | null) ?? null,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private static scheduleFromRow(row: ScheduleRow): ContentPlanSchedule {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      contentPlanId: row.content_plan_id,
+      cron: row.cron,
+      generationSettings: (row.generation_settings as Record<string, any>) ?? {},
+      dryRun: row.dry_run,
+      enabled: row.enabled,
+      nextRunAt: row.next_run_at,
+      lastRunAt: row.last_run_at,
+    };
+  }
+
+  private static runFromRow(row: RunRow): ContentPlanRun {
+    return {
+      id: row.id,
+      scheduleId: row.schedule_id,
+      contentPlanId: row.content_plan_id,
+      scheduledFor: row.scheduled_for,
+      status: row.status as ContentPlanRunStatus,
+      reason: row.reason,
+      scriptDraftId: row.script_draft_id,
+      videoRequestId: row.video_request_id,
+      createdAt: row.created_at,
+      finishedAt: row.finished_at,
+    };
+  }
+
+  private static planNotFoundError(planId: string) {
+    return VideoValidationService.createError(
+      "Content plan not found",
+      "CONTENT_PLAN_NOT_FOUND",
+      { planId },
+      false,
+      "This content plan no longer exists."
+    );
+  }
+
+  private static scheduleNotFoundError(planId: string) {
+    return VideoValidationService.createError(
+      "Content plan schedule not found",
+      "CONTENT_PLAN_SCHEDULE_NOT_FOUND",
+      { planId },
+      false,
+      "This content plan is not scheduled."
+    );
+  }
+
+  private static invalidCronError(cron: string, reason: string) {
+    return VideoValidationService.createError(
+      `Invalid cron expression "${cron}": ${reason}`,
+      "INVALID_CRON",
+      { cron },
+      false,
+      `Invalid schedule "${cron}": ${reason}.`
+    );
+  }
+
+  private static databaseError(operation: string, error: any) {
+    return VideoValidationService.createError(
+      `Failed to ${operation}`,
+      "DATABASE_ERROR",
+      { error: error?.message },
+      true,
+      "Unable to save your content plans right now. Please try again."
+    );
+  }
+}
+
+export const contentPlanService = new ContentPlanService();
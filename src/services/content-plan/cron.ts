@@ -0,0 +1,136 @@
+/**
+ * Five-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in UTC. Fields take `*`, values, ranges, lists and steps:
+ * "0 9 * * 1,3,5" is 9:00 on Monday, Wednesday and Friday.
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron matches either day field when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  // 7 is Sunday too
+  { name: "day of week", min: 0, max: 7 },
+] as const;
+
+// Leap days come around within 8 years
+const MAX_SEARCHED_DAYS = 8 * 366;
+
+function parseField(field: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${name} "${part}"`);
+    }
+
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? min : Number(start);
+    const to = range === "*" ? max : end !== undefined ? Number(end) : step ? max : from;
+    const increment = step ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || increment < 1) {
+      throw new Error(`Invalid ${name} "${part}": values go from ${min} to ${max}`);
+    }
+    for (let value = from; value <= to; value += increment) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * @throws Error naming the invalid field
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`Cron expressions have ${FIELDS.length} fields, "${expression}" has ${fields.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = FIELDS.map((spec, index) =>
+    parseField(fields[index]!, spec)
+  ) as [Set<number>, Set<number>, Set<number>, Set<number>, Set<number>];
+
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2]!.startsWith("*"),
+    anyDayOfWeek: fields[4]!.startsWith("*"),
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * First time of the schedule strictly after `after`
+ * @returns null when the schedule never matches (e.g. February 30th)
+ */
+export function nextCronOccurrence(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  const lastDay = after.getTime() + MAX_SEARCHED_DAYS * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= lastDay) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Next `count` times of a cron expression after `after`
+ */
+export function upcomingCronOccurrences(expression: string, after: Date, count: number): Date[] {
+  const schedule = parseCronExpression(expression);
+  const occurrences: Date[] = [];
+
+  let next = nextCronOccurrence(schedule, after);
+  while (next && occurrences.length < count) {
+    occurrences.push(next);
+    next = nextCronOccurrence(schedule, next);
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,197 @@
+import winston from "winston";
+import {
+  ContentPlanRun,
+  ContentPlanRunStatus,
+  ContentPlanSchedule,
+} from "../../types/content-plan";
+import { Clock, IntervalRunner, systemClock } from "../../utils/interval-runner";
+import { nextCronOccurrence, parseCronExpression } from "./cron";
+
+export interface ContentPlanRunResult {
+  status: Exclude<ContentPlanRunStatus, "running">;
+  reason?: string | null;
+  scriptDraftId?: string | null;
+  videoRequestId?: string | null;
+}
+
+/**
+ * Persistence of schedules and runs (Supabase in production)
+ */
+export interface ContentPlanScheduleStore {
+  /**
+   * Enabled schedules whose next run is at or before `now`
+   */
+  listDueSchedules(now: Date, limit: number): Promise<ContentPlanSchedule[]>;
+
+  /**
+   * Record a `running` run for a slot of a schedule
+   * @returns null when the slot already has a run (another process took it)
+   */
+  claimRun(schedule: ContentPlanSchedule, scheduledFor: Date): Promise<ContentPlanRun | null>;
+
+  finishRun(runId: string, result: ContentPlanRunResult, finishedAt: Date): Promise<ContentPlanRun>;
+
+  /**
+   * @param nextRunAt null stops the schedule
+   */
+  setNextRun(scheduleId: string, nextRunAt: Date | null, lastRunAt: Date): Promise<void>;
+}
+
+/**
+ * What a run does: writes a script draft from the plan and queues its video
+ */
+export interface ContentPlanExecutor {
+  hasVideoQuota(userId: string): Promise<boolean>;
+  execute(
+    schedule: ContentPlanSchedule
+  ): Promise<{ scriptDraftId: string; videoRequestId: string }>;
+}
+
+export interface ContentPlanSchedulerOptions {
+  store: ContentPlanScheduleStore;
+  executor: ContentPlanExecutor;
+  logger: winston.Logger;
+  clock?: Clock;
+  pollIntervalMs?: number;
+  batchSize?: number;
+}
+
+/**
+ * Runs the content plan schedules that are due, in the server process.
+ *
+ * - Each slot of a schedule runs once: runs are claimed in the store, so
+ *   several processes can run the scheduler side by side
+ * - Slots missed while the server was down are caught up by a single run
+ * - Runs of users without video quota left are skipped, dry runs only record
+ *   what would have run
+ */
+export class ContentPlanScheduler {
+  private static readonly DEFAULT_POLL_INTERVAL = 60000; // 1 minute
+  private static readonly DEFAULT_BATCH_SIZE = 20;
+
+  private store: ContentPlanScheduleStore;
+  private executor: ContentPlanExecutor;
+  private logger: winston.Logger;
+  private clock: Clock;
+  private batchSize: number;
+  private runner: IntervalRunner;
+
+  constructor(options: ContentPlanSchedulerOptions) {
+    this.store = options.store;
+    this.executor = options.executor;
+    this.logger = options.logger;
+    this.clock = options.clock ?? systemClock;
+    this.batchSize = options.batchSize ?? ContentPlanScheduler.DEFAULT_BATCH_SIZE;
+    this.runner = new IntervalRunner({
+      tick: () => this.tick(),
+      intervalMs: options.pollIntervalMs ?? ContentPlanScheduler.DEFAULT_POLL_INTERVAL,
+      onError: (error) => this.logger.error("❌ Content plan scheduler tick failed:", error),
+    });
+  }
+
+  start(): void {
+    if (this.runner.start()) {
+      this.logger.info("🗓️ Content plan scheduler started");
+    }
+  }
+
+  /**
+   * Stop ticking and wait for the runs in progress
+   */
+  async stop(): Promise<void> {
+    await this.runner.stop();
+  }
+
+  /**
+   * Run every schedule due at the current time of the clock
+   * @returns the number of runs made
+   */
+  async tick(): Promise<number> {
+    const now = this.clock.now();
+    const schedules = await this.store.listDueSchedules(now, this.batchSize);
+
+    let runs = 0;
+    for (const schedule of schedules) {
+      try {
+        if (await this.runDueSchedule(schedule, now)) {
+          runs++;
+        }
+      } catch (error) {
+        this.logger.error(`❌ Content plan schedule ${schedule.id} failed to run:`, error);
+      }
+    }
+
+    return runs;
+  }
+
+  /**
+   * Run a schedule now, out of its slots
+   * @returns null when the schedule already ran this minute
+   */
+  async runNow(
+    schedule: ContentPlanSchedule,
+    dryRun: boolean = schedule.dryRun
+  ): Promise<ContentPlanRun | null> {
+    const now = this.clock.now();
+    now.setUTCSeconds(0, 0);
+
+    const run = await this.store.claimRun(schedule, now);
+    return run ? this.execute(schedule, run, dryRun) : null;
+  }
+
+  private async runDueSchedule(schedule: ContentPlanSchedule, now: Date): Promise<boolean> {
+    const scheduledFor = new Date(schedule.nextRunAt ?? now);
+
+    let nextRunAt: Date | null;
+    try {
+      nextRunAt = nextCronOccurrence(parseCronExpression(schedule.cron), now);
+    } catch (error) {
+      this.logger.error(`❌ Invalid cron of content plan schedule ${schedule.id}:`, error);
+      nextRunAt = null;
+    }
+
+    const run = await this.store.claimRun(schedule, scheduledFor);
+    // Also when the slot was taken, in case its process died before this
+    await this.store.setNextRun(schedule.id, nextRunAt, now);
+    if (!run) {
+      return false;
+    }
+
+    await this.execute(schedule, run, schedule.dryRun);
+    return true;
+  }
+
+  private async execute(
+    schedule: ContentPlanSchedule,
+    run: ContentPlanRun,
+    dryRun: boolean
+  ): Promise<ContentPlanRun> {
+    const runLogger = this.logger.child({
+      scheduleId: schedule.id,
+      contentPlanId: schedule.contentPlanId,
+      runId: run.id,
+    });
+
+    let result: ContentPlanRunResult;
+    if (!(await this.executor.hasVideoQuota(schedule.userId))) {
+      result = { status: "skipped", reason: "Video generation limit reached" };
+    } else if (dryRun) {
+      result = {
+        status: "dry_run",
+        reason: "Would write a script draft from the content plan and render its video",
+      };
+    } else {
+      try {
+        result = { status: "succeeded", ...(await this.executor.execute(schedule)) };
+      } catch (error) {
+        result = {
+          status: "failed",
+          reason: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    runLogger.info(`🗓️ Content plan run ${result.status}${result.reason ? `: ${result.reason}` : ""}`);
+    return this.store.finishRun(run.id, result, this.clock.now());
+  }
+}
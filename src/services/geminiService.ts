@@ -8,9 +8,10 @@ import { GetObjectCommand } from "@aws-sdk/client-s3";
 import { s3Client, S3_BUCKET_NAME } from "../config/aws";
 import * as fs from "fs/promises";
 import * as path from "path";
-import { spawn, execSync } from "child_process";
+import { spawn } from "child_process";
 import winston from "winston";
 import { logger } from "../config/logger";
+import { initializeFFmpegPath } from "../utils/video/ffmpeg";
 
 const model = "gemini-2.5-flash";
 
@@ -29,59 +30,6 @@ const isRailway =
 const isDevelopment =
   process.env.NODE_ENV === "development" || !process.env.NODE_ENV;
 
-// FFmpeg path detection
-let FFMPEG_PATH: string | null = null;
-
-/**
- * Initialize FFmpeg path based on environment
- */
-async function initializeFFmpegPath(): Promise<string | null> {
-  if (FFMPEG_PATH) return FFMPEG_PATH;
-
-  try {
-    if (isRailway || process.platform === "linux") {
-      // Railway/Linux: Use system FFmpeg installed via nixpacks
-      logger.info("🐧 Detecting system FFmpeg (Railway/Linux)...");
-      const ffmpegPath = execSync("which ffmpeg", { encoding: "utf8" }).trim();
-      FFMPEG_PATH = ffmpegPath;
-      logger.info(`✅ Found system FFmpeg: ${FFMPEG_PATH}`);
-    } else {
-      // Local development: Try system first, then fallback to npm package
-      try {
-        logger.info("💻 Detecting system FFmpeg (local)...");
-        const ffmpegPath = execSync("which ffmpeg", {
-          encoding: "utf8",
-        }).trim();
-        FFMPEG_PATH = ffmpegPath;
-        logger.info(`✅ Found system FFmpeg: ${FFMPEG_PATH}`);
-      } catch {
-        logger.info("📦 Falling back to npm FFmpeg package...");
-        try {
-          // Fallback to npm package for local development - using dynamic import
-          const ffmpegModule = await import("@ffmpeg-installer/ffmpeg").catch(
-            () => null
-          );
-          if (ffmpegModule && ffmpegModule.path) {
-            FFMPEG_PATH = ffmpegModule.path;
-            logger.info(`✅ Found npm FFmpeg: ${FFMPEG_PATH}`);
-          } else {
-            logger.info("⚠️ No FFmpeg found via npm package");
-            FFMPEG_PATH = null;
-          }
-        } catch (npmError) {
-          logger.info("⚠️ No FFmpeg found via npm package");
-          FFMPEG_PATH = null;
-        }
-      }
-    }
-  } catch (error) {
-    logger.error("❌ FFmpeg path detection failed:", error);
-    FFMPEG_PATH = null;
-  }
-
-  return FFMPEG_PATH;
-}
-
 // Types
 export interface VideoAnalysisData {
   title: string;
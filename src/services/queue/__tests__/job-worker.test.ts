@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type winston from 'winston';
+import { InMemoryJobStore } from '../in-memory-job-store';
+import { JobWorker } from '../job-worker';
+import { JobHandler, LEASE_EXPIRED_ERROR } from '../types';
+import { createMockLogger } from '../../../test-helpers/mock-logger';
+
+describe('JobWorker', () => {
+  let store: InMemoryJobStore;
+  let logger: winston.Logger;
+
+  beforeEach(() => {
+    store = new InMemoryJobStore();
+    logger = createMockLogger();
+  });
+
+  function createWorker(handlers: Record<string, JobHandler>, workerId = 'worker-1') {
+    return new JobWorker({
+      store,
+      handlers,
+      logger,
+      workerId,
+      retryBaseDelayMs: 0,
+    });
+  }
+
+  it('should run a queued job and mark it succeeded', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const worker = createWorker({ 'test.job': handler });
+    const job = await store.enqueue({ type: 'test.job', payload: { value: 42 } });
+
+    const processed = await worker.runOnce();
+
+    expect(processed).toBe(true);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ id: job.id, payload: { value: 42 } }),
+      expect.objectContaining({ isFinalAttempt: true })
+    );
+    expect((await store.get(job.id))?.status).toBe('succeeded');
+  });
+
+  it('should return false when no job is runnable', async () => {
+    const worker = createWorker({ 'test.job': vi.fn() });
+    await store.enqueue({ type: 'other.job', payload: {} });
+
+    expect(await worker.runOnce()).toBe(false);
+  });
+
+  it('should retry a failing job until it runs out of attempts', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('Creatomate timeout'));
+    const worker = createWorker({ 'test.job': handler });
+    const job = await store.enqueue({ type: 'test.job', payload: {}, maxAttempts: 2 });
+
+    await worker.runOnce();
+    const afterFirst = await store.get(job.id);
+    expect(afterFirst?.status).toBe('queued');
+    expect(afterFirst?.lastError).toBe('Creatomate timeout');
+
+    await worker.runOnce();
+    const afterSecond = await store.get(job.id);
+    expect(afterSecond?.status).toBe('failed');
+    expect(afterSecond?.attempts).toBe(2);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler.mock.calls[1]?.[1].isFinalAttempt).toBe(true);
+  });
+
+  it('should not retry errors flagged as non-retryable', async () => {
+    const error = Object.assign(new Error('User not found'), { retryable: false });
+    const worker = createWorker({ 'test.job': vi.fn().mockRejectedValue(error) });
+    const job = await store.enqueue({ type: 'test.job', payload: {}, maxAttempts: 3 });
+
+    await worker.runOnce();
+
+    const stored = await store.get(job.id);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.attempts).toBe(1);
+  });
+
+  it('should resume jobs whose lease expired', async () => {
+    let now = new Date('2025-01-01T00:00:00Z');
+    store = new InMemoryJobStore(() => now);
+    const job = await store.enqueue({ type: 'test.job', payload: {}, maxAttempts: 3 });
+
+    // A previous process leased the job and died
+    await store.claim('dead-worker', 60000, ['test.job']);
+    expect(await store.requeueExpired()).toBe(0);
+
+    now = new Date(now.getTime() + 61000);
+    expect(await store.requeueExpired()).toBe(1);
+
+    const handler = vi.fn().mockResolvedValue(undefined);
+    const worker = createWorker({ 'test.job': handler });
+    await worker.runOnce();
+
+    const stored = await store.get(job.id);
+    expect(stored?.status).toBe('succeeded');
+    expect(stored?.attempts).toBe(2);
+  });
+
+  it('should fail jobs whose lease expired during their last attempt', async () => {
+    let now = new Date('2025-01-01T00:00:00Z');
+    store = new InMemoryJobStore(() => now);
+    const job = await store.enqueue({ type: 'test.job', payload: {}, maxAttempts: 1 });
+
+    await store.claim('dead-worker', 60000, ['test.job']);
+    now = new Date(now.getTime() + 61000);
+    expect(await store.requeueExpired()).toBe(0);
+
+    const stored = await store.get(job.id);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.lastError).toBe(LEASE_EXPIRED_ERROR);
+    expect(stored?.lockedBy).toBeNull();
+  });
+
+  it('should abort a running job once it is cancelled', async () => {
+    const job = await store.enqueue({ type: 'test.job', payload: {}, maxAttempts: 3 });
+    let aborted = false;
+
+    const handler: JobHandler = (_job, { signal }) =>
+      new Promise((_, reject) => {
+        signal.addEventListener('abort', () => {
+          aborted = true;
+          reject(new Error('aborted'));
+        });
+        setTimeout(() => store.cancel(job.id), 5);
+      });
+
+    const worker = new JobWorker({
+      store,
+      handlers: { 'test.job': handler },
+      logger,
+      workerId: 'worker-1',
+      heartbeatIntervalMs: 10,
+    });
+    await worker.runOnce();
+
+    expect(aborted).toBe(true);
+    expect((await store.get(job.id))?.status).toBe('cancelled');
+    expect(await store.cancel(job.id)).toBe(false);
+  });
+
+  it('should ignore completion from a worker that lost the lease', async () => {
+    const job = await store.enqueue({ type: 'test.job', payload: {} });
+    await store.claim('worker-1', 60000, ['test.job']);
+
+    expect(await store.heartbeat(job.id, 'worker-2', 60000)).toBe(false);
+    await store.complete(job.id, 'worker-2');
+
+    expect((await store.get(job.id))?.status).toBe('running');
+  });
+});
@@ -0,0 +1,154 @@
+import { randomUUID } from "crypto";
+import { EnqueueJobInput, Job, JobStore, LEASE_EXPIRED_ERROR } from "./types";
+
+/**
+ * In-memory job store used by tests and local runs without a database.
+ * Jobs do not survive a restart.
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs = new Map<string, Job>();
+
+  constructor(private now: () => Date = () => new Date()) {}
+
+  async enqueue<TPayload>(
+    input: EnqueueJobInput<TPayload>
+  ): Promise<Job<TPayload>> {
+    const now = this.now();
+    const job: Job<TPayload> = {
+      id: randomUUID(),
+      type: input.type,
+      payload: input.payload,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? 1,
+      runAt: input.runAt ?? now,
+      lockedBy: null,
+      leaseExpiresAt: null,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job as Job);
+    return { ...job };
+  }
+
+  async claim(
+    workerId: string,
+    leaseMs: number,
+    types: string[]
+  ): Promise<Job | null> {
+    const now = this.now();
+    const runnable = [...this.jobs.values()]
+      .filter(
+        (job) =>
+          job.status === "queued" &&
+          types.includes(job.type) &&
+          job.runAt.getTime() <= now.getTime()
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+
+    const job = runnable[0];
+    if (!job) {
+      return null;
+    }
+
+    job.status = "running";
+    job.lockedBy = workerId;
+    job.leaseExpiresAt = new Date(now.getTime() + leaseMs);
+    job.attempts += 1;
+    job.updatedAt = now;
+    return { ...job };
+  }
+
+  async heartbeat(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const job = this.getLeased(jobId, workerId);
+    if (!job) {
+      return false;
+    }
+    const now = this.now();
+    job.leaseExpiresAt = new Date(now.getTime() + leaseMs);
+    job.updatedAt = now;
+    return true;
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    const job = this.getLeased(jobId, workerId);
+    if (!job) {
+      return;
+    }
+    job.status = "succeeded";
+    job.lockedBy = null;
+    job.leaseExpiresAt = null;
+    job.updatedAt = this.now();
+  }
+
+  async fail(
+    jobId: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null
+  ): Promise<void> {
+    const job = this.getLeased(jobId, workerId);
+    if (!job) {
+      return;
+    }
+    job.status = retryAt ? "queued" : "failed";
+    job.runAt = retryAt ?? job.runAt;
+    job.lastError = error;
+    job.lockedBy = null;
+    job.leaseExpiresAt = null;
+    job.updatedAt = this.now();
+  }
+
+  async requeueExpired(now: Date = this.now()): Promise<number> {
+    let recovered = 0;
+    for (const job of this.jobs.values()) {
+      if (
+        job.status === "running" &&
+        job.leaseExpiresAt &&
+        job.leaseExpiresAt.getTime() < now.getTime()
+      ) {
+        if (job.attempts >= job.maxAttempts) {
+          job.status = "failed";
+          job.lastError = LEASE_EXPIRED_ERROR;
+        } else {
+          job.status = "queued";
+          recovered++;
+        }
+        job.lockedBy = null;
+        job.leaseExpiresAt = null;
+        job.updatedAt = now;
+      }
+    }
+    return recovered;
+  }
+
+  async cancel(jobId: string): Promise<boolean> {
+    const job = this.jobs.get(jobId);
+    if (!job || (job.status !== "queued" && job.status !== "running")) {
+      return false;
+    }
+    job.status = "cancelled";
+    job.lockedBy = null;
+    job.leaseExpiresAt = null;
+    job.updatedAt = this.now();
+    return true;
+  }
+
+  async get(jobId: string): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  private getLeased(jobId: string, workerId: string): Job | null {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== "running" || job.lockedBy !== workerId) {
+      return null;
+    }
+    return job;
+  }
+}
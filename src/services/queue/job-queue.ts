@@ -0,0 +1,41 @@
+import { logger } from "../../config/logger";
+import { InMemoryJobStore } from "./in-memory-job-store";
+import { JobWorker } from "./job-worker";
+import { PostgresJobStore } from "./postgres-job-store";
+import { JobHandler, JobStore } from "./types";
+
+let jobStore: JobStore | null = null;
+
+/**
+ * Shared job store for the process.
+ * JOB_QUEUE_DRIVER=memory keeps jobs in memory (tests, local runs without a database).
+ */
+export function getJobStore(): JobStore {
+  if (!jobStore) {
+    jobStore =
+      process.env.JOB_QUEUE_DRIVER === "memory"
+        ? new InMemoryJobStore()
+        : new PostgresJobStore();
+  }
+  return jobStore;
+}
+
+/**
+ * Replace the shared job store (tests)
+ */
+export function setJobStore(store: JobStore): void {
+  jobStore = store;
+}
+
+/**
+ * Create a worker bound to the shared job store
+ */
+export function createJobWorker(handlers: Record<string, JobHandler>): JobWorker {
+  return new JobWorker({
+    store: getJobStore(),
+    handlers,
+    logger: logger.child({ module: "jobWorker" }),
+    pollIntervalMs: Number(process.env.JOB_WORKER_POLL_INTERVAL_MS) || undefined,
+    concurrency: Number(process.env.JOB_WORKER_CONCURRENCY) || undefined,
+  });
+}
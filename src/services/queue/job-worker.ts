@@ -0,0 +1,255 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import winston from "winston";
+import { Job, JobHandler, JobStore } from "./types";
+
+export interface JobWorkerOptions {
+  store: JobStore;
+  handlers: Record<string, JobHandler>;
+  logger: winston.Logger;
+  workerId?: string;
+  pollIntervalMs?: number;
+  leaseMs?: number;
+  heartbeatIntervalMs?: number;
+  concurrency?: number;
+  retryBaseDelayMs?: number;
+}
+
+/**
+ * Polls a JobStore, leases runnable jobs and dispatches them to handlers.
+ *
+ * - A lease is kept alive with heartbeats while the handler runs
+ * - Jobs left `running` by a dead worker are re-queued once their lease expires,
+ *   which is what resumes interrupted work after a deploy or crash
+ * - Failed attempts are retried with exponential backoff unless the error is
+ *   flagged `retryable: false` or the job ran out of attempts
+ */
+export class JobWorker {
+  private static readonly DEFAULT_POLL_INTERVAL = 2000; // 2 seconds
+  private static readonly DEFAULT_LEASE = 60000; // 1 minute
+  private static readonly DEFAULT_RETRY_BASE_DELAY = 5000; // 5 seconds
+  private static readonly MAX_RETRY_DELAY = 300000; // 5 minutes
+
+  readonly workerId: string;
+  private store: JobStore;
+  private handlers: Record<string, JobHandler>;
+  private logger: winston.Logger;
+  private pollIntervalMs: number;
+  private leaseMs: number;
+  private heartbeatIntervalMs: number;
+  private concurrency: number;
+  private retryBaseDelayMs: number;
+
+  private running = false;
+  private polling = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private inFlight = new Map<string, { promise: Promise<void>; controller: AbortController }>();
+
+  constructor(options: JobWorkerOptions) {
+    this.store = options.store;
+    this.handlers = options.handlers;
+    this.logger = options.logger;
+    this.workerId =
+      options.workerId || `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
+    this.pollIntervalMs = options.pollIntervalMs ?? JobWorker.DEFAULT_POLL_INTERVAL;
+    this.leaseMs = options.leaseMs ?? JobWorker.DEFAULT_LEASE;
+    this.heartbeatIntervalMs =
+      options.heartbeatIntervalMs ?? Math.floor(this.leaseMs / 3);
+    this.concurrency = options.concurrency ?? 1;
+    this.retryBaseDelayMs =
+      options.retryBaseDelayMs ?? JobWorker.DEFAULT_RETRY_BASE_DELAY;
+  }
+
+  /**
+   * Recover jobs orphaned by a previous process, then start polling
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+
+    try {
+      const recovered = await this.store.requeueExpired();
+      if (recovered > 0) {
+        this.logger.info(`♻️ Resumed ${recovered} interrupted job(s) on boot`);
+      }
+    } catch (error) {
+      this.logger.error("❌ Failed to recover interrupted jobs:", error);
+    }
+
+    this.logger.info(
+      `👷 Job worker ${this.workerId} started for: ${Object.keys(this.handlers).join(", ")}`
+    );
+    this.schedulePoll(0);
+  }
+
+  /**
+   * Stop polling and wait for in-flight jobs to settle.
+   * Jobs still running after `timeoutMs` are aborted; their lease expires and
+   * another worker picks them up.
+   */
+  async stop(timeoutMs: number = 30000): Promise<void> {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    const pending = [...this.inFlight.values()];
+    if (pending.length === 0) {
+      return;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<void>((resolve) => {
+      timer = setTimeout(() => {
+        pending.forEach(({ controller }) => controller.abort());
+        resolve();
+      }, timeoutMs);
+    });
+
+    await Promise.race([
+      Promise.allSettled(pending.map(({ promise }) => promise)),
+      timeout,
+    ]);
+    clearTimeout(timer);
+    this.logger.info(`👷 Job worker ${this.workerId} stopped`);
+  }
+
+  /**
+   * Lease and run a single job if one is runnable
+   * @returns true when a job was processed
+   */
+  async runOnce(): Promise<boolean> {
+    const job = await this.store.claim(
+      this.workerId,
+      this.leaseMs,
+      Object.keys(this.handlers)
+    );
+
+    if (!job) {
+      return false;
+    }
+
+    await this.dispatch(job);
+    return true;
+  }
+
+  private dispatch(job: Job): Promise<void> {
+    const controller = new AbortController();
+    const promise = this.execute(job, controller).finally(() => {
+      this.inFlight.delete(job.id);
+    });
+    this.inFlight.set(job.id, { promise, controller });
+    return promise;
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+    }
+    this.pollTimer = setTimeout(() => {
+      this.poll().catch((error) =>
+        this.logger.error("❌ Job worker poll failed:", error)
+      );
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.store.requeueExpired();
+
+      while (this.running && this.inFlight.size < this.concurrency) {
+        const job = await this.store.claim(
+          this.workerId,
+          this.leaseMs,
+          Object.keys(this.handlers)
+        );
+        if (!job) {
+          break;
+        }
+
+        // Look for more work as soon as a slot frees up
+        this.dispatch(job).finally(() => this.schedulePoll(0));
+      }
+    } catch (error) {
+      this.logger.error("❌ Failed to claim jobs:", error);
+    } finally {
+      this.polling = false;
+    }
+
+    this.schedulePoll(this.pollIntervalMs);
+  }
+
+  private async execute(job: Job, controller: AbortController): Promise<void> {
+    const jobLogger = this.logger.child({ jobId: job.id, jobType: job.type });
+    const handler = this.handlers[job.type];
+
+    if (!handler) {
+      await this.store.fail(job.id, this.workerId, `No handler for ${job.type}`, null);
+      return;
+    }
+
+    jobLogger.info(`▶️ Running job (attempt ${job.attempts}/${job.maxAttempts})`);
+    const startTime = Date.now();
+
+    const heartbeat = setInterval(() => {
+      this.store
+        .heartbeat(job.id, this.workerId, this.leaseMs)
+        .then((held) => {
+          if (!held) {
+            jobLogger.warn("⚠️ Lease lost, aborting job");
+            controller.abort();
+          }
+        })
+        .catch((error) => jobLogger.warn("⚠️ Heartbeat failed:", error));
+    }, this.heartbeatIntervalMs);
+
+    try {
+      await handler(job, {
+        signal: controller.signal,
+        isFinalAttempt: job.attempts >= job.maxAttempts,
+      });
+      await this.store.complete(job.id, this.workerId);
+      jobLogger.info(`✅ Job completed in ${Date.now() - startTime}ms`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retryable = (error as any)?.retryable !== false;
+      const retryAt =
+        retryable && job.attempts < job.maxAttempts
+          ? new Date(Date.now() + this.retryDelay(job.attempts))
+          : null;
+
+      jobLogger.error(
+        `❌ Job failed after ${Date.now() - startTime}ms${
+          retryAt ? `, retrying at ${retryAt.toISOString()}` : ""
+        }:`,
+        error
+      );
+
+      try {
+        await this.store.fail(job.id, this.workerId, message, retryAt);
+      } catch (storeError) {
+        jobLogger.error("❌ Failed to record job failure:", storeError);
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  private retryDelay(attempt: number): number {
+    return Math.min(
+      this.retryBaseDelayMs * 2 ** (attempt - 1),
+      JobWorker.MAX_RETRY_DELAY
+    );
+  }
+}
@@ -0,0 +1,204 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "../../config/supabase";
+import { EnqueueJobInput, Job, JobStatus, JobStore, LEASE_EXPIRED_ERROR } from "./types";
+
+interface BackgroundJobRow {
+  id: string;
+  type: string;
+  payload: any;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_by: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const TABLE = "background_jobs";
+
+/**
+ * Job store backed by the `background_jobs` Postgres table.
+ * Leasing goes through the `claim_background_job` function, which uses
+ * `FOR UPDATE SKIP LOCKED` so concurrent workers never lease the same row.
+ * Expired leases are recovered by `requeue_expired_background_jobs`, which
+ * compares `attempts` with `max_attempts` in a single statement.
+ */
+export class PostgresJobStore implements JobStore {
+  private db: SupabaseClient;
+
+  constructor(db?: SupabaseClient) {
+    this.db = db ?? (supabase as unknown as SupabaseClient);
+  }
+
+  async enqueue<TPayload>(
+    input: EnqueueJobInput<TPayload>
+  ): Promise<Job<TPayload>> {
+    const { data, error } = await this.db
+      .from(TABLE)
+      .insert({
+        type: input.type,
+        payload: input.payload,
+        status: "queued",
+        max_attempts: input.maxAttempts ?? 1,
+        run_at: (input.runAt ?? new Date()).toISOString(),
+      })
+      .select("*")
+      .single();
+
+    if (error || !data) {
+      throw new Error(`Failed to enqueue ${input.type} job: ${error?.message}`);
+    }
+
+    return toJob(data) as Job<TPayload>;
+  }
+
+  async claim(
+    workerId: string,
+    leaseMs: number,
+    types: string[]
+  ): Promise<Job | null> {
+    const { data, error } = await this.db.rpc("claim_background_job", {
+      p_worker_id: workerId,
+      p_lease_seconds: Math.ceil(leaseMs / 1000),
+      p_types: types,
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim job: ${error.message}`);
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    return row ? toJob(row) : null;
+  }
+
+  async heartbeat(
+    jobId: string,
+    workerId: string,
+    leaseMs: number
+  ): Promise<boolean> {
+    const { data, error } = await this.db
+      .from(TABLE)
+      .update({
+        lease_expires_at: new Date(Date.now() + leaseMs).toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .eq("status", "running")
+      .eq("locked_by", workerId)
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to extend lease of job ${jobId}: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  async complete(jobId: string, workerId: string): Promise<void> {
+    const { error } = await this.db
+      .from(TABLE)
+      .update({
+        status: "succeeded",
+        locked_by: null,
+        lease_expires_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .eq("locked_by", workerId);
+
+    if (error) {
+      throw new Error(`Failed to complete job ${jobId}: ${error.message}`);
+    }
+  }
+
+  async fail(
+    jobId: string,
+    workerId: string,
+    message: string,
+    retryAt: Date | null
+  ): Promise<void> {
+    const { error } = await this.db
+      .from(TABLE)
+      .update({
+        status: retryAt ? "queued" : "failed",
+        ...(retryAt && { run_at: retryAt.toISOString() }),
+        last_error: message,
+        locked_by: null,
+        lease_expires_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .eq("locked_by", workerId);
+
+    if (error) {
+      throw new Error(`Failed to record failure of job ${jobId}: ${error.message}`);
+    }
+  }
+
+  async requeueExpired(now: Date = new Date()): Promise<number> {
+    const { data, error } = await this.db.rpc("requeue_expired_background_jobs", {
+      p_now: now.toISOString(),
+      p_error: LEASE_EXPIRED_ERROR,
+    });
+
+    if (error) {
+      throw new Error(`Failed to requeue expired jobs: ${error.message}`);
+    }
+
+    return typeof data === "number" ? data : 0;
+  }
+
+  async cancel(jobId: string): Promise<boolean> {
+    const { data, error } = await this.db
+      .from(TABLE)
+      .update({
+        status: "cancelled",
+        locked_by: null,
+        lease_expires_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", jobId)
+      .in("status", ["queued", "running"])
+      .select("id");
+
+    if (error) {
+      throw new Error(`Failed to cancel job ${jobId}: ${error.message}`);
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  async get(jobId: string): Promise<Job | null> {
+    const { data, error } = await this.db
+      .from(TABLE)
+      .select("*")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch job ${jobId}: ${error.message}`);
+    }
+
+    return data ? toJob(data) : null;
+  }
+}
+
+function toJob(row: BackgroundJobRow): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload,
+    status: row.status as JobStatus,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: new Date(row.run_at),
+    lockedBy: row.locked_by,
+    leaseExpiresAt: row.lease_expires_at ? new Date(row.lease_expires_at) : null,
+    lastError: row.last_error,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
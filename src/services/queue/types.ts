@@ -0,0 +1,102 @@
+/**
+ * Durable job queue types
+ *
+ * Jobs are persisted by a JobStore (Postgres in production, in-memory in tests)
+ * and executed by a JobWorker that leases them, keeps the lease alive with
+ * heartbeats and releases it when the handler settles.
+ */
+
+export type JobStatus =
+  | "queued"
+  | "running"
+  | "succeeded"
+  | "failed"
+  | "cancelled";
+
+export interface Job<TPayload = Record<string, any>> {
+  id: string;
+  type: string;
+  payload: TPayload;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedBy: string | null;
+  leaseExpiresAt: Date | null;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/** Error of a job whose lease expired during its last attempt */
+export const LEASE_EXPIRED_ERROR =
+  "Lease expired during the last attempt (worker crashed or was stopped)";
+
+export interface EnqueueJobInput<TPayload = Record<string, any>> {
+  type: string;
+  payload: TPayload;
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+/**
+ * Persistence adapter for the job queue.
+ * Every mutation of a leased job is guarded by the worker ID holding the lease,
+ * so a worker that lost its lease can never overwrite the new owner's state.
+ */
+export interface JobStore {
+  enqueue<TPayload>(input: EnqueueJobInput<TPayload>): Promise<Job<TPayload>>;
+
+  /**
+   * Atomically lease the oldest runnable job of one of the given types
+   * @returns The leased job, or null when nothing is runnable
+   */
+  claim(workerId: string, leaseMs: number, types: string[]): Promise<Job | null>;
+
+  /**
+   * Extend the lease of a running job
+   * @returns false when the worker no longer holds the lease
+   */
+  heartbeat(jobId: string, workerId: string, leaseMs: number): Promise<boolean>;
+
+  complete(jobId: string, workerId: string): Promise<void>;
+
+  /**
+   * Record a failed attempt. The job is re-queued for `retryAt` when provided,
+   * otherwise it is marked as permanently failed.
+   */
+  fail(
+    jobId: string,
+    workerId: string,
+    error: string,
+    retryAt: Date | null
+  ): Promise<void>;
+
+  /**
+   * Put running jobs whose lease expired (crashed or redeployed worker) back in the queue.
+   * Jobs that already used their last attempt are failed with `LEASE_EXPIRED_ERROR` instead.
+   * @returns Number of requeued jobs
+   */
+  requeueExpired(now?: Date): Promise<number>;
+
+  /**
+   * Cancel a queued or running job. A running job loses its lease, so the
+   * worker's next heartbeat aborts it.
+   * @returns false when the job already settled
+   */
+  cancel(jobId: string): Promise<boolean>;
+
+  get(jobId: string): Promise<Job | null>;
+}
+
+export interface JobContext {
+  /** Aborted when the worker loses the lease (job cancelled, lease expired) or is shutting down */
+  signal: AbortSignal;
+  /** True when this attempt is the last one the queue will make */
+  isFinalAttempt: boolean;
+}
+
+export type JobHandler<TPayload = any> = (
+  job: Job<TPayload>,
+  context: JobContext
+) => Promise<void>;
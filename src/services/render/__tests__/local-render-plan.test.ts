@@ -0,0 +1,277 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildLocalRenderPlan,
+  buildMusicMixArgs,
+  buildSceneArgs,
+  buildSnapshotArgs,
+  parseLength,
+  parseSeconds,
+} from '../local-render-plan';
+
+const template = {
+  output_format: 'mp4',
+  width: 1080,
+  height: 1920,
+  elements: [
+    {
+      type: 'composition',
+      track: 1,
+      elements: [
+        {
+          type: 'video',
+          track: 1,
+          source: 'https://cdn.example.com/a.mp4',
+          fit: 'cover',
+          volume: 0,
+          duration: null,
+          trim_start: '2',
+          trim_duration: '4',
+        },
+        {
+          id: 'voice-scene-1',
+          type: 'audio',
+          track: 3,
+          source: 'Je refuse un projet sur quatre en IA et automatisation.',
+          dynamic: true,
+          provider: 'elevenlabs model_id=eleven_multilingual_v2 voice_id=abc',
+        },
+        {
+          type: 'text',
+          track: 2,
+          font_size: '8 vmin',
+          fill_color: '#ffffff',
+          stroke_color: '#333333',
+          stroke_width: '1.05 vmin',
+          x_alignment: '50%',
+          y_alignment: '90%',
+          transcript_source: 'voice-scene-1',
+          transcript_maximum_length: 25,
+        },
+      ],
+    },
+    {
+      type: 'composition',
+      track: 1,
+      elements: [
+        {
+          type: 'video',
+          track: 1,
+          source: 'https://cdn.example.com/b.mov',
+          duration: null,
+        },
+        {
+          type: 'audio',
+          track: 4,
+          source: 'https://cdn.example.com/music.mp3',
+        },
+      ],
+    },
+  ],
+};
+
+describe('buildLocalRenderPlan', () => {
+  it('should plan one scene per top-level composition', () => {
+    const plan = buildLocalRenderPlan(template);
+
+    expect(plan.width).toBe(1080);
+    expect(plan.height).toBe(1920);
+    expect(plan.frameRate).toBe(30);
+    expect(plan.scenes).toHaveLength(2);
+  });
+
+  it('should use the longest of the trimmed video and the voice-over', () => {
+    const [first] = buildLocalRenderPlan(template).scenes;
+
+    // 9 words at 2.5 words/s = 3.6s, shorter than the 4s trim
+    expect(first?.duration).toBe(4);
+    expect(first?.videos).toEqual([
+      {
+        source: 'https://cdn.example.com/a.mp4',
+        trimStart: 2,
+        duration: 4,
+        fit: 'cover',
+      },
+    ]);
+  });
+
+  it('should play chained clips one after the other', () => {
+    const [scene] = buildLocalRenderPlan({
+      width: 1080,
+      height: 1920,
+      elements: [
+        {
+          type: 'composition',
+          elements: [
+            { type: 'video', source: 'https://cdn.example.com/a.mp4', trim_start: 1, trim_duration: 2 },
+            { type: 'video', source: 'https://cdn.example.com/b.mp4', time: 'auto', trim_duration: 3 },
+          ],
+        },
+      ],
+    }).scenes;
+
+    expect(scene?.videos.map((clip) => clip.source)).toEqual([
+      'https://cdn.example.com/a.mp4',
+      'https://cdn.example.com/b.mp4',
+    ]);
+    expect(scene?.duration).toBe(5);
+  });
+
+  it('should flag synthesized voices and caption them with the spoken text', () => {
+    const [first] = buildLocalRenderPlan(template).scenes;
+
+    expect(first?.hasUnrenderableVoice).toBe(true);
+    expect(first?.audioSources).toEqual([]);
+    expect(first?.captions).toHaveLength(1);
+    expect(first?.captions[0]).toMatchObject({
+      fontSize: 86,
+      color: '#ffffff',
+      strokeColor: '#333333',
+      strokeWidth: 11,
+      xAlignment: 0.5,
+      yAlignment: 0.9,
+    });
+    expect(first?.captions[0]?.text.split('\n').every((line) => line.length <= 25)).toBe(true);
+  });
+
+  it('should keep audio files and fall back to the default scene duration', () => {
+    const [, second] = buildLocalRenderPlan(template).scenes;
+
+    expect(second?.audioSources).toEqual(['https://cdn.example.com/music.mp3']);
+    expect(second?.hasUnrenderableVoice).toBe(false);
+    expect(second?.duration).toBe(5);
+  });
+
+  it('should sum scene durations', () => {
+    expect(buildLocalRenderPlan(template).duration).toBe(9);
+  });
+
+  it('should return no scene for an empty template', () => {
+    expect(buildLocalRenderPlan({ elements: [] }).scenes).toEqual([]);
+  });
+
+  it('should plan the top-level music track', () => {
+    const music = {
+      type: 'audio',
+      track: 4,
+      source: 'https://cdn.example.com/background.mp3',
+      volume: '20%',
+      audio_fade_in: 1,
+      audio_fade_out: 2,
+      loop: true,
+    };
+    const plan = buildLocalRenderPlan({ ...template, elements: [...template.elements, music] });
+
+    expect(plan.scenes).toHaveLength(2);
+    expect(plan.music).toEqual({
+      source: 'https://cdn.example.com/background.mp3',
+      volume: 0.2,
+      fadeIn: 1,
+      fadeOut: 2,
+      loop: true,
+    });
+    expect(buildLocalRenderPlan(template).music).toBeNull();
+  });
+});
+
+describe('buildSceneArgs', () => {
+  it('should trim the source and burn captions in', () => {
+    const plan = buildLocalRenderPlan(template);
+    const args = buildSceneArgs(plan.scenes[0]!, plan, ['/tmp/caption-0-0.txt'], '/tmp/scene-0.mp4');
+
+    expect(args.slice(0, 7)).toEqual(['-y', '-ss', '2', '-t', '4.000', '-i', 'https://cdn.example.com/a.mp4']);
+    expect(args).toContain('anullsrc=r=44100:cl=stereo');
+
+    const filter = args[args.indexOf('-filter_complex') + 1];
+    expect(filter).toContain('crop=1080:1920');
+    expect(filter).toContain("drawtext=textfile='/tmp/caption-0-0.txt'");
+    expect(args[args.length - 1]).toBe('/tmp/scene-0.mp4');
+  });
+
+  it('should join chained clips before the audio inputs', () => {
+    const plan = buildLocalRenderPlan({
+      elements: [
+        {
+          type: 'composition',
+          elements: [
+            { type: 'video', source: 'https://cdn.example.com/a.mp4', trim_duration: 2 },
+            { type: 'video', source: 'https://cdn.example.com/b.mp4', trim_duration: 3 },
+          ],
+        },
+      ],
+    });
+    const args = buildSceneArgs(plan.scenes[0]!, plan, [], '/tmp/scene-0.mp4');
+    const filter = args[args.indexOf('-filter_complex') + 1];
+
+    expect(args.filter((arg) => arg === '-i')).toHaveLength(3);
+    expect(filter).toContain('[c0][c1]concat=n=2:v=1:a=0');
+    expect(filter).toContain('[2:a]aresample=44100');
+  });
+
+  it('should use the scene audio when present', () => {
+    const plan = buildLocalRenderPlan(template);
+    const args = buildSceneArgs(plan.scenes[1]!, plan, [], '/tmp/scene-1.mp4');
+
+    expect(args).toContain('https://cdn.example.com/music.mp3');
+    expect(args).not.toContain('anullsrc=r=44100:cl=stereo');
+  });
+});
+
+describe('buildMusicMixArgs', () => {
+  it('should loop the music and fade it out at the end of the video', () => {
+    const music = { source: 'https://cdn.example.com/background.mp3', volume: 0.2, fadeIn: 1, fadeOut: 2, loop: true };
+    const args = buildMusicMixArgs(music, 9, '/tmp/joined.mp4', '/tmp/out.mp4');
+
+    expect(args.slice(0, 7)).toEqual(['-y', '-i', '/tmp/joined.mp4', '-stream_loop', '-1', '-i', music.source]);
+    expect(args[args.indexOf('-filter_complex') + 1]).toContain(
+      '[1:a]volume=0.2,afade=t=in:st=0:d=1,afade=t=out:st=7.000:d=2[m]'
+    );
+    expect(args[args.indexOf('-t') + 1]).toBe('9.000');
+    expect(args.slice(-1)).toEqual(['/tmp/out.mp4']);
+  });
+});
+
+describe('buildSnapshotArgs', () => {
+  it('should capture one scaled down frame with its captions', () => {
+    const plan = buildLocalRenderPlan(template);
+    const args = buildSnapshotArgs(plan.scenes[0]!, plan, ['/tmp/caption.txt'], 1, 0.25, '/tmp/frame.jpg');
+    const filters = args[args.indexOf('-vf') + 1];
+
+    expect(args.slice(0, 5)).toEqual(['-y', '-ss', '3.000', '-i', 'https://cdn.example.com/a.mp4']);
+    expect(filters).toContain("drawtext=textfile='/tmp/caption.txt'");
+    expect(filters?.endsWith('scale=270:480')).toBe(true);
+    expect(args.slice(-5)).toEqual(['-frames:v', '1', '-q:v', '4', '/tmp/frame.jpg']);
+  });
+
+  it('should seek into the chained clip playing at that time', () => {
+    const plan = buildLocalRenderPlan({
+      elements: [
+        {
+          type: 'composition',
+          elements: [
+            { type: 'video', source: 'https://cdn.example.com/a.mp4', trim_duration: 2 },
+            { type: 'video', source: 'https://cdn.example.com/b.mp4', trim_start: 5, trim_duration: 3 },
+          ],
+        },
+      ],
+    });
+    const args = buildSnapshotArgs(plan.scenes[0]!, plan, [], 3, 0.25, '/tmp/frame.jpg');
+
+    expect(args.slice(1, 5)).toEqual(['-ss', '6.000', '-i', 'https://cdn.example.com/b.mp4']);
+  });
+});
+
+describe('unit parsing', () => {
+  it('should parse Creatomate time values', () => {
+    expect(parseSeconds('13')).toBe(13);
+    expect(parseSeconds(2.5)).toBe(2.5);
+    expect(parseSeconds(null)).toBeNull();
+    expect(parseSeconds('0')).toBeNull();
+  });
+
+  it('should parse Creatomate lengths', () => {
+    expect(parseLength('8 vmin', 1080, 1920)).toBeCloseTo(86.4);
+    expect(parseLength('10%', 1080, 1920)).toBe(192);
+    expect(parseLength('40px', 1080, 1920)).toBe(40);
+    expect(parseLength(undefined, 1080, 1920)).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import { ArchiveStorage, RenderArchiver, renderArchiveKeys } from '../render-archiver';
+import { Logger } from '../../video/watermark-service';
+import { createMockDb, MockQuery } from '../../../test-helpers/mock-db';
+
+const renderedRequest = {
+  id: 'request-1',
+  user_id: 'user-1',
+  render_status: 'done',
+  render_url: 'https://cdn.creatomate.com/renders/render-1.mp4',
+  snapshot_url: 'https://cdn.creatomate.com/snapshots/render-1.jpg',
+  archive_status: 'pending',
+};
+
+const isRequestLookup = (query: MockQuery) =>
+  query.table === 'video_requests' && query.ops[0]?.[0] === 'select';
+
+const updatesOf = (queries: MockQuery[]) =>
+  queries
+    .filter((query) => query.table === 'video_requests' && query.ops[0]?.[0] === 'update')
+    .map((query) => query.ops[0]![1]);
+
+describe('RenderArchiver', () => {
+  let mockLogger: Logger;
+  let storage: ArchiveStorage & { put: ReturnType<typeof vi.fn> };
+  let download: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    storage = {
+      put: vi.fn(async (key: string) => `https://test-bucket.s3.amazonaws.com/${key}`),
+    };
+    download = vi.fn(async (url: string) => Buffer.from(`content of ${url}`));
+  });
+
+  it('keys copies under the user and request', () => {
+    expect(renderArchiveKeys('user-1', 'request-1')).toEqual({
+      video: 'renders/user-1/request-1/video.mp4',
+      snapshot: 'renders/user-1/request-1/snapshot.jpg',
+    });
+  });
+
+  it('copies the render and snapshot and records their size and checksum', async () => {
+    const { db, queries } = createMockDb((query) =>
+      isRequestLookup(query) ? { data: renderedRequest } : {}
+    );
+    const archiver = new RenderArchiver(db, mockLogger, storage, download);
+
+    await archiver.archive('request-1');
+
+    const video = Buffer.from(`content of ${renderedRequest.render_url}`);
+    expect(storage.put).toHaveBeenCalledWith(
+      'renders/user-1/request-1/video.mp4',
+      video,
+      'video/mp4'
+    );
+    expect(storage.put).toHaveBeenCalledWith(
+      'renders/user-1/request-1/snapshot.jpg',
+      expect.any(Buffer),
+      'image/jpeg'
+    );
+    expect(updatesOf(queries)).toEqual([
+      expect.objectContaining({
+        archive_status: 'archived',
+        archived_render_key: 'renders/user-1/request-1/video.mp4',
+        archived_render_url: 'https://test-bucket.s3.amazonaws.com/renders/user-1/request-1/video.mp4',
+        archived_render_size: video.length,
+        archived_render_sha256: createHash('sha256').update(video).digest('hex'),
+        archived_snapshot_url:
+          'https://test-bucket.s3.amazonaws.com/renders/user-1/request-1/snapshot.jpg',
+      }),
+    ]);
+  });
+
+  it('does not record the copies as side effects of the request', async () => {
+    const { db, queries } = createMockDb((query) =>
+      isRequestLookup(query) ? { data: renderedRequest } : {}
+    );
+    const archiver = new RenderArchiver(db, mockLogger, storage, download);
+
+    await archiver.archive('request-1');
+
+    // A later failure of the request must not delete what the video list serves
+    expect(queries.some((query) => query.table === 'generation_side_effects')).toBe(false);
+  });
+
+  it('leaves renders already archived or not finished', async () => {
+    for (const request of [
+      { ...renderedRequest, archive_status: 'archived' },
+      { ...renderedRequest, render_status: 'rendering', render_url: null },
+    ]) {
+      const { db, queries } = createMockDb((query) =>
+        isRequestLookup(query) ? { data: request } : {}
+      );
+      const archiver = new RenderArchiver(db, mockLogger, storage, download);
+
+      await archiver.archive('request-1');
+
+      expect(download).not.toHaveBeenCalled();
+      expect(updatesOf(queries)).toEqual([]);
+    }
+  });
+
+  it('fails without updating the request when the download fails', async () => {
+    const { db, queries } = createMockDb((query) =>
+      isRequestLookup(query) ? { data: renderedRequest } : {}
+    );
+    download.mockRejectedValueOnce(new Error('Download failed with status 404'));
+    const archiver = new RenderArchiver(db, mockLogger, storage, download);
+
+    await expect(archiver.archive('request-1')).rejects.toThrow('status 404');
+    expect(storage.put).not.toHaveBeenCalled();
+    expect(updatesOf(queries)).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  RenderReconciler,
+  RenderSettler,
+  StuckRender,
+  StuckRenderStore,
+} from '../render-reconciler';
+import { Clock } from '../../../utils/interval-runner';
+import { createMockLogger } from '../../../test-helpers/mock-logger';
+import { RenderStatus } from '../types';
+
+class InMemoryRenderStore implements StuckRenderStore {
+  renders: StuckRender[] = [];
+
+  async listStuckRenders(startedBefore: Date, limit: number) {
+    return this.renders
+      .filter((render) => new Date(render.processingStartedAt) < startedBefore)
+      .slice(0, limit);
+  }
+}
+
+const MINUTE = 60000;
+const NOW = new Date('2026-03-02T10:00:00.000Z');
+
+function stuckRender(id: string, minutesAgo: number): StuckRender {
+  return {
+    requestId: `request-${id}`,
+    userId: 'user-1',
+    scriptId: null,
+    renderId: `render-${id}`,
+    processingStartedAt: new Date(NOW.getTime() - minutesAgo * MINUTE).toISOString(),
+  };
+}
+
+describe('RenderReconciler', () => {
+  let store: InMemoryRenderStore;
+  let statuses: Map<string, RenderStatus | null>;
+  let provider: { getStatus: ReturnType<typeof vi.fn>; cancel: ReturnType<typeof vi.fn> };
+  let settled: Set<string>;
+  let settler: RenderSettler & { settle: ReturnType<typeof vi.fn> };
+  let reconciler: RenderReconciler;
+
+  beforeEach(() => {
+    store = new InMemoryRenderStore();
+    statuses = new Map();
+    provider = {
+      getStatus: vi.fn(async (renderId: string) => statuses.get(renderId) ?? null),
+      cancel: vi.fn(async () => true),
+    };
+    // Same ledger semantics as the settlement service: each outcome once
+    settled = new Set();
+    settler = {
+      settle: vi.fn(async (_request, outcome) => {
+        const key = `${outcome.renderId}:${outcome.status}`;
+        if (settled.has(key)) {
+          return false;
+        }
+        settled.add(key);
+        return true;
+      }),
+    };
+    const clock: Clock = { now: () => new Date(NOW) };
+    reconciler = new RenderReconciler({
+      store,
+      provider,
+      settler,
+      logger: createMockLogger(),
+      clock,
+      expectedRenderMs: 10 * MINUTE,
+      deadlineMs: 30 * MINUTE,
+    });
+  });
+
+  it('leaves requests still within the expected render time alone', async () => {
+    store.renders.push(stuckRender('a', 5));
+
+    expect(await reconciler.tick()).toBe(0);
+    expect(provider.getStatus).not.toHaveBeenCalled();
+  });
+
+  it('settles renders the provider finished without webhook', async () => {
+    store.renders.push(stuckRender('a', 15), stuckRender('b', 15));
+    statuses.set('render-a', {
+      renderId: 'render-a',
+      status: 'succeeded',
+      url: 'https://cdn.example.com/a.mp4',
+      duration: 30,
+    });
+    statuses.set('render-b', { renderId: 'render-b', status: 'failed', error: 'Bad asset' });
+
+    expect(await reconciler.tick()).toBe(2);
+
+    expect(settler.settle).toHaveBeenCalledWith(
+      { requestId: 'request-a', userId: 'user-1', scriptId: null },
+      expect.objectContaining({
+        renderId: 'render-a',
+        status: 'succeeded',
+        url: 'https://cdn.example.com/a.mp4',
+      }),
+      'reconciler',
+      expect.anything()
+    );
+    expect(reconciler.getMetrics()).toMatchObject({
+      runs: 1,
+      checked: 2,
+      repairedSucceeded: 1,
+      repairedFailed: 1,
+      timedOut: 0,
+      lastRunAt: NOW.toISOString(),
+    });
+  });
+
+  it('waits for renders still running before the deadline', async () => {
+    store.renders.push(stuckRender('a', 15));
+    statuses.set('render-a', { renderId: 'render-a', status: 'rendering' });
+
+    expect(await reconciler.tick()).toBe(0);
+    expect(settler.settle).not.toHaveBeenCalled();
+  });
+
+  it('fails and cancels renders past the deadline', async () => {
+    store.renders.push(stuckRender('a', 45), stuckRender('b', 45));
+    statuses.set('render-a', { renderId: 'render-a', status: 'rendering' });
+
+    expect(await reconciler.tick()).toBe(2);
+
+    expect(settler.settle).toHaveBeenCalledWith(
+      expect.objectContaining({ requestId: 'request-a' }),
+      { renderId: 'render-a', status: 'failed', error: 'Render timed out after 45 minutes' },
+      'reconciler',
+      expect.anything()
+    );
+    expect(provider.cancel).toHaveBeenCalledWith('render-a');
+    expect(provider.cancel).toHaveBeenCalledWith('render-b');
+    expect(reconciler.getMetrics().timedOut).toBe(2);
+  });
+
+  it('does not count outcomes already applied by the webhook', async () => {
+    store.renders.push(stuckRender('a', 15));
+    statuses.set('render-a', {
+      renderId: 'render-a',
+      status: 'succeeded',
+      url: 'https://cdn.example.com/a.mp4',
+    });
+    settled.add('render-a:succeeded');
+
+    expect(await reconciler.tick()).toBe(0);
+    expect(reconciler.getMetrics().repairedSucceeded).toBe(0);
+  });
+
+  it('keeps sweeping when a request fails to reconcile', async () => {
+    store.renders.push(stuckRender('a', 15), stuckRender('b', 15));
+    provider.getStatus.mockRejectedValueOnce(new Error('Provider unavailable'));
+    statuses.set('render-b', { renderId: 'render-b', status: 'failed' });
+
+    expect(await reconciler.tick()).toBe(1);
+    expect(reconciler.getMetrics()).toMatchObject({ checked: 2, errors: 1, repairedFailed: 1 });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import {
+  signRenderWebhook,
+  signRenderWebhookUrl,
+  verifyRenderWebhookSignature,
+} from '../webhook-signature';
+
+const metadata = { requestId: 'request-1', userId: 'user-1' };
+const secret = 'test-secret';
+
+describe('render webhook signature', () => {
+  it('signs the webhook URL for the render metadata', () => {
+    const url = new URL(
+      signRenderWebhookUrl('https://api.example.com/api/webhooks/creatomate', metadata, secret)
+    );
+
+    expect(url.pathname).toBe('/api/webhooks/creatomate');
+    expect(url.searchParams.get('signature')).toBe(signRenderWebhook(metadata, secret));
+  });
+
+  it('leaves the URL unsigned without secret', () => {
+    expect(signRenderWebhookUrl('https://api.example.com/hook', metadata, undefined)).toBe(
+      'https://api.example.com/hook'
+    );
+  });
+
+  it('accepts the signature of the metadata', () => {
+    const signature = signRenderWebhook(metadata, secret);
+
+    expect(verifyRenderWebhookSignature(signature, metadata, secret)).toBe(true);
+  });
+
+  it('rejects signatures of other metadata or secrets', () => {
+    const signature = signRenderWebhook(metadata, secret);
+
+    expect(
+      verifyRenderWebhookSignature(signature, { ...metadata, userId: 'user-2' }, secret)
+    ).toBe(false);
+    expect(verifyRenderWebhookSignature(signature, metadata, 'other-secret')).toBe(false);
+    expect(verifyRenderWebhookSignature('abc', metadata, secret)).toBe(false);
+    expect(verifyRenderWebhookSignature(undefined, metadata, secret)).toBe(false);
+  });
+
+  it('rejects every signature without secret', () => {
+    const signature = signRenderWebhook(metadata, secret);
+
+    expect(verifyRenderWebhookSignature(signature, metadata, undefined)).toBe(false);
+  });
+});
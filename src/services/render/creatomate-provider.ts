@@ -0,0 +1,183 @@
+import { CreatomateRenderResponseSchema, RenderMetadata } from "../../types/renders";
+import { VideoValidationService } from "../video/validation";
+import {
+  RenderJob,
+  RenderProvider,
+  RenderState,
+  RenderStatus,
+  SnapshotOptions,
+} from "./types";
+import { signRenderWebhookUrl } from "./webhook-signature";
+
+const API_URL = "https://api.creatomate.com/v1/renders";
+const DEFAULT_TEMPLATE_ID = "a5403674-6eaf-4114-a088-4d560d851aef";
+const SNAPSHOT_POLL_INTERVAL = 1500; // ms
+const SNAPSHOT_TIMEOUT = 60000; // ms
+
+/**
+ * Renders through the Creatomate REST API.
+ * Creatomate calls `/api/webhooks/creatomate` itself once the render settles,
+ * on a URL signed for the render.
+ */
+export class CreatomateRenderProvider implements RenderProvider {
+  readonly name = "creatomate";
+
+  constructor(
+    private apiKey: string = process.env.CREATOMATE_API_KEY || "",
+    private templateId: string = process.env.CREATOMATE_TEMPLATE_ID ||
+      DEFAULT_TEMPLATE_ID,
+    private webhookUrl: string = getRenderWebhookUrl()
+  ) {}
+
+  async startRender(template: any, metadata: RenderMetadata): Promise<RenderJob> {
+    const renderId = await this.createRender({
+      template_id: this.templateId,
+      modifications: template,
+      webhook_url: signRenderWebhookUrl(this.webhookUrl, metadata),
+      output_format: "mp4",
+      frame_rate: 30,
+      render_scale: 1.0,
+      metadata: JSON.stringify(metadata),
+    });
+
+    return { renderId, status: "rendering" };
+  }
+
+  /**
+   * Image renders take a few seconds, so they are polled instead of going
+   * through the webhook
+   */
+  async renderSnapshot(template: any, options: SnapshotOptions): Promise<string> {
+    const renderId = await this.createRender({
+      template_id: this.templateId,
+      modifications: template,
+      output_format: "jpg",
+      frame_time: options.time,
+      render_scale: options.scale,
+    });
+
+    const deadline = Date.now() + SNAPSHOT_TIMEOUT;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, SNAPSHOT_POLL_INTERVAL));
+
+      const status = await this.getStatus(renderId);
+      if (status?.status === "succeeded" && status.url) {
+        return status.url;
+      }
+      if (status?.status === "failed") {
+        throw VideoValidationService.createError(
+          `Creatomate snapshot ${renderId} failed`,
+          "SNAPSHOT_FAILED",
+          { renderId, error: status.error },
+          true
+        );
+      }
+    }
+
+    throw VideoValidationService.createError(
+      `Creatomate snapshot ${renderId} timed out`,
+      "OPERATION_TIMEOUT",
+      { renderId, timeoutMs: SNAPSHOT_TIMEOUT },
+      true
+    );
+  }
+
+  private async createRender(renderPayload: Record<string, any>): Promise<string> {
+    const renderResponse = await fetch(API_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(renderPayload),
+    });
+
+    if (!renderResponse.ok) {
+      const errorData = await renderResponse.json().catch(() => ({}));
+
+      throw VideoValidationService.createError(
+        "Creatomate API request failed",
+        "CREATOMATE_API_ERROR",
+        {
+          status: renderResponse.status,
+          statusText: renderResponse.statusText,
+          errorData,
+        },
+        renderResponse.status >= 500, // Retry on server errors
+        "Video rendering service is temporarily unavailable. Please try again."
+      );
+    }
+
+    const renderData = (await renderResponse.json()) as any[];
+    const renderId = renderData[0]?.id;
+
+    if (!renderId) {
+      throw VideoValidationService.createError(
+        "Invalid response from Creatomate API",
+        "CREATOMATE_INVALID_RESPONSE",
+        { renderData },
+        true,
+        "Video rendering service returned an invalid response. Please try again."
+      );
+    }
+
+    return renderId;
+  }
+
+  async getStatus(renderId: string): Promise<RenderStatus | null> {
+    const renderResponse = await fetch(`${API_URL}/${renderId}`, {
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+      },
+    });
+
+    if (renderResponse.status === 404) {
+      return null;
+    }
+
+    if (!renderResponse.ok) {
+      throw VideoValidationService.createError(
+        `Creatomate status request failed: ${await renderResponse.text()}`,
+        "CREATOMATE_API_ERROR",
+        { renderId, status: renderResponse.status },
+        renderResponse.status >= 500
+      );
+    }
+
+    const renderData = CreatomateRenderResponseSchema.parse(
+      await renderResponse.json()
+    );
+
+    return {
+      renderId: renderData.id,
+      status: toRenderState(renderData.status),
+      url: renderData.url,
+      snapshotUrl: renderData.snapshot_url,
+    };
+  }
+
+  /**
+   * Creatomate has no API to stop a render once it is planned
+   */
+  async cancel(_renderId: string): Promise<boolean> {
+    return false;
+  }
+}
+
+/**
+ * Public URL of the render webhook, shared by every provider
+ */
+export function getRenderWebhookUrl(): string {
+  const baseUrl =
+    process.env.WEBHOOK_BASE_URL || "https://nodejs-production-a774.up.railway.app";
+  return `${baseUrl}/api/webhooks/creatomate`;
+}
+
+function toRenderState(status: string): RenderState {
+  if (status === "succeeded" || status === "failed") {
+    return status;
+  }
+  // planned, waiting, transcribing, rendering
+  return "rendering";
+}
@@ -0,0 +1,351 @@
+import { ChildProcess, spawn } from "child_process";
+import { randomUUID } from "crypto";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import winston from "winston";
+import { logger } from "../../config/logger";
+import { RenderMetadata } from "../../types/renders";
+import { initializeFFmpegPath } from "../../utils/video/ffmpeg";
+import { VideoValidationService } from "../video/validation";
+import { VideoProgressService, getVideoProgressService } from "../video/progress";
+import {
+  buildLocalRenderPlan,
+  buildMusicMixArgs,
+  buildSceneArgs,
+  buildSnapshotArgs,
+  LocalRenderPlan,
+} from "./local-render-plan";
+import { RenderJob, RenderProvider, RenderStatus, SnapshotOptions } from "./types";
+import { signRenderWebhookUrl } from "./webhook-signature";
+
+interface LocalRender {
+  status: RenderStatus;
+  process: ChildProcess | null;
+  cancelled: boolean;
+}
+
+/**
+ * Directory the local renderer writes finished videos to.
+ * Served under `/renders` when RENDER_PROVIDER=local.
+ */
+export function getLocalRenderOutputDir(): string {
+  return (
+    process.env.LOCAL_RENDER_OUTPUT_DIR || path.join(os.tmpdir(), "editia-renders")
+  );
+}
+
+/**
+ * Renders templates on this machine with FFmpeg.
+ *
+ * Renders run in the background like Creatomate ones; once done, a
+ * Creatomate-shaped payload is posted to the render webhook so the request is
+ * finalized the same way. Render state is kept in memory and lost on restart.
+ */
+export class LocalRenderProvider implements RenderProvider {
+  readonly name = "local";
+  private renders = new Map<string, LocalRender>();
+  private logger: winston.Logger;
+
+  constructor(
+    private outputDir: string = getLocalRenderOutputDir(),
+    private publicBaseUrl: string = process.env.LOCAL_RENDER_PUBLIC_URL ||
+      `http://localhost:${process.env.PORT || 3000}`,
+    private webhookUrl: string = `${
+      process.env.WEBHOOK_BASE_URL || publicBaseUrl
+    }/api/webhooks/creatomate`
+  ) {
+    this.logger = logger.child({ module: "localRenderProvider" });
+  }
+
+  async startRender(template: any, metadata: RenderMetadata): Promise<RenderJob> {
+    const ffmpegPath = await this.getFFmpegPath();
+    const plan = buildLocalRenderPlan(template);
+    if (plan.scenes.length === 0) {
+      throw VideoValidationService.createError(
+        "Template has no scene to render",
+        "EMPTY_TEMPLATE",
+        { requestId: metadata.requestId },
+        false
+      );
+    }
+
+    const renderId = randomUUID();
+    this.renders.set(renderId, {
+      status: { renderId, status: "rendering" },
+      process: null,
+      cancelled: false,
+    });
+
+    this.render(renderId, plan, ffmpegPath, metadata).catch((error) =>
+      this.logger.error(`❌ Local render ${renderId} crashed:`, error)
+    );
+
+    return { renderId, status: "rendering" };
+  }
+
+  /**
+   * Captures the frame of the first scene playing at `options.time`
+   */
+  async renderSnapshot(template: any, options: SnapshotOptions): Promise<string> {
+    const ffmpegPath = await this.getFFmpegPath();
+    const plan = buildLocalRenderPlan(template);
+    const scene = plan.scenes[0];
+    if (!scene) {
+      throw VideoValidationService.createError(
+        "Template has no scene to capture",
+        "EMPTY_TEMPLATE",
+        { provider: this.name },
+        false
+      );
+    }
+
+    const snapshotId = randomUUID();
+    const workDir = path.join(this.outputDir, `${snapshotId}-work`);
+    const fileName = `snapshot-${snapshotId}.jpg`;
+
+    try {
+      await fs.mkdir(workDir, { recursive: true });
+      const captionFiles = await Promise.all(
+        scene.captions.map(async (caption, index) => {
+          const file = path.join(workDir, `caption-${index}.txt`);
+          await fs.writeFile(file, caption.text, "utf8");
+          return file;
+        })
+      );
+
+      await this.runFFmpeg(
+        snapshotId,
+        ffmpegPath,
+        buildSnapshotArgs(
+          scene,
+          plan,
+          captionFiles,
+          options.time,
+          options.scale,
+          path.join(this.outputDir, fileName)
+        )
+      );
+    } finally {
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+
+    return `${this.publicBaseUrl}/renders/${fileName}`;
+  }
+
+  async getStatus(renderId: string): Promise<RenderStatus | null> {
+    const render = this.renders.get(renderId);
+    return render ? { ...render.status } : null;
+  }
+
+  async cancel(renderId: string): Promise<boolean> {
+    const render = this.renders.get(renderId);
+    if (!render || render.status.status !== "rendering") {
+      return false;
+    }
+
+    render.cancelled = true;
+    render.process?.kill("SIGKILL");
+    render.status = { renderId, status: "failed", error: "Render cancelled" };
+    this.logger.info(`🛑 Local render ${renderId} cancelled`);
+    return true;
+  }
+
+  private async render(
+    renderId: string,
+    plan: LocalRenderPlan,
+    ffmpegPath: string,
+    metadata: RenderMetadata
+  ): Promise<void> {
+    const startTime = Date.now();
+    const workDir = path.join(this.outputDir, `${renderId}-work`);
+    const outputPath = path.join(this.outputDir, `${renderId}.mp4`);
+    const snapshotPath = path.join(this.outputDir, `${renderId}.jpg`);
+
+    this.logger.info(
+      `🎞️ Local render ${renderId} started (${plan.scenes.length} scenes, ~${plan.duration.toFixed(1)}s)`
+    );
+
+    try {
+      await fs.mkdir(workDir, { recursive: true });
+
+      if (plan.scenes.some((scene) => scene.hasUnrenderableVoice)) {
+        this.logger.warn(
+          `⚠️ Local render ${renderId}: synthesized voice-overs are not supported locally, scenes will be silent`
+        );
+      }
+
+      const segments: string[] = [];
+      for (const [index, scene] of plan.scenes.entries()) {
+        const captionFiles = await Promise.all(
+          scene.captions.map(async (caption, captionIndex) => {
+            const file = path.join(workDir, `caption-${index}-${captionIndex}.txt`);
+            await fs.writeFile(file, caption.text, "utf8");
+            return file;
+          })
+        );
+
+        const segmentPath = path.join(workDir, `scene-${index}.mp4`);
+        await this.runFFmpeg(
+          renderId,
+          ffmpegPath,
+          buildSceneArgs(scene, plan, captionFiles, segmentPath)
+        );
+        segments.push(segmentPath);
+
+        await getVideoProgressService().publish(metadata.requestId, "rendering", {
+          progress: VideoProgressService.renderProgress(
+            (index + 1) / plan.scenes.length
+          ),
+          message: `Rendered scene ${index + 1} of ${plan.scenes.length}`,
+        });
+      }
+
+      const listPath = path.join(workDir, "segments.txt");
+      await fs.writeFile(
+        listPath,
+        segments.map((segment) => `file '${segment}'`).join("\n"),
+        "utf8"
+      );
+      // The music is mixed over the joined scenes so it plays continuously
+      const joinedPath = plan.music ? path.join(workDir, "joined.mp4") : outputPath;
+      await this.runFFmpeg(renderId, ffmpegPath, [
+        "-y", "-f", "concat", "-safe", "0", "-i", listPath,
+        "-c", "copy", "-movflags", "+faststart", joinedPath,
+      ]);
+      if (plan.music) {
+        await this.runFFmpeg(
+          renderId,
+          ffmpegPath,
+          buildMusicMixArgs(plan.music, plan.duration, joinedPath, outputPath)
+        );
+      }
+      await this.runFFmpeg(renderId, ffmpegPath, [
+        "-y", "-i", outputPath, "-frames:v", "1", "-q:v", "3", snapshotPath,
+      ]);
+
+      const { size } = await fs.stat(outputPath);
+      const render = this.renders.get(renderId)!;
+      render.status = {
+        renderId,
+        status: "succeeded",
+        url: `${this.publicBaseUrl}/renders/${renderId}.mp4`,
+        snapshotUrl: `${this.publicBaseUrl}/renders/${renderId}.jpg`,
+        duration: plan.duration,
+      };
+
+      this.logger.info(
+        `✅ Local render ${renderId} completed in ${Date.now() - startTime}ms`
+      );
+      await this.notify(render.status, plan, metadata, size);
+    } catch (error) {
+      const render = this.renders.get(renderId)!;
+      if (render.cancelled) {
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      render.status = { renderId, status: "failed", error: message };
+      this.logger.error(`❌ Local render ${renderId} failed:`, error);
+      await this.notify(render.status, plan, metadata);
+    } finally {
+      const render = this.renders.get(renderId);
+      if (render) {
+        render.process = null;
+      }
+      await fs.rm(workDir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+
+  private async getFFmpegPath(): Promise<string> {
+    const ffmpegPath = await initializeFFmpegPath();
+    if (!ffmpegPath) {
+      throw VideoValidationService.createError(
+        "FFmpeg is not available for local rendering",
+        "FFMPEG_NOT_AVAILABLE",
+        { provider: this.name },
+        false,
+        "Video rendering is not available on this server."
+      );
+    }
+    return ffmpegPath;
+  }
+
+  private runFFmpeg(
+    renderId: string,
+    ffmpegPath: string,
+    args: string[]
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const render = this.renders.get(renderId);
+      if (render?.cancelled) {
+        reject(new Error("Render cancelled"));
+        return;
+      }
+
+      const ffmpeg = spawn(ffmpegPath, args);
+      if (render) {
+        render.process = ffmpeg;
+      }
+
+      let stderr = "";
+      ffmpeg.stderr.on("data", (data) => {
+        stderr += data.toString();
+      });
+
+      ffmpeg.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`FFmpeg exited with code ${code}: ${stderr.slice(-200)}`));
+        }
+      });
+
+      ffmpeg.on("error", (error) => {
+        reject(new Error(`FFmpeg failed to start: ${error.message}`));
+      });
+    });
+  }
+
+  /**
+   * Posts the outcome to the render webhook, mimicking Creatomate
+   */
+  private async notify(
+    status: RenderStatus,
+    plan: LocalRenderPlan,
+    metadata: RenderMetadata,
+    fileSize?: number
+  ): Promise<void> {
+    try {
+      const response = await fetch(signRenderWebhookUrl(this.webhookUrl, metadata), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          id: status.renderId,
+          status: status.status,
+          url: status.url,
+          snapshot_url: status.snapshotUrl,
+          output_format: "mp4",
+          width: plan.width,
+          height: plan.height,
+          frame_rate: plan.frameRate,
+          duration: status.duration,
+          file_size: fileSize,
+          metadata: JSON.stringify(metadata),
+          error: status.error,
+        }),
+      });
+
+      if (!response.ok) {
+        this.logger.warn(
+          `⚠️ Render webhook answered ${response.status} for local render ${status.renderId}`
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `⚠️ Failed to notify render webhook for local render ${status.renderId}:`,
+        error
+      );
+    }
+  }
+}
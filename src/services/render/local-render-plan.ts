@@ -0,0 +1,460 @@
+/**
+ * Translates a Creatomate-shaped template into the FFmpeg work the local
+ * renderer runs: one encoded segment per scene, concatenated afterwards.
+ *
+ * Only the subset of Creatomate the template builder emits is supported:
+ * top-level compositions (or bare videos) played one after the other, each
+ * holding video clips played in sequence, audio tracks and text, plus a
+ * top-level audio track (background music) mixed over the whole video.
+ * Voice-overs synthesized by Creatomate (`dynamic` audio whose source is the
+ * spoken text) cannot be produced offline; their text still drives the scene
+ * duration and captions.
+ */
+
+export interface LocalCaption {
+  text: string;
+  fontSize: number;
+  color: string;
+  strokeColor: string | null;
+  strokeWidth: number;
+  xAlignment: number;
+  yAlignment: number;
+}
+
+export interface LocalClip {
+  source: string;
+  trimStart: number;
+  duration: number | null;
+  fit: "cover" | "contain";
+}
+
+export interface LocalScenePlan {
+  duration: number;
+  videos: LocalClip[];
+  audioSources: string[];
+  captions: LocalCaption[];
+  hasUnrenderableVoice: boolean;
+}
+
+export interface LocalMusic {
+  source: string;
+  volume: number; // 0 to 1
+  fadeIn: number;
+  fadeOut: number;
+  loop: boolean;
+}
+
+export interface LocalRenderPlan {
+  width: number;
+  height: number;
+  frameRate: number;
+  scenes: LocalScenePlan[];
+  duration: number;
+  music: LocalMusic | null;
+}
+
+const DEFAULT_WIDTH = 1080;
+const DEFAULT_HEIGHT = 1920;
+const DEFAULT_FRAME_RATE = 30;
+const DEFAULT_SCENE_DURATION = 5; // seconds
+const MIN_VOICE_DURATION = 1.5; // seconds
+const WORDS_PER_SECOND = 2.5; // ~150 words per minute
+const DEFAULT_CAPTION_LINE_LENGTH = 25;
+
+export function buildLocalRenderPlan(template: any): LocalRenderPlan {
+  const width = Number(template?.width) || DEFAULT_WIDTH;
+  const height = Number(template?.height) || DEFAULT_HEIGHT;
+  const frameRate = Number(template?.frame_rate) || DEFAULT_FRAME_RATE;
+  const elements: any[] = Array.isArray(template?.elements) ? template.elements : [];
+
+  const scenes = elements
+    .filter((element) => element?.type === "composition" || element?.type === "video")
+    .map((element) =>
+      element.type === "composition"
+        ? planScene(element.elements ?? [], element.duration, width, height)
+        : planScene([element], element.duration, width, height)
+    );
+
+  const musicElement = elements.find(
+    (element) =>
+      element?.type === "audio" &&
+      typeof element.source === "string" &&
+      isMediaSource(element.source) &&
+      !element.dynamic
+  );
+
+  return {
+    width,
+    height,
+    frameRate,
+    scenes,
+    duration: scenes.reduce((total, scene) => total + scene.duration, 0),
+    music: musicElement
+      ? {
+          source: musicElement.source,
+          volume: parsePercentage(musicElement.volume) ?? 1,
+          fadeIn: parseSeconds(musicElement.audio_fade_in) ?? 0,
+          fadeOut: parseSeconds(musicElement.audio_fade_out) ?? 0,
+          loop: musicElement.loop === true,
+        }
+      : null,
+  };
+}
+
+function planScene(
+  elements: any[],
+  explicitDuration: unknown,
+  width: number,
+  height: number
+): LocalScenePlan {
+  const videoElements = elements.filter(
+    (element) => element?.type === "video" && typeof element.source === "string"
+  );
+  const audioElements = elements.filter((element) => element?.type === "audio");
+  const textElements = elements.filter((element) => element?.type === "text");
+
+  const voiceTexts = new Map<string, string>();
+  const audioSources: string[] = [];
+  for (const audio of audioElements) {
+    if (typeof audio.source !== "string") {
+      continue;
+    }
+    if (isMediaSource(audio.source) && !audio.dynamic) {
+      audioSources.push(audio.source);
+    } else {
+      voiceTexts.set(audio.id ?? `voice-${voiceTexts.size}`, audio.source);
+    }
+  }
+
+  const voiceDuration = Math.max(
+    0,
+    ...[...voiceTexts.values()].map(estimateSpeechDuration)
+  );
+
+  const videos: LocalClip[] = videoElements.map((element) => ({
+    source: element.source,
+    trimStart: parseSeconds(element.trim_start) ?? 0,
+    duration: parseSeconds(element.duration) ?? parseSeconds(element.trim_duration),
+    fit: element.fit === "contain" ? "contain" : "cover",
+  }));
+
+  // Like Creatomate, a composition lasts as long as its longest track
+  const videoDuration = videos.reduce((total, clip) => total + (clip.duration ?? 0), 0);
+  const duration =
+    parseSeconds(explicitDuration) ??
+    (Math.max(videoDuration, voiceDuration) || DEFAULT_SCENE_DURATION);
+
+  const captions = textElements
+    .map((element) => {
+      const text =
+        element.text ??
+        (element.transcript_source
+          ? voiceTexts.get(element.transcript_source)
+          : undefined);
+      if (!text) {
+        return null;
+      }
+      return planCaption(element, text, width, height);
+    })
+    .filter((caption): caption is LocalCaption => caption !== null);
+
+  return {
+    duration,
+    videos,
+    audioSources,
+    captions,
+    hasUnrenderableVoice: voiceTexts.size > 0,
+  };
+}
+
+function planCaption(
+  element: any,
+  text: string,
+  width: number,
+  height: number
+): LocalCaption {
+  const maxLineLength =
+    Number(element.transcript_maximum_length) || DEFAULT_CAPTION_LINE_LENGTH;
+
+  return {
+    text: wrapText(text, maxLineLength),
+    fontSize: Math.round(parseLength(element.font_size, width, height) ?? height * 0.04),
+    color: toFfmpegColor(element.fill_color) ?? "white",
+    strokeColor: toFfmpegColor(element.stroke_color),
+    strokeWidth: Math.round(parseLength(element.stroke_width, width, height) ?? 0),
+    xAlignment: parsePercentage(element.x_alignment) ?? 0.5,
+    yAlignment: parsePercentage(element.y_alignment) ?? 0.5,
+  };
+}
+
+/**
+ * FFmpeg arguments encoding one scene into a standalone segment.
+ * Segments share codec settings so they can be concatenated without re-encoding.
+ */
+export function buildSceneArgs(
+  scene: LocalScenePlan,
+  plan: Pick<LocalRenderPlan, "width" | "height" | "frameRate">,
+  captionFiles: string[],
+  outputPath: string
+): string[] {
+  const { width, height, frameRate } = plan;
+  const duration = scene.duration.toFixed(3);
+  const args: string[] = ["-y"];
+
+  if (scene.videos.length > 0) {
+    scene.videos.forEach((clip) => {
+      const clipDuration = clip.duration !== null ? clip.duration.toFixed(3) : duration;
+      args.push("-ss", String(clip.trimStart), "-t", clipDuration, "-i", clip.source);
+    });
+  } else {
+    args.push("-f", "lavfi", "-t", duration, "-i", `color=c=black:s=${width}x${height}:r=${frameRate}`);
+  }
+  const videoInputs = Math.max(scene.videos.length, 1);
+
+  if (scene.audioSources.length > 0) {
+    scene.audioSources.forEach((source) => args.push("-i", source));
+  } else {
+    args.push("-f", "lavfi", "-t", duration, "-i", "anullsrc=r=44100:cl=stereo");
+  }
+
+  const fitFilter = (fit: LocalClip["fit"] | undefined) =>
+    [
+      fit === "contain"
+        ? `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`
+        : `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`,
+      "setsar=1",
+      `fps=${frameRate}`,
+    ].join(",");
+
+  // Chained clips are fitted one by one, then joined
+  const clipFilters =
+    videoInputs > 1
+      ? `${scene.videos.map((clip, i) => `[${i}:v]${fitFilter(clip.fit)}[c${i}];`).join("")}` +
+        `${scene.videos.map((_, i) => `[c${i}]`).join("")}concat=n=${videoInputs}:v=1:a=0,`
+      : `[0:v]${fitFilter(scene.videos[0]?.fit)},`;
+
+  const videoFilters = [
+    `tpad=stop_mode=clone:stop_duration=${duration}`,
+    ...scene.captions.map((caption, index) =>
+      buildDrawText(caption, captionFiles[index]!)
+    ),
+  ];
+
+  const audioInputs = Math.max(scene.audioSources.length, 1);
+  const audioFilter =
+    audioInputs > 1
+      ? `${Array.from({ length: audioInputs }, (_, i) => `[${videoInputs + i}:a]`).join("")}amix=inputs=${audioInputs}:duration=longest,apad[a]`
+      : `[${videoInputs}:a]aresample=44100,apad[a]`;
+
+  args.push(
+    "-filter_complex",
+    `${clipFilters}${videoFilters.join(",")}[v];${audioFilter}`,
+    "-map", "[v]",
+    "-map", "[a]",
+    "-t", duration,
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-pix_fmt", "yuv420p",
+    "-r", String(frameRate),
+    "-c:a", "aac",
+    "-ar", "44100",
+    "-ac", "2",
+    outputPath
+  );
+
+  return args;
+}
+
+/**
+ * FFmpeg arguments capturing one frame of a scene, captions included,
+ * scaled down by `scale`
+ */
+export function buildSnapshotArgs(
+  scene: LocalScenePlan,
+  plan: Pick<LocalRenderPlan, "width" | "height" | "frameRate">,
+  captionFiles: string[],
+  time: number,
+  scale: number,
+  outputPath: string
+): string[] {
+  const { width, height, frameRate } = plan;
+  const args: string[] = ["-y"];
+
+  // The clip playing at `time`, or the last one when the scene runs past them
+  let offset = Math.min(Math.max(time, 0), scene.duration);
+  let clip = scene.videos[0];
+  for (const candidate of scene.videos) {
+    clip = candidate;
+    if (candidate.duration === null || offset < candidate.duration) {
+      break;
+    }
+    offset -= candidate.duration;
+  }
+
+  if (clip) {
+    const seek = clip.trimStart + Math.min(offset, clip.duration ?? offset);
+    args.push("-ss", seek.toFixed(3), "-i", clip.source);
+  } else {
+    args.push("-f", "lavfi", "-i", `color=c=black:s=${width}x${height}:r=${frameRate}`);
+  }
+
+  const fit =
+    clip?.fit === "contain"
+      ? `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2`
+      : `scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height}`;
+  const filters = [
+    fit,
+    "setsar=1",
+    ...scene.captions.map((caption, index) => buildDrawText(caption, captionFiles[index]!)),
+    // Even dimensions keep every encoder happy
+    `scale=${Math.max(2, Math.round((width * scale) / 2) * 2)}:${Math.max(2, Math.round((height * scale) / 2) * 2)}`,
+  ];
+
+  args.push("-vf", filters.join(","), "-frames:v", "1", "-q:v", "4", outputPath);
+  return args;
+}
+
+/**
+ * FFmpeg arguments mixing the background music into the concatenated video,
+ * faded in and out over `duration` seconds
+ */
+export function buildMusicMixArgs(
+  music: LocalMusic,
+  duration: number,
+  inputPath: string,
+  outputPath: string
+): string[] {
+  const musicFilters = [
+    `volume=${music.volume}`,
+    ...(music.fadeIn > 0 ? [`afade=t=in:st=0:d=${music.fadeIn}`] : []),
+    ...(music.fadeOut > 0
+      ? [`afade=t=out:st=${Math.max(0, duration - music.fadeOut).toFixed(3)}:d=${music.fadeOut}`]
+      : []),
+  ];
+
+  return [
+    "-y",
+    "-i", inputPath,
+    ...(music.loop ? ["-stream_loop", "-1"] : []),
+    "-i", music.source,
+    "-filter_complex",
+    `[1:a]${musicFilters.join(",")}[m];[0:a][m]amix=inputs=2:duration=first:dropout_transition=0:normalize=0[a]`,
+    "-map", "0:v",
+    "-map", "[a]",
+    "-t", duration.toFixed(3),
+    "-c:v", "copy",
+    "-c:a", "aac",
+    "-ar", "44100",
+    "-ac", "2",
+    "-movflags", "+faststart",
+    outputPath,
+  ];
+}
+
+function buildDrawText(caption: LocalCaption, textFile: string): string {
+  const options = [
+    `textfile='${textFile}'`,
+    ...(process.env.LOCAL_RENDER_FONT_FILE
+      ? [`fontfile='${process.env.LOCAL_RENDER_FONT_FILE}'`]
+      : []),
+    `fontsize=${caption.fontSize}`,
+    `fontcolor=${caption.color}`,
+    ...(caption.strokeColor && caption.strokeWidth > 0
+      ? [`borderw=${caption.strokeWidth}`, `bordercolor=${caption.strokeColor}`]
+      : []),
+    `x=(w-text_w)*${caption.xAlignment}`,
+    `y=(h-text_h)*${caption.yAlignment}`,
+  ];
+  return `drawtext=${options.join(":")}`;
+}
+
+/**
+ * Seconds from a Creatomate time value ("13", "2.5 s", 4)
+ */
+export function parseSeconds(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? value : null;
+  }
+  if (typeof value === "string") {
+    const seconds = parseFloat(value);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+  }
+  return null;
+}
+
+/**
+ * Pixels from a Creatomate length ("8 vmin", "5%", "40px", 40)
+ */
+export function parseLength(
+  value: unknown,
+  width: number,
+  height: number
+): number | null {
+  if (typeof value === "number") {
+    return value;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  const amount = parseFloat(value);
+  if (!Number.isFinite(amount)) {
+    return null;
+  }
+  if (value.endsWith("vmin")) return (amount * Math.min(width, height)) / 100;
+  if (value.endsWith("vmax")) return (amount * Math.max(width, height)) / 100;
+  if (value.endsWith("vw")) return (amount * width) / 100;
+  if (value.endsWith("vh") || value.endsWith("%")) return (amount * height) / 100;
+  return amount;
+}
+
+function parsePercentage(value: unknown): number | null {
+  if (typeof value !== "string" || !value.endsWith("%")) {
+    return null;
+  }
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) ? Math.min(Math.max(amount / 100, 0), 1) : null;
+}
+
+function toFfmpegColor(value: unknown): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+  return /^#[0-9a-f]{6}([0-9a-f]{2})?$/i.test(value) ? value : null;
+}
+
+function isMediaSource(source: string): boolean {
+  return /^(https?:\/\/|file:\/\/|\/)/.test(source);
+}
+
+/**
+ * Seconds a voice-over of the text lasts, at an average speaking rate
+ */
+export function estimateSpeechDuration(text: string): number {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.max(words / WORDS_PER_SECOND, MIN_VOICE_DURATION);
+}
+
+function wrapText(text: string, maxLineLength: number): string {
+  return splitTextLines(text, maxLineLength).join("\n");
+}
+
+/**
+ * Splits text into lines of at most maxLineLength characters, between words.
+ * A longer word gets a line of its own.
+ */
+export function splitTextLines(text: string, maxLineLength: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.trim().split(/\s+/)) {
+    if (current && current.length + word.length + 1 > maxLineLength) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+  return lines;
+}
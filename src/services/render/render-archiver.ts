@@ -0,0 +1,236 @@
+import { createHash } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Logger } from "../video/watermark-service";
+import { getJobStore } from "../queue/job-queue";
+import { Job, JobContext } from "../queue/types";
+
+export interface RenderArchiveJobPayload {
+  requestId: string;
+}
+
+/**
+ * Bucket renders are copied to
+ */
+export interface ArchiveStorage {
+  /**
+   * @returns public URL of the object
+   */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+}
+
+type Download = (url: string) => Promise<Buffer>;
+
+export interface ArchivedFile {
+  key: string;
+  url: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * Keys of the copies of a render: `renders/<userId>/<requestId>/...`
+ */
+export function renderArchiveKeys(userId: string, requestId: string) {
+  const prefix = `renders/${userId}/${requestId}`;
+  return { video: `${prefix}/video.mp4`, snapshot: `${prefix}/snapshot.jpg` };
+}
+
+/**
+ * Copies finished renders from the render provider's CDN to our S3 bucket.
+ *
+ * Copies run as queued jobs so the render webhook answers right away and
+ * failed copies are retried. Copies are not side effects of the generation:
+ * the video list serves them, so a later failure of the request (re-render,
+ * retry...) must not roll them back.
+ */
+export class RenderArchiver {
+  static readonly JOB_TYPE = "render.archive";
+  private static readonly JOB_MAX_ATTEMPTS = 5;
+
+  private db: SupabaseClient;
+  private log: Logger;
+  private storage: ArchiveStorage;
+  private download: Download;
+
+  constructor(
+    db?: SupabaseClient,
+    log?: Logger,
+    storage?: ArchiveStorage,
+    download?: Download
+  ) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    this.db = db ?? require("../../config/supabase").supabase;
+    this.log = log ?? require("../../config/logger").logger;
+    this.storage = storage ?? s3ArchiveStorage();
+    this.download = download ?? downloadFile;
+  }
+
+  /**
+   * Queue the copy of a finished render
+   */
+  async queue(requestId: string): Promise<void> {
+    await this.db
+      .from("video_requests")
+      .update({ archive_status: "pending", archive_error: null })
+      .eq("id", requestId);
+
+    await getJobStore().enqueue<RenderArchiveJobPayload>({
+      type: RenderArchiver.JOB_TYPE,
+      payload: { requestId },
+      maxAttempts: RenderArchiver.JOB_MAX_ATTEMPTS,
+    });
+  }
+
+  /**
+   * Queue the copy of every finished render not archived yet, oldest first
+   * @returns number of renders queued
+   */
+  async queueBackfill(limit: number): Promise<number> {
+    const { data: rows, error } = await this.db
+      .from("video_requests")
+      .select("id")
+      .eq("render_status", "done")
+      .not("render_url", "is", null)
+      .or("archive_status.is.null,archive_status.eq.failed")
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list renders to archive: ${error.message}`);
+    }
+
+    for (const row of rows ?? []) {
+      await this.queue(row.id);
+    }
+    return rows?.length ?? 0;
+  }
+
+  /**
+   * Copy the MP4 and snapshot of a render and point the request at the copies.
+   * Requests without finished render, or already archived, are left as is.
+   */
+  async archive(requestId: string): Promise<void> {
+    const { data: request, error } = await this.db
+      .from("video_requests")
+      .select("id, user_id, render_status, render_url, snapshot_url, archive_status")
+      .eq("id", requestId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load video request ${requestId}: ${error.message}`);
+    }
+    if (!request?.user_id || request.render_status !== "done" || !request.render_url) {
+      this.log.warn(`⚠️ Video request ${requestId} has no finished render to archive`);
+      return;
+    }
+    if (request.archive_status === "archived") {
+      return;
+    }
+
+    const { user_id: userId, render_url: renderUrl, snapshot_url: snapshotUrl } = request;
+    const keys = renderArchiveKeys(userId, requestId);
+    const video = await this.copy(renderUrl, keys.video, "video/mp4");
+    const snapshot = snapshotUrl
+      ? await this.copy(snapshotUrl, keys.snapshot, "image/jpeg")
+      : null;
+
+    const { error: updateError } = await this.db
+      .from("video_requests")
+      .update({
+        archive_status: "archived",
+        archive_error: null,
+        archived_at: new Date().toISOString(),
+        archived_render_key: video.key,
+        archived_render_url: video.url,
+        archived_render_size: video.size,
+        archived_render_sha256: video.sha256,
+        archived_snapshot_key: snapshot?.key ?? null,
+        archived_snapshot_url: snapshot?.url ?? null,
+      })
+      .eq("id", requestId);
+
+    if (updateError) {
+      throw new Error(`Failed to save archive of ${requestId}: ${updateError.message}`);
+    }
+    this.log.info(`🗄️ Render of ${requestId} archived to ${video.key} (${video.size} bytes)`);
+  }
+
+  async markFailed(requestId: string, reason: string): Promise<void> {
+    const { error } = await this.db
+      .from("video_requests")
+      .update({ archive_status: "failed", archive_error: reason })
+      .eq("id", requestId);
+
+    if (error) {
+      this.log.error(`❌ Failed to mark archive of ${requestId} as failed:`, error);
+    }
+  }
+
+  private async copy(sourceUrl: string, key: string, contentType: string): Promise<ArchivedFile> {
+    const body = await this.download(sourceUrl);
+    const url = await this.storage.put(key, body, contentType);
+
+    return {
+      key,
+      url,
+      size: body.length,
+      sha256: createHash("sha256").update(body).digest("hex"),
+    };
+  }
+}
+
+let renderArchiver: RenderArchiver | null = null;
+
+export function getRenderArchiver(): RenderArchiver {
+  if (!renderArchiver) {
+    renderArchiver = new RenderArchiver();
+  }
+  return renderArchiver;
+}
+
+/**
+ * Queue handler for `RenderArchiver.JOB_TYPE` jobs
+ */
+export async function handleRenderArchiveJob(
+  job: Job<RenderArchiveJobPayload>,
+  context: JobContext
+): Promise<void> {
+  try {
+    await getRenderArchiver().archive(job.payload.requestId);
+  } catch (error) {
+    if (context.isFinalAttempt) {
+      await getRenderArchiver().markFailed(
+        job.payload.requestId,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+    throw error;
+  }
+}
+
+async function downloadFile(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download of ${url} failed with status ${response.status}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+function s3ArchiveStorage(): ArchiveStorage {
+  const { s3Client, S3_BUCKET_NAME } = require("../../config/aws");
+  return {
+    async put(key, body, contentType) {
+      const { PutObjectCommand } = await import("@aws-sdk/client-s3");
+      await s3Client.send(
+        new PutObjectCommand({
+          Bucket: S3_BUCKET_NAME,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+          ACL: "public-read",
+        })
+      );
+      return `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${key}`;
+    },
+  };
+}
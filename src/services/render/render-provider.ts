@@ -0,0 +1,32 @@
+import { CreatomateRenderProvider } from "./creatomate-provider";
+import { LocalRenderProvider } from "./local-ffmpeg-provider";
+import { RenderProvider } from "./types";
+
+let renderProvider: RenderProvider | null = null;
+
+/**
+ * Whether renders run on this machine (RENDER_PROVIDER=local)
+ */
+export function isLocalRenderProvider(): boolean {
+  return process.env.RENDER_PROVIDER === "local";
+}
+
+/**
+ * Shared render provider for the process.
+ * RENDER_PROVIDER=local renders with FFmpeg, anything else uses Creatomate.
+ */
+export function getRenderProvider(): RenderProvider {
+  if (!renderProvider) {
+    renderProvider = isLocalRenderProvider()
+      ? new LocalRenderProvider()
+      : new CreatomateRenderProvider();
+  }
+  return renderProvider;
+}
+
+/**
+ * Replace the shared render provider (tests)
+ */
+export function setRenderProvider(provider: RenderProvider): void {
+  renderProvider = provider;
+}
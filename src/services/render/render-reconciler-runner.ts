@@ -0,0 +1,63 @@
+import { supabase } from "../../config/supabase";
+import { logger } from "../../config/logger";
+import { VideoRequestStatus } from "../../types/video";
+import { getRenderProvider } from "./render-provider";
+import { renderSettlementService } from "./render-settlement";
+import { RenderReconciler, StuckRender, StuckRenderStore } from "./render-reconciler";
+
+/**
+ * Video requests rendering in Supabase
+ */
+export const supabaseStuckRenderStore: StuckRenderStore = {
+  async listStuckRenders(startedBefore: Date, limit: number): Promise<StuckRender[]> {
+    const { data, error } = await supabase
+      .from("video_requests")
+      .select("id, user_id, script_id, render_id, processing_started_at")
+      .eq("render_status", VideoRequestStatus.RENDERING)
+      .not("render_id", "is", null)
+      .lt("processing_started_at", startedBefore.toISOString())
+      .order("processing_started_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list rendering video requests: ${error.message}`);
+    }
+
+    return (data ?? [])
+      .filter((row) => row.user_id && row.render_id && row.processing_started_at)
+      .map((row) => ({
+        requestId: row.id,
+        userId: row.user_id!,
+        scriptId: row.script_id,
+        renderId: row.render_id!,
+        processingStartedAt: row.processing_started_at!,
+      }));
+  },
+};
+
+let renderReconciler: RenderReconciler | null = null;
+
+/**
+ * Reconciler of the process, repairing requests whose render webhook was lost
+ */
+export function getRenderReconciler(): RenderReconciler {
+  if (!renderReconciler) {
+    renderReconciler = new RenderReconciler({
+      store: supabaseStuckRenderStore,
+      provider: getRenderProvider(),
+      settler: renderSettlementService,
+      logger: logger.child({ module: "renderReconciler" }),
+      pollIntervalMs: Number(process.env.RENDER_RECONCILER_INTERVAL_MS) || undefined,
+      expectedRenderMs: Number(process.env.RENDER_RECONCILER_EXPECTED_MS) || undefined,
+      deadlineMs: Number(process.env.RENDER_RECONCILER_DEADLINE_MS) || undefined,
+    });
+  }
+  return renderReconciler;
+}
+
+/**
+ * Metrics of the reconciler, null when it never ran in this process
+ */
+export function getRenderReconcilerMetrics() {
+  return renderReconciler?.getMetrics() ?? null;
+}
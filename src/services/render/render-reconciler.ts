@@ -0,0 +1,252 @@
+import winston from "winston";
+import type {
+  RenderOutcome,
+  RenderOutcomeSource,
+  SettledRequest,
+} from "./render-settlement";
+import { Clock, IntervalRunner, systemClock } from "../../utils/interval-runner";
+import { RenderProvider } from "./types";
+
+/**
+ * A video request still waiting for its render
+ */
+export interface StuckRender {
+  requestId: string;
+  userId: string;
+  scriptId: string | null;
+  renderId: string;
+  processingStartedAt: string;
+}
+
+/**
+ * Persistence of video requests (Supabase in production)
+ */
+export interface StuckRenderStore {
+  /**
+   * Requests rendering since before `startedBefore`, oldest first
+   */
+  listStuckRenders(startedBefore: Date, limit: number): Promise<StuckRender[]>;
+}
+
+/**
+ * Applies final render states, as the render webhook does (see render-settlement)
+ */
+export interface RenderSettler {
+  /**
+   * @returns false when the outcome was already applied
+   */
+  settle(
+    request: SettledRequest,
+    outcome: RenderOutcome,
+    source: RenderOutcomeSource,
+    log: winston.Logger
+  ): Promise<boolean>;
+}
+
+export interface RenderReconcilerMetrics {
+  /** Sweeps made since the process started */
+  runs: number;
+  /** Stuck requests looked at */
+  checked: number;
+  /** Requests repaired with a success the webhook did not deliver */
+  repairedSucceeded: number;
+  /** Requests repaired with a failure the webhook did not deliver */
+  repairedFailed: number;
+  /** Requests marked as failed after the render deadline */
+  timedOut: number;
+  /** Requests that could not be checked or repaired */
+  errors: number;
+  lastRunAt: string | null;
+}
+
+export interface RenderReconcilerOptions {
+  store: StuckRenderStore;
+  provider: Pick<RenderProvider, "getStatus" | "cancel">;
+  settler: RenderSettler;
+  logger: winston.Logger;
+  clock?: Clock;
+  pollIntervalMs?: number;
+  /** Time after which a render should be over, and its request is checked */
+  expectedRenderMs?: number;
+  /** Time after which a render still running is given up */
+  deadlineMs?: number;
+  batchSize?: number;
+}
+
+/**
+ * Repairs video requests whose render webhook never arrived.
+ *
+ * Requests rendering for longer than a render should take are checked with the
+ * render provider: finished renders are settled as the webhook would have
+ * (status, usage, logs...), renders still running past the deadline are
+ * cancelled and their request marked as failed. Outcomes go through the same
+ * ledger as webhooks, so a late webhook is not applied twice.
+ */
+export class RenderReconciler {
+  private static readonly DEFAULT_POLL_INTERVAL = 120000; // 2 minutes
+  private static readonly DEFAULT_EXPECTED_RENDER = 600000; // 10 minutes
+  private static readonly DEFAULT_DEADLINE = 1800000; // 30 minutes
+  private static readonly DEFAULT_BATCH_SIZE = 20;
+
+  private store: StuckRenderStore;
+  private provider: Pick<RenderProvider, "getStatus" | "cancel">;
+  private settler: RenderSettler;
+  private logger: winston.Logger;
+  private clock: Clock;
+  private expectedRenderMs: number;
+  private deadlineMs: number;
+  private batchSize: number;
+
+  private metrics: RenderReconcilerMetrics = {
+    runs: 0,
+    checked: 0,
+    repairedSucceeded: 0,
+    repairedFailed: 0,
+    timedOut: 0,
+    errors: 0,
+    lastRunAt: null,
+  };
+
+  private runner: IntervalRunner;
+
+  constructor(options: RenderReconcilerOptions) {
+    this.store = options.store;
+    this.provider = options.provider;
+    this.settler = options.settler;
+    this.logger = options.logger;
+    this.clock = options.clock ?? systemClock;
+    this.expectedRenderMs =
+      options.expectedRenderMs ?? RenderReconciler.DEFAULT_EXPECTED_RENDER;
+    this.deadlineMs = Math.max(
+      options.deadlineMs ?? RenderReconciler.DEFAULT_DEADLINE,
+      this.expectedRenderMs
+    );
+    this.batchSize = options.batchSize ?? RenderReconciler.DEFAULT_BATCH_SIZE;
+    this.runner = new IntervalRunner({
+      tick: () => this.tick(),
+      intervalMs: options.pollIntervalMs ?? RenderReconciler.DEFAULT_POLL_INTERVAL,
+      onError: (error) => {
+        this.metrics.errors++;
+        this.logger.error("❌ Render reconciler sweep failed:", error);
+      },
+    });
+  }
+
+  start(): void {
+    if (this.runner.start()) {
+      this.logger.info("🩺 Render reconciler started");
+    }
+  }
+
+  /**
+   * Stop sweeping and wait for the sweep in progress
+   */
+  async stop(): Promise<void> {
+    await this.runner.stop();
+  }
+
+  /**
+   * Totals since the process started
+   */
+  getMetrics(): RenderReconcilerMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Check every request rendering for longer than expected
+   * @returns the number of requests repaired
+   */
+  async tick(): Promise<number> {
+    const now = this.clock.now();
+    const renders = await this.store.listStuckRenders(
+      new Date(now.getTime() - this.expectedRenderMs),
+      this.batchSize
+    );
+
+    let repaired = 0;
+    for (const render of renders) {
+      this.metrics.checked++;
+      try {
+        if (await this.reconcile(render, now)) {
+          repaired++;
+        }
+      } catch (error) {
+        this.metrics.errors++;
+        this.logger.error(`❌ Failed to reconcile video request ${render.requestId}:`, error);
+      }
+    }
+
+    this.metrics.runs++;
+    this.metrics.lastRunAt = now.toISOString();
+    if (repaired > 0) {
+      this.logger.info(`🩺 Render reconciler repaired ${repaired}/${renders.length} video requests`);
+    }
+    return repaired;
+  }
+
+  private async reconcile(render: StuckRender, now: Date): Promise<boolean> {
+    const renderLogger = this.logger.child({
+      requestId: render.requestId,
+      renderId: render.renderId,
+    });
+    const request: SettledRequest = {
+      requestId: render.requestId,
+      userId: render.userId,
+      scriptId: render.scriptId,
+    };
+
+    const status = await this.provider.getStatus(render.renderId);
+    if (status?.status === "succeeded" || status?.status === "failed") {
+      const settled = await this.settler.settle(
+        request,
+        {
+          renderId: render.renderId,
+          status: status.status,
+          url: status.url,
+          snapshotUrl: status.snapshotUrl,
+          duration: status.duration,
+          error: status.error,
+        },
+        "reconciler",
+        renderLogger
+      );
+      if (settled) {
+        if (status.status === "succeeded") {
+          this.metrics.repairedSucceeded++;
+        } else {
+          this.metrics.repairedFailed++;
+        }
+        renderLogger.warn(`🩺 Render ${status.status} without webhook, request repaired`);
+      }
+      return settled;
+    }
+
+    const renderingMs = now.getTime() - new Date(render.processingStartedAt).getTime();
+    if (renderingMs < this.deadlineMs) {
+      return false;
+    }
+
+    // Unknown to the provider or still running: give up on the render
+    const minutes = Math.round(renderingMs / 60000);
+    const settled = await this.settler.settle(
+      request,
+      {
+        renderId: render.renderId,
+        status: "failed",
+        error: `Render timed out after ${minutes} minutes`,
+      },
+      "reconciler",
+      renderLogger
+    );
+    if (!settled) {
+      return false;
+    }
+
+    this.metrics.timedOut++;
+    renderLogger.warn(`⏱️ Render timed out after ${minutes} minutes, request marked as failed`);
+    await this.provider
+      .cancel(render.renderId)
+      .catch((error) => renderLogger.warn("⚠️ Failed to cancel timed out render:", error));
+    return true;
+  }
+}
@@ -0,0 +1,243 @@
+import winston from "winston";
+import { supabase } from "../../config/supabase";
+import { incrementResourceUsage } from "../../middleware/usageLimitMiddleware";
+import { ResourceType } from "../../types/ressource";
+import { CompensationService } from "../video/compensation-service";
+import { getVideoProgressService } from "../video/progress";
+import { VideoValidationService } from "../video/validation";
+import { userWebhookService } from "../user-webhooks/user-webhook-service";
+import { getRenderArchiver } from "./render-archiver";
+
+// Postgres unique violation: the event is already in the ledger
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * Final state of a render, as reported by the render webhook or found by the
+ * reconciler or a status poll
+ */
+export interface RenderOutcome {
+  renderId: string;
+  status: "succeeded" | "failed";
+  url?: string;
+  snapshotUrl?: string;
+  duration?: number;
+  fileSize?: number;
+  error?: string;
+}
+
+export interface SettledRequest {
+  requestId: string;
+  userId: string;
+  scriptId?: string | null;
+}
+
+/**
+ * What reported the outcome, kept in the `logs` entry
+ */
+export type RenderOutcomeSource = "webhook" | "reconciler" | "status_poll";
+
+/**
+ * Applies the final state of a render to its video request: status, usage,
+ * rollback of failed generations, archive, progress, user webhooks and logs.
+ *
+ * Each final status of a render is applied once, whoever reports it first:
+ * outcomes are recorded in a processed events ledger and replays are no-ops.
+ */
+export class RenderSettlementService {
+  private compensation = new CompensationService();
+
+  /**
+   * @returns false when the outcome was already applied
+   * @throws UPDATE_FAILED when the request could not be updated; nothing is
+   * kept, so the outcome can be applied again
+   */
+  async settle(
+    request: SettledRequest,
+    outcome: RenderOutcome,
+    source: RenderOutcomeSource,
+    log: winston.Logger
+  ): Promise<boolean> {
+    const { requestId, userId } = request;
+
+    if (!(await this.claimEvent(outcome, requestId, userId))) {
+      log.info(
+        `⏭️ Render ${outcome.renderId} already reported ${outcome.status}, ignoring replay`
+      );
+      return false;
+    }
+
+    try {
+      await this.apply(request, outcome, source, log);
+      return true;
+    } catch (error) {
+      await this.releaseEvent(outcome, log);
+      throw error;
+    }
+  }
+
+  private async apply(
+    request: SettledRequest,
+    outcome: RenderOutcome,
+    source: RenderOutcomeSource,
+    log: winston.Logger
+  ): Promise<void> {
+    const { requestId, userId } = request;
+    const succeeded = outcome.status === "succeeded";
+    const errorMessage = outcome.error || "Render failed";
+
+    // Update video request status based on render status
+    let updateData: Record<string, any>;
+
+    if (succeeded) {
+      updateData = {
+        render_status: "done",
+        render_url: outcome.url,
+        snapshot_url: outcome.snapshotUrl,
+        render_duration: outcome.duration,
+      };
+      // The only place a generated video is counted
+      await incrementResourceUsage(userId, ResourceType.VIDEOS_GENERATED);
+      await this.compensation.record(requestId, userId, {
+        kind: "usage_increment",
+        resourceType: ResourceType.VIDEOS_GENERATED,
+      });
+
+      log.info(`✅ Render succeeded for request ${requestId}, URL: ${outcome.url}`);
+    } else {
+      updateData = {
+        render_status: "error",
+        error_message: outcome.error || "Unknown error",
+      };
+      log.info(`❌ Render failed for request ${requestId}: ${outcome.error || "Unknown error"}`);
+    }
+
+    const { error: updateError } = await supabase
+      .from("video_requests")
+      .update(updateData)
+      .eq("id", requestId);
+
+    if (updateError) {
+      log.error("❌ Error updating video request:", updateError);
+      // The outcome will be reported again: give back the usage counted above
+      await this.compensation.compensate(
+        requestId,
+        userId,
+        "Render settlement update failed",
+        ["usage_increment"]
+      );
+      throw VideoValidationService.createError(
+        `Failed to update video request ${requestId}: ${updateError.message}`,
+        "UPDATE_FAILED",
+        { requestId, renderId: outcome.renderId },
+        true
+      );
+    }
+
+    if (succeeded) {
+      // The video is delivered: nothing the generation did is rolled back anymore
+      await this.compensation.settle(requestId);
+
+      // Copy the render to our bucket in the background: the CDN URL may expire
+      await getRenderArchiver()
+        .queue(requestId)
+        .catch((archiveError) => log.error("❌ Error queueing render archive:", archiveError));
+    } else {
+      // Roll back what this attempt changed when the render failed
+      await this.compensation.compensate(requestId, userId, errorMessage);
+    }
+
+    // Let progress subscribers know the render is over
+    await getVideoProgressService()
+      .publish(
+        requestId,
+        succeeded ? "done" : "error",
+        succeeded ? { renderUrl: outcome.url } : { error: errorMessage }
+      )
+      .catch((progressError) => log.warn("⚠️ Error publishing render progress:", progressError));
+
+    // Notify the user's own webhooks
+    await userWebhookService.dispatch(
+      userId,
+      succeeded ? "video.completed" : "video.failed",
+      succeeded
+        ? {
+            requestId,
+            scriptId: request.scriptId ?? null,
+            renderUrl: outcome.url,
+            duration: outcome.duration ?? null,
+          }
+        : {
+            requestId,
+            scriptId: request.scriptId ?? null,
+            error: errorMessage,
+          }
+    );
+
+    // Log the activity (optional, non-blocking)
+    try {
+      await supabase.from("logs").insert({
+        user_id: userId,
+        action: `render_${outcome.status}`,
+        metadata: {
+          requestId,
+          renderId: outcome.renderId,
+          status: outcome.status,
+          scriptId: request.scriptId,
+          url: outcome.url,
+          duration: outcome.duration,
+          size: outcome.fileSize,
+          error: outcome.error,
+          source,
+        },
+        created_at: new Date().toISOString(),
+      });
+    } catch (logError) {
+      log.warn("⚠️ Error logging activity:", logError);
+    }
+  }
+
+  /**
+   * Record the outcome in the processed events ledger
+   * @returns false when it was already recorded
+   */
+  private async claimEvent(
+    outcome: RenderOutcome,
+    requestId: string,
+    userId: string
+  ): Promise<boolean> {
+    const { error } = await supabase.from("render_webhook_events").insert({
+      render_id: outcome.renderId,
+      status: outcome.status,
+      video_request_id: requestId,
+      user_id: userId,
+    });
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return false;
+    }
+    if (error) {
+      throw new Error(`Failed to record render event: ${error.message}`);
+    }
+    return true;
+  }
+
+  /**
+   * Forget an outcome whose settlement failed, so it is applied when reported again
+   */
+  private async releaseEvent(outcome: RenderOutcome, log: winston.Logger): Promise<void> {
+    const { error } = await supabase
+      .from("render_webhook_events")
+      .delete()
+      .eq("render_id", outcome.renderId)
+      .eq("status", outcome.status);
+
+    if (error) {
+      log.error(
+        `❌ Failed to release render event ${outcome.renderId}/${outcome.status}:`,
+        error
+      );
+    }
+  }
+}
+
+export const renderSettlementService = new RenderSettlementService();
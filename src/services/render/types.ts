@@ -0,0 +1,51 @@
+import { RenderMetadata } from "../../types/renders";
+
+export type RenderState = "rendering" | "succeeded" | "failed";
+
+export interface RenderJob {
+  renderId: string;
+  status: RenderState;
+}
+
+export interface SnapshotOptions {
+  /** Second of the template to capture */
+  time: number;
+  /** Resolution factor, 0.25 renders a 1080x1920 template at 270x480 */
+  scale: number;
+}
+
+export interface RenderStatus extends RenderJob {
+  url?: string;
+  snapshotUrl?: string;
+  duration?: number;
+  error?: string;
+}
+
+/**
+ * A backend able to turn a Creatomate-shaped template into a video.
+ *
+ * Providers report completion through the Creatomate webhook
+ * (`/api/webhooks/creatomate`), so the rest of the pipeline does not need to
+ * know which one rendered the video.
+ */
+export interface RenderProvider {
+  readonly name: string;
+
+  startRender(template: any, metadata: RenderMetadata): Promise<RenderJob>;
+
+  /**
+   * @returns null when the provider does not know the render
+   */
+  getStatus(renderId: string): Promise<RenderStatus | null>;
+
+  /**
+   * @returns true when the render was actually stopped
+   */
+  cancel(renderId: string): Promise<boolean>;
+
+  /**
+   * Renders a single frame of a template, without notifying the render webhook
+   * @returns URL of the image
+   */
+  renderSnapshot(template: any, options: SnapshotOptions): Promise<string>;
+}
@@ -0,0 +1,56 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { RenderMetadata } from "../../types/renders";
+
+/**
+ * Query parameter of the render webhook URL holding its signature
+ */
+export const RENDER_WEBHOOK_SIGNATURE_PARAM = "signature";
+
+type SignedMetadata = Pick<RenderMetadata, "requestId" | "userId">;
+
+export function getRenderWebhookSecret(): string | undefined {
+  return process.env.RENDER_WEBHOOK_SECRET || undefined;
+}
+
+/**
+ * HMAC of the request and user of a render. Renders report to a webhook URL
+ * carrying it, so only the server that started a render can settle it.
+ */
+export function signRenderWebhook(metadata: SignedMetadata, secret: string): string {
+  return createHmac("sha256", secret)
+    .update(`${metadata.requestId}:${metadata.userId}`)
+    .digest("hex");
+}
+
+/**
+ * Webhook URL a render reports to, signed for its metadata.
+ * Left unsigned without secret, the webhook then rejects it.
+ */
+export function signRenderWebhookUrl(
+  webhookUrl: string,
+  metadata: SignedMetadata,
+  secret: string | undefined = getRenderWebhookSecret()
+): string {
+  if (!secret) {
+    return webhookUrl;
+  }
+  const url = new URL(webhookUrl);
+  url.searchParams.set(RENDER_WEBHOOK_SIGNATURE_PARAM, signRenderWebhook(metadata, secret));
+  return url.toString();
+}
+
+/**
+ * @returns false without secret, or when the signature is not the one of the metadata
+ */
+export function verifyRenderWebhookSignature(
+  signature: unknown,
+  metadata: SignedMetadata,
+  secret: string | undefined = getRenderWebhookSecret()
+): boolean {
+  if (!secret || typeof signature !== "string") {
+    return false;
+  }
+  const expected = Buffer.from(signRenderWebhook(metadata, secret), "hex");
+  const received = Buffer.from(signature, "hex");
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
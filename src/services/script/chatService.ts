@@ -22,6 +22,9 @@ import { z } from "zod";
 import { logger } from "../../config/logger";
 import { VIDEO_DURATION_FACTOR } from "../../config/video-constants";
 import { importOpenAIAgentsPackage } from "../../utils/dynamicImports";
+import { openEventStream, sendStreamMessage } from "../../utils/api/sse";
+import { splitScriptHook } from "../../utils/script/script-text";
+import { zodTextFormat } from "openai/helpers/zod";
 
 const OutputSchema = z.object({
         script: z.string().describe("The script to be generated").nullable().optional(),
@@ -60,6 +63,11 @@ export const ComputedVideoSchema = z.object({
     ...ComputedVideoSchema.shape,
   })),
 });
+
+const HooksSchema = z.object({
+  hooks: z.array(z.string()),
+});
+
 /**
  * ScriptChatService - Handles conversational script generation
  *
@@ -262,9 +270,7 @@ export class ScriptChatService {
       this.logger.info(`🔄 Processing streaming chat for user ${this.user.id}`);
 
       // Step 1: Initializing
-      res.setHeader("Content-Type", "text/event-stream");
-      res.setHeader("Cache-Control", "no-cache");
-      res.setHeader("Connection", "keep-alive");
+      openEventStream(res);
       this.sendStreamMessage(res, {
         type: "status",
         message: "Démarrage de la génération du script...",
@@ -417,6 +423,53 @@ export class ScriptChatService {
     }
   }
 
+  /**
+   * Alternative hooks (first sentence) of a script, to A/B test video variants
+   * @returns `count` hooks, none of them the current one
+   */
+  async rewriteHooks(
+    script: string,
+    count: number,
+    editorialProfile: any,
+    outputLanguage: string
+  ): Promise<string[]> {
+    const { hook, rest } = splitScriptHook(script);
+    const promptTemplate = PromptService.fillPromptTemplate("script-hook-rewriter", {
+      outputLanguage,
+      count,
+      editorialProfile: this.formatEditorialProfile(editorialProfile),
+      hook,
+      rest,
+    });
+
+    if (!promptTemplate) {
+      throw new Error("Script hook rewriter prompt template not found");
+    }
+
+    const response = await this.openai.responses.parse({
+      model: this.model,
+      input: [
+        { role: "system", content: promptTemplate.system },
+        { role: "user", content: promptTemplate.user },
+      ],
+      text: {
+        format: zodTextFormat(HooksSchema, "hooks"),
+      },
+    });
+    await this.updateTokenUsage(response.usage?.total_tokens ?? 0);
+
+    const hooks = [
+      ...new Set((response.output_parsed?.hooks ?? []).map((candidate) => candidate.trim())),
+    ].filter((candidate) => candidate && candidate !== hook);
+
+    if (hooks.length < count) {
+      throw new Error(`Only ${hooks.length} of ${count} hooks could be written`);
+    }
+
+    this.logger.info(`🪝 Rewrote ${count} hooks for user ${this.user.id}`);
+    return hooks.slice(0, count);
+  }
+
   /**
    * Get or create script draft
    */
@@ -1005,7 +1058,7 @@ Réponds uniquement avec le titre, sans guillemets ni explications.`;
    * Send streaming message
    */
   private sendStreamMessage(res: Response, data: any): void {
-    res.write(`data: ${JSON.stringify(data)}\n\n`);
+    sendStreamMessage(res, data);
   }
 
   /**
@@ -9,7 +9,8 @@ import { ResourceType } from "../types/ressource";
  */
 export async function checkUsageLimit(
   userId: string,
-  resourceType: ResourceType
+  resourceType: ResourceType,
+  amount = 1
 ): Promise<{ limitReached: boolean; usage?: any }> {
   const { data: usage, error } = await supabase
     .from("user_usage")
@@ -34,7 +35,7 @@ export async function checkUsageLimit(
   const used = usage[usedField as keyof typeof usage];
 
   return {
-    limitReached: (used ?? 0) >= (limit ?? 0),
+    limitReached: (used ?? 0) + amount > (limit ?? 0),
     usage,
   };
 }
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BLOCKED_WEBHOOK_ADDRESS,
+  checkWebhookUrl,
+  isBlockedAddress,
+  publicAddressLookup,
+} from '../endpoint-guard';
+
+describe('user webhook endpoint guard', () => {
+  it('blocks loopback, private, link-local and other non-public addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.20.0.5',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ]) {
+      expect(isBlockedAddress(address), address).toBe(true);
+    }
+  });
+
+  it('allows public addresses', () => {
+    for (const address of ['93.184.216.34', '172.32.0.1', '2606:2800:220:1::1', '::ffff:8.8.8.8']) {
+      expect(isBlockedAddress(address), address).toBe(false);
+    }
+  });
+
+  it('accepts https URLs on public domain names', () => {
+    expect(checkWebhookUrl('https://hooks.example.com/editia')).toBeNull();
+  });
+
+  it('refuses IP literals, internal hosts and plain http', () => {
+    for (const url of [
+      'https://127.0.0.1/hook',
+      'https://[::1]/hook',
+      'https://169.254.169.254/latest/meta-data',
+      'https://localhost/hook',
+      'https://api.localhost/hook',
+      'https://redis.internal/hook',
+      'https://printer.local/hook',
+      'https://intranet/hook',
+      'http://hooks.example.com/editia',
+    ]) {
+      expect(checkWebhookUrl(url), url).not.toBeNull();
+    }
+  });
+
+  it('refuses hosts resolving to a non-public address at delivery', async () => {
+    const error = await new Promise<NodeJS.ErrnoException | null>((resolve) =>
+      publicAddressLookup('localhost', {}, (lookupError) => resolve(lookupError))
+    );
+
+    expect(error?.code).toBe(BLOCKED_WEBHOOK_ADDRESS);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import {
+  buildUserWebhookRequest,
+  generateUserWebhookSecret,
+  signUserWebhookPayload,
+  USER_WEBHOOK_HEADERS,
+} from '../signature';
+
+const delivery = {
+  id: 'delivery-1',
+  event: 'video.completed',
+  payload: { id: 'event-1', event: 'video.completed', data: { requestId: 'request-1' } },
+};
+
+describe('user webhook signature', () => {
+  it('generates distinct secrets', () => {
+    const secret = generateUserWebhookSecret();
+
+    expect(secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+    expect(generateUserWebhookSecret()).not.toBe(secret);
+  });
+
+  it('signs the timestamp and body with the secret', () => {
+    const expected = createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+
+    expect(signUserWebhookPayload('secret', 1700000000, '{"a":1}')).toBe(`sha256=${expected}`);
+  });
+
+  it('builds a request receivers can verify', () => {
+    const now = new Date('2026-01-01T00:00:00Z');
+    const { headers, body } = buildUserWebhookRequest(delivery, 'secret', now);
+    const timestamp = Number(headers[USER_WEBHOOK_HEADERS.timestamp]);
+
+    expect(JSON.parse(body)).toEqual(delivery.payload);
+    expect(timestamp).toBe(now.getTime() / 1000);
+    expect(headers[USER_WEBHOOK_HEADERS.event]).toBe('video.completed');
+    expect(headers[USER_WEBHOOK_HEADERS.delivery]).toBe('delivery-1');
+    expect(headers[USER_WEBHOOK_HEADERS.signature]).toBe(
+      signUserWebhookPayload('secret', timestamp, body)
+    );
+  });
+
+  it('signs each send with its own time', () => {
+    const first = buildUserWebhookRequest(delivery, 'secret', new Date('2026-01-01T00:00:00Z'));
+    const retry = buildUserWebhookRequest(delivery, 'secret', new Date('2026-01-01T00:05:00Z'));
+
+    expect(retry.body).toBe(first.body);
+    expect(retry.headers[USER_WEBHOOK_HEADERS.signature]).not.toBe(
+      first.headers[USER_WEBHOOK_HEADERS.signature]
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { lookup as dnsLookup, LookupAddress } from "dns";
+import https from "https";
+import { isIP, LookupFunction } from "net";
+
+/**
+ * Keeps user webhooks from making the server call itself or its network:
+ * loopback, private (RFC 1918), link-local (cloud metadata) and other
+ * non-public addresses are refused, at registration and on each delivery.
+ */
+
+export const BLOCKED_WEBHOOK_ADDRESS = "WEBHOOK_ADDRESS_BLOCKED";
+
+// Names that only resolve inside our network
+const INTERNAL_HOST_SUFFIXES = [".localhost", ".local", ".internal", ".localdomain", ".home.arpa"];
+
+// Non-public IPv4 ranges: [first address, prefix length]
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // documentation
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["198.51.100.0", 24], // documentation
+  ["203.0.113.0", 24], // documentation
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+];
+
+function ipv4ToNumber(address: string): number {
+  return address.split(".").reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+function isBlockedIpv4(address: string): boolean {
+  const value = ipv4ToNumber(address);
+  return BLOCKED_IPV4_RANGES.some(([first, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = ipv4ToNumber(first);
+    return value >= start && value < start + size;
+  });
+}
+
+function isBlockedIpv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+
+  // IPv4-mapped (::ffff:10.0.0.1) and NAT64 (64:ff9b::10.0.0.1) addresses
+  const embeddedIpv4 = normalized.match(/^(?:::ffff:|64:ff9b::)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embeddedIpv4) {
+    return isBlockedIpv4(embeddedIpv4[1]!);
+  }
+
+  const firstGroup = parseInt(normalized.split(":")[0] || "0", 16);
+  return (
+    normalized === "::" ||
+    normalized === "::1" ||
+    normalized.startsWith("::ffff:") ||
+    (firstGroup & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (firstGroup & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (firstGroup & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+/**
+ * Whether an IP address is not a public internet address
+ */
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 4) {
+    return isBlockedIpv4(address);
+  }
+  if (version === 6) {
+    return isBlockedIpv6(address);
+  }
+  return true;
+}
+
+/**
+ * Why a webhook URL cannot be registered, null when it can
+ */
+export function checkWebhookUrl(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "The URL is not valid";
+  }
+
+  if (parsed.protocol !== "https:") {
+    return "The URL must use https";
+  }
+
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (isIP(hostname)) {
+    return "The URL must use a domain name, not an IP address";
+  }
+  if (
+    !hostname.includes(".") ||
+    hostname === "localhost" ||
+    INTERNAL_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  ) {
+    return "The URL must point to a public host";
+  }
+  return null;
+}
+
+/**
+ * DNS lookup refusing hosts that resolve to a non-public address. The request
+ * connects to the address checked here, so the host cannot resolve to another
+ * one in between (DNS rebinding).
+ */
+export const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) {
+      return callback(error, "", 0);
+    }
+
+    const blocked = addresses.find(({ address }) => isBlockedAddress(address));
+    if (blocked || addresses.length === 0) {
+      const refused: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to ${blocked?.address ?? "no address"}, which is not a public address`
+      );
+      refused.code = BLOCKED_WEBHOOK_ADDRESS;
+      return callback(refused, "", 0);
+    }
+
+    if (options.all) {
+      return (callback as (err: null, addresses: LookupAddress[]) => void)(null, addresses);
+    }
+    return callback(null, addresses[0]!.address, addresses[0]!.family);
+  });
+};
+
+/**
+ * POST to a user endpoint through `publicAddressLookup`. Redirects are not
+ * followed: the status of the endpoint itself is returned.
+ */
+export function postToWebhookEndpoint(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  signal: AbortSignal
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(
+      url,
+      { method: "POST", headers, lookup: publicAddressLookup, signal },
+      (response) => {
+        // The body is not used, drain it to free the socket
+        response.resume();
+        response.on("end", () => resolve(response.statusCode ?? 0));
+        response.on("error", reject);
+      }
+    );
+    request.on("error", reject);
+    request.end(body);
+  });
+}
@@ -0,0 +1,48 @@
+import { createHmac, randomBytes } from "crypto";
+
+/**
+ * Headers of a delivery. Receivers check the signature by computing
+ * HMAC-SHA256(secret, `${timestamp}.${body}`) themselves.
+ */
+export const USER_WEBHOOK_HEADERS = {
+  event: "X-Editia-Event",
+  delivery: "X-Editia-Delivery",
+  timestamp: "X-Editia-Timestamp",
+  signature: "X-Editia-Signature",
+} as const;
+
+export function generateUserWebhookSecret(): string {
+  return `whsec_${randomBytes(32).toString("hex")}`;
+}
+
+/**
+ * @param timestamp Unix time in seconds, sent along so receivers can reject old deliveries
+ */
+export function signUserWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+/**
+ * Signed request of a delivery. Replays and retries are signed again with
+ * the time they are sent.
+ */
+export function buildUserWebhookRequest(
+  delivery: { id: string; event: string; payload: unknown },
+  secret: string,
+  now: Date = new Date()
+): { headers: Record<string, string>; body: string } {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  return {
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "Editia-Webhooks/1.0",
+      [USER_WEBHOOK_HEADERS.event]: delivery.event,
+      [USER_WEBHOOK_HEADERS.delivery]: delivery.id,
+      [USER_WEBHOOK_HEADERS.timestamp]: String(timestamp),
+      [USER_WEBHOOK_HEADERS.signature]: signUserWebhookPayload(secret, timestamp, body),
+    },
+    body,
+  };
+}
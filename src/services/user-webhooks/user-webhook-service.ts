@@ -0,0 +1,508 @@
+import { randomUUID } from "crypto";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database, Json } from "../../config/supabase-types";
+import {
+  UserWebhook,
+  UserWebhookDelivery,
+  UserWebhookDeliveryJobPayload,
+  UserWebhookDeliveryStatus,
+  UserWebhookEvent,
+  UserWebhookInput,
+} from "../../types/user-webhook";
+import { getJobStore } from "../queue/job-queue";
+import { Job, JobContext } from "../queue/types";
+import { VideoValidationService } from "../video/validation";
+import { Logger } from "../video/watermark-service";
+import {
+  BLOCKED_WEBHOOK_ADDRESS,
+  checkWebhookUrl,
+  postToWebhookEndpoint,
+} from "./endpoint-guard";
+import { buildUserWebhookRequest, generateUserWebhookSecret } from "./signature";
+
+type WebhookRow = Database["public"]["Tables"]["user_webhooks"]["Row"];
+type DeliveryRow = Database["public"]["Tables"]["user_webhook_deliveries"]["Row"];
+
+/**
+ * Service storing the webhook endpoints of users and delivering events to them.
+ *
+ * Each delivery is a queued job, so failed deliveries are retried with the
+ * exponential backoff of the job worker; every attempt is kept in the
+ * delivery log.
+ */
+export class UserWebhookService {
+  static readonly JOB_TYPE = "user_webhook.deliver";
+  // 5s, 10s, 20s... then every 5 minutes: about half an hour of retries
+  private static readonly JOB_MAX_ATTEMPTS = 10;
+  private static readonly DELIVERY_TIMEOUT = 10000; // 10 seconds
+  private static readonly MAX_LISTED_DELIVERIES = 50;
+  private static readonly MAX_WEBHOOKS_PER_USER = 10;
+
+  private db: SupabaseClient;
+  private log: Logger;
+
+  constructor(db?: SupabaseClient, log?: Logger) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    if (db) {
+      this.db = db;
+    } else {
+      try {
+        const { supabase } = require("../../config/supabase");
+        this.db = supabase;
+      } catch (error) {
+        this.db = {} as SupabaseClient;
+      }
+    }
+
+    if (log) {
+      this.log = log;
+    } else {
+      try {
+        const { logger } = require("../../config/logger");
+        this.log = logger;
+      } catch (error) {
+        this.log = {
+          info: () => {},
+          warn: () => {},
+          error: () => {},
+        };
+      }
+    }
+  }
+
+  async listWebhooks(userId: string): Promise<UserWebhook[]> {
+    const { data: rows, error } = await this.db
+      .from("user_webhooks")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      throw UserWebhookService.databaseError("list webhooks", error);
+    }
+    return (rows ?? []).map(UserWebhookService.webhookFromRow);
+  }
+
+  /**
+   * @returns the webhook with its signing secret, which is only shown here
+   * @throws INVALID_WEBHOOK_URL, WEBHOOK_LIMIT_REACHED
+   */
+  async createWebhook(
+    userId: string,
+    input: UserWebhookInput
+  ): Promise<UserWebhook & { secret: string }> {
+    UserWebhookService.assertPublicUrl(input.url);
+
+    const { count } = await this.db
+      .from("user_webhooks")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    if ((count ?? 0) >= UserWebhookService.MAX_WEBHOOKS_PER_USER) {
+      throw VideoValidationService.createError(
+        `User ${userId} already has ${count} webhooks`,
+        "WEBHOOK_LIMIT_REACHED",
+        { userId, count },
+        false,
+        `You can register up to ${UserWebhookService.MAX_WEBHOOKS_PER_USER} webhooks.`
+      );
+    }
+
+    const { data: row, error } = await this.db
+      .from("user_webhooks")
+      .insert({
+        ...UserWebhookService.webhookToRow(input),
+        user_id: userId,
+        secret: generateUserWebhookSecret(),
+      })
+      .select("*")
+      .single();
+
+    if (error || !row) {
+      throw UserWebhookService.databaseError("create webhook", error);
+    }
+    return { ...UserWebhookService.webhookFromRow(row), secret: row.secret };
+  }
+
+  /**
+   * @throws INVALID_WEBHOOK_URL, WEBHOOK_NOT_FOUND
+   */
+  async updateWebhook(
+    userId: string,
+    webhookId: string,
+    input: UserWebhookInput
+  ): Promise<UserWebhook> {
+    UserWebhookService.assertPublicUrl(input.url);
+
+    const { data: row, error } = await this.db
+      .from("user_webhooks")
+      .update({
+        ...UserWebhookService.webhookToRow(input),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", webhookId)
+      .eq("user_id", userId)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      throw UserWebhookService.databaseError("update webhook", error);
+    }
+    if (!row) {
+      throw UserWebhookService.webhookNotFoundError(webhookId);
+    }
+    return UserWebhookService.webhookFromRow(row);
+  }
+
+  /**
+   * Deletes the webhook with its delivery log
+   * @throws WEBHOOK_NOT_FOUND
+   */
+  async deleteWebhook(userId: string, webhookId: string): Promise<void> {
+    const { data: rows, error } = await this.db
+      .from("user_webhooks")
+      .delete()
+      .eq("id", webhookId)
+      .eq("user_id", userId)
+      .select("id");
+
+    if (error) {
+      throw UserWebhookService.databaseError("delete webhook", error);
+    }
+    if (!rows?.length) {
+      throw UserWebhookService.webhookNotFoundError(webhookId);
+    }
+  }
+
+  /**
+   * Latest deliveries of a webhook, newest first
+   * @throws WEBHOOK_NOT_FOUND
+   */
+  async listDeliveries(userId: string, webhookId: string): Promise<UserWebhookDelivery[]> {
+    await this.getWebhookRow(userId, webhookId);
+
+    const { data: rows, error } = await this.db
+      .from("user_webhook_deliveries")
+      .select("*")
+      .eq("webhook_id", webhookId)
+      .order("created_at", { ascending: false })
+      .limit(UserWebhookService.MAX_LISTED_DELIVERIES);
+
+    if (error) {
+      throw UserWebhookService.databaseError("list webhook deliveries", error);
+    }
+    return (rows ?? []).map(UserWebhookService.deliveryFromRow);
+  }
+
+  /**
+   * Send the payload of a past delivery again, as a new delivery
+   * @throws WEBHOOK_NOT_FOUND, WEBHOOK_DELIVERY_NOT_FOUND
+   */
+  async replayDelivery(
+    userId: string,
+    webhookId: string,
+    deliveryId: string
+  ): Promise<UserWebhookDelivery> {
+    const webhook = await this.getWebhookRow(userId, webhookId);
+
+    const { data: original, error } = await this.db
+      .from("user_webhook_deliveries")
+      .select("*")
+      .eq("id", deliveryId)
+      .eq("webhook_id", webhook.id)
+      .maybeSingle();
+
+    if (error) {
+      throw UserWebhookService.databaseError("get webhook delivery", error);
+    }
+    if (!original) {
+      throw VideoValidationService.createError(
+        "Webhook delivery not found",
+        "WEBHOOK_DELIVERY_NOT_FOUND",
+        { webhookId, deliveryId },
+        false,
+        "This delivery no longer exists."
+      );
+    }
+
+    return this.queueDelivery(
+      webhook,
+      original.event as UserWebhookEvent,
+      original.payload,
+      original.id
+    );
+  }
+
+  /**
+   * Deliver an event to every enabled webhook of the user subscribed to it.
+   * Never throws: a failure to queue deliveries must not fail what the event
+   * reports.
+   */
+  async dispatch(
+    userId: string,
+    event: UserWebhookEvent,
+    data: Record<string, any>
+  ): Promise<void> {
+    try {
+      const { data: webhooks, error } = await this.db
+        .from("user_webhooks")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("enabled", true)
+        .contains("events", [event]);
+
+      if (error) {
+        throw error;
+      }
+      if (!webhooks?.length) {
+        return;
+      }
+
+      // Same event ID in every delivery and replay, for receivers to deduplicate
+      const payload = {
+        id: randomUUID(),
+        event,
+        createdAt: new Date().toISOString(),
+        data,
+      };
+
+      for (const webhook of webhooks) {
+        await this.queueDelivery(webhook, event, payload as Json);
+      }
+      this.log.info(`📣 Queued ${event} to ${webhooks.length} webhook(s) of user ${userId}`);
+    } catch (error) {
+      this.log.error(`❌ Failed to dispatch ${event} to webhooks of user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Runs a delivery job: posts the signed payload and records the attempt.
+   * Endpoints answering other than 2xx are retried until the last attempt.
+   */
+  async deliver(job: UserWebhookDeliveryJobPayload, context: JobContext): Promise<void> {
+    const { data: delivery, error } = await this.db
+      .from("user_webhook_deliveries")
+      .select("*, user_webhooks(*)")
+      .eq("id", job.deliveryId)
+      .maybeSingle();
+
+    if (error) {
+      throw UserWebhookService.databaseError("get webhook delivery", error);
+    }
+    if (!delivery || delivery.status === "succeeded") {
+      return;
+    }
+
+    const webhook = delivery.user_webhooks as WebhookRow | null;
+    if (!webhook?.enabled) {
+      await this.recordAttempt(delivery, "failed", null, "Webhook disabled or deleted");
+      return;
+    }
+
+    // Registered before endpoints were checked, or edited in the database
+    const invalidUrl = checkWebhookUrl(webhook.url);
+    if (invalidUrl) {
+      await this.recordAttempt(delivery, "failed", null, invalidUrl);
+      return;
+    }
+
+    const request = buildUserWebhookRequest(delivery, webhook.secret);
+    let responseStatus: number | null = null;
+    let failure: string | null = null;
+    try {
+      // Checks the resolved address and does not follow redirects
+      responseStatus = await postToWebhookEndpoint(
+        webhook.url,
+        request.headers,
+        request.body,
+        AbortSignal.any([context.signal, AbortSignal.timeout(UserWebhookService.DELIVERY_TIMEOUT)])
+      );
+      if (responseStatus < 200 || responseStatus >= 300) {
+        failure = `Endpoint answered ${responseStatus}`;
+      }
+    } catch (postError) {
+      if ((postError as NodeJS.ErrnoException).code === BLOCKED_WEBHOOK_ADDRESS) {
+        // Not retried: the endpoint is on an internal network
+        await this.recordAttempt(delivery, "failed", null, (postError as Error).message);
+        this.log.warn(`🚫 Refused delivery ${delivery.id}: ${(postError as Error).message}`);
+        return;
+      }
+      failure = postError instanceof Error ? postError.message : String(postError);
+    }
+
+    if (!failure) {
+      await this.recordAttempt(delivery, "succeeded", responseStatus, null);
+      this.log.info(`✅ Delivered ${delivery.event} ${delivery.id} to ${webhook.url}`);
+      return;
+    }
+
+    await this.recordAttempt(
+      delivery,
+      context.isFinalAttempt ? "failed" : "pending",
+      responseStatus,
+      failure
+    );
+    throw VideoValidationService.createError(
+      `Webhook delivery ${delivery.id} failed: ${failure}`,
+      "WEBHOOK_DELIVERY_FAILED",
+      { deliveryId: delivery.id, webhookId: webhook.id, responseStatus },
+      true
+    );
+  }
+
+  private async queueDelivery(
+    webhook: WebhookRow,
+    event: UserWebhookEvent,
+    payload: Json,
+    replayOf: string | null = null
+  ): Promise<UserWebhookDelivery> {
+    const { data: row, error } = await this.db
+      .from("user_webhook_deliveries")
+      .insert({
+        webhook_id: webhook.id,
+        user_id: webhook.user_id,
+        event,
+        payload,
+        replay_of: replayOf,
+      })
+      .select("*")
+      .single();
+
+    if (error || !row) {
+      throw UserWebhookService.databaseError("create webhook delivery", error);
+    }
+
+    const job = await getJobStore().enqueue<UserWebhookDeliveryJobPayload>({
+      type: UserWebhookService.JOB_TYPE,
+      payload: { deliveryId: row.id },
+      maxAttempts: UserWebhookService.JOB_MAX_ATTEMPTS,
+    });
+    await this.db.from("user_webhook_deliveries").update({ job_id: job.id }).eq("id", row.id);
+
+    return UserWebhookService.deliveryFromRow({ ...row, job_id: job.id });
+  }
+
+  private async recordAttempt(
+    delivery: DeliveryRow,
+    status: UserWebhookDeliveryStatus,
+    responseStatus: number | null,
+    lastError: string | null
+  ): Promise<void> {
+    const { error } = await this.db
+      .from("user_webhook_deliveries")
+      .update({
+        status,
+        attempts: delivery.attempts + 1,
+        response_status: responseStatus,
+        last_error: lastError,
+        delivered_at: status === "succeeded" ? new Date().toISOString() : null,
+      })
+      .eq("id", delivery.id);
+
+    if (error) {
+      this.log.error(`Failed to record attempt of webhook delivery ${delivery.id}:`, error);
+    }
+  }
+
+  private async getWebhookRow(userId: string, webhookId: string): Promise<WebhookRow> {
+    const { data: row, error } = await this.db
+      .from("user_webhooks")
+      .select("*")
+      .eq("id", webhookId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw UserWebhookService.databaseError("get webhook", error);
+    }
+    if (!row) {
+      throw UserWebhookService.webhookNotFoundError(webhookId);
+    }
+    return row;
+  }
+
+  private static webhookToRow(input: UserWebhookInput) {
+    return {
+      url: input.url,
+      events: [...new Set(input.events)],
+      description: input.description ?? null,
+      enabled: input.enabled,
+    };
+  }
+
+  private static webhookFromRow(row: WebhookRow): UserWebhook {
+    return {
+      id: row.id,
+      url: row.url,
+      events: row.events as UserWebhookEvent[],
+      description: row.description,
+      enabled: row.enabled,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private static deliveryFromRow(row: DeliveryRow): UserWebhookDelivery {
+    return {
+      id: row.id,
+      webhookId: row.webhook_id,
+      event: row.event as UserWebhookEvent,
+      payload: (row.payload as Record<string, any>) ?? {},
+      status: row.status as UserWebhookDeliveryStatus,
+      attempts: row.attempts,
+      responseStatus: row.response_status,
+      lastError: row.last_error,
+      replayOf: row.replay_of,
+      createdAt: row.created_at,
+      deliveredAt: row.delivered_at,
+    };
+  }
+
+  /**
+   * Refuse endpoints on IP addresses or internal hosts
+   */
+  private static assertPublicUrl(url: string): void {
+    const reason = checkWebhookUrl(url);
+    if (reason) {
+      throw VideoValidationService.createError(
+        `Webhook URL ${url} refused: ${reason}`,
+        "INVALID_WEBHOOK_URL",
+        { url },
+        false,
+        `${reason}.`
+      );
+    }
+  }
+
+  private static webhookNotFoundError(webhookId: string) {
+    return VideoValidationService.createError(
+      "Webhook not found",
+      "WEBHOOK_NOT_FOUND",
+      { webhookId },
+      false,
+      "This webhook no longer exists."
+    );
+  }
+
+  private static databaseError(operation: string, error: any) {
+    return VideoValidationService.createError(
+      `Failed to ${operation}`,
+      "DATABASE_ERROR",
+      { error: error?.message },
+      true,
+      "Unable to reach your webhooks right now. Please try again."
+    );
+  }
+}
+
+export const userWebhookService = new UserWebhookService();
+
+/**
+ * Queue handler for `UserWebhookService.JOB_TYPE` jobs
+ */
+export async function handleUserWebhookDeliveryJob(
+  job: Job<UserWebhookDeliveryJobPayload>,
+  context: JobContext
+): Promise<void> {
+  await userWebhookService.deliver(job.payload, context);
+}
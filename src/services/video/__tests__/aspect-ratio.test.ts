@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { adaptTemplateToAspectRatio } from '../aspect-ratio';
+import { WatermarkService } from '../watermark-service';
+import { CreatomateTemplateSchema } from '../../../types/template';
+
+const WATERMARK_URL = 'https://ai-edit-v1.s3.us-east-1.amazonaws.com/cdn/images/editia-logo.png';
+
+function createVerticalTemplate() {
+  return {
+    output_format: 'mp4',
+    width: 1080,
+    height: 1920,
+    elements: [
+      {
+        type: 'composition',
+        track: 1,
+        elements: [
+          { type: 'video', track: 1, source: 'https://cdn.example.com/a.mp4', fit: 'contain' },
+          { type: 'audio', track: 3, source: 'Hello world', provider: 'elevenlabs' },
+          {
+            type: 'text',
+            name: 'Subtitles-1',
+            track: 2,
+            transcript_source: 'voice-1',
+            width: '90%',
+            font_size: '8 vmin',
+            y_alignment: '10%',
+          },
+          { type: 'image', track: 4, source: WATERMARK_URL, width: '20 vmin', y: '100%' },
+        ],
+      },
+    ],
+  };
+}
+
+describe('adaptTemplateToAspectRatio', () => {
+  it('should render at the resolution of the aspect ratio', () => {
+    const adapted = adaptTemplateToAspectRatio(createVerticalTemplate(), '16:9');
+
+    expect(adapted.width).toBe(1920);
+    expect(adapted.height).toBe(1080);
+    expect(adapted.elements[0].elements[0].fit).toBe('cover');
+  });
+
+  it('should keep the caption placement while resizing captions', () => {
+    const adapted = adaptTemplateToAspectRatio(createVerticalTemplate(), '1:1');
+    const caption = adapted.elements[0].elements[2];
+
+    expect(caption).toMatchObject({
+      width: '88%',
+      font_size: '6.5 vmin',
+      y_alignment: '12%',
+      transcript_source: 'voice-1',
+    });
+  });
+
+  it('should move the watermark where it fits the frame', () => {
+    const adapted = adaptTemplateToAspectRatio(createVerticalTemplate(), '4:5');
+    const watermark = adapted.elements[0].elements[3];
+
+    expect(watermark).toMatchObject(WatermarkService.getWatermarkPlacement('4:5'));
+    expect(watermark.y).toBe('0%');
+  });
+
+  it('should leave the source template untouched', () => {
+    const template = createVerticalTemplate();
+    adaptTemplateToAspectRatio(template, '16:9');
+
+    expect(template.width).toBe(1080);
+    expect(template.elements[0].elements[2].y_alignment).toBe('10%');
+  });
+});
+
+describe('CreatomateTemplateSchema', () => {
+  it('should accept every supported resolution', () => {
+    for (const [width, height] of [[1080, 1920], [1080, 1080], [1080, 1350], [1920, 1080]]) {
+      expect(
+        CreatomateTemplateSchema.safeParse({ output_format: 'mp4', width, height, elements: [] }).success
+      ).toBe(true);
+    }
+  });
+
+  it('should reject other resolutions', () => {
+    const result = CreatomateTemplateSchema.safeParse({
+      output_format: 'mp4',
+      width: 720,
+      height: 1280,
+      elements: [],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
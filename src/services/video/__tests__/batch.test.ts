@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateBatchStatus, replaceSceneHook, rotateSceneClips } from '../batch';
+import { restyleCaptions } from '../scene-editor';
+import { compileScenePlanToTemplate } from '../template-compiler';
+import { ScenePlan } from '../../../types/video';
+
+const scenePlan: ScenePlan = {
+  scenes: ['Stop scrolling! This changed my mornings.', 'Wake up at six.', 'Drink water first.'].map(
+    (text, index) => ({
+      scene_number: index + 1,
+      script_text: text,
+      video_asset: {
+        id: `video-${index + 1}`,
+        url: `https://cdn.example.com/videos/${index + 1}.mp4`,
+        title: `Video ${index + 1}`,
+        trim_start: '0',
+        trim_duration: '3',
+      },
+      reasoning: 'test',
+    })
+  ),
+};
+
+describe('batch variants', () => {
+  it('should only change the hook of the first scene', () => {
+    const variant = replaceSceneHook(scenePlan, 'You are doing mornings wrong.');
+
+    expect(variant.scenes[0]?.script_text).toBe('You are doing mornings wrong. This changed my mornings.');
+    expect(variant.scenes.slice(1)).toEqual(scenePlan.scenes.slice(1));
+  });
+
+  it('should rotate the clips and keep the texts in order', () => {
+    const variant = rotateSceneClips(scenePlan, 1);
+
+    expect(variant.scenes.map((scene) => scene.script_text)).toEqual(
+      scenePlan.scenes.map((scene) => scene.script_text)
+    );
+    expect(variant.scenes.map((scene) => scene.video_asset.id)).toEqual(['video-2', 'video-3', 'video-1']);
+  });
+
+  it('should restyle the captions of every scene', () => {
+    const template = compileScenePlanToTemplate(scenePlan, {
+      voiceId: 'voice-1',
+      captionProperties: { font_family: 'Inter', fill_color: '#ffffff' },
+    });
+
+    const restyled = restyleCaptions(template, { font_family: 'Montserrat' });
+    const captions = restyled.elements.map((scene: any) =>
+      scene.elements.find((element: any) => element.type === 'text')
+    );
+    expect(captions).toHaveLength(3);
+    for (const caption of captions) {
+      expect(caption.font_family).toBe('Montserrat');
+      expect(caption.fill_color).toBeUndefined();
+      expect(caption.transcript_source).toBeDefined();
+    }
+
+    const uncaptioned = restyleCaptions(template, {});
+    expect(
+      uncaptioned.elements.flatMap((scene: any) => scene.elements).some((element: any) => element.type === 'text')
+    ).toBe(false);
+  });
+});
+
+describe('aggregateBatchStatus', () => {
+  it('should follow the renders of the variants', () => {
+    expect(aggregateBatchStatus(['queued', 'queued'])).toBe('queued');
+    expect(aggregateBatchStatus(['done', 'rendering'])).toBe('rendering');
+    expect(aggregateBatchStatus(['done', 'done'])).toBe('done');
+    expect(aggregateBatchStatus(['done', 'error'])).toBe('partial');
+    expect(aggregateBatchStatus(['error', 'cancelled'])).toBe('failed');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BrandKitService } from '../brand-kit-service';
+import { Logger } from '../watermark-service';
+
+const USER_ID = 'user-123';
+const LOGO_URL = `https://test-bucket.s3.amazonaws.com/videos/${USER_ID}/1700000000_logo.png`;
+
+const row = {
+  id: 'kit-1',
+  user_id: USER_ID,
+  logo_url: LOGO_URL,
+  primary_color: '#ff5500',
+  secondary_color: '#ffffff',
+  font_family: 'Poppins',
+  handle: '@editia',
+  logo_watermark: true,
+  created_at: '2026-01-01T00:00:00Z',
+  updated_at: '2026-01-01T00:00:00Z',
+};
+
+const brandKit = {
+  logoUrl: LOGO_URL,
+  primaryColor: '#ff5500',
+  secondaryColor: '#ffffff',
+  fontFamily: 'Poppins',
+  handle: '@editia',
+  logoWatermark: true,
+};
+
+describe('BrandKitService', () => {
+  let mockDb: any;
+  let mockLogger: Logger;
+  let brandKitService: BrandKitService;
+
+  beforeEach(() => {
+    mockDb = { from: vi.fn() };
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    brandKitService = new BrandKitService(mockDb, mockLogger, 'test-bucket');
+  });
+
+  it('should read the brand kit of a user', async () => {
+    const maybeSingle = vi.fn().mockResolvedValue({ data: row, error: null });
+    mockDb.from.mockReturnValue({
+      select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ maybeSingle }) }),
+    });
+
+    expect(await brandKitService.getBrandKit(USER_ID)).toEqual(brandKit);
+    expect(mockDb.from).toHaveBeenCalledWith('brand_kits');
+  });
+
+  it('should treat a kit that cannot be read as no kit', async () => {
+    const maybeSingle = vi.fn().mockResolvedValue({ data: null, error: { message: 'timeout' } });
+    mockDb.from.mockReturnValue({
+      select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ maybeSingle }) }),
+    });
+
+    expect(await brandKitService.getBrandKit(USER_ID)).toBeNull();
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should replace the whole kit of the user', async () => {
+    const upsert = vi.fn().mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        single: vi.fn().mockResolvedValue({ data: { ...row, logo_url: null, logo_watermark: false }, error: null }),
+      }),
+    });
+    mockDb.from.mockReturnValue({ upsert });
+
+    const saved = await brandKitService.saveBrandKit(USER_ID, { primaryColor: '#ff5500' });
+
+    expect(upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ user_id: USER_ID, logo_url: null, primary_color: '#ff5500', logo_watermark: false }),
+      { onConflict: 'user_id' }
+    );
+    expect(saved).toMatchObject({ logoUrl: null, logoWatermark: false });
+  });
+
+  it('should only accept the user\'s own uploads as logo', () => {
+    expect(brandKitService.isOwnUpload(LOGO_URL, USER_ID)).toBe(true);
+    expect(brandKitService.isOwnUpload(LOGO_URL, 'user-456')).toBe(false);
+  });
+});
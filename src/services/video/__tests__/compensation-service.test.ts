@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CompensationService } from '../compensation-service';
+import { Logger } from '../watermark-service';
+import { ResourceType } from '../../../types/ressource';
+import { createMockDb, MockQuery } from '../../../test-helpers/mock-db';
+
+const isPendingEffectsQuery = (query: MockQuery) =>
+  query.table === 'generation_side_effects' && query.ops[0]?.[0] === 'select';
+
+describe('CompensationService', () => {
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  });
+
+  it('should record side effects with their payload', async () => {
+    const { db, queries } = createMockDb(() => ({}));
+    const service = new CompensationService(db, mockLogger);
+
+    await service.record('request-1', 'user-1', {
+      kind: 'script_draft_link',
+      scriptDraftId: 'draft-1',
+    });
+
+    expect(queries[0]?.table).toBe('generation_side_effects');
+    expect(queries[0]?.insert).toHaveBeenCalledWith({
+      video_request_id: 'request-1',
+      user_id: 'user-1',
+      kind: 'script_draft_link',
+      payload: { scriptDraftId: 'draft-1' },
+    });
+  });
+
+  it('should undo every pending side effect and audit the rollback', async () => {
+    const effects = [
+      { id: 'e3', kind: 'usage_increment', payload: { resourceType: ResourceType.VIDEOS_GENERATED } },
+      { id: 'e2', kind: 'script_draft_status', payload: { scriptDraftId: 'draft-1', previousStatus: 'validated', newStatus: 'used' } },
+      { id: 'e1', kind: 'script_draft_link', payload: { scriptDraftId: 'draft-1' } },
+    ];
+    const { db, queries } = createMockDb((query) =>
+      isPendingEffectsQuery(query) ? { data: effects } : {}
+    );
+    const service = new CompensationService(db, mockLogger);
+
+    const report = await service.compensate('request-1', 'user-1', 'Render failed');
+
+    expect(report.undone).toEqual([
+      'usage_increment',
+      'script_draft_status',
+      'script_draft_link',
+    ]);
+    expect(report.failed).toEqual([]);
+
+    expect(db.rpc).toHaveBeenCalledWith('decrement_user_usage', {
+      p_user_id: 'user-1',
+      p_field_to_decrement: 'videos_generated_used',
+      p_decrement_amount: 1,
+    });
+
+    const draftRestore = queries.find((query) => query.table === 'script_drafts');
+    expect(draftRestore?.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'validated' })
+    );
+    expect(draftRestore?.ops).toContainEqual(['eq', 'status', 'used']);
+
+    const unlink = queries.find((query) => query.table === 'video_requests');
+    expect(unlink?.update).toHaveBeenCalledWith(
+      expect.objectContaining({ script_id: null })
+    );
+
+    const audit = queries.find((query) => query.table === 'logs');
+    expect(audit?.insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        user_id: 'user-1',
+        action: 'generation_compensated',
+        metadata: expect.objectContaining({ requestId: 'request-1', reason: 'Render failed' }),
+      })
+    );
+  });
+
+  it('should keep going when one side effect cannot be undone', async () => {
+    const effects = [
+      { id: 'e2', kind: 'usage_increment', payload: { resourceType: ResourceType.VIDEOS_GENERATED } },
+      { id: 'e1', kind: 'script_draft_link', payload: { scriptDraftId: 'draft-1' } },
+    ];
+    const { db } = createMockDb((query) =>
+      isPendingEffectsQuery(query) ? { data: effects } : {}
+    );
+    db.rpc.mockResolvedValue({ data: null, error: { message: 'Access denied' } });
+    const service = new CompensationService(db, mockLogger);
+
+    const report = await service.compensate('request-1', 'user-1', 'Cancelled by user');
+
+    expect(report.undone).toEqual(['script_draft_link']);
+    expect(report.failed).toEqual([{ kind: 'usage_increment', error: 'Access denied' }]);
+  });
+
+  it('should only load the requested kinds', async () => {
+    const { db, queries } = createMockDb(() => ({ data: [] }));
+    const service = new CompensationService(db, mockLogger);
+
+    const report = await service.compensate('request-1', 'user-1', 'Webhook failed', ['usage_increment']);
+
+    expect(queries[0]?.ops).toContainEqual(['in', 'kind', ['usage_increment']]);
+    expect(report).toEqual({ undone: [], failed: [] });
+    // Nothing to undo, nothing to audit
+    expect(queries.some((query) => query.table === 'logs')).toBe(false);
+  });
+
+  it('should settle the pending side effects of a delivered request', async () => {
+    const { db, queries } = createMockDb(() => ({}));
+    const service = new CompensationService(db, mockLogger);
+
+    await service.settle('request-1');
+
+    expect(queries[0]?.update).toHaveBeenCalledWith({ settled_at: expect.any(String) });
+    expect(queries[0]?.ops).toContainEqual(['eq', 'video_request_id', 'request-1']);
+    expect(queries[0]?.ops).toContainEqual(['is', 'settled_at', null]);
+  });
+
+  it('should not roll back settled side effects', async () => {
+    const { db, queries } = createMockDb(() => ({ data: [] }));
+    const service = new CompensationService(db, mockLogger);
+
+    await service.compensate('request-1', 'user-1', 'Re-render failed');
+
+    expect(queries[0]?.ops).toContainEqual(['is', 'settled_at', null]);
+    expect(db.rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { applySceneTranslations, resolveDubbingVoice } from '../dubbing';
+import { rebuildEditedTemplate } from '../scene-editor';
+import { compileScenePlanToTemplate } from '../template-compiler';
+import { ScenePlan } from '../../../types/video';
+
+const scenePlan: ScenePlan = {
+  scenes: ['Hello everyone', 'See you tomorrow'].map((text, index) => ({
+    scene_number: index + 1,
+    script_text: text,
+    video_asset: {
+      id: `video-${index + 1}`,
+      url: `https://cdn.example.com/videos/${index + 1}.mp4`,
+      title: `Video ${index + 1}`,
+      trim_start: '1',
+      trim_duration: '3',
+    },
+    reasoning: 'test',
+  })),
+};
+
+const translations = {
+  scenes: [
+    { scene_number: 2, script_text: ' À demain ' },
+    { scene_number: 1, script_text: 'Bonjour à tous' },
+  ],
+};
+
+describe('applySceneTranslations', () => {
+  it('should replace the texts and keep the clips and trims', () => {
+    const dubbedPlan = applySceneTranslations(scenePlan, translations);
+
+    expect(dubbedPlan.scenes.map((scene) => scene.script_text)).toEqual(['Bonjour à tous', 'À demain']);
+    expect(dubbedPlan.scenes.map((scene) => scene.video_asset)).toEqual(
+      scenePlan.scenes.map((scene) => scene.video_asset)
+    );
+  });
+
+  it('should reject a translation missing a scene', () => {
+    expect(() =>
+      applySceneTranslations(scenePlan, { scenes: [{ scene_number: 1, script_text: 'Bonjour' }] })
+    ).toThrow('Scene 2 was not translated');
+  });
+});
+
+describe('resolveDubbingVoice', () => {
+  it('should keep the voice, with a model that speaks the language', () => {
+    expect(resolveDubbingVoice({ voiceId: 'clone-1' }, 'fr')).toEqual({
+      voiceId: 'clone-1',
+      voiceModel: 'eleven_multilingual_v2',
+    });
+    expect(resolveDubbingVoice({ voiceId: 'clone-1' }, 'vi')).toEqual({
+      voiceId: 'clone-1',
+      voiceModel: 'eleven_turbo_v2_5',
+    });
+  });
+});
+
+describe('dubbed template', () => {
+  it('should rebuild every scene with the new voice and the same captions', () => {
+    const template = compileScenePlanToTemplate(scenePlan, {
+      voiceId: 'clone-1',
+      captionProperties: { font_family: 'Inter', transcript_maximum_length: 20 },
+    });
+
+    const { template: dubbed, rebuiltScenes } = rebuildEditedTemplate(
+      template,
+      scenePlan,
+      applySceneTranslations(scenePlan, translations),
+      resolveDubbingVoice({ voiceId: 'clone-1' }, 'vi')
+    );
+
+    expect(rebuiltScenes).toEqual([1, 2]);
+    const voice = dubbed.elements[1].elements.find((element: any) => element.type === 'audio');
+    expect(voice).toMatchObject({
+      source: 'À demain',
+      provider: 'elevenlabs model_id=eleven_turbo_v2_5 voice_id=clone-1',
+    });
+    const [clip, caption] = ['video', 'text'].map((type) =>
+      dubbed.elements[1].elements.find((element: any) => element.type === type)
+    );
+    expect(clip).toMatchObject({ trim_start: 1, trim_duration: 3 });
+    expect(caption).toMatchObject({ font_family: 'Inter', transcript_maximum_length: 20 });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MusicService } from '../music-service';
+import { Logger } from '../watermark-service';
+
+const USER_ID = 'user-123';
+const UPLOAD_URL = `https://test-bucket.s3.amazonaws.com/videos/${USER_ID}/1700000000_theme.mp3`;
+
+describe('MusicService', () => {
+  let mockDb: any;
+  let mockLogger: Logger;
+  let musicService: MusicService;
+
+  beforeEach(() => {
+    mockDb = { from: vi.fn() };
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    musicService = new MusicService(mockDb, mockLogger, 'test-bucket');
+  });
+
+  describe('resolveTrack', () => {
+    it('should resolve library tracks from the music library', async () => {
+      const single = vi.fn().mockResolvedValue({
+        data: { title: 'Sunrise', url: 'https://cdn.example.com/sunrise.mp3' },
+        error: null,
+      });
+      mockDb.from.mockReturnValue({
+        select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ single }) }),
+      });
+
+      const track = await musicService.resolveTrack({ source: 'library', trackId: 'track-1' }, USER_ID);
+
+      expect(track).toEqual({ title: 'Sunrise', url: 'https://cdn.example.com/sunrise.mp3' });
+      expect(mockDb.from).toHaveBeenCalledWith('music_tracks');
+    });
+
+    it('should accept the user\'s own uploads only', async () => {
+      const own = await musicService.resolveTrack({ source: 'upload', url: UPLOAD_URL }, USER_ID);
+      const foreign = await musicService.resolveTrack({ source: 'upload', url: UPLOAD_URL }, 'user-456');
+
+      expect(own?.url).toBe(UPLOAD_URL);
+      expect(foreign).toBeNull();
+      expect(mockDb.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addMusicToTemplate', () => {
+    const track = { title: 'Theme', url: UPLOAD_URL };
+
+    it('should add one looping, ducked music element spanning the video', () => {
+      const template = { elements: [{ type: 'composition', elements: [] }] };
+
+      musicService.addMusicToTemplate(template, track, { source: 'upload', url: UPLOAD_URL });
+
+      expect(template.elements).toHaveLength(2);
+      expect(template.elements[0]).toEqual({ type: 'composition', elements: [] });
+      expect(template.elements[1]).toMatchObject({
+        type: 'audio',
+        time: 0,
+        source: UPLOAD_URL,
+        volume: '20%',
+        audio_fade_in: 1,
+        audio_fade_out: 2,
+        loop: true,
+      });
+    });
+
+    it('should replace the previous music and honour the options', () => {
+      const template = { elements: [] as any[] };
+      const music = { source: 'upload' as const, url: UPLOAD_URL, ducking: false, volume: 60, fadeIn: 0, loop: false };
+
+      musicService.addMusicToTemplate(template, track, { source: 'upload', url: UPLOAD_URL });
+      musicService.addMusicToTemplate(template, track, music);
+
+      expect(template.elements.filter((element) => MusicService.isMusicElement(element))).toHaveLength(1);
+      expect(template.elements[0]).toMatchObject({ volume: '60%', audio_fade_in: 0, loop: false });
+    });
+  });
+});
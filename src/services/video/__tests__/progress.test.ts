@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { VideoProgressEvent, VideoProgressService } from '../progress';
+import { Logger } from '../watermark-service';
+
+function createMockDb(error: any = null) {
+  const query: any = {};
+  query.update = vi.fn(() => query);
+  query.eq = vi.fn().mockResolvedValue({ data: null, error });
+  return { db: { from: vi.fn(() => query) } as any, query };
+}
+
+describe('VideoProgressService', () => {
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+  });
+
+  it('should deliver events to subscribers and persist the latest one', async () => {
+    const { db, query } = createMockDb();
+    const service = new VideoProgressService(db, mockLogger);
+    const received: VideoProgressEvent[] = [];
+    service.subscribe('request-1', (event) => received.push(event));
+
+    await service.publish('request-1', 'building_template');
+
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({ requestId: 'request-1', step: 'building_template', progress: 40 });
+    expect(query.update).toHaveBeenCalledWith({ progress: received[0] });
+    expect(query.eq).toHaveBeenCalledWith('id', 'request-1');
+  });
+
+  it('should stop delivering events once unsubscribed', async () => {
+    const { db } = createMockDb();
+    const service = new VideoProgressService(db, mockLogger);
+    const listener = vi.fn();
+    const unsubscribe = service.subscribe('request-1', listener);
+
+    await service.publish('request-2', 'queued');
+    unsubscribe();
+    await service.publish('request-1', 'queued');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should not fail when the event cannot be persisted', async () => {
+    const { db } = createMockDb({ message: 'column does not exist' });
+    const service = new VideoProgressService(db, mockLogger);
+
+    const event = await service.publish('request-1', 'rendering', {
+      progress: VideoProgressService.renderProgress(0.5),
+    });
+
+    expect(event.progress).toBe(78);
+    expect(mockLogger.warn).toHaveBeenCalled();
+  });
+
+  it('should prefer the request status over a stale stored event', () => {
+    const stored: VideoProgressEvent = {
+      requestId: 'request-1',
+      step: 'rendering',
+      progress: 80,
+      timestamp: '2025-01-01T00:00:00.000Z',
+    };
+
+    expect(
+      VideoProgressService.snapshot({ id: 'request-1', render_status: 'rendering', progress: stored })
+    ).toBe(stored);
+
+    expect(
+      VideoProgressService.snapshot({
+        id: 'request-1',
+        render_status: 'done',
+        render_url: 'https://cdn.example.com/video.mp4',
+        progress: stored,
+      })
+    ).toMatchObject({ step: 'done', progress: 100, renderUrl: 'https://cdn.example.com/video.mp4' });
+
+    // A retried request must not keep reporting the previous failure
+    expect(
+      VideoProgressService.snapshot({
+        id: 'request-1',
+        render_status: 'queued',
+        progress: { ...stored, step: 'error' },
+      })
+    ).toMatchObject({ step: 'queued', progress: 0 });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { applySceneEdit, findEditedScenes, rebuildEditedTemplate } from '../scene-editor';
+import { compileScenePlanToTemplate } from '../template-compiler';
+import { WatermarkService } from '../watermark-service';
+import { VideoStyleService } from '../video-style-service';
+import { ScenePlan } from '../../../types/video';
+
+const VOICE_ID = 'nTfwkJN1zZlaJj1EScTj';
+const captionProperties = { font_family: 'Montserrat', y_alignment: '90%', transcript_effect: 'highlight' };
+
+const scenePlan: ScenePlan = {
+  scenes: [1, 2, 3].map((sceneNumber) => ({
+    scene_number: sceneNumber,
+    script_text: `Scene ${sceneNumber} voice-over`,
+    video_asset: {
+      id: `video-${sceneNumber}`,
+      url: `https://cdn.example.com/videos/${sceneNumber}.mp4`,
+      title: `Video ${sceneNumber}`,
+      trim_start: '0',
+      trim_duration: '3',
+    },
+    reasoning: 'test',
+  })),
+};
+
+function renderedTemplate(watermark = false) {
+  return compileScenePlanToTemplate(scenePlan, { voiceId: VOICE_ID, captionProperties, watermark });
+}
+
+describe('applySceneEdit', () => {
+  it('should replace the script text and video of a scene', () => {
+    const edited = applySceneEdit(scenePlan, 2, {
+      scriptText: 'New text',
+      videoAsset: { id: 'video-9', url: 'https://cdn.example.com/videos/9.mp4', title: 'Video 9' },
+    });
+
+    expect(edited.scenes[1]).toMatchObject({
+      scene_number: 2,
+      script_text: 'New text',
+      video_asset: { id: 'video-9' },
+    });
+    expect(scenePlan.scenes[1]?.script_text).toBe('Scene 2 voice-over');
+  });
+
+  it('should set and remove trims, dropping chained clips', () => {
+    const chained: ScenePlan = {
+      scenes: [{ ...scenePlan.scenes[0]!, extra_assets: [{ ...scenePlan.scenes[1]!.video_asset }] }],
+    };
+    const [scene] = applySceneEdit(chained, 1, { trimStart: 1.5, trimDuration: null }).scenes;
+
+    expect(scene?.video_asset.trim_start).toBe('1.5');
+    expect(scene?.video_asset.trim_duration).toBeUndefined();
+    expect(scene?.extra_assets).toBeUndefined();
+  });
+
+  it('should move a scene without renumbering it', () => {
+    const edited = applySceneEdit(scenePlan, 3, { position: 1 });
+
+    expect(edited.scenes.map((scene) => scene.scene_number)).toEqual([3, 1, 2]);
+  });
+});
+
+describe('rebuildEditedTemplate', () => {
+  it('should only rebuild the edited scenes', () => {
+    const template = renderedTemplate();
+    const edited = applySceneEdit(scenePlan, 2, { scriptText: 'New text' });
+    const result = rebuildEditedTemplate(template, scenePlan, edited);
+
+    expect(findEditedScenes(scenePlan, edited)).toEqual([2]);
+    expect(result.rebuiltScenes).toEqual([2]);
+    expect(JSON.stringify(result.template.elements[0])).toBe(JSON.stringify(template.elements[0]));
+    expect(JSON.stringify(result.template.elements[2])).toBe(JSON.stringify(template.elements[2]));
+
+    const voice = result.template.elements[1].elements.find((element: any) => element.type === 'audio');
+    const caption = result.template.elements[1].elements.find((element: any) => element.type === 'text');
+    expect(voice.source).toBe('New text');
+    expect(voice.provider).toContain(`voice_id=${VOICE_ID}`);
+    expect(caption).toMatchObject({ ...captionProperties, transcript_source: voice.id });
+  });
+
+  it('should move the compositions of reordered scenes as they are', () => {
+    const template = renderedTemplate();
+    const result = rebuildEditedTemplate(template, scenePlan, applySceneEdit(scenePlan, 3, { position: 1 }));
+
+    expect(result.rebuiltScenes).toEqual([]);
+    expect(result.template.elements).toEqual([
+      template.elements[2],
+      template.elements[0],
+      template.elements[1],
+    ]);
+  });
+
+  it('should keep the cards in place and the transitions in order', () => {
+    const template = renderedTemplate();
+    new VideoStyleService({} as any, { info() {}, warn() {}, error() {} }).applyVideoStyle(template, {
+      intro: { handle: '@editia' },
+      transition: { style: 'slide' },
+    });
+    const edited = applySceneEdit(scenePlan, 3, { position: 1, scriptText: 'Moved first' });
+    const result = rebuildEditedTemplate(template, scenePlan, edited);
+    const [intro, first, second, third] = result.template.elements;
+
+    expect(result.rebuiltScenes).toEqual([1]);
+    expect(intro).toBe(template.elements[0]);
+    expect(first.name).toBe('Scene-3');
+    expect(third).toBe(template.elements[2]);
+    for (const scene of [first, second, third]) {
+      expect(scene.animations).toEqual([expect.objectContaining({ transition: true, type: 'slide' })]);
+    }
+  });
+
+  it('should keep the watermark on rebuilt scenes', () => {
+    const edited = applySceneEdit(scenePlan, 1, { trimStart: 2 });
+    const result = rebuildEditedTemplate(renderedTemplate(true), scenePlan, edited);
+    const elements = result.template.elements[0].elements;
+
+    expect(result.rebuiltScenes).toEqual([1]);
+    expect(elements[0].trim_start).toBe(2);
+    expect(elements.filter((element: any) => WatermarkService.isWatermarkElement(element))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { matchScenePlanSegments, parseTimestamp } from '../segment-matcher';
+import { ScenePlan } from '../../../types/video';
+import analyzedVideos from './fixtures/analyzed-videos.json';
+
+// 2 words per second keeps the expected durations readable
+const options = { secondsPerWord: 0.5 };
+
+function sceneText(words: string, totalWords: number): string {
+  const count = words.split(' ').length;
+  return `${words} ${Array(totalWords - count).fill('lorem').join(' ')}`;
+}
+
+function createPlan(videoId: string, scriptText: string, trims: Record<string, string> = {}): ScenePlan {
+  const video = analyzedVideos.find((candidate) => candidate.id === videoId)!;
+  return {
+    scenes: [
+      {
+        scene_number: 1,
+        script_text: scriptText,
+        video_asset: { id: video.id, url: video.upload_url, title: video.title, ...trims },
+        reasoning: 'test',
+      },
+    ],
+  };
+}
+
+describe('matchScenePlanSegments', () => {
+  it('should start the clip at the segment matching the scene text', () => {
+    const plan = createPlan('video-beach', sceneText('Le remote work sur mon laptop', 10));
+    const [scene] = matchScenePlanSegments(plan, analyzedVideos, options).scenes;
+
+    expect(scene?.video_asset).toMatchObject({ trim_start: '12', trim_duration: '5' });
+    expect(scene?.extra_assets).toBeUndefined();
+  });
+
+  it('should slide the clip back when the video ends before the voice-over', () => {
+    const plan = createPlan('video-beach', sceneText('What a sunset', 24));
+    const [scene] = matchScenePlanSegments(plan, analyzedVideos, options).scenes;
+
+    expect(scene?.video_asset).toMatchObject({ trim_start: '28', trim_duration: '12' });
+  });
+
+  it('should chain the best matching clips when the video is too short', () => {
+    const plan = createPlan('video-office', sceneText('From the office to the sunrise', 20));
+    const [scene] = matchScenePlanSegments(plan, analyzedVideos, options).scenes;
+
+    expect(scene?.video_asset).toMatchObject({ trim_start: '0', trim_duration: '6' });
+    expect(scene?.extra_assets).toEqual([
+      {
+        id: 'video-beach',
+        url: 'https://cdn.example.com/videos/beach.mp4',
+        title: 'Beach vacation',
+        trim_start: '0',
+        trim_duration: '4',
+      },
+    ]);
+  });
+
+  it('should trim videos without analysis from their start', () => {
+    const plan = createPlan('video-city', sceneText('Night lights', 8));
+    const [scene] = matchScenePlanSegments(plan, analyzedVideos, options).scenes;
+
+    expect(scene?.video_asset).toMatchObject({ trim_start: '0', trim_duration: '4' });
+  });
+
+  it('should drop planner trims when the video length is unknown', () => {
+    const plan = createPlan('video-unknown', 'Anything at all', { trim_start: '50', trim_duration: '3' });
+    const [scene] = matchScenePlanSegments(plan, analyzedVideos, options).scenes;
+
+    expect(scene?.video_asset.trim_start).toBeUndefined();
+    expect(scene?.video_asset.trim_duration).toBeUndefined();
+  });
+
+  it('should leave the input plan untouched', () => {
+    const plan = createPlan('video-beach', 'Sunset', { trim_start: '99', trim_duration: '99' });
+    matchScenePlanSegments(plan, analyzedVideos, options);
+
+    expect(plan.scenes[0]?.video_asset.trim_start).toBe('99');
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('should parse analysis timestamps', () => {
+    expect(parseTimestamp('00:15')).toBe(15);
+    expect(parseTimestamp('1:02:03')).toBe(3723);
+    expect(parseTimestamp('12.5')).toBe(12.5);
+    expect(parseTimestamp('12s')).toBe(12);
+    expect(parseTimestamp('soon')).toBeNull();
+    expect(parseTimestamp(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { buildSubtitleTrack, formatSrt, formatVtt } from '../subtitles';
+import { compileScenePlanToTemplate } from '../template-compiler';
+import { VideoStyleService } from '../video-style-service';
+import { ScenePlan } from '../../../types/video';
+
+const scenePlan: ScenePlan = {
+  scenes: [
+    // 10 words, 4 seconds of voice-over at 2.5 words per second
+    'one two three four five six seven eight nine ten',
+    'eleven twelve thirteen fourteen fifteen sixteen seventeen eighteen nineteen twenty',
+  ].map((text, index) => ({
+    scene_number: index + 1,
+    script_text: text,
+    video_asset: {
+      id: `video-${index + 1}`,
+      url: `https://cdn.example.com/videos/${index + 1}.mp4`,
+      title: `Video ${index + 1}`,
+      trim_start: '0',
+      trim_duration: '2',
+    },
+    reasoning: 'test',
+  })),
+};
+
+function renderedTemplate(maxLength = 25) {
+  return compileScenePlanToTemplate(scenePlan, {
+    voiceId: 'voice-1',
+    captionProperties: { transcript_maximum_length: maxLength },
+  });
+}
+
+describe('buildSubtitleTrack', () => {
+  it('should split each scene into cues of at most the caption length', () => {
+    const { cues, estimated } = buildSubtitleTrack(renderedTemplate(), scenePlan);
+
+    expect(estimated).toBe(true);
+    expect(cues.every((cue) => cue.text.length <= 25)).toBe(true);
+    expect(cues.filter((cue) => cue.sceneNumber === 1).map((cue) => cue.text).join(' ')).toBe(
+      scenePlan.scenes[0]!.script_text
+    );
+    expect(cues[0]?.start).toBe(0);
+    expect(cues.find((cue) => cue.sceneNumber === 2)?.start).toBe(4);
+    expect(cues[cues.length - 1]?.end).toBe(8);
+  });
+
+  it('should fit the timings to the rendered duration, around the cards', () => {
+    const template = renderedTemplate(100);
+    new VideoStyleService({} as any, { info() {}, warn() {}, error() {} }).applyVideoStyle(template, {
+      intro: { handle: '@editia', duration: 2 },
+    });
+
+    const { cues, estimated } = buildSubtitleTrack(template, scenePlan, 12);
+
+    expect(estimated).toBe(false);
+    expect(cues.map((cue) => [cue.start, cue.end])).toEqual([
+      [2, 7],
+      [7, 12],
+    ]);
+  });
+
+  it('should read the voice-over texts of templates that do not follow the plan', () => {
+    const { cues } = buildSubtitleTrack(renderedTemplate(100), null);
+
+    expect(cues.map((cue) => cue.text)).toEqual(scenePlan.scenes.map((scene) => scene.script_text));
+  });
+});
+
+describe('subtitle formats', () => {
+  const cues = [
+    { start: 0, end: 1.5, text: 'Hello there', sceneNumber: 1 },
+    { start: 3661.25, end: 3662, text: 'General Kenobi', sceneNumber: 2 },
+  ];
+
+  it('should format SubRip files', () => {
+    expect(formatSrt(cues)).toBe(
+      '1\n00:00:00,000 --> 00:00:01,500\nHello there\n\n2\n01:01:01,250 --> 01:01:02,000\nGeneral Kenobi\n'
+    );
+  });
+
+  it('should format WebVTT files', () => {
+    expect(formatVtt(cues)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:01.500\nHello there\n\n01:01:01.250 --> 01:01:02.000\nGeneral Kenobi\n'
+    );
+  });
+});
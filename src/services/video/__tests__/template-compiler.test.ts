@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { compileScenePlanToTemplate } from '../template-compiler';
+import { WatermarkService } from '../watermark-service';
+import { CreatomateTemplateSchema } from '../../../types/template';
+import { ScenePlan } from '../../../types/video';
+import llmTemplate from '../../__tests__/templates/voiceId-template.json';
+
+const VOICE_ID = 'nTfwkJN1zZlaJj1EScTj';
+
+const llmScenes: any[] = llmTemplate.modifications.elements;
+const llmCaption: any = llmScenes[0].elements.find((element: any) => element.type === 'text');
+const { type, track, transcript_source, ...captionProperties } = llmCaption;
+
+// Scene plan the LLM template was built from
+const scenePlan: ScenePlan = {
+  scenes: llmScenes.map((scene: any, index: number) => ({
+    scene_number: index + 1,
+    script_text: scene.elements.find((element: any) => element.type === 'audio').source,
+    video_asset: {
+      id: `video-${index + 1}`,
+      url: scene.elements.find((element: any) => element.type === 'video').source,
+      title: `Video ${index + 1}`,
+    },
+    reasoning: 'fixture',
+  })),
+};
+
+// What the render depends on, whatever element names or key order are used
+function summarize(template: any) {
+  return template.elements.map((scene: any) => {
+    const video = scene.elements.find((element: any) => element.type === 'video');
+    const voice = scene.elements.find((element: any) => element.type === 'audio');
+    const caption = scene.elements.find((element: any) => element.type === 'text');
+    return {
+      type: scene.type,
+      track: scene.track,
+      video: { source: video.source, track: video.track, fit: video.fit, volume: video.volume },
+      voice: { source: voice.source, track: voice.track, provider: voice.provider },
+      caption: caption && {
+        track: caption.track,
+        boundToVoice: caption.transcript_source === voice.id,
+        transcript_effect: caption.transcript_effect,
+        y_alignment: caption.y_alignment,
+      },
+    };
+  });
+}
+
+describe('compileScenePlanToTemplate', () => {
+  it('should compile the same scenes as the LLM template', () => {
+    const template = compileScenePlanToTemplate(scenePlan, {
+      voiceId: VOICE_ID,
+      captionProperties,
+    });
+
+    expect(template.width).toBe(llmTemplate.modifications.width);
+    expect(template.height).toBe(llmTemplate.modifications.height);
+    expect(summarize(template)).toEqual(summarize(llmTemplate.modifications));
+  });
+
+  it('should produce a valid template', () => {
+    const template = compileScenePlanToTemplate(scenePlan, {
+      voiceId: VOICE_ID,
+      captionProperties,
+      aspectRatio: '16:9',
+    });
+
+    expect(CreatomateTemplateSchema.safeParse(template).success).toBe(true);
+    expect(template.width).toBe(1920);
+  });
+
+  it('should be deterministic', () => {
+    const options = { voiceId: VOICE_ID, captionProperties };
+
+    expect(compileScenePlanToTemplate(scenePlan, options)).toEqual(
+      compileScenePlanToTemplate(scenePlan, options)
+    );
+  });
+
+  it('should apply the planned trims', () => {
+    const trimmedPlan: ScenePlan = {
+      scenes: [
+        {
+          ...scenePlan.scenes[0]!,
+          video_asset: { ...scenePlan.scenes[0]!.video_asset, trim_start: '2.5', trim_duration: '4' },
+        },
+      ],
+    };
+
+    const template = compileScenePlanToTemplate(trimmedPlan, { voiceId: VOICE_ID, captionProperties });
+    const video = template.elements[0].elements[0];
+
+    expect(video.trim_start).toBe(2.5);
+    expect(video.trim_duration).toBe(4);
+  });
+
+  it('should leave captions out when they are disabled', () => {
+    const template = compileScenePlanToTemplate(scenePlan, { voiceId: VOICE_ID, captionProperties: {} });
+
+    for (const scene of template.elements) {
+      expect(scene.elements.some((element: any) => element.type === 'text')).toBe(false);
+    }
+  });
+
+  it('should add the watermark when requested', () => {
+    const template = compileScenePlanToTemplate(scenePlan, {
+      voiceId: VOICE_ID,
+      captionProperties,
+      watermark: true,
+    });
+
+    for (const scene of template.elements) {
+      expect(scene.elements.some((element: any) => WatermarkService.isWatermarkElement(element))).toBe(true);
+    }
+  });
+});
@@ -105,6 +105,7 @@ describe('VideoTemplateService Watermark Integration', () => {
       
       // Verify the watermark element has the correct structure for Creatomate
       expect(watermarkElement).toEqual({
+        name: "Watermark",
         type: "image",
         track: 4, // Should be above other tracks
         source: 'https://ai-edit-v1.s3.us-east-1.amazonaws.com/cdn/images/editia-logo.png',
@@ -111,14 +111,14 @@ describe('VideoValidationService', () => {
     it('should throw error for incorrect dimensions', async () => {
       const wrongDimensionsTemplate = {
         output_format: 'mp4',
-        width: 1920, // wrong
-        height: 1080, // wrong
+        width: 720, // wrong
+        height: 1280, // wrong
         elements: [],
       };
 
       await expect(
         service.validateTemplate(wrongDimensionsTemplate, mockConfig)
-      ).rejects.toThrow('Invalid template: Must be 1080x1920 for vertical video');
+      ).rejects.toThrow('Invalid template: Unsupported resolution 720x1280');
     });
 
     it('should throw error when elements is not an array', async () => {
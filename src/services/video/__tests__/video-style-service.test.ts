@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { VideoStyleService } from '../video-style-service';
+import { Logger } from '../watermark-service';
+import { CreatomateTemplateSchema, VideoStyle } from '../../../types/template';
+
+const style: VideoStyle = {
+  intro: { logoUrl: 'https://cdn.example.com/logo.png', handle: '@editia' },
+  outro: { handle: '@editia', text: 'Follow for more', backgroundColor: '#112233' },
+  transition: { style: 'fade', duration: 0.4 },
+};
+
+function createTemplate() {
+  return {
+    output_format: 'mp4' as const,
+    width: 1080,
+    height: 1920,
+    elements: [1, 2, 3].map((sceneNumber) => ({
+      name: `Scene-${sceneNumber}`,
+      type: 'composition',
+      track: 1,
+      elements: [{ type: 'video', track: 1, source: `https://cdn.example.com/${sceneNumber}.mp4` }],
+    })) as any[],
+  };
+}
+
+const music = { name: 'Background-Music', type: 'audio', track: 4, source: 'https://cdn.example.com/music.mp3' };
+
+function transitionOf(element: any) {
+  return element.animations?.find((animation: any) => animation.transition);
+}
+
+describe('VideoStyleService', () => {
+  let mockDb: any;
+  let mockLogger: Logger;
+  let videoStyleService: VideoStyleService;
+
+  beforeEach(() => {
+    mockDb = { from: vi.fn() };
+    mockLogger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+    videoStyleService = new VideoStyleService(mockDb, mockLogger);
+  });
+
+  describe('getVideoStyle', () => {
+    function mockProfile(videoStyle: unknown) {
+      const single = vi.fn().mockResolvedValue({ data: { video_style: videoStyle }, error: null });
+      mockDb.from.mockReturnValue({
+        select: vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ single }) }),
+      });
+    }
+
+    it('should read the style of the editorial profile', async () => {
+      mockProfile(style);
+
+      expect(await videoStyleService.getVideoStyle('user-123')).toEqual(style);
+      expect(mockDb.from).toHaveBeenCalledWith('editorial_profiles');
+    });
+
+    it('should ignore an invalid style', async () => {
+      mockProfile({ transition: { style: 'spin' } });
+
+      expect(await videoStyleService.getVideoStyle('user-123')).toBeNull();
+      expect(mockLogger.warn).toHaveBeenCalled();
+    });
+  });
+
+  describe('applyVideoStyle', () => {
+    it('should wrap the scenes with the cards, before the music', () => {
+      const template = createTemplate();
+      template.elements.push(music);
+
+      videoStyleService.applyVideoStyle(template, style);
+
+      expect(template.elements.map((element) => element.name)).toEqual([
+        'Intro-Card',
+        'Scene-1',
+        'Scene-2',
+        'Scene-3',
+        'Outro-Card',
+        'Background-Music',
+      ]);
+      expect(CreatomateTemplateSchema.safeParse(template).success).toBe(true);
+    });
+
+    it('should add the transition to every composition but the first', () => {
+      const template = createTemplate();
+
+      videoStyleService.applyVideoStyle(template, style);
+      const compositions = template.elements.filter((element) => element.type === 'composition');
+
+      expect(transitionOf(compositions[0])).toBeUndefined();
+      for (const composition of compositions.slice(1)) {
+        expect(transitionOf(composition)).toEqual({
+          time: 'start',
+          duration: 0.4,
+          transition: true,
+          type: 'fade',
+        });
+      }
+    });
+
+    it('should replace the cards and transitions of a previous style', () => {
+      const template = createTemplate();
+
+      videoStyleService.applyVideoStyle(template, style);
+      videoStyleService.applyVideoStyle(template, { transition: { style: 'none' } });
+
+      expect(template.elements.some((element) => VideoStyleService.isCardElement(element))).toBe(false);
+      expect(template.elements.every((element) => element.animations === undefined)).toBe(true);
+    });
+  });
+
+  describe('createCard', () => {
+    it('should lay out the logo, handle and text over the background', () => {
+      const card: any = videoStyleService.createCard('outro', {
+        logoUrl: 'https://cdn.example.com/logo.png',
+        handle: '@editia',
+        text: 'Follow for more',
+        duration: 3,
+      });
+
+      expect(card).toMatchObject({ name: 'Outro-Card', type: 'composition', duration: 3 });
+      expect(card.elements.map((element: any) => element.type)).toEqual(['shape', 'image', 'text', 'text']);
+      expect(card.elements.map((element: any) => element.text).filter(Boolean)).toEqual([
+        '@editia',
+        'Follow for more',
+      ]);
+    });
+
+    it('should fall back on the brand kit', () => {
+      const card: any = videoStyleService.createCard(
+        'intro',
+        { text: 'New drop', textColor: '#000000' },
+        { logoUrl: 'https://cdn.example.com/brand.png', handle: '@brand', primaryColor: '#ff5500', secondaryColor: '#ffffff', fontFamily: 'Poppins' }
+      );
+      const [background, logo, handle, text] = card.elements;
+
+      expect(background.fill_color).toBe('#ff5500');
+      expect(logo.source).toBe('https://cdn.example.com/brand.png');
+      expect(handle).toMatchObject({ text: '@brand', font_family: 'Poppins', fill_color: '#000000' });
+      expect(text.text).toBe('New drop');
+    });
+  });
+});
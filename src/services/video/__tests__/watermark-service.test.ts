@@ -166,6 +166,7 @@ describe('WatermarkService', () => {
       const element = watermarkService.createWatermarkElement();
 
       expect(element).toEqual({
+        name: "Watermark",
         type: "image",
         track: 4,
         source: 'https://ai-edit-v1.s3.us-east-1.amazonaws.com/cdn/images/editia-logo.png',
@@ -274,6 +275,36 @@ describe('WatermarkService', () => {
     });
   });
 
+  describe('brand logo watermark', () => {
+    const LOGO_URL = 'https://cdn.example.com/logo.png';
+
+    it('should watermark paid users with the logo of their brand kit', async () => {
+      vi.spyOn(watermarkService, 'shouldAddWatermark').mockResolvedValue(false);
+      mockDb.maybeSingle = vi.fn().mockResolvedValue({
+        data: { logo_url: LOGO_URL, logo_watermark: true },
+        error: null,
+      });
+
+      const template = { elements: [{ type: 'composition', elements: [] as any[] }] };
+      const result = await watermarkService.addWatermarkIfNeeded('user-123', template);
+      const watermark = template.elements[0]!.elements[0];
+
+      expect(result).toBe(true);
+      expect(watermark.source).toBe(LOGO_URL);
+      expect(WatermarkService.isWatermarkElement(watermark)).toBe(true);
+    });
+
+    it('should keep the Editia watermark for free users', async () => {
+      vi.spyOn(watermarkService, 'shouldAddWatermark').mockResolvedValue(true);
+      mockDb.maybeSingle = vi.fn();
+
+      const url = await watermarkService.getWatermarkUrl('user-123');
+
+      expect(url).toBe('https://ai-edit-v1.s3.us-east-1.amazonaws.com/cdn/images/editia-logo.png');
+      expect(mockDb.maybeSingle).not.toHaveBeenCalled();
+    });
+  });
+
   describe('static methods (backward compatibility)', () => {
     it('should work with static shouldAddWatermark', async () => {
       // This will use the default dependencies, so we need to handle potential failures
@@ -0,0 +1,63 @@
+import { AspectRatio, OUTPUT_RESOLUTIONS } from "../../types/template";
+import {
+  getCaptionLayoutProperties,
+  getCaptionPlacement,
+} from "../../utils/video/preset-converter";
+import { WatermarkService } from "./watermark-service";
+
+function isCaptionElement(element: any): boolean {
+  return (
+    element?.type === "text" &&
+    (!!element.transcript_source ||
+      (typeof element.name === "string" &&
+        element.name.toLowerCase().includes("subtitle")))
+  );
+}
+
+function forEachElement(elements: any, visit: (element: any) => void): void {
+  if (!Array.isArray(elements)) {
+    return;
+  }
+  for (const element of elements) {
+    visit(element);
+    if (element?.type === "composition") {
+      forEachElement(element.elements, visit);
+    }
+  }
+}
+
+/**
+ * Returns a copy of a template rendered at another aspect ratio.
+ *
+ * Templates are planned once (in 9:16); each extra output format only changes
+ * the resolution, crops the footage to fill the frame and moves captions and
+ * watermark to where they fit that frame.
+ */
+export function adaptTemplateToAspectRatio(
+  template: any,
+  aspectRatio: AspectRatio
+): any {
+  const adapted = JSON.parse(JSON.stringify(template));
+  const { width, height } = OUTPUT_RESOLUTIONS[aspectRatio];
+  adapted.width = width;
+  adapted.height = height;
+
+  forEachElement(adapted.elements, (element) => {
+    if (element?.type === "video") {
+      element.fit = "cover";
+    } else if (isCaptionElement(element)) {
+      // Custom positions are kept, only known placements are moved
+      Object.assign(
+        element,
+        getCaptionLayoutProperties(
+          aspectRatio,
+          getCaptionPlacement(element.y_alignment)
+        )
+      );
+    } else if (WatermarkService.isWatermarkElement(element)) {
+      Object.assign(element, WatermarkService.getWatermarkPlacement(aspectRatio));
+    }
+  });
+
+  return adapted;
+}
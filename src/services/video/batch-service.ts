@@ -0,0 +1,304 @@
+import winston from "winston";
+import { supabase } from "../../config/supabase";
+import { Database } from "../../config/supabase-types";
+import { VIDEO_DURATION_FACTOR } from "../../config/video-constants";
+import { AspectRatio } from "../../types/template";
+import { User } from "../../types/user";
+import {
+  ScenePlan,
+  ValidatedVideo,
+  VideoBatchRequest,
+  VideoBatchResult,
+  VideoBatchVariation,
+  VideoRequestStatus,
+} from "../../types/video";
+import { convertCaptionConfigToProperties } from "../../utils/video/preset-converter";
+import { ScriptChatService } from "../script/chatService";
+import { splitScriptHook } from "../../utils/script/script-text";
+import { aggregateBatchStatus, replaceSceneHook, rotateSceneClips } from "./batch";
+import { brandKitService } from "./brand-kit-service";
+import { captionPresetService } from "./caption-preset-service";
+import { VideoGeneratorService } from "./generator";
+import { isTemplateEditable, rebuildEditedTemplate, restyleCaptions } from "./scene-editor";
+import { matchScenePlanSegments } from "./segment-matcher";
+import { VideoGenerationPayload, VideoValidationService } from "./validation";
+
+/**
+ * Variant of a batch, planned and ready to be rendered
+ */
+interface PlannedBatchVariant {
+  label: string;
+  template: any;
+  scenePlan: ScenePlan;
+  payload: VideoGenerationPayload;
+}
+
+/**
+ * Batches of variants of a video, to A/B test them. Variants are planned
+ * here and generated as regular video requests by VideoGeneratorService,
+ * which creates them all at once before queueing them.
+ */
+export class VideoBatchService {
+  private user: User;
+  private logger: winston.Logger;
+  private generator: VideoGeneratorService;
+
+  constructor(user: User, logger: winston.Logger) {
+    this.user = user;
+    this.logger = logger;
+    this.generator = new VideoGeneratorService(user, logger);
+  }
+
+  /**
+   * Generates variants of a script draft's video to A/B test them. The video
+   * is planned once, then each variant changes only its hook, caption preset
+   * or clip order; variants are rendered as requests grouped under a batch.
+   */
+  async generateVideoBatch(
+    scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"],
+    payload: VideoGenerationPayload,
+    batch: VideoBatchRequest
+  ): Promise<VideoBatchResult> {
+    const startTime = Date.now();
+    this.logger.info(
+      `🧪 Planning ${batch.count} ${batch.variation} variants of script ${scriptDraft.id}`
+    );
+
+    // Variants are derived from the scenes of a compiled template
+    const { scenePlan, template, validatedVideos, brandKit } =
+      await this.generator.planTemplate(scriptDraft, payload, "compiled");
+
+    if (!isTemplateEditable(template, scenePlan)) {
+      throw VideoValidationService.createError(
+        "The planned template has no scene to vary",
+        "SCENE_PLAN_UNAVAILABLE",
+        { scriptId: scriptDraft.id },
+        false,
+        "Variants of this script cannot be generated."
+      );
+    }
+
+    const variants = await this.planBatchVariants(
+      { template, scenePlan, payload },
+      scriptDraft,
+      batch,
+      validatedVideos,
+      brandKit
+    );
+
+    const { data: videoBatch, error } = await supabase
+      .from("video_batches")
+      .insert({
+        user_id: this.user.id,
+        script_draft_id: scriptDraft.id,
+        variation: batch.variation,
+      })
+      .select("id")
+      .single();
+
+    if (error || !videoBatch) {
+      throw VideoValidationService.createError(
+        "Failed to create video batch",
+        "DATABASE_ERROR",
+        { scriptId: scriptDraft.id, error: error?.message },
+        true,
+        "Unable to queue the variants. Please try again."
+      );
+    }
+
+    const batchVariants = await this.generator.generateBatchVariants(
+      scriptDraft,
+      videoBatch.id,
+      variants.map((variant, position) => ({
+        index: position + 1,
+        label: variant.label,
+        payload: variant.payload,
+        stored: { template: variant.template, scenePlan: variant.scenePlan },
+      })),
+      this.logger
+    );
+
+    this.logger.info(
+      `✅ Batch ${videoBatch.id} of ${batchVariants.length} variants queued in ${Date.now() - startTime}ms`
+    );
+    return {
+      batchId: videoBatch.id,
+      scriptId: scriptDraft.id,
+      variation: batch.variation,
+      status: "queued",
+      variants: batchVariants,
+    };
+  }
+
+  /**
+   * Variants of a batch with their status, the batch status aggregating them
+   */
+  async getVideoBatch(batchId: string): Promise<VideoBatchResult> {
+    const { data: videoBatch } = await supabase
+      .from("video_batches")
+      .select("*")
+      .eq("id", batchId)
+      .eq("user_id", this.user.id)
+      .maybeSingle();
+
+    if (!videoBatch) {
+      throw VideoValidationService.createError(
+        `Video batch ${batchId} not found`,
+        "VIDEO_BATCH_NOT_FOUND",
+        { batchId },
+        false,
+        "Video batch not found."
+      );
+    }
+
+    const { data: videoRequests, error } = await supabase
+      .from("video_requests")
+      .select("id, render_status, render_url, batch_variant_index, batch_variant_label")
+      .eq("batch_id", batchId)
+      .eq("user_id", this.user.id)
+      .order("batch_variant_index", { ascending: true });
+
+    if (error) {
+      throw VideoValidationService.createError(
+        "Failed to load the variants of the batch",
+        "DATABASE_ERROR",
+        { batchId, error: error.message },
+        true,
+        "Unable to load the video batch. Please try again."
+      );
+    }
+
+    const variants = videoRequests ?? [];
+    const { data: renditions } = variants.length
+      ? await supabase
+          .from("video_requests")
+          .select("id, aspect_ratio, primary_request_id")
+          .in(
+            "primary_request_id",
+            variants.map((variant) => variant.id)
+          )
+      : { data: [] };
+
+    return {
+      batchId,
+      scriptId: videoBatch.script_draft_id,
+      variation: videoBatch.variation as VideoBatchVariation,
+      status: aggregateBatchStatus(variants.map((variant) => variant.render_status)),
+      variants: variants.map((variant) => ({
+        requestId: variant.id,
+        index: variant.batch_variant_index ?? 0,
+        label: variant.batch_variant_label ?? "",
+        status: variant.render_status as VideoRequestStatus,
+        renderUrl: variant.render_url,
+        renditions: (renditions ?? [])
+          .filter((rendition) => rendition.primary_request_id === variant.id)
+          .map((rendition) => ({
+            requestId: rendition.id,
+            aspectRatio: rendition.aspect_ratio as AspectRatio,
+          })),
+      })),
+    };
+  }
+
+  /**
+   * Derives the variants of a batch from the planned video. The first variant
+   * is the video as planned, except for caption presets where each variant
+   * takes its own.
+   * @private
+   */
+  private async planBatchVariants(
+    planned: Omit<PlannedBatchVariant, "label">,
+    scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"],
+    batch: VideoBatchRequest,
+    videos: ValidatedVideo[],
+    brandKit: Awaited<ReturnType<typeof brandKitService.getBrandKit>>
+  ): Promise<PlannedBatchVariant[]> {
+    const { template, scenePlan, payload } = planned;
+    const retrim = (plan: ScenePlan) =>
+      matchScenePlanSegments(plan, videos, { secondsPerWord: VIDEO_DURATION_FACTOR });
+    const rebuild = (variantPlan: ScenePlan) => ({
+      template: rebuildEditedTemplate(template, scenePlan, variantPlan).template,
+      scenePlan: variantPlan,
+      payload,
+    });
+
+    switch (batch.variation) {
+      case "hook": {
+        let hooks = batch.hooks;
+        if (!hooks) {
+          try {
+            hooks = await new ScriptChatService(this.user, this.logger).rewriteHooks(
+              scriptDraft.current_script,
+              batch.count - 1,
+              payload.editorialProfile,
+              payload.outputLanguage
+            );
+          } catch (error) {
+            throw VideoValidationService.createError(
+              error instanceof Error ? error.message : "Hook rewriting failed",
+              "HOOK_REWRITE_FAILED",
+              { scriptId: scriptDraft.id },
+              true,
+              "The alternative hooks could not be written. Please try again."
+            );
+          }
+        }
+
+        const [firstScene, ...otherScenes] = scenePlan.scenes;
+        return [
+          { ...planned, label: splitScriptHook(firstScene?.script_text ?? "").hook },
+          ...hooks.map((hook) => {
+            const hookPlan = replaceSceneHook(scenePlan, hook);
+            // Only the first scene says the hook, only its clip is re-trimmed
+            const [retrimmedScene] = retrim({ scenes: hookPlan.scenes.slice(0, 1) }).scenes;
+            return {
+              ...rebuild({
+                ...hookPlan,
+                scenes: [...(retrimmedScene ? [retrimmedScene] : []), ...otherScenes],
+              }),
+              label: hook.trim(),
+            };
+          }),
+        ];
+      }
+
+      case "caption_preset":
+        return Promise.all(
+          (batch.captionPresetIds ?? []).map(async (presetId) => {
+            const captionConfig = { ...payload.captionConfig, presetId };
+            const customPreset = await captionPresetService.resolvePreset(
+              this.user.id,
+              presetId
+            );
+            const captionProperties = convertCaptionConfigToProperties(
+              captionConfig,
+              this.logger,
+              undefined,
+              { brandKit, customPreset }
+            );
+            return {
+              template: restyleCaptions(template, captionProperties),
+              scenePlan,
+              payload: { ...payload, captionConfig },
+              label: customPreset?.name ?? presetId,
+            };
+          })
+        );
+
+      case "clip_order":
+        if (batch.count > scenePlan.scenes.length) {
+          throw VideoValidationService.createError(
+            `Cannot make ${batch.count} clip orders of ${scenePlan.scenes.length} scenes`,
+            "INVALID_BATCH_VARIANTS",
+            { count: batch.count, sceneCount: scenePlan.scenes.length },
+            false,
+            `This video has ${scenePlan.scenes.length} scenes: it can be tested in at most ${scenePlan.scenes.length} clip orders.`
+          );
+        }
+        return Array.from({ length: batch.count }, (_, offset) => ({
+          ...(offset === 0 ? planned : rebuild(retrim(rotateSceneClips(scenePlan, offset)))),
+          label: `Clip order ${offset + 1}`,
+        }));
+    }
+  }
+}
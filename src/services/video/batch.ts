@@ -0,0 +1,57 @@
+import { ScenePlan, VideoBatchStatus } from "../../types/video";
+import { splitScriptHook } from "../../utils/script/script-text";
+
+// Statuses a video request ends in, see VideoRequestStatus
+const TERMINAL_STATUSES = ["done", "error", "cancelled"];
+
+/**
+ * Plan whose first scene opens with another hook. The hook is the first
+ * sentence the video says, so only the first scene changes.
+ */
+export function replaceSceneHook(scenePlan: ScenePlan, hook: string): ScenePlan {
+  return {
+    ...scenePlan,
+    scenes: scenePlan.scenes.map((scene, index) => {
+      if (index > 0) {
+        return scene;
+      }
+      const { rest } = splitScriptHook(scene.script_text);
+      return { ...scene, script_text: [hook.trim(), rest].filter(Boolean).join(" ") };
+    }),
+  };
+}
+
+/**
+ * Plan whose scenes play the clips of the scene `offset` positions after
+ * them. Texts stay in order; trims must be computed again for the new texts.
+ */
+export function rotateSceneClips(scenePlan: ScenePlan, offset: number): ScenePlan {
+  const { scenes } = scenePlan;
+  return {
+    ...scenePlan,
+    scenes: scenes.map((scene, index) => {
+      const source = scenes[(index + offset) % scenes.length]!;
+      const { extra_assets, ...sceneFields } = scene;
+      return {
+        ...sceneFields,
+        video_asset: { ...source.video_asset },
+        ...(source.extra_assets && { extra_assets: source.extra_assets }),
+      };
+    }),
+  };
+}
+
+/**
+ * Status of a batch from the render statuses of its variants
+ */
+export function aggregateBatchStatus(statuses: string[]): VideoBatchStatus {
+  if (statuses.some((status) => !TERMINAL_STATUSES.includes(status))) {
+    return statuses.every((status) => status === "queued") ? "queued" : "rendering";
+  }
+
+  const done = statuses.filter((status) => status === "done").length;
+  if (done === statuses.length) {
+    return "done";
+  }
+  return done > 0 ? "partial" : "failed";
+}
@@ -0,0 +1,141 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "../../config/supabase-types";
+import { BrandKit } from "../../types/template";
+import { Logger } from "./watermark-service";
+
+type BrandKitRow = Database["public"]["Tables"]["brand_kits"]["Row"];
+
+/**
+ * Service storing the brand kit of a user: logo, colors, font and handle.
+ *
+ * The kit only provides defaults; explicit caption settings and video style
+ * cards of a generation take precedence over it.
+ */
+export class BrandKitService {
+  private db: SupabaseClient;
+  private log: Logger;
+  private uploadBucket?: string;
+
+  constructor(db?: SupabaseClient, log?: Logger, uploadBucket?: string) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    if (db) {
+      this.db = db;
+    } else {
+      try {
+        const { supabase } = require("../../config/supabase");
+        this.db = supabase;
+      } catch (error) {
+        this.db = {} as SupabaseClient;
+      }
+    }
+
+    if (log) {
+      this.log = log;
+    } else {
+      try {
+        const { logger } = require("../../config/logger");
+        this.log = logger;
+      } catch (error) {
+        this.log = {
+          info: () => {},
+          warn: () => {},
+          error: () => {},
+        };
+      }
+    }
+
+    this.uploadBucket = uploadBucket;
+  }
+
+  /**
+   * Brand kit of a user. Branding is cosmetic: a kit that cannot be read is
+   * treated as no kit.
+   */
+  async getBrandKit(userId: string): Promise<BrandKit | null> {
+    const { data: row, error } = await this.db
+      .from("brand_kits")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      this.log.warn(`⚠️ Failed to load brand kit of user ${userId}:`, error);
+      return null;
+    }
+
+    return row ? BrandKitService.fromRow(row) : null;
+  }
+
+  /**
+   * Creates or replaces the brand kit of a user
+   */
+  async saveBrandKit(userId: string, kit: BrandKit): Promise<BrandKit> {
+    const { data: row, error } = await this.db
+      .from("brand_kits")
+      .upsert(
+        {
+          user_id: userId,
+          logo_url: kit.logoUrl ?? null,
+          primary_color: kit.primaryColor ?? null,
+          secondary_color: kit.secondaryColor ?? null,
+          font_family: kit.fontFamily ?? null,
+          handle: kit.handle ?? null,
+          logo_watermark: kit.logoWatermark ?? false,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id" }
+      )
+      .select("*")
+      .single();
+
+    if (error || !row) {
+      this.log.error(`❌ Failed to save brand kit of user ${userId}:`, error);
+      throw new Error("Failed to save brand kit");
+    }
+
+    this.log.info(`🎨 Saved brand kit of user ${userId}`);
+    return BrandKitService.fromRow(row);
+  }
+
+  /**
+   * Deletes the brand kit of a user
+   *
+   * @returns false when the user had no brand kit
+   */
+  async deleteBrandKit(userId: string): Promise<boolean> {
+    const { data, error } = await this.db
+      .from("brand_kits")
+      .delete()
+      .eq("user_id", userId)
+      .select("id");
+
+    if (error) {
+      this.log.error(`❌ Failed to delete brand kit of user ${userId}:`, error);
+      throw new Error("Failed to delete brand kit");
+    }
+
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Whether a logo was uploaded by the user through /s3-upload
+   */
+  isOwnUpload(url: string, userId: string): boolean {
+    // Bucket of /s3-upload, loaded on first use like the other dependencies
+    const bucket = this.uploadBucket ?? require("../../config/aws").S3_BUCKET_NAME;
+    return url.startsWith(`https://${bucket}.s3.amazonaws.com/videos/${userId}/`);
+  }
+
+  private static fromRow(row: BrandKitRow): BrandKit {
+    return {
+      logoUrl: row.logo_url,
+      primaryColor: row.primary_color,
+      secondaryColor: row.secondary_color,
+      fontFamily: row.font_family,
+      handle: row.handle,
+      logoWatermark: row.logo_watermark,
+    };
+  }
+}
+
+export const brandKitService = new BrandKitService();
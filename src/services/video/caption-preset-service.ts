@@ -0,0 +1,287 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Database } from "../../config/supabase-types";
+import {
+  AspectRatio,
+  CaptionPreset,
+  CaptionPresetSchema,
+  DEFAULT_ASPECT_RATIO,
+  OUTPUT_RESOLUTIONS,
+} from "../../types/template";
+import {
+  getCaptionLayoutProperties,
+  getCaptionPresetProperties,
+  isBuiltInCaptionPreset,
+} from "../../utils/video/preset-converter";
+import { getRenderProvider } from "../render/render-provider";
+import { VideoValidationService } from "./validation";
+import { Logger } from "./watermark-service";
+
+type CaptionPresetRow = Database["public"]["Tables"]["caption_presets"]["Row"];
+type CaptionPresetInput = Omit<CaptionPreset, "id">;
+
+/**
+ * Service managing the caption presets users create next to the built-in
+ * ones. A video refers to a user preset by its ID in captionConfig.presetId.
+ */
+export class CaptionPresetService {
+  private static readonly MAX_PRESETS_PER_USER = 20;
+  private static readonly PREVIEW_TEXT = "Your captions will look like this";
+  private static readonly PREVIEW_DURATION = 2; // seconds
+  private static readonly PREVIEW_FRAME_TIME = 1; // seconds
+  private static readonly PREVIEW_RENDER_SCALE = 0.5;
+  private static readonly PREVIEW_BACKGROUND_COLOR = "#3a3a3a";
+
+  private db: SupabaseClient;
+  private log: Logger;
+
+  constructor(db?: SupabaseClient, log?: Logger) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    if (db) {
+      this.db = db;
+    } else {
+      try {
+        const { supabase } = require("../../config/supabase");
+        this.db = supabase;
+      } catch (error) {
+        this.db = {} as SupabaseClient;
+      }
+    }
+
+    if (log) {
+      this.log = log;
+    } else {
+      try {
+        const { logger } = require("../../config/logger");
+        this.log = logger;
+      } catch (error) {
+        this.log = {
+          info: () => {},
+          warn: () => {},
+          error: () => {},
+        };
+      }
+    }
+  }
+
+  async listPresets(userId: string): Promise<CaptionPreset[]> {
+    const { data: rows, error } = await this.db
+      .from("caption_presets")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      throw CaptionPresetService.databaseError("list", error);
+    }
+
+    return (rows ?? [])
+      .map((row) => this.fromRow(row))
+      .filter((preset): preset is CaptionPreset => preset !== null);
+  }
+
+  /**
+   * @returns null when the user has no preset with this ID
+   */
+  async getPreset(userId: string, presetId: string): Promise<CaptionPreset | null> {
+    const { data: row, error } = await this.db
+      .from("caption_presets")
+      .select("*")
+      .eq("id", presetId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      throw CaptionPresetService.databaseError("get", error);
+    }
+
+    return row ? this.fromRow(row) : null;
+  }
+
+  async createPreset(userId: string, preset: CaptionPresetInput): Promise<CaptionPreset> {
+    const { count, error: countError } = await this.db
+      .from("caption_presets")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    if (countError) {
+      throw CaptionPresetService.databaseError("count", countError);
+    }
+    if ((count ?? 0) >= CaptionPresetService.MAX_PRESETS_PER_USER) {
+      throw VideoValidationService.createError(
+        "Caption preset limit reached",
+        "CAPTION_PRESET_LIMIT_REACHED",
+        { userId, limit: CaptionPresetService.MAX_PRESETS_PER_USER },
+        false,
+        `You can save up to ${CaptionPresetService.MAX_PRESETS_PER_USER} caption presets. Delete one to create another.`
+      );
+    }
+
+    const { data: row, error } = await this.db
+      .from("caption_presets")
+      .insert({ user_id: userId, name: preset.name, style: preset.style })
+      .select("*")
+      .single();
+
+    if (error || !row) {
+      throw CaptionPresetService.databaseError("create", error);
+    }
+
+    this.log.info(`🎨 Created caption preset ${row.id} for user ${userId}`);
+    return this.fromRow(row)!;
+  }
+
+  async updatePreset(
+    userId: string,
+    presetId: string,
+    preset: CaptionPresetInput
+  ): Promise<CaptionPreset> {
+    const { data: row, error } = await this.db
+      .from("caption_presets")
+      .update({ name: preset.name, style: preset.style, updated_at: new Date().toISOString() })
+      .eq("id", presetId)
+      .eq("user_id", userId)
+      .select("*")
+      .maybeSingle();
+
+    if (error) {
+      throw CaptionPresetService.databaseError("update", error);
+    }
+    if (!row) {
+      throw CaptionPresetService.notFoundError(presetId);
+    }
+
+    return this.fromRow(row)!;
+  }
+
+  async deletePreset(userId: string, presetId: string): Promise<void> {
+    const { data, error } = await this.db
+      .from("caption_presets")
+      .delete()
+      .eq("id", presetId)
+      .eq("user_id", userId)
+      .select("id");
+
+    if (error) {
+      throw CaptionPresetService.databaseError("delete", error);
+    }
+    if (!data?.length) {
+      throw CaptionPresetService.notFoundError(presetId);
+    }
+  }
+
+  /**
+   * User preset a caption configuration refers to, null for built-in presets.
+   * A preset that cannot be loaded falls back to the default caption style.
+   */
+  async resolvePreset(userId: string, presetId?: string): Promise<CaptionPreset | null> {
+    if (!presetId || isBuiltInCaptionPreset(presetId)) {
+      return null;
+    }
+
+    try {
+      const preset = await this.getPreset(userId, presetId);
+      if (!preset) {
+        this.log.warn(`⚠️ Caption preset ${presetId} of user ${userId} not found, using defaults`);
+      }
+      return preset;
+    } catch (error) {
+      this.log.warn(`⚠️ Failed to load caption preset ${presetId}, using defaults:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Renders a frame of sample text in a preset style
+   * @returns URL of the image
+   */
+  async renderPreview(
+    preset: CaptionPresetInput,
+    aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
+  ): Promise<string> {
+    return getRenderProvider().renderSnapshot(
+      CaptionPresetService.buildPreviewTemplate(preset, aspectRatio),
+      {
+        time: CaptionPresetService.PREVIEW_FRAME_TIME,
+        scale: CaptionPresetService.PREVIEW_RENDER_SCALE,
+      }
+    );
+  }
+
+  /**
+   * Template of a caption preview: the sample text centered over a plain
+   * background. Transcript effects need a voice-over and are not shown.
+   */
+  static buildPreviewTemplate(preset: CaptionPresetInput, aspectRatio: AspectRatio): object {
+    const { transcript_effect, transcript_color, ...styleProperties } =
+      getCaptionPresetProperties(preset.style);
+
+    return {
+      output_format: "mp4",
+      ...OUTPUT_RESOLUTIONS[aspectRatio],
+      elements: [
+        {
+          name: "Caption-Preview",
+          type: "composition",
+          track: 1,
+          duration: CaptionPresetService.PREVIEW_DURATION,
+          elements: [
+            {
+              type: "shape",
+              track: 1,
+              x: "50%",
+              y: "50%",
+              width: "100%",
+              height: "100%",
+              path: "M 0 0 L 100 0 L 100 100 L 0 100 Z",
+              fill_color: CaptionPresetService.PREVIEW_BACKGROUND_COLOR,
+            },
+            {
+              type: "text",
+              track: 2,
+              text: CaptionPresetService.PREVIEW_TEXT,
+              height: "100%",
+              x_alignment: "50%",
+              fill_color: "#ffffff",
+              ...getCaptionLayoutProperties(aspectRatio, "center"),
+              ...styleProperties,
+            },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * Preset of a row, null when its stored style is no longer valid
+   */
+  private fromRow(row: CaptionPresetRow): CaptionPreset | null {
+    const preset = CaptionPresetSchema.safeParse({ name: row.name, style: row.style });
+    if (!preset.success) {
+      this.log.warn(`⚠️ Ignoring invalid caption preset ${row.id}:`, preset.error.issues);
+      return null;
+    }
+    return { id: row.id, ...preset.data };
+  }
+
+  private static notFoundError(presetId: string) {
+    return VideoValidationService.createError(
+      "Caption preset not found",
+      "CAPTION_PRESET_NOT_FOUND",
+      { presetId },
+      false,
+      "This caption preset no longer exists."
+    );
+  }
+
+  private static databaseError(operation: string, error: any) {
+    return VideoValidationService.createError(
+      `Failed to ${operation} caption preset`,
+      "DATABASE_ERROR",
+      { error: error?.message },
+      true,
+      "Unable to save your caption presets right now. Please try again."
+    );
+  }
+}
+
+export const captionPresetService = new CaptionPresetService();
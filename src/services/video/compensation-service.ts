@@ -0,0 +1,236 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { ResourceType } from "../../types/ressource";
+import { Logger } from "./watermark-service";
+
+/**
+ * A side effect of the generation pipeline that must be undone when the
+ * generation fails
+ */
+export type SideEffect =
+  | {
+      kind: "script_draft_status";
+      scriptDraftId: string;
+      previousStatus: string;
+      newStatus: string;
+    }
+  | { kind: "script_draft_link"; scriptDraftId: string }
+  | { kind: "usage_increment"; resourceType: ResourceType };
+
+export type SideEffectKind = SideEffect["kind"];
+
+export interface CompensationReport {
+  undone: SideEffectKind[];
+  failed: { kind: SideEffectKind; error: string }[];
+}
+
+interface SideEffectRow {
+  id: string;
+  kind: SideEffectKind;
+  payload: any;
+}
+
+const TABLE = "generation_side_effects";
+
+/**
+ * Records the side effects of each generation step and rolls them back when
+ * the generation fails, so failed requests leave no orphaned or double-counted
+ * state behind. Every rollback is audited in `logs`.
+ *
+ * Side effects are pending until the render succeeds, which settles them: a
+ * later failure of the same request (re-render, retry...) only rolls back what
+ * its own attempt did.
+ *
+ * The pipeline uploads nothing of its own: renders stay with the render
+ * provider until archived, and archive copies are kept whatever happens to
+ * the request, so there are no uploads to roll back.
+ */
+export class CompensationService {
+  private db: SupabaseClient;
+  private log: Logger;
+
+  constructor(db?: SupabaseClient, log?: Logger) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    this.db = db ?? require("../../config/supabase").supabase;
+    this.log = log ?? require("../../config/logger").logger;
+  }
+
+  /**
+   * Record a side effect right after the step that caused it succeeded
+   */
+  async record(
+    videoRequestId: string,
+    userId: string,
+    effect: SideEffect
+  ): Promise<void> {
+    const { kind, ...payload } = effect;
+    const { error } = await this.db.from(TABLE).insert({
+      video_request_id: videoRequestId,
+      user_id: userId,
+      kind,
+      payload,
+    });
+
+    if (error) {
+      // The side effect already happened; losing its record only means it
+      // will not be rolled back automatically
+      this.log.error(
+        `❌ Failed to record ${kind} side effect for request ${videoRequestId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Keep the pending side effects of a request for good, once its render
+   * succeeded
+   */
+  async settle(videoRequestId: string): Promise<void> {
+    const { error } = await this.db
+      .from(TABLE)
+      .update({ settled_at: new Date().toISOString() })
+      .eq("video_request_id", videoRequestId)
+      .is("compensated_at", null)
+      .is("settled_at", null);
+
+    if (error) {
+      this.log.error(
+        `❌ Failed to settle side effects for request ${videoRequestId}:`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Undo the pending side effects of a request, most recent first
+   * @param kinds Only undo these kinds of side effects
+   */
+  async compensate(
+    videoRequestId: string,
+    userId: string,
+    reason: string,
+    kinds?: SideEffectKind[]
+  ): Promise<CompensationReport> {
+    const report: CompensationReport = { undone: [], failed: [] };
+
+    let query = this.db
+      .from(TABLE)
+      .select("id, kind, payload")
+      .eq("video_request_id", videoRequestId)
+      .is("compensated_at", null)
+      .is("settled_at", null);
+    if (kinds) {
+      query = query.in("kind", kinds);
+    }
+    const { data: effects, error } = await query.order("created_at", {
+      ascending: false,
+    });
+
+    if (error) {
+      this.log.error(
+        `❌ Failed to load side effects for request ${videoRequestId}:`,
+        error
+      );
+      return report;
+    }
+
+    if (!effects || effects.length === 0) {
+      return report;
+    }
+
+    this.log.info(
+      `🧹 Compensating ${effects.length} side effect(s) for request ${videoRequestId}`
+    );
+
+    for (const effect of effects as SideEffectRow[]) {
+      try {
+        await this.undo(videoRequestId, userId, effect);
+        await this.db
+          .from(TABLE)
+          .update({ compensated_at: new Date().toISOString() })
+          .eq("id", effect.id);
+        report.undone.push(effect.kind);
+      } catch (undoError) {
+        const message =
+          undoError instanceof Error ? undoError.message : String(undoError);
+        this.log.error(
+          `❌ Failed to undo ${effect.kind} for request ${videoRequestId}:`,
+          undoError
+        );
+        report.failed.push({ kind: effect.kind, error: message });
+      }
+    }
+
+    await this.audit(videoRequestId, userId, reason, report);
+    return report;
+  }
+
+  private async undo(
+    videoRequestId: string,
+    userId: string,
+    effect: SideEffectRow
+  ): Promise<void> {
+    const payload = effect.payload ?? {};
+
+    switch (effect.kind) {
+      case "script_draft_status": {
+        // Only restore when nobody changed the status since
+        const { error } = await this.db
+          .from("script_drafts")
+          .update({
+            status: payload.previousStatus,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", payload.scriptDraftId)
+          .eq("status", payload.newStatus);
+        if (error) throw new Error(error.message);
+        return;
+      }
+
+      case "script_draft_link": {
+        const { error } = await this.db
+          .from("video_requests")
+          .update({ script_id: null, updated_at: new Date().toISOString() })
+          .eq("id", videoRequestId)
+          .eq("script_id", payload.scriptDraftId);
+        if (error) throw new Error(error.message);
+        return;
+      }
+
+      case "usage_increment": {
+        const { error } = await this.db.rpc("decrement_user_usage", {
+          p_user_id: userId,
+          p_field_to_decrement: `${payload.resourceType}_used`,
+          p_decrement_amount: 1,
+        });
+        if (error) throw new Error(error.message);
+        return;
+      }
+
+      default:
+        throw new Error(`Unknown side effect kind: ${effect.kind}`);
+    }
+  }
+
+  private async audit(
+    videoRequestId: string,
+    userId: string,
+    reason: string,
+    report: CompensationReport
+  ): Promise<void> {
+    const { error } = await this.db.from("logs").insert({
+      user_id: userId,
+      action: "generation_compensated",
+      metadata: {
+        requestId: videoRequestId,
+        reason,
+        undone: report.undone,
+        failed: report.failed,
+      },
+      created_at: new Date().toISOString(),
+    });
+
+    if (error) {
+      this.log.warn("⚠️ Error logging compensation:", error);
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import winston from "winston";
+import { supabase } from "../../config/supabase";
+import { AspectRatio, DEFAULT_ASPECT_RATIO } from "../../types/template";
+import { User } from "../../types/user";
+import { ScenePlan, VideoDub, VideoRequestStatus } from "../../types/video";
+import { DubbingLanguage } from "./dubbing";
+import { VideoGeneratorService } from "./generator";
+import { findTemplateVoice, isTemplateEditable } from "./scene-editor";
+import { VideoValidationService } from "./validation";
+
+/**
+ * Dubs of rendered videos. Dubs are video requests of their own, translated
+ * and rendered by the generation job (see VideoGeneratorService).
+ */
+export class VideoDubbingService {
+  private user: User;
+  private logger: winston.Logger;
+  private generator: VideoGeneratorService;
+
+  constructor(user: User, logger: winston.Logger) {
+    this.user = user;
+    this.logger = logger;
+    this.generator = new VideoGeneratorService(user, logger);
+  }
+
+  /**
+   * Dubs a rendered video into other languages. Each language gets its own
+   * request, linked to the original, rendering the same clips, trims and
+   * captions with a translated voice-over. Scenes are translated by the
+   * generation job.
+   */
+  async dubVideo(requestId: string, languages: DubbingLanguage[]): Promise<VideoDub[]> {
+    const videoRequest = await this.generator.getOwnedVideoRequest(requestId);
+
+    if (videoRequest.primary_request_id || videoRequest.dubbed_from_request_id) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} is not an original video`,
+        "INVALID_REQUEST_STATE",
+        { requestId },
+        false,
+        "Dub the original video, not one of its formats or dubs."
+      );
+    }
+
+    if (videoRequest.render_status !== VideoRequestStatus.DONE) {
+      throw VideoValidationService.createError(
+        `Cannot dub video request ${requestId} in status ${videoRequest.render_status}`,
+        "INVALID_REQUEST_STATE",
+        { requestId, status: videoRequest.render_status },
+        false,
+        "Videos can be dubbed once they are rendered."
+      );
+    }
+
+    const renderedPlan = videoRequest.scene_plan as unknown as ScenePlan | null;
+    if (
+      !renderedPlan ||
+      !videoRequest.template ||
+      !isTemplateEditable(videoRequest.template, renderedPlan) ||
+      !findTemplateVoice(videoRequest.template)
+    ) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} has no scene plan to dub`,
+        "SCENE_PLAN_UNAVAILABLE",
+        { requestId },
+        false,
+        "This video cannot be dubbed."
+      );
+    }
+
+    const targetLanguages = [...new Set(languages)].filter(
+      (language) => language !== videoRequest.output_language
+    );
+    if (targetLanguages.length === 0) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} is already in ${videoRequest.output_language}`,
+        "INVALID_DUB_LANGUAGE",
+        { requestId, languages },
+        false,
+        "Choose a language other than the language of the video."
+      );
+    }
+
+    const job = await this.generator.findRetryJobPayload(videoRequest);
+    if (!job) {
+      throw VideoValidationService.createError(
+        `No generation job found for video request ${requestId}`,
+        "RETRY_UNAVAILABLE",
+        { requestId, jobId: videoRequest.job_id },
+        false,
+        "This video cannot be dubbed. Please start a new generation."
+      );
+    }
+
+    const aspectRatio = (videoRequest.aspect_ratio as AspectRatio) ?? DEFAULT_ASPECT_RATIO;
+    const { data: dubRequests, error } = await supabase
+      .from("video_requests")
+      .insert(
+        targetLanguages.map((language) => ({
+          user_id: this.user.id,
+          script_id: videoRequest.script_id,
+          render_status: VideoRequestStatus.QUEUED,
+          selected_videos: videoRequest.selected_videos,
+          caption_config: videoRequest.caption_config,
+          output_language: language,
+          aspect_ratio: aspectRatio,
+          dubbed_from_request_id: requestId,
+          created_at: new Date().toISOString(),
+        }))
+      )
+      .select("id, output_language");
+
+    if (error || !dubRequests) {
+      throw VideoValidationService.createError(
+        "Failed to create dub requests",
+        "DATABASE_ERROR",
+        { requestId, languages: targetLanguages, error: error?.message },
+        true,
+        "Unable to dub the video. Please try again."
+      );
+    }
+
+    const dubs: VideoDub[] = [];
+    for (const dubRequest of dubRequests) {
+      const language = dubRequest.output_language as DubbingLanguage;
+      await this.generator.enqueueGenerationJob({
+        requestId: dubRequest.id,
+        userId: this.user.id,
+        flow: "dub",
+        payload: {
+          ...job.payload,
+          outputLanguage: language,
+          aspectRatios: [aspectRatio],
+        },
+        renditions: [],
+      });
+      dubs.push({ requestId: dubRequest.id, language, status: VideoRequestStatus.QUEUED });
+    }
+
+    this.logger.info(
+      `🗣️ Video request ${requestId} queued for dubbing into ${targetLanguages.join(", ")}`
+    );
+    return dubs;
+  }
+}
@@ -0,0 +1,147 @@
+import OpenAI from "openai";
+import { zodTextFormat } from "openai/helpers/zod";
+import { z } from "zod";
+import { createOpenAIClient } from "../../config/openai";
+import { PromptService } from "../promptService";
+import { ScenePlan } from "../../types/video";
+import { ELEVENLABS_MODEL } from "./template-compiler";
+import { SceneVoice } from "./scene-editor";
+
+const DUBBING_PROMPT_ID = "video-dubbing-translator";
+
+// Languages of eleven_multilingual_v2, the model voice-overs are rendered with
+const MULTILINGUAL_LANGUAGES = [
+  "en", "ja", "zh", "de", "hi", "fr", "ko", "pt", "it", "es", "id", "nl", "tr", "fil", "pl",
+  "sv", "bg", "ro", "ar", "cs", "el", "fi", "hr", "ms", "sk", "da", "ta", "uk", "ru",
+] as const;
+
+// eleven_turbo_v2_5 speaks the same languages and these ones
+const TURBO_MODEL = "eleven_turbo_v2_5";
+const TURBO_ONLY_LANGUAGES = ["hu", "no", "vi"] as const;
+
+/**
+ * Languages a video can be dubbed into: the ones ElevenLabs can speak
+ */
+export const DUBBING_LANGUAGES = [...MULTILINGUAL_LANGUAGES, ...TURBO_ONLY_LANGUAGES] as const;
+
+export type DubbingLanguage = (typeof DUBBING_LANGUAGES)[number];
+
+const TranslatedScenesSchema = z.object({
+  scenes: z.array(
+    z.object({
+      scene_number: z.number(),
+      script_text: z.string(),
+    })
+  ),
+});
+
+export type TranslatedScenes = z.infer<typeof TranslatedScenesSchema>;
+
+/**
+ * Voice of the dubbed voice-over. The voice of the video (the user's cloned
+ * voice, usually) is kept; languages the multilingual model does not speak
+ * are rendered with the turbo model, which does.
+ */
+export function resolveDubbingVoice(voice: SceneVoice, language: DubbingLanguage): SceneVoice {
+  const multilingual = (MULTILINGUAL_LANGUAGES as readonly string[]).includes(language);
+  return {
+    voiceId: voice.voiceId,
+    voiceModel: multilingual ? ELEVENLABS_MODEL : TURBO_MODEL,
+  };
+}
+
+/**
+ * Scene plan speaking the translated texts. Clips and trims are kept as they
+ * are, so the dub shows the same footage as the original.
+ */
+export function applySceneTranslations(
+  scenePlan: ScenePlan,
+  translations: TranslatedScenes
+): ScenePlan {
+  const texts = new Map(
+    translations.scenes.map((scene) => [scene.scene_number, scene.script_text.trim()])
+  );
+
+  return {
+    ...scenePlan,
+    scenes: scenePlan.scenes.map((scene) => {
+      const text = texts.get(scene.scene_number);
+      if (!text) {
+        throw new Error(`Scene ${scene.scene_number} was not translated`);
+      }
+      return { ...scene, script_text: text };
+    }),
+  };
+}
+
+function languageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "language" }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+/**
+ * Translates the voice-over of a video, scene by scene
+ */
+export class SceneTranslator {
+  private openai: OpenAI;
+  private model: string;
+  private static instance: SceneTranslator;
+
+  private constructor(model: string) {
+    this.openai = createOpenAIClient();
+    this.model = model;
+  }
+
+  public static getInstance(model: string): SceneTranslator {
+    if (!SceneTranslator.instance) {
+      SceneTranslator.instance = new SceneTranslator(model);
+    }
+    return SceneTranslator.instance;
+  }
+
+  /**
+   * @param sourceLanguage Language of the plan, detected by the model when unknown
+   * @returns the plan speaking the target language
+   */
+  async translateScenePlan(
+    scenePlan: ScenePlan,
+    targetLanguage: DubbingLanguage,
+    sourceLanguage?: string | null
+  ): Promise<ScenePlan> {
+    const promptTemplate = PromptService.fillPromptTemplate(DUBBING_PROMPT_ID, {
+      sourceLanguage: sourceLanguage
+        ? languageName(sourceLanguage)
+        : "unknown, detect it from the scenes",
+      targetLanguage: languageName(targetLanguage),
+      scenes: JSON.stringify(
+        scenePlan.scenes.map(({ scene_number, script_text }) => ({ scene_number, script_text })),
+        null,
+        2
+      ),
+    });
+
+    if (!promptTemplate) {
+      throw new Error(`Prompt ${DUBBING_PROMPT_ID} not found`);
+    }
+
+    const response = await this.openai.responses.parse({
+      model: this.model,
+      input: [
+        { role: "system", content: promptTemplate.system },
+        { role: "user", content: promptTemplate.user },
+      ],
+      text: {
+        format: zodTextFormat(TranslatedScenesSchema, "translated_scenes"),
+      },
+    });
+
+    if (!response.output_parsed) {
+      throw new Error(`Failed to translate the scenes into ${targetLanguage}`);
+    }
+
+    return applySceneTranslations(scenePlan, response.output_parsed);
+  }
+}
@@ -0,0 +1,41 @@
+import { supabase } from "../../config/supabase";
+import { logger } from "../../config/logger";
+import { Job, JobContext } from "../queue/types";
+import { VideoGenerationJobPayload } from "../../types/video";
+import { VideoValidationService } from "./validation";
+import { VideoGeneratorService } from "./generator";
+
+/**
+ * Queue handler for `VideoGeneratorService.JOB_TYPE` jobs.
+ * Serves the prompt flow, the from-script flow and dubs.
+ */
+export async function handleVideoGenerationJob(
+  job: Job<VideoGenerationJobPayload>,
+  context: JobContext
+): Promise<void> {
+  const { requestId, userId } = job.payload;
+  const jobLogger = logger.child({
+    module: "videoGenerationJob",
+    jobId: job.id,
+    requestId,
+    userId,
+  });
+
+  const { data: user, error } = await supabase
+    .from("users")
+    .select("*")
+    .eq("id", userId)
+    .single();
+
+  if (error || !user) {
+    throw VideoValidationService.createError(
+      `User ${userId} not found for job ${job.id}`,
+      "USER_NOT_FOUND",
+      { userId, jobId: job.id },
+      false
+    );
+  }
+
+  const videoGenerator = new VideoGeneratorService(user, jobLogger);
+  await videoGenerator.runGenerationJob(job.payload, context);
+}
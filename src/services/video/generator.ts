@@ -3,7 +3,6 @@ import { ScriptGenerator } from "../scriptGenerator";
 import { ScriptReviewer } from "../scriptReviewer";
 import { CreatomateBuilder } from "../creatomateBuilder";
 import { MODELS } from "../../config/openai";
-import { PromptService } from "../promptService";
 import {
   EditorialProfile,
   VideoGenerationPayload,
@@ -14,31 +13,96 @@ import {
   ValidatedVideo,
   CaptionConfiguration,
   VideoType,
+  VideoRendition,
+  VideoPreviewResult,
+  VideoPreviewSnapshot,
+  ScenePlan,
+  ScenePlanVideoAsset,
+  VideoSceneEditRequest,
+  VideoScenesResult,
+  VideoBatchVariant,
 } from "../../types/video";
+import { AspectRatio, DEFAULT_ASPECT_RATIO } from "../../types/template";
+import { adaptTemplateToAspectRatio } from "./aspect-ratio";
 import { VideoUrlRepairer } from "./videoUrlRepairer";
 import { videoTemplateService } from "./template-service";
 import { convertCaptionConfigToProperties } from "../../utils/video/preset-converter";
 import winston from "winston";
-import { Database } from "../../config/supabase-types";
-import { VideoRequestStatus } from "../../types/video";
+import { Database, Json } from "../../config/supabase-types";
+import { VideoRequestStatus, VideoGenerationJobPayload } from "../../types/video";
 import { logger } from "../../config/logger";
 import { User } from "../../types/user";
+import { getJobStore } from "../queue/job-queue";
+import { Job, JobContext } from "../queue/types";
+import { getRenderProvider } from "../render/render-provider";
+import { parseSeconds } from "../render/local-render-plan";
+import { CompensationService } from "./compensation-service";
+import {
+  applySceneEdit,
+  findEditedScenes,
+  findTemplateVoice,
+  isTemplateEditable,
+  rebuildEditedTemplate,
+} from "./scene-editor";
+import { matchScenePlanSegments } from "./segment-matcher";
+import { VideoStyleService } from "./video-style-service";
+import { brandKitService } from "./brand-kit-service";
+import { captionPresetService } from "./caption-preset-service";
+import { SubtitleTrack, buildSubtitleTrack } from "./subtitles";
+import { DubbingLanguage, SceneTranslator, resolveDubbingVoice } from "./dubbing";
+import { VIDEO_DURATION_FACTOR } from "../../config/video-constants";
+import {
+  VideoProgressDetails,
+  VideoProgressStep,
+  getVideoProgressService,
+} from "./progress";
+
+/**
+ * Script rendered by a generation job, whichever flow produced it
+ */
+interface GenerationScript {
+  scriptId: string;
+  scriptText: string;
+  trainingPrompt: string;
+  renderPrompt: string;
+}
+
+/**
+ * Variant of a batch a video request is created for, with the template it renders
+ */
+type BatchVariantRequest = Pick<VideoBatchVariant, "index" | "label"> & {
+  payload: VideoGenerationPayload;
+  stored: { template: any; scenePlan: ScenePlan };
+};
+
 /**
  * Enhanced video generation service with async background processing
  *
  * Key difference from original: Instead of waiting for the entire process,
- * we return immediately after creating the video request, then process in background
+ * we create the video request, enqueue a durable generation job and return
+ * immediately. A JobWorker then runs the job (see generation-job.ts), so a
+ * deploy or crash mid-generation resumes the work instead of stranding it.
  */
 export class VideoGeneratorService {
+  // Queue job type serving both the prompt flow and the from-script flow
+  static readonly JOB_TYPE = "video.generate";
+  static readonly CANCELLED_ERROR_CODE = "GENERATION_CANCELLED";
+  private static readonly JOB_MAX_ATTEMPTS = 3;
+
+  // Preview frames: one second into each scene, at a quarter of the resolution
+  private static readonly PREVIEW_FRAME_TIME = 1;
+  private static readonly PREVIEW_RENDER_SCALE = 0.25;
+
   private user: User;
   private scriptGenerator: ScriptGenerator;
   private scriptReviewer: ScriptReviewer;
   private creatomateBuilder: CreatomateBuilder; // Keep for backward compatibility
+  private compensation: CompensationService;
   private logger: winston.Logger;
 
   // Timeout configurations
   private static readonly SCRIPT_GENERATION_TIMEOUT = 180000; // 3 minutes
-  private static readonly CREATOMATE_API_TIMEOUT = 280000; // 4 minutes
+  private static readonly RENDER_START_TIMEOUT = 280000; // 4 minutes
   private static readonly DATABASE_OPERATION_TIMEOUT = 180000; // 3 minutes
 
   /**
@@ -51,6 +115,7 @@ export class VideoGeneratorService {
     this.scriptReviewer = ScriptReviewer.getInstance(MODELS["o4-mini"]);
     this.creatomateBuilder = CreatomateBuilder.getInstance(MODELS["4.1"]);
     this.logger = logger;
+    this.compensation = new CompensationService(undefined, logger);
   }
 
   /**
@@ -59,12 +124,14 @@ export class VideoGeneratorService {
    *
    * @param scriptDraft The existing script draft
    * @param payload The video generation payload
+   * @param stored Template to render as is, skipping planning (previews)
    * @returns The result with request ID for immediate response
    */
   async generateVideoFromScript(
     scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"],
     payload: VideoGenerationPayload,
-    logger: winston.Logger
+    logger: winston.Logger,
+    stored?: { template: any; scenePlan: ScenePlan }
   ): Promise<VideoGenerationResult> {
     const startTime = Date.now();
 
@@ -75,7 +142,7 @@ export class VideoGeneratorService {
 
       // Step 1: Create video request record FIRST (this is what we return immediately)
       const videoRequest = await this.withTimeout(
-        this.createVideoRequestFromScript(scriptDraft, payload),
+        this.createVideoRequestFromScript(scriptDraft, payload, stored),
         VideoGeneratorService.DATABASE_OPERATION_TIMEOUT,
         "Database operation timed out"
       );
@@ -85,18 +152,24 @@ export class VideoGeneratorService {
       );
 
       // Step 2: Script already linked in createVideoRequestFromScript - no need for additional update
+      await this.compensation.record(videoRequest.id, this.user.id, {
+        kind: "script_draft_link",
+        scriptDraftId: scriptDraft.id,
+      });
 
-      // Step 3: Start background processing (fire and forget) - same as original
-      this.processVideoFromScriptInBackground(
+      const renditions = await this.createRenditionRequests(
         videoRequest.id,
+        payload
+      );
+
+      // Step 3: Enqueue background processing
+      await this.enqueueGenerationJob({
+        requestId: videoRequest.id,
+        userId: this.user.id,
+        flow: "script",
         payload,
-        scriptDraft,
-        logger
-      ).catch((error: any) => {
-        logger.error(
-          `❌ Background processing failed for request ${videoRequest.id}:`,
-          error
-        );
+        scriptDraftId: scriptDraft.id,
+        renditions,
       });
 
       const duration = Date.now() - startTime;
@@ -109,6 +182,7 @@ export class VideoGeneratorService {
         scriptId: "", // Keep consistent with original (frontend doesn't use it anyway)
         status: VideoRequestStatus.QUEUED,
         estimatedCompletionTime: new Date(Date.now() + 300000), // 5 minutes estimate
+        renditions,
       };
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -134,9 +208,104 @@ export class VideoGeneratorService {
     }
   }
 
+  /**
+   * Generates the variants of a batch. Their video requests are created in a
+   * single insert, then queued one by one: when a variant cannot be queued,
+   * it and the variants after it are failed and rolled back, so no request
+   * of the batch is left queued without a job.
+   *
+   * @param batchId The batch the variants are grouped under
+   * @param variants The planned variants, in order
+   * @returns The queued variants
+   */
+  async generateBatchVariants(
+    scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"],
+    batchId: string,
+    variants: BatchVariantRequest[],
+    logger: winston.Logger
+  ): Promise<VideoBatchVariant[]> {
+    const { data, error } = await supabase
+      .from("video_requests")
+      .insert(
+        variants.map((variant) => ({
+          ...this.buildScriptVideoRequest(scriptDraft, variant.payload, variant.stored),
+          batch_id: batchId,
+          batch_variant_index: variant.index,
+          batch_variant_label: variant.label,
+        }))
+      )
+      .select("id, batch_variant_index");
+
+    if (error || !data) {
+      throw VideoValidationService.createError(
+        "Failed to create the variants of the batch",
+        "DATABASE_ERROR",
+        { batchId, error: error?.message },
+        true,
+        "Unable to queue the variants. Please try again."
+      );
+    }
+
+    const requests = variants.map((variant) => ({
+      variant,
+      requestId: data.find(
+        (row: { batch_variant_index: number | null }) =>
+          row.batch_variant_index === variant.index
+      )!.id as string,
+    }));
+    for (const { requestId } of requests) {
+      await this.compensation.record(requestId, this.user.id, {
+        kind: "script_draft_link",
+        scriptDraftId: scriptDraft.id,
+      });
+    }
+
+    const queued: VideoBatchVariant[] = [];
+    for (const [position, { variant, requestId }] of requests.entries()) {
+      try {
+        // Both roll the variant back themselves when they fail
+        const renditions = await this.createRenditionRequests(requestId, variant.payload);
+        await this.enqueueGenerationJob({
+          requestId,
+          userId: this.user.id,
+          flow: "script",
+          payload: variant.payload,
+          scriptDraftId: scriptDraft.id,
+          renditions,
+        });
+        queued.push({
+          requestId,
+          index: variant.index,
+          label: variant.label,
+          status: VideoRequestStatus.QUEUED,
+          renditions,
+        });
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : "Failed to queue the variant";
+        logger.error(`❌ Variant ${variant.index} of batch ${batchId} could not be queued:`, error);
+
+        await this.failUnqueuedRequests(
+          requests.slice(position + 1).map((request) => request.requestId),
+          `Variant ${variant.index} of the batch could not be queued`
+        );
+
+        throw VideoValidationService.createError(
+          errorMessage,
+          "VIDEO_GENERATION_FAILED",
+          { batchId, variantIndex: variant.index, queuedVariants: queued.length },
+          true,
+          "Video generation failed. Please try again."
+        );
+      }
+    }
+
+    return queued;
+  }
+
   /**
    * MAIN DIFFERENCE: This now creates the video request and returns immediately,
-   * then starts background processing
+   * leaving script generation and rendering to the queued generation job
    *
    * @param payload The video generation payload
    * @returns The result with request ID for immediate response
@@ -147,14 +316,6 @@ export class VideoGeneratorService {
     const startTime = Date.now();
 
     try {
-      const {
-        prompt,
-        systemPrompt,
-
-        outputLanguage,
-        editorialProfile,
-      } = payload;
-
       this.logger.info(`🎬 Starting video generation for user ${this.user.id}`);
 
       // Step 1: Create video request record FIRST (this is what we return immediately)
@@ -168,32 +329,18 @@ export class VideoGeneratorService {
         `✅ Video request created: ${videoRequest.id} - returning to frontend`
       );
 
-      // Step 2: Generate and review script with timeout
-      const { scriptId: generatedScriptId, reviewedScript } =
-        await this.withTimeout(
-          this.generateAndSaveScript(
-            prompt,
-            systemPrompt,
-            editorialProfile,
-            outputLanguage,
-            videoRequest.id
-          ),
-          VideoGeneratorService.SCRIPT_GENERATION_TIMEOUT,
-          "Script generation timed out"
-        );
-      const scriptId = generatedScriptId;
-
-      // Step 3: Start background processing (fire and forget)
-      this.processVideoInBackground(
+      const renditions = await this.createRenditionRequests(
         videoRequest.id,
+        payload
+      );
+
+      // Step 2: Enqueue background processing (script generation included)
+      await this.enqueueGenerationJob({
+        requestId: videoRequest.id,
+        userId: this.user.id,
+        flow: "prompt",
         payload,
-        editorialProfile,
-        { scriptId, reviewedScript: prompt }
-      ).catch((error) => {
-        this.logger.error(
-          `❌ Background processing failed for request ${videoRequest.id}:`,
-          error
-        );
+        renditions,
       });
 
       // Step 3: Return immediately with request info
@@ -205,6 +352,7 @@ export class VideoGeneratorService {
         scriptId: "", // Will be populated during background processing
         status: VideoRequestStatus.QUEUED,
         estimatedCompletionTime: new Date(Date.now() + 300000), // 5 minutes estimate
+        renditions,
       };
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -235,230 +383,1464 @@ export class VideoGeneratorService {
   }
 
   /**
-   * Background processing method for existing script - this is where the heavy lifting happens
-   * This runs after we've already returned the response to the frontend
-   * Skips script generation since we already have the script
+   * Plans and builds the template of a script draft with the user's videos,
+   * brand kit and caption preset, without creating a video request
    */
-  private async processVideoFromScriptInBackground(
-    requestId: string,
+  async planTemplate(
+    scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"],
     payload: VideoGenerationPayload,
+    templateMode: VideoGenerationPayload["templateMode"]
+  ): Promise<{
+    template: any;
+    scenePlan: ScenePlan;
+    validatedVideos: ValidatedVideo[];
+    brandKit: Awaited<ReturnType<typeof brandKitService.getBrandKit>>;
+  }> {
+    const validatedVideos = await this.withTimeout(
+      this.fetchAndValidateVideos(payload.selectedVideos),
+      VideoGeneratorService.DATABASE_OPERATION_TIMEOUT,
+      "Video validation timed out"
+    );
+
+    const brandKit = await brandKitService.getBrandKit(this.user.id);
+    const customPreset = await captionPresetService.resolvePreset(
+      this.user.id,
+      payload.captionConfig?.presetId
+    );
+    const { scenePlan, template } = await this.withTimeout(
+      videoTemplateService.generateTemplateWithPlan({
+        scriptText: scriptDraft.current_script,
+        selectedVideos: validatedVideos,
+        voiceId: payload.voiceId,
+        editorialProfile: payload.editorialProfile,
+        captionConfig: payload.captionConfig,
+        outputLanguage: payload.outputLanguage,
+        captionStructure: convertCaptionConfigToProperties(
+          payload.captionConfig,
+          this.logger,
+          undefined,
+          { brandKit, customPreset }
+        ),
+        userId: this.user.id,
+        templateMode,
+        music: payload.music,
+        brandKit,
+      }),
+      VideoGeneratorService.SCRIPT_GENERATION_TIMEOUT,
+      "Template generation timed out"
+    );
+
+    return { template, scenePlan, validatedVideos, brandKit };
+  }
+
+  /**
+   * Plans and builds the template of a script draft and renders one low
+   * resolution frame per scene, without creating a video request or counting
+   * usage. The preview is stored so generateVideoFromPreview() renders
+   * exactly this template.
+   */
+  async previewVideoFromScript(
     scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"],
-    logger: winston.Logger
-  ): Promise<void> {
+    payload: VideoGenerationPayload
+  ): Promise<VideoPreviewResult> {
     const startTime = Date.now();
+    this.logger.info(`🔎 Previewing script ${scriptDraft.id} for user ${this.user.id}`);
+
+    const { scenePlan, template } = await this.planTemplate(
+      scriptDraft,
+      payload,
+      payload.templateMode
+    );
+
+    const renderedTemplate = adaptTemplateToAspectRatio(
+      template,
+      payload.aspectRatios?.[0] ?? DEFAULT_ASPECT_RATIO
+    );
+    const snapshots = await this.renderSceneSnapshots(renderedTemplate);
+
+    const { data: preview, error } = await supabase
+      .from("video_previews")
+      .insert({
+        user_id: this.user.id,
+        script_id: scriptDraft.id,
+        payload: payload as unknown as Json,
+        scene_plan: scenePlan as unknown as Json,
+        template,
+        snapshots: snapshots as unknown as Json,
+      })
+      .select("id")
+      .single();
+
+    if (error || !preview) {
+      throw VideoValidationService.createError(
+        "Failed to store video preview",
+        "DATABASE_ERROR",
+        { error: error?.message },
+        true,
+        "Unable to save the preview. Please try again."
+      );
+    }
+
+    this.logger.info(
+      `✅ Preview ${preview.id} ready in ${Date.now() - startTime}ms (${snapshots.length} scenes)`
+    );
+
+    return {
+      previewId: preview.id,
+      scenePlan,
+      template: renderedTemplate,
+      snapshots,
+    };
+  }
+
+  /**
+   * Starts the full generation of a stored preview. The job renders the
+   * preview template as is; a preview can only be rendered once.
+   */
+  async generateVideoFromPreview(
+    previewId: string
+  ): Promise<VideoGenerationResult> {
+    const { data: preview } = await supabase
+      .from("video_previews")
+      .select("*")
+      .eq("id", previewId)
+      .eq("user_id", this.user.id)
+      .single();
+
+    if (!preview) {
+      throw VideoValidationService.createError(
+        `Video preview ${previewId} not found`,
+        "VIDEO_PREVIEW_NOT_FOUND",
+        { previewId },
+        false,
+        "Preview not found."
+      );
+    }
+
+    // Claiming the preview first keeps concurrent calls from rendering it twice
+    const { data: claimed } = await supabase
+      .from("video_previews")
+      .update({ rendered_at: new Date().toISOString() })
+      .eq("id", previewId)
+      .is("rendered_at", null)
+      .select("id");
+
+    if (!claimed || claimed.length === 0) {
+      throw VideoValidationService.createError(
+        `Video preview ${previewId} was already rendered`,
+        "INVALID_REQUEST_STATE",
+        { previewId, videoRequestId: preview.video_request_id },
+        false,
+        "This preview was already rendered."
+      );
+    }
 
+    const releaseClaim = async () => {
+      const { error } = await supabase
+        .from("video_previews")
+        .update({ rendered_at: null })
+        .eq("id", previewId);
+      if (error) {
+        this.logger.warn(`⚠️ Failed to release preview ${previewId}:`, error);
+      }
+    };
+
+    const { data: scriptDraft } = await supabase
+      .from("script_drafts")
+      .select("*")
+      .eq("id", preview.script_id)
+      .eq("user_id", this.user.id)
+      .single();
+
+    if (!scriptDraft) {
+      await releaseClaim();
+      throw VideoValidationService.createError(
+        `Script draft ${preview.script_id} not found`,
+        "SCRIPT_NOT_FOUND",
+        { previewId, scriptId: preview.script_id },
+        false,
+        "The script of this preview no longer exists."
+      );
+    }
+
+    let result: VideoGenerationResult;
     try {
-      logger.info(
-        `🔄 Starting background processing from script for request ${requestId}`
+      result = await this.generateVideoFromScript(
+        scriptDraft,
+        preview.payload as unknown as VideoGenerationPayload,
+        this.logger,
+        {
+          template: preview.template,
+          scenePlan: preview.scene_plan as unknown as ScenePlan,
+        }
       );
+    } catch (error) {
+      await releaseClaim();
+      throw error;
+    }
 
-      // Update status to processing
-      await this.updateVideoRequestStatus(
-        requestId,
-        VideoRequestStatus.RENDERING
+    const { error: linkError } = await supabase
+      .from("video_previews")
+      .update({ video_request_id: result.requestId })
+      .eq("id", previewId);
+
+    if (linkError) {
+      this.logger.warn(
+        `⚠️ Failed to link preview ${previewId} to request ${result.requestId}:`,
+        linkError
       );
+    }
 
-      const {
-        selectedVideos,
-        voiceId,
-        captionConfig,
-        outputLanguage,
-        editorialProfile,
-      } = payload;
+    return result;
+  }
 
-      // Step 1: Fetch and validate videos (same as original)
-      const videosObj = await this.withTimeout(
-        this.fetchAndValidateVideos(selectedVideos),
-        VideoGeneratorService.DATABASE_OPERATION_TIMEOUT,
-        "Video validation timed out"
+  /**
+   * Runs a queued generation job for either flow.
+   * Called by the JobWorker; throwing lets the queue retry the attempt.
+   */
+  async runGenerationJob(
+    job: VideoGenerationJobPayload,
+    context: JobContext
+  ): Promise<void> {
+    const script = await this.resolveGenerationScript(job, context);
+    await this.processVideoInBackground(job, script, context);
+  }
+
+  /**
+   * Cancels a queued or rendering request: the generation job is stopped, the
+   * provider render is cancelled when the provider supports it, and the
+   * request is marked as cancelled.
+   */
+  async cancelVideoRequest(
+    requestId: string
+  ): Promise<{ requestId: string; status: VideoRequestStatus }> {
+    const videoRequest = await this.getOwnedVideoRequest(requestId);
+
+    if (
+      videoRequest.render_status !== VideoRequestStatus.QUEUED &&
+      videoRequest.render_status !== VideoRequestStatus.RENDERING
+    ) {
+      throw VideoValidationService.createError(
+        `Cannot cancel video request ${requestId} in status ${videoRequest.render_status}`,
+        "INVALID_REQUEST_STATE",
+        { requestId, status: videoRequest.render_status },
+        false,
+        "Only queued or rendering videos can be cancelled."
+      );
+    }
+
+    if (videoRequest.job_id) {
+      await getJobStore().cancel(videoRequest.job_id);
+    }
+
+    if (videoRequest.render_id) {
+      const renderProvider = getRenderProvider();
+      const stopped = await renderProvider
+        .cancel(videoRequest.render_id)
+        .catch((error) => {
+          this.logger.warn(
+            `⚠️ Failed to cancel ${renderProvider.name} render ${videoRequest.render_id}:`,
+            error
+          );
+          return false;
+        });
+
+      if (!stopped) {
+        this.logger.info(
+          `ℹ️ ${renderProvider.name} render ${videoRequest.render_id} keeps running, its result will be ignored`
+        );
+      }
+    }
+
+    const { error } = await supabase
+      .from("video_requests")
+      .update({
+        render_status: VideoRequestStatus.CANCELLED,
+        cancelled_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", requestId);
+
+    if (error) {
+      throw VideoValidationService.createError(
+        "Failed to cancel video request",
+        "DATABASE_ERROR",
+        { requestId, error: error.message },
+        true,
+        "Unable to cancel the video. Please try again."
       );
+    }
 
-      const captionStructure = convertCaptionConfigToProperties(captionConfig, logger);
+    await this.cleanupOnFailure(requestId, "Cancelled by user");
+    await this.reportProgress(requestId, "cancelled");
 
-      // Step 3: Generate template using NEW VideoTemplateService.generateTemplate
-      const template = await this.withTimeout(
-        videoTemplateService.generateTemplate({
-          scriptText: scriptDraft.current_script,
-          selectedVideos: videosObj,
-          voiceId,
+    // Renditions still waiting for the cancelled job are cancelled with it
+    const { data: cancelledRenditions } = await supabase
+      .from("video_requests")
+      .update({
+        render_status: VideoRequestStatus.CANCELLED,
+        cancelled_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("primary_request_id", requestId)
+      .eq("render_status", VideoRequestStatus.QUEUED)
+      .select("id");
+
+    for (const rendition of cancelledRenditions ?? []) {
+      await this.reportProgress(rendition.id, "cancelled");
+    }
+
+    this.logger.info(`🛑 Video request ${requestId} cancelled`);
+    return { requestId, status: VideoRequestStatus.CANCELLED };
+  }
+
+  /**
+   * Re-runs a failed or cancelled request from its last successful step.
+   * The original job payload is reused; a stored script or template is picked
+   * up by the pipeline, so a failed render only re-renders.
+   */
+  async retryVideoRequest(
+    requestId: string
+  ): Promise<{ requestId: string; status: VideoRequestStatus }> {
+    const videoRequest = await this.getOwnedVideoRequest(requestId);
+
+    if (
+      videoRequest.render_status !== VideoRequestStatus.ERROR &&
+      videoRequest.render_status !== VideoRequestStatus.CANCELLED
+    ) {
+      throw VideoValidationService.createError(
+        `Cannot retry video request ${requestId} in status ${videoRequest.render_status}`,
+        "INVALID_REQUEST_STATE",
+        { requestId, status: videoRequest.render_status },
+        false,
+        "Only failed or cancelled videos can be retried."
+      );
+    }
+
+    if (videoRequest.error_retryable === false) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} failed with a non-retryable error`,
+        "NOT_RETRYABLE",
+        { requestId, errorMessage: videoRequest.error_message },
+        false,
+        "This video cannot be retried. Please start a new generation."
+      );
+    }
+
+    const retryJob = await this.findRetryJobPayload(videoRequest);
+
+    if (!retryJob) {
+      throw VideoValidationService.createError(
+        `No generation job found for video request ${requestId}`,
+        "RETRY_UNAVAILABLE",
+        { requestId, jobId: videoRequest.job_id },
+        false,
+        "This video cannot be retried. Please start a new generation."
+      );
+    }
+
+    const { error } = await supabase
+      .from("video_requests")
+      .update({
+        render_status: VideoRequestStatus.QUEUED,
+        render_id: null,
+        superseded_render_ids: this.supersedeRender(videoRequest),
+        error_message: null,
+        error_retryable: null,
+        cancelled_at: null,
+        processing_started_at: null,
+        completed_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", requestId);
+
+    if (error) {
+      throw VideoValidationService.createError(
+        "Failed to reset video request for retry",
+        "DATABASE_ERROR",
+        { requestId, error: error.message },
+        true,
+        "Unable to retry the video. Please try again."
+      );
+    }
+
+    // Renditions that failed or were cancelled along with this request are
+    // rendered again by the retried job
+    if (retryJob.renditions?.length) {
+      await supabase
+        .from("video_requests")
+        .update({
+          render_status: VideoRequestStatus.QUEUED,
+          error_message: null,
+          error_retryable: null,
+          cancelled_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("primary_request_id", requestId)
+        .is("render_id", null)
+        .in("render_status", [
+          VideoRequestStatus.ERROR,
+          VideoRequestStatus.CANCELLED,
+        ]);
+    }
+
+    await this.enqueueGenerationJob(retryJob);
+
+    this.logger.info(
+      `🔁 Video request ${requestId} re-queued${
+        videoRequest.template ? " (stored template will be re-rendered)" : ""
+      }`
+    );
+    return { requestId, status: VideoRequestStatus.QUEUED };
+  }
+
+  /**
+   * Scenes of a generated video, with the edits not rendered yet
+   */
+  async getVideoScenes(requestId: string): Promise<VideoScenesResult> {
+    const { renderedPlan, scenePlan } = await this.getEditableScenePlan(requestId);
+    return this.describeScenes(requestId, renderedPlan, scenePlan);
+  }
+
+  /**
+   * Subtitle cues of a rendered video. Renditions share the timeline of
+   * their main request, fitted to their own rendered duration.
+   */
+  async getVideoSubtitles(requestId: string): Promise<SubtitleTrack> {
+    const videoRequest = await this.getOwnedVideoRequest(requestId);
+
+    if (videoRequest.render_status !== VideoRequestStatus.DONE) {
+      throw VideoValidationService.createError(
+        `Cannot export subtitles of video request ${requestId} in status ${videoRequest.render_status}`,
+        "INVALID_REQUEST_STATE",
+        { requestId, status: videoRequest.render_status },
+        false,
+        "Subtitles are available once the video is rendered."
+      );
+    }
+
+    const source = videoRequest.primary_request_id
+      ? await this.getOwnedVideoRequest(videoRequest.primary_request_id)
+      : videoRequest;
+    if (!source.template) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} has no stored template`,
+        "SCENE_PLAN_UNAVAILABLE",
+        { requestId },
+        false,
+        "Subtitles are not available for this video."
+      );
+    }
+
+    return buildSubtitleTrack(
+      source.template,
+      source.scene_plan as unknown as ScenePlan | null,
+      videoRequest.render_duration
+    );
+  }
+
+  /**
+   * Edits one scene of a generated video (1-based sceneNumber). Edits are
+   * saved apart from the rendered plan until rerenderVideoScenes() is called.
+   */
+  async editVideoScene(
+    requestId: string,
+    sceneNumber: number,
+    edit: VideoSceneEditRequest
+  ): Promise<VideoScenesResult> {
+    const { videoRequest, renderedPlan, scenePlan } =
+      await this.getEditableScenePlan(requestId);
+
+    if (
+      videoRequest.render_status === VideoRequestStatus.QUEUED ||
+      videoRequest.render_status === VideoRequestStatus.RENDERING
+    ) {
+      throw VideoValidationService.createError(
+        `Cannot edit video request ${requestId} in status ${videoRequest.render_status}`,
+        "INVALID_REQUEST_STATE",
+        { requestId, status: videoRequest.render_status },
+        false,
+        "Scenes can be edited once the video is rendered."
+      );
+    }
+
+    const scene = scenePlan.scenes[sceneNumber - 1];
+    if (!scene) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} has no scene ${sceneNumber}`,
+        "SCENE_NOT_FOUND",
+        { requestId, sceneNumber },
+        false,
+        "Scene not found."
+      );
+    }
+
+    if (edit.position !== undefined && edit.position > scenePlan.scenes.length) {
+      throw VideoValidationService.createError(
+        `Scene position ${edit.position} is out of range`,
+        "INVALID_SCENE_POSITION",
+        { requestId, position: edit.position, sceneCount: scenePlan.scenes.length },
+        false,
+        `Position must be between 1 and ${scenePlan.scenes.length}.`
+      );
+    }
+
+    // The request's videos are the ones clips can be chained from when re-trimming
+    const videoIds = [
+      ...new Set([
+        ...(videoRequest.selected_videos ?? []),
+        scene.video_asset.id,
+        ...(edit.videoId ? [edit.videoId] : []),
+      ]),
+    ];
+    const { data: videos } = await supabase
+      .from("videos")
+      .select("id, title, upload_url, duration_seconds, analysis_data")
+      .in("id", videoIds)
+      .eq("user_id", this.user.id);
+
+    let videoAsset: ScenePlanVideoAsset | undefined;
+    if (edit.videoId) {
+      const video = videos?.find((candidate) => candidate.id === edit.videoId);
+      if (!video?.upload_url) {
+        throw VideoValidationService.createError(
+          `Video ${edit.videoId} not found`,
+          "VIDEO_NOT_FOUND",
+          { requestId, videoId: edit.videoId },
+          false,
+          "The selected video was not found."
+        );
+      }
+      videoAsset = { id: video.id, url: video.upload_url, title: video.title ?? "" };
+    }
+
+    const trimmed = edit.trimStart !== undefined || edit.trimDuration !== undefined;
+    if (trimmed) {
+      const duration = videos?.find(
+        (candidate) => candidate.id === (edit.videoId ?? scene.video_asset.id)
+      )?.duration_seconds;
+      // Trims the edit leaves out keep their stored value, unless the video changes
+      const storedAsset = edit.videoId ? undefined : scene.video_asset;
+      const trimStart =
+        edit.trimStart === undefined
+          ? parseSeconds(storedAsset?.trim_start) ?? 0
+          : edit.trimStart ?? 0;
+      const trimDuration =
+        edit.trimDuration === undefined
+          ? parseSeconds(storedAsset?.trim_duration) ?? 0
+          : edit.trimDuration ?? 0;
+      const trimEnd = trimStart + trimDuration;
+
+      if (typeof duration === "number" && duration > 0 && trimStart >= duration) {
+        throw VideoValidationService.createError(
+          `Trim start ${trimStart}s is beyond the ${duration}s video`,
+          "INVALID_TRIM",
+          { requestId, sceneNumber, duration },
+          false,
+          `The trim must start before the end of the video (${duration}s).`
+        );
+      }
+      if (typeof duration === "number" && duration > 0 && trimEnd > duration) {
+        throw VideoValidationService.createError(
+          `Trim ending at ${trimEnd}s is beyond the ${duration}s video`,
+          "INVALID_TRIM",
+          { requestId, sceneNumber, duration },
+          false,
+          `The trim must end before the end of the video (${duration}s).`
+        );
+      }
+    }
+
+    let editedPlan = applySceneEdit(scenePlan, sceneNumber, {
+      scriptText: edit.scriptText,
+      videoAsset,
+      trimStart: edit.trimStart,
+      trimDuration: edit.trimDuration,
+    });
+
+    // A new video or text needs new trims, unless the user chose them
+    if (!trimmed && (edit.videoId || edit.scriptText !== undefined)) {
+      const [retrimmed] = matchScenePlanSegments(
+        { scenes: [editedPlan.scenes[sceneNumber - 1]!] },
+        videos ?? [],
+        { secondsPerWord: VIDEO_DURATION_FACTOR }
+      ).scenes;
+      editedPlan = {
+        ...editedPlan,
+        scenes: editedPlan.scenes.map((planned, index) =>
+          index === sceneNumber - 1 && retrimmed ? retrimmed : planned
+        ),
+      };
+    }
+
+    if (edit.position !== undefined) {
+      editedPlan = applySceneEdit(editedPlan, sceneNumber, { position: edit.position });
+    }
+
+    const { error } = await supabase
+      .from("video_requests")
+      .update({
+        edited_scene_plan: editedPlan as unknown as Json,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", requestId);
+
+    if (error) {
+      throw VideoValidationService.createError(
+        "Failed to save scene edit",
+        "DATABASE_ERROR",
+        { requestId, error: error.message },
+        true,
+        "Unable to save the scene. Please try again."
+      );
+    }
+
+    this.logger.info(`✏️ Scene ${sceneNumber} of video request ${requestId} edited`);
+    return this.describeScenes(requestId, renderedPlan, editedPlan);
+  }
+
+  /**
+   * Renders the scene edits of a video. Only the compositions of edited scenes
+   * are rebuilt, the others are rendered from the stored template as they were.
+   * Renditions are rendered again along with the main request.
+   */
+  async rerenderVideoScenes(
+    requestId: string
+  ): Promise<{ requestId: string; status: VideoRequestStatus; rebuiltScenes: number[] }> {
+    const { videoRequest, renderedPlan, scenePlan } =
+      await this.getEditableScenePlan(requestId);
+
+    if (!videoRequest.edited_scene_plan) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} has no scene edits to render`,
+        "NO_SCENE_EDITS",
+        { requestId },
+        false,
+        "Edit a scene before rendering the video again."
+      );
+    }
+
+    if (
+      videoRequest.render_status === VideoRequestStatus.QUEUED ||
+      videoRequest.render_status === VideoRequestStatus.RENDERING
+    ) {
+      throw VideoValidationService.createError(
+        `Cannot re-render video request ${requestId} in status ${videoRequest.render_status}`,
+        "INVALID_REQUEST_STATE",
+        { requestId, status: videoRequest.render_status },
+        false,
+        "The video is already being rendered."
+      );
+    }
+
+    const job = await this.findRetryJobPayload(videoRequest);
+    if (!job) {
+      throw VideoValidationService.createError(
+        `No generation job found for video request ${requestId}`,
+        "RETRY_UNAVAILABLE",
+        { requestId, jobId: videoRequest.job_id },
+        false,
+        "This video cannot be rendered again. Please start a new generation."
+      );
+    }
+
+    let rebuilt: { template: any; rebuiltScenes: number[] };
+    try {
+      rebuilt = rebuildEditedTemplate(videoRequest.template, renderedPlan, scenePlan);
+    } catch (error) {
+      throw VideoValidationService.createError(
+        error instanceof Error ? error.message : "Failed to rebuild the template",
+        "SCENE_REBUILD_FAILED",
+        { requestId },
+        false,
+        "The edited scenes could not be rebuilt."
+      );
+    }
+
+    const { error } = await supabase
+      .from("video_requests")
+      .update({
+        template: rebuilt.template,
+        scene_plan: scenePlan as unknown as Json,
+        edited_scene_plan: null,
+        render_status: VideoRequestStatus.QUEUED,
+        render_id: null,
+        superseded_render_ids: this.supersedeRender(videoRequest),
+        error_message: null,
+        error_retryable: null,
+        cancelled_at: null,
+        processing_started_at: null,
+        completed_at: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", requestId);
+
+    if (error) {
+      throw VideoValidationService.createError(
+        "Failed to store the edited template",
+        "DATABASE_ERROR",
+        { requestId, error: error.message },
+        true,
+        "Unable to render the video again. Please try again."
+      );
+    }
+
+    // The re-render is a new attempt: a failure only rolls back what it does,
+    // not what the delivered render kept (usage, script draft...)
+    await this.compensation.settle(requestId);
+
+    if (job.renditions?.length) {
+      const { data: renditions } = await supabase
+        .from("video_requests")
+        .select("id, render_id, superseded_render_ids")
+        .eq("primary_request_id", requestId)
+        .in("render_status", [
+          VideoRequestStatus.DONE,
+          VideoRequestStatus.ERROR,
+          VideoRequestStatus.CANCELLED,
+        ]);
+
+      // One update per rendition: each one replaces its own render
+      for (const rendition of renditions ?? []) {
+        await supabase
+          .from("video_requests")
+          .update({
+            render_status: VideoRequestStatus.QUEUED,
+            render_id: null,
+            superseded_render_ids: this.supersedeRender(rendition),
+            error_message: null,
+            error_retryable: null,
+            cancelled_at: null,
+            completed_at: null,
+            updated_at: new Date().toISOString(),
+          })
+          .eq("id", rendition.id);
+        await this.compensation.settle(rendition.id);
+      }
+    }
+
+    await this.enqueueGenerationJob(job);
+
+    this.logger.info(
+      `🎞️ Video request ${requestId} re-queued with ${rebuilt.rebuiltScenes.length} rebuilt scene(s)`
+    );
+    return {
+      requestId,
+      status: VideoRequestStatus.QUEUED,
+      rebuiltScenes: rebuilt.rebuiltScenes,
+    };
+  }
+
+  /**
+   * Loads a request whose scenes can be edited: a main request (renditions
+   * follow it) rendered from a stored, compiled scene plan
+   * @private
+   */
+  private async getEditableScenePlan(requestId: string): Promise<{
+    videoRequest: Database["public"]["Tables"]["video_requests"]["Row"];
+    renderedPlan: ScenePlan;
+    scenePlan: ScenePlan;
+  }> {
+    const videoRequest = await this.getOwnedVideoRequest(requestId);
+
+    if (videoRequest.primary_request_id) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} is a rendition of ${videoRequest.primary_request_id}`,
+        "INVALID_REQUEST_STATE",
+        { requestId, primaryRequestId: videoRequest.primary_request_id },
+        false,
+        "Edit the scenes of the main video, its other formats follow."
+      );
+    }
+
+    const renderedPlan = videoRequest.scene_plan as unknown as ScenePlan | null;
+    if (
+      !renderedPlan ||
+      !videoRequest.template ||
+      !isTemplateEditable(videoRequest.template, renderedPlan)
+    ) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} has no editable scene plan`,
+        "SCENE_PLAN_UNAVAILABLE",
+        { requestId },
+        false,
+        "The scenes of this video cannot be edited."
+      );
+    }
+
+    return {
+      videoRequest,
+      renderedPlan,
+      scenePlan:
+        (videoRequest.edited_scene_plan as unknown as ScenePlan | null) ?? renderedPlan,
+    };
+  }
+
+  /**
+   * @private
+   */
+  private describeScenes(
+    requestId: string,
+    renderedPlan: ScenePlan,
+    scenePlan: ScenePlan
+  ): VideoScenesResult {
+    const edited = new Set(findEditedScenes(renderedPlan, scenePlan));
+    const renderedOrder = renderedPlan.scenes.map((scene) => scene.scene_number);
+    const moved = scenePlan.scenes.some(
+      (scene, index) => renderedOrder[index] !== scene.scene_number
+    );
+
+    return {
+      requestId,
+      pendingEdits: moved || edited.size > 0,
+      scenes: scenePlan.scenes.map((scene, index) => ({
+        sceneNumber: index + 1,
+        scene,
+        edited: edited.has(scene.scene_number),
+      })),
+    };
+  }
+
+  /**
+   * Job payload re-running a request. A rendition that never had a job of its
+   * own is re-run alone, from its main request's job.
+   */
+  async findRetryJobPayload(videoRequest: {
+    id: string;
+    job_id: string | null;
+    primary_request_id: string | null;
+    aspect_ratio: string | null;
+  }): Promise<VideoGenerationJobPayload | null> {
+    let jobId = videoRequest.job_id;
+
+    if (!jobId && videoRequest.primary_request_id) {
+      const { data: primaryRequest } = await supabase
+        .from("video_requests")
+        .select("job_id")
+        .eq("id", videoRequest.primary_request_id)
+        .single();
+      jobId = primaryRequest?.job_id ?? null;
+    }
+
+    const previousJob = jobId ? await getJobStore().get(jobId) : null;
+    if (!previousJob) {
+      return null;
+    }
+
+    const payload = previousJob.payload as VideoGenerationJobPayload;
+    if (payload.requestId === videoRequest.id) {
+      return payload;
+    }
+
+    return {
+      ...payload,
+      requestId: videoRequest.id,
+      payload: {
+        ...payload.payload,
+        aspectRatios: [
+          (videoRequest.aspect_ratio as AspectRatio) ?? DEFAULT_ASPECT_RATIO,
+        ],
+      },
+      renditions: [],
+    };
+  }
+
+  /**
+   * Provides the script a job renders: the user's script draft for the
+   * from-script flow, a freshly generated and reviewed script for the prompt flow
+   * @private
+   */
+  private async resolveGenerationScript(
+    job: VideoGenerationJobPayload,
+    context: JobContext
+  ): Promise<GenerationScript> {
+    const { requestId, payload } = job;
+
+    if (job.flow === "dub") {
+      return this.resolveDubbedScript(job, context);
+    }
+
+    if (job.flow === "script") {
+      const { data: scriptDraft, error } = await supabase
+        .from("script_drafts")
+        .select("*")
+        .eq("id", job.scriptDraftId!)
+        .eq("user_id", this.user.id)
+        .single();
+
+      if (error || !scriptDraft) {
+        const notFound = VideoValidationService.createError(
+          `Script draft ${job.scriptDraftId} not found`,
+          "SCRIPT_NOT_FOUND",
+          { scriptId: job.scriptDraftId },
+          false
+        );
+        await this.updateVideoRequestStatus(
+          requestId,
+          VideoRequestStatus.ERROR,
+          notFound.message
+        );
+        await this.reportProgress(requestId, "error", { error: notFound.message });
+        throw notFound;
+      }
+
+      await this.markScriptDraftUsed(requestId, scriptDraft);
+
+      return {
+        scriptId: scriptDraft.id,
+        scriptText: scriptDraft.current_script,
+        trainingPrompt: `Generated from script: ${scriptDraft.title}`,
+        renderPrompt: `Video from script: ${scriptDraft.title}`,
+      };
+    }
+
+    const { prompt, systemPrompt, outputLanguage, editorialProfile } = payload;
+
+    // A previous attempt may already have generated the script
+    const savedScript = await this.findGeneratedScript(requestId);
+    if (savedScript) {
+      this.logger.info(`♻️ Reusing script ${savedScript.id} from a previous attempt`);
+      return {
+        scriptId: savedScript.id,
+        scriptText: savedScript.generated_script,
+        trainingPrompt: prompt,
+        renderPrompt: prompt,
+      };
+    }
+
+    try {
+      await this.reportProgress(requestId, "generating_script");
+      const { scriptId, reviewedScript } = await this.withTimeout(
+        this.generateAndSaveScript(
+          prompt,
+          systemPrompt,
           editorialProfile,
-          captionConfig,
           outputLanguage,
-          captionStructure,
-          userId: this.user.id, // Pass user ID for watermark detection
-        }),
+          requestId
+        ),
         VideoGeneratorService.SCRIPT_GENERATION_TIMEOUT,
-        "Template generation timed out"
+        "Script generation timed out"
+      );
+
+      return {
+        scriptId,
+        scriptText: reviewedScript,
+        trainingPrompt: prompt,
+        renderPrompt: prompt,
+      };
+    } catch (error) {
+      await this.handleAttemptFailure(requestId, error, context, job.renditions);
+      throw error;
+    }
+  }
+
+  /**
+   * Provides the script of a dub: the scenes of the original video, translated.
+   * The first attempt stores the translated plan and the dubbed template, so
+   * retries and scene edits render them without translating again.
+   * @private
+   */
+  private async resolveDubbedScript(
+    job: VideoGenerationJobPayload,
+    context: JobContext
+  ): Promise<GenerationScript> {
+    const { requestId } = job;
+    const dubRequest = await this.getOwnedVideoRequest(requestId);
+    const language = dubRequest.output_language as DubbingLanguage;
+    const renderPrompt = `Dub (${language}) of video ${dubRequest.dubbed_from_request_id}`;
+    const storedPlan = dubRequest.scene_plan as unknown as ScenePlan | null;
+
+    if (dubRequest.template && storedPlan && dubRequest.script_id) {
+      this.logger.info(`♻️ Reusing translation stored for request ${requestId}`);
+      return {
+        scriptId: dubRequest.script_id,
+        scriptText: storedPlan.scenes.map((scene) => scene.script_text).join(" "),
+        trainingPrompt: renderPrompt,
+        renderPrompt,
+      };
+    }
+
+    try {
+      const original = dubRequest.dubbed_from_request_id
+        ? await this.getOwnedVideoRequest(dubRequest.dubbed_from_request_id)
+        : null;
+      const renderedPlan = original?.scene_plan as unknown as ScenePlan | null;
+      const voice = findTemplateVoice(original?.template);
+
+      if (!original || !renderedPlan || !voice || !dubRequest.script_id) {
+        throw VideoValidationService.createError(
+          `Video request ${requestId} has no original video to dub`,
+          "SCENE_PLAN_UNAVAILABLE",
+          { requestId, dubbedFromRequestId: dubRequest.dubbed_from_request_id },
+          false,
+          "This video cannot be dubbed."
+        );
+      }
+
+      await this.reportProgress(requestId, "generating_script");
+      let scenePlan: ScenePlan;
+      try {
+        scenePlan = await this.withTimeout(
+          SceneTranslator.getInstance(MODELS["4.1"]).translateScenePlan(
+            renderedPlan,
+            language,
+            original.output_language
+          ),
+          VideoGeneratorService.SCRIPT_GENERATION_TIMEOUT,
+          "Translation timed out"
+        );
+      } catch (error) {
+        throw VideoValidationService.createError(
+          error instanceof Error ? error.message : "Translation failed",
+          "DUB_TRANSLATION_FAILED",
+          { requestId, language },
+          true,
+          "The video could not be translated. Please try again."
+        );
+      }
+
+      await this.reportProgress(requestId, "building_template");
+      const { template } = rebuildEditedTemplate(
+        original.template,
+        renderedPlan,
+        scenePlan,
+        resolveDubbingVoice(voice, language)
       );
+      await this.storeTemplate(requestId, template, scenePlan);
 
+      return {
+        scriptId: dubRequest.script_id,
+        scriptText: scenePlan.scenes.map((scene) => scene.script_text).join(" "),
+        trainingPrompt: renderPrompt,
+        renderPrompt,
+      };
+    } catch (error) {
+      await this.handleAttemptFailure(requestId, error, context, job.renditions);
+      throw error;
+    }
+  }
 
-      // Step 3: Store training data (fire and forget)
-      this.storeTrainingDataAsync(
-        `Generated from script: ${scriptDraft.title}`,
-        scriptDraft.current_script,
-        template,
-        requestId
-      ).catch((error) => logger.warn("Training data storage failed:", error));
+  /**
+   * Background processing shared by the prompt and from-script flows - this is
+   * where the heavy lifting happens. Runs after we've already returned the
+   * response to the frontend.
+   */
+  private async processVideoInBackground(
+    job: VideoGenerationJobPayload,
+    script: GenerationScript,
+    context: JobContext
+  ): Promise<void> {
+    const { requestId, payload } = job;
+    const startTime = Date.now();
 
-      // Step 4: Start Creatomate render
-      const renderId = await this.withTimeout(
-        this.startCreatomateRender(
+    try {
+      this.logger.info(`🔄 Starting background processing for request ${requestId}`);
+
+      // Update status to processing
+      await this.updateVideoRequestStatus(
+        requestId,
+        VideoRequestStatus.RENDERING
+      );
+
+      // Steps 1-3 are skipped when a previous attempt already built the template
+      let template = await this.findStoredTemplate(requestId);
+
+      if (template) {
+        this.logger.info(`♻️ Reusing template stored for request ${requestId}`);
+      } else {
+        const {
+          selectedVideos,
+          voiceId,
+          captionConfig,
+          outputLanguage,
+          editorialProfile,
+          templateMode,
+          music,
+        } = payload;
+
+        // Step 1: Fetch and validate videos
+        await this.reportProgress(requestId, "validating_videos");
+        const validatedVideos = await this.withTimeout(
+          this.fetchAndValidateVideos(selectedVideos),
+          VideoGeneratorService.DATABASE_OPERATION_TIMEOUT,
+          "Video validation timed out"
+        );
+
+        const brandKit = await brandKitService.getBrandKit(this.user.id);
+        const customPreset = await captionPresetService.resolvePreset(
+          this.user.id,
+          captionConfig?.presetId
+        );
+        const captionStructure = convertCaptionConfigToProperties(
+          captionConfig,
+          this.logger,
+          undefined,
+          { brandKit, customPreset }
+        );
+
+        await this.ensureNotCancelled(requestId, context);
+
+        // Step 2: Plan scenes and build the template
+        const generated = await this.withTimeout(
+          videoTemplateService.generateTemplateWithPlan({
+            scriptText: script.scriptText,
+            selectedVideos: validatedVideos,
+            voiceId,
+            editorialProfile,
+            captionConfig,
+            outputLanguage,
+            captionStructure,
+            userId: this.user.id, // Pass user ID for watermark detection
+            templateMode,
+            music,
+            brandKit,
+            onProgress: (step) => {
+              this.reportProgress(requestId, step);
+            },
+          }),
+          VideoGeneratorService.SCRIPT_GENERATION_TIMEOUT,
+          "Template generation timed out"
+        );
+        template = generated.template;
+        await this.storeTemplate(requestId, template, generated.scenePlan);
+
+        // Step 3: Store training data (fire and forget)
+        this.storeTrainingDataAsync(
+          script.trainingPrompt,
+          script.scriptText,
           template,
+          requestId
+        ).catch((error) => this.logger.warn("Training data storage failed:", error));
+      }
+
+      await this.ensureNotCancelled(requestId, context);
+
+      // Step 4: Start render, in the first requested aspect ratio
+      const aspectRatio = payload.aspectRatios?.[0] ?? DEFAULT_ASPECT_RATIO;
+      const renderId = await this.withTimeout(
+        this.startRender(
+          adaptTemplateToAspectRatio(template, aspectRatio),
           requestId,
-          scriptDraft.id,
-          `Video from script: ${scriptDraft.title}`
+          script.scriptId,
+          script.renderPrompt
         ),
-        VideoGeneratorService.CREATOMATE_API_TIMEOUT,
-        "Creatomate render start timed out"
+        VideoGeneratorService.RENDER_START_TIMEOUT,
+        "Render start timed out"
       );
 
-      // Step 5: Update video request with completion
-      await this.updateVideoRequestWithResults(requestId, {
-        scriptId: scriptDraft.id,
-        renderId,
-        script: scriptDraft.current_script,
-        template,
+      // Step 5: Update video request with completion
+      await this.updateVideoRequestWithResults(requestId, {
+        scriptId: script.scriptId,
+        renderId,
+        script: script.scriptText,
+        template,
+      });
+      await this.reportProgress(requestId, "render_started");
+
+      // Step 6: Render the other aspect ratios from the same template
+      await this.startRenditionRenders(job.renditions ?? [], template, script);
+
+      const duration = Date.now() - startTime;
+      this.logger.info(
+        `✅ Background processing completed for ${requestId} in ${duration}ms`
+      );
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.logger.error(
+        `❌ Background processing failed for ${requestId} after ${duration}ms:`,
+        error
+      );
+
+      await this.handleAttemptFailure(requestId, error, context, job.renditions);
+      throw error;
+    }
+  }
+
+  /**
+   * Starts the render of each rendition still waiting for one. A rendition
+   * failing to start is marked as failed on its own: the main render already
+   * started, so the job must not be retried for it.
+   * @private
+   */
+  private async startRenditionRenders(
+    renditions: VideoRendition[],
+    template: any,
+    script: GenerationScript
+  ): Promise<void> {
+    for (const rendition of renditions) {
+      const { data: videoRequest } = await supabase
+        .from("video_requests")
+        .select("render_status")
+        .eq("id", rendition.requestId)
+        .single();
+
+      // Cancelled, or already rendered by a previous attempt
+      if (videoRequest?.render_status !== VideoRequestStatus.QUEUED) {
+        continue;
+      }
+
+      try {
+        await this.updateVideoRequestStatus(
+          rendition.requestId,
+          VideoRequestStatus.RENDERING
+        );
+        // A retry of the rendition re-renders this checkpoint
+        await this.storeTemplate(rendition.requestId, template);
+
+        const renderId = await this.withTimeout(
+          this.startRender(
+            adaptTemplateToAspectRatio(template, rendition.aspectRatio),
+            rendition.requestId,
+            script.scriptId,
+            script.renderPrompt
+          ),
+          VideoGeneratorService.RENDER_START_TIMEOUT,
+          "Render start timed out"
+        );
+
+        await this.updateVideoRequestWithResults(rendition.requestId, {
+          scriptId: script.scriptId,
+          renderId,
+          script: script.scriptText,
+          template,
+        });
+        await this.reportProgress(rendition.requestId, "render_started");
+      } catch (error) {
+        this.logger.error(
+          `❌ ${rendition.aspectRatio} render failed to start for request ${rendition.requestId}:`,
+          error
+        );
+        await this.failRenditions(
+          [rendition],
+          error instanceof Error ? error.message : "Render failed to start",
+          (error as any)?.retryable !== false,
+          [VideoRequestStatus.RENDERING]
+        );
+      }
+    }
+  }
+
+  /**
+   * Marks renditions that will not be rendered by the job as failed
+   * @param fromStatuses Only fail renditions currently in these statuses
+   * @private
+   */
+  private async failRenditions(
+    renditions: VideoRendition[] | undefined,
+    errorMessage: string,
+    retryable: boolean,
+    fromStatuses: VideoRequestStatus[] = [VideoRequestStatus.QUEUED]
+  ): Promise<void> {
+    if (!renditions || renditions.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("video_requests")
+      .update({
+        render_status: VideoRequestStatus.ERROR,
+        error_message: errorMessage,
+        error_retryable: retryable,
+        updated_at: new Date().toISOString(),
+      })
+      .in(
+        "id",
+        renditions.map((rendition) => rendition.requestId)
+      )
+      .in("render_status", fromStatuses);
+
+    if (error) {
+      this.logger.error("Failed to mark renditions as failed:", error);
+      return;
+    }
+
+    for (const rendition of renditions) {
+      await this.reportProgress(rendition.requestId, "error", {
+        error: errorMessage,
       });
+    }
+  }
 
-      const duration = Date.now() - startTime;
-      logger.info(
-        `✅ Background processing from script completed for ${requestId} in ${duration}ms`
-      );
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      logger.error(
-        `❌ Background processing from script failed for ${requestId} after ${duration}ms:`,
-        error
-      );
+  /**
+   * Fails requests that were created but will never be queued, and rolls
+   * back their side effects
+   * @private
+   */
+  private async failUnqueuedRequests(
+    requestIds: string[],
+    errorMessage: string
+  ): Promise<void> {
+    if (requestIds.length === 0) {
+      return;
+    }
 
-      // Update request with failure status
-      await this.updateVideoRequestStatus(
-        requestId,
-        VideoRequestStatus.ERROR,
-        error instanceof Error
-          ? error.message
-          : "Unknown error during processing"
-      );
+    const { error } = await supabase
+      .from("video_requests")
+      .update({
+        render_status: VideoRequestStatus.ERROR,
+        error_message: errorMessage,
+        error_retryable: true,
+        updated_at: new Date().toISOString(),
+      })
+      .in("id", requestIds)
+      .eq("render_status", VideoRequestStatus.QUEUED);
 
-      // Attempt cleanup on failure
-      await this.cleanupOnFailure(scriptDraft.id, requestId);
+    if (error) {
+      this.logger.error("Failed to mark unqueued requests as failed:", error);
+    }
+
+    for (const requestId of requestIds) {
+      await this.cleanupOnFailure(requestId, errorMessage);
+      await this.reportProgress(requestId, "error", { error: errorMessage });
     }
   }
 
   /**
-   * Background processing method - this is where the heavy lifting happens
-   * This runs after we've already returned the response to the frontend
+   * Marks the request as failed once the queue will not retry the job anymore.
+   * Intermediate failures leave the request untouched so the retry can pick it up.
+   * @private
    */
-  private async processVideoInBackground(
+  private async handleAttemptFailure(
     requestId: string,
-    payload: VideoGenerationPayload,
-    editorialProfile: EditorialProfile,
-    script: { scriptId: string; reviewedScript: string }
+    error: unknown,
+    context: JobContext,
+    renditions?: VideoRendition[]
   ): Promise<void> {
-    const startTime = Date.now();
+    const retryable = (error as any)?.retryable !== false;
 
-    try {
-      this.logger.info(`🔄 Starting background processing for request ${requestId}`);
+    if ((error as any)?.code === VideoGeneratorService.CANCELLED_ERROR_CODE) {
+      // The request was already marked as cancelled by cancelVideoRequest
+      return;
+    }
 
-      // Update status to processing
-      await this.updateVideoRequestStatus(
-        requestId,
-        VideoRequestStatus.RENDERING
+    if (retryable && !context.isFinalAttempt) {
+      this.logger.warn(
+        `⚠️ Attempt failed for request ${requestId}, the job will be retried`
       );
+      return;
+    }
 
-      const { prompt, selectedVideos, voiceId, captionConfig, outputLanguage } =
-        payload;
-
-      // Step 2: Fetch and validate videos
-      const validatedVideos = await this.withTimeout(
-        this.fetchAndValidateVideos(selectedVideos),
-        VideoGeneratorService.DATABASE_OPERATION_TIMEOUT,
-        "Video validation timed out"
-      );
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error during processing";
+
+    // Update request with failure status
+    await this.updateVideoRequestStatus(
+      requestId,
+      VideoRequestStatus.ERROR,
+      errorMessage,
+      retryable
+    );
+
+    // Roll back what the failed generation changed
+    await this.cleanupOnFailure(requestId, errorMessage);
+    await this.reportProgress(requestId, "error", {
+      error: (error as any)?.userMessage ?? errorMessage,
+    });
 
+    // Renditions waiting for this job will not be rendered either
+    await this.failRenditions(renditions, errorMessage, retryable);
+  }
 
-      // Step 3: Prepare prompt and caption structure
-      const agentPrompt = process.env.CREATOMATE_BUILDER_AGENT_PROMPT || "video-creatomate-agent-v4";
-      const promptTemplate = PromptService.fillPromptTemplate(agentPrompt, {
-        script: script.reviewedScript,
-        scenePlan: "Will be generated by the builder",
-        voiceId,
-        outputLanguage,
-        captionInfo: captionConfig ? `Caption Config: ${JSON.stringify(captionConfig)}` : "",
-        systemPrompt: payload.systemPrompt,
-        selectedVideos: validatedVideos,
+  /**
+   * Persists a generation job so it survives restarts
+   */
+  async enqueueGenerationJob(
+    job: VideoGenerationJobPayload
+  ): Promise<void> {
+    let queuedJob: Job;
+    try {
+      queuedJob = await getJobStore().enqueue({
+        type: VideoGeneratorService.JOB_TYPE,
+        payload: job,
+        maxAttempts: VideoGeneratorService.JOB_MAX_ATTEMPTS,
       });
-
-      const captionStructure = convertCaptionConfigToProperties(captionConfig, logger);
-
-      // Step 4: Generate template using NEW VideoTemplateService.generateTemplate
-      const template = await this.withTimeout(
-        videoTemplateService.generateTemplate({
-          scriptText: script.reviewedScript,
-          selectedVideos: validatedVideos,
-          voiceId,
-          editorialProfile,
-          captionConfig,
-          outputLanguage,
-          captionStructure,
-          userId: this.user.id, // Pass user ID for watermark detection
-        }),
-        VideoGeneratorService.SCRIPT_GENERATION_TIMEOUT,
-        "Template generation timed out"
+    } catch (error) {
+      // Nothing will ever process the request: fail it now
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to enqueue generation job";
+      await this.updateVideoRequestStatus(
+        job.requestId,
+        VideoRequestStatus.ERROR,
+        errorMessage,
+        true
       );
+      await this.cleanupOnFailure(job.requestId, errorMessage);
+      await this.reportProgress(job.requestId, "error", { error: errorMessage });
+      await this.failRenditions(job.renditions, errorMessage, true);
+      throw error;
+    }
 
-      // REMOVED: URL repair here - now handled in VideoTemplateService
-
-      // Step 4: Store training data (fire and forget)
-      this.storeTrainingDataAsync(
-        prompt,
-        script.reviewedScript,
-        template,
-        requestId
-      ).catch((error) => this.logger.warn("Training data storage failed:", error));
-
-      // Step 5: Start Creatomate render
-      // const renderId = await this.withTimeout(
-      //   this.startCreatomateRender(
-      //     template,
-      //     requestId,
-      //     script.scriptId,
-      //     prompt
-      //   ),
-      //   VideoGeneratorService.CREATOMATE_API_TIMEOUT,
-      //   "Creatomate render start timed out"
-      // );
-
-      // // Step 6: Update video request with completion
-      // await this.updateVideoRequestWithResults(requestId, {
-      //   scriptId: script.scriptId,
-      //   renderId,
-      //   script: script.reviewedScript,
-      //   template,
-      // });
+    // Remember the job so the request can be cancelled or retried later
+    const { error } = await supabase
+      .from("video_requests")
+      .update({ job_id: queuedJob.id, updated_at: new Date().toISOString() })
+      .eq("id", job.requestId);
 
-      const duration = Date.now() - startTime;
-        this.logger.info(
-        `✅ Background processing completed for ${requestId} in ${duration}ms`
-      );
-    } catch (error) {
-      const duration = Date.now() - startTime;
+    if (error) {
       this.logger.error(
-        `❌ Background processing failed for ${requestId} after ${duration}ms:`,
+        `Failed to link job ${queuedJob.id} to video request ${job.requestId}:`,
         error
       );
+    }
 
-      // Update request with failure status
-      await this.updateVideoRequestStatus(
-        requestId,
-          VideoRequestStatus.ERROR,
-        error instanceof Error
-          ? error.message
-          : "Unknown error during processing"
-      );
+    await this.reportProgress(job.requestId, "queued");
+    this.logger.info(
+      `📥 Generation job ${queuedJob.id} enqueued for request ${job.requestId}`
+    );
+  }
+
+  /**
+   * One frame per scene; a scene whose frame fails gets no snapshot rather
+   * than failing the preview
+   * @private
+   */
+  private async renderSceneSnapshots(
+    template: any
+  ): Promise<VideoPreviewSnapshot[]> {
+    const renderProvider = getRenderProvider();
+    // Intro/outro cards and the background music are not scenes
+    const scenes: any[] = Array.isArray(template.elements)
+      ? template.elements.filter(
+          (element: any) =>
+            element?.type === "composition" && !VideoStyleService.isCardElement(element)
+        )
+      : [];
+
+    return Promise.all(
+      scenes.map(async (scene, index) => {
+        try {
+          const url = await renderProvider.renderSnapshot(
+            { ...template, elements: [scene] },
+            {
+              time: VideoGeneratorService.PREVIEW_FRAME_TIME,
+              scale: VideoGeneratorService.PREVIEW_RENDER_SCALE,
+            }
+          );
+          return { sceneNumber: index + 1, url };
+        } catch (error) {
+          this.logger.warn(
+            `⚠️ Failed to render ${renderProvider.name} snapshot of scene ${index + 1}:`,
+            error
+          );
+          return { sceneNumber: index + 1, url: null };
+        }
+      })
+    );
+  }
 
-      // Attempt cleanup on failure
-      await this.cleanupOnFailure(script.scriptId, requestId);
+  /**
+   * Publishes a progress event; progress never fails the generation
+   * @private
+   */
+  private async reportProgress(
+    requestId: string,
+    step: VideoProgressStep,
+    details?: VideoProgressDetails
+  ): Promise<void> {
+    try {
+      await getVideoProgressService().publish(requestId, step, details);
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to report ${step} progress for ${requestId}:`, error);
     }
   }
 
@@ -493,20 +1875,13 @@ export class VideoGeneratorService {
    */
   private async createVideoRequestFromScript(
     scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"],
-    payload: VideoGenerationPayload
+    payload: VideoGenerationPayload,
+    stored?: { template: any; scenePlan: ScenePlan }
   ): Promise<{ id: string }> {
     try {
       const { data, error } = await supabase
         .from("video_requests")
-        .insert({
-          user_id: this.user.id,
-          script_id: scriptDraft.id, // Link to existing script
-          render_status: VideoRequestStatus.QUEUED,
-          selected_videos: payload.selectedVideos.map((v) => v.id),
-          caption_config: (payload.captionConfig as any) || null,
-          output_language: payload.outputLanguage || null,
-          created_at: new Date().toISOString(),
-        })
+        .insert(this.buildScriptVideoRequest(scriptDraft, payload, stored))
         .select("id")
         .single();
 
@@ -530,6 +1905,87 @@ export class VideoGeneratorService {
     }
   }
 
+  /**
+   * Video request row rendering an existing script
+   * @private
+   */
+  private buildScriptVideoRequest(
+    scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"],
+    payload: VideoGenerationPayload,
+    stored?: { template: any; scenePlan: ScenePlan }
+  ) {
+    return {
+      user_id: this.user.id,
+      script_id: scriptDraft.id, // Link to existing script
+      render_status: VideoRequestStatus.QUEUED,
+      selected_videos: payload.selectedVideos.map((v) => v.id),
+      caption_config: (payload.captionConfig as any) || null,
+      output_language: payload.outputLanguage || null,
+      aspect_ratio: payload.aspectRatios?.[0] ?? DEFAULT_ASPECT_RATIO,
+      // The generation job renders a stored template without planning
+      template: stored?.template ?? null,
+      scene_plan: (stored?.scenePlan as unknown as Json) ?? null,
+      created_at: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Creates one video request per additional aspect ratio, rendered by the
+   * main request's job
+   * @private
+   */
+  private async createRenditionRequests(
+    primaryRequestId: string,
+    payload: VideoGenerationPayload
+  ): Promise<VideoRendition[]> {
+    const aspectRatios: AspectRatio[] = payload.aspectRatios?.slice(1) ?? [];
+    if (aspectRatios.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from("video_requests")
+      .insert(
+        aspectRatios.map((aspectRatio) => ({
+          user_id: this.user.id,
+          render_status: VideoRequestStatus.QUEUED,
+          selected_videos: payload.selectedVideos.map((v) => v.id),
+          caption_config: (payload.captionConfig as unknown as Json) || null,
+          output_language: payload.outputLanguage || null,
+          aspect_ratio: aspectRatio,
+          primary_request_id: primaryRequestId,
+          created_at: new Date().toISOString(),
+        }))
+      )
+      .select("id, aspect_ratio");
+
+    if (error || !data) {
+      // Without its renditions the main request would be incomplete
+      await this.updateVideoRequestStatus(
+        primaryRequestId,
+        VideoRequestStatus.ERROR,
+        "Failed to create aspect ratio renditions",
+        true
+      );
+      await this.cleanupOnFailure(
+        primaryRequestId,
+        "Failed to create aspect ratio renditions"
+      );
+      throw VideoValidationService.createError(
+        "Failed to create video requests for additional aspect ratios",
+        "DATABASE_ERROR",
+        { primaryRequestId, aspectRatios, error: error?.message },
+        true,
+        "Unable to queue video request. Please try again."
+      );
+    }
+
+    return data.map((row: { id: string; aspect_ratio: AspectRatio }) => ({
+      requestId: row.id,
+      aspectRatio: row.aspect_ratio,
+    }));
+  }
+
   /**
    * Creates the initial video request record
    * @private
@@ -547,6 +2003,7 @@ export class VideoGeneratorService {
           selected_videos: payload.selectedVideos.map((v) => v.id),
           caption_config: (payload.captionConfig as any) || null,
           output_language: payload.outputLanguage || null,
+          aspect_ratio: payload.aspectRatios?.[0] ?? DEFAULT_ASPECT_RATIO,
           created_at: new Date().toISOString(),
         })
         .select("id")
@@ -576,7 +2033,8 @@ export class VideoGeneratorService {
   private async updateVideoRequestStatus(
     requestId: string,
     status: VideoRequestStatus,
-    errorMessage?: string
+    errorMessage?: string,
+    retryable?: boolean
   ): Promise<void> {
     try {
       const updateData: any = {
@@ -591,6 +2049,7 @@ export class VideoGeneratorService {
       } else if (status === VideoRequestStatus.ERROR && errorMessage) {
         this.logger.warn("Failed to update video request status:", errorMessage);
         updateData.error_message = errorMessage || "Unknown error";
+        updateData.error_retryable = retryable ?? true;
       }
 
       const { error } = await supabase
@@ -675,9 +2134,12 @@ export class VideoGeneratorService {
     }
   }
 
-  // Placeholder methods - these need to be implemented based on the original logic
+  /**
+   * Generates a script from the user prompt, reviews it and saves it
+   * @private
+   */
   private async generateAndSaveScript(
-    script: string,
+    prompt: string,
     systemPrompt: string,
     editorialProfile: EditorialProfile,
     outputLanguage: string,
@@ -685,26 +2147,26 @@ export class VideoGeneratorService {
   ): Promise<{ scriptId: string; reviewedScript: string }> {
     try {
       this.logger.info("🤖 Generating script...");
-      // const generatedScript = await this.scriptGenerator.generate(
-      //   prompt,
-      //   editorialProfile,
-      //   systemPrompt
-      // );
-        this.logger.info("✅ Script generated successfully");
+      const generatedScript = await this.scriptGenerator.generate(
+        prompt,
+        editorialProfile,
+        systemPrompt
+      );
+      this.logger.info("✅ Script generated successfully");
 
       this.logger.info("🔍 Reviewing script...");
-      // const reviewedScript = await this.scriptReviewer.review(
-      //   script,
-      //   editorialProfile,
-      //   `System Prompt from the user:
-      //   ${systemPrompt}
-
-      //   User Prompt:
-      //   ${script}
-
-      //   Output Language: ${outputLanguage}
-      //   `
-      // );
+      const reviewedScript = await this.scriptReviewer.review(
+        generatedScript,
+        editorialProfile,
+        `System Prompt from the user:
+        ${systemPrompt}
+
+        User Prompt:
+        ${prompt}
+
+        Output Language: ${outputLanguage}
+        `
+      );
       this.logger.info("✅ Script reviewed successfully");
 
       this.logger.info("💾 Creating script record...");
@@ -712,8 +2174,8 @@ export class VideoGeneratorService {
         .from("scripts")
         .insert({
           user_id: this.user.id,
-          raw_prompt: script,
-          generated_script: script,
+          raw_prompt: prompt,
+          generated_script: reviewedScript,
           status: "validated",
           output_language: outputLanguage,
           video_id: requestId,
@@ -749,7 +2211,7 @@ export class VideoGeneratorService {
       }
 
       this.logger.info(`✅ Script created: ${scriptRecord.id}`);
-      return { scriptId: scriptRecord.id, reviewedScript: script };
+      return { scriptId: scriptRecord.id, reviewedScript };
     } catch (error) {
       if (error instanceof Error && "code" in error) {
         throw error; // Re-throw VideoGenerationError
@@ -765,6 +2227,187 @@ export class VideoGeneratorService {
     }
   }
 
+  /**
+   * Loads a video request owned by the current user
+   */
+  async getOwnedVideoRequest(
+    requestId: string
+  ): Promise<Database["public"]["Tables"]["video_requests"]["Row"]> {
+    const { data, error } = await supabase
+      .from("video_requests")
+      .select("*")
+      .eq("id", requestId)
+      .eq("user_id", this.user.id)
+      .single();
+
+    if (error || !data) {
+      throw VideoValidationService.createError(
+        `Video request ${requestId} not found`,
+        "VIDEO_REQUEST_NOT_FOUND",
+        { requestId },
+        false,
+        "Video request not found"
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Renders a request no longer waits for once its render is reset: their
+   * late webhooks must not settle the new attempt
+   * @private
+   */
+  private supersedeRender(videoRequest: {
+    render_id: string | null;
+    superseded_render_ids: string[] | null;
+  }): string[] | null {
+    const superseded = videoRequest.superseded_render_ids ?? [];
+    return videoRequest.render_id
+      ? [...superseded, videoRequest.render_id]
+      : videoRequest.superseded_render_ids;
+  }
+
+  /**
+   * Stops the pipeline when the job was cancelled, either through the job
+   * signal or by a cancel request the worker has not noticed yet
+   * @private
+   */
+  private async ensureNotCancelled(
+    requestId: string,
+    context: JobContext
+  ): Promise<void> {
+    let cancelled = context.signal.aborted;
+
+    if (!cancelled) {
+      const { data } = await supabase
+        .from("video_requests")
+        .select("render_status")
+        .eq("id", requestId)
+        .single();
+      cancelled = data?.render_status === VideoRequestStatus.CANCELLED;
+    }
+
+    if (cancelled) {
+      throw VideoValidationService.createError(
+        `Generation of video request ${requestId} was cancelled`,
+        VideoGeneratorService.CANCELLED_ERROR_CODE,
+        { requestId },
+        false
+      );
+    }
+  }
+
+  /**
+   * Template checkpoint left by a previous attempt, if any
+   * @private
+   */
+  private async findStoredTemplate(requestId: string): Promise<any | null> {
+    const { data } = await supabase
+      .from("video_requests")
+      .select("template")
+      .eq("id", requestId)
+      .single();
+
+    return data?.template ?? null;
+  }
+
+  /**
+   * Saves the template checkpoint so retries skip planning, along with the
+   * scene plan it was built from for scene edits
+   * @private
+   */
+  private async storeTemplate(
+    requestId: string,
+    template: any,
+    scenePlan?: ScenePlan
+  ): Promise<void> {
+    const { error } = await supabase
+      .from("video_requests")
+      .update({
+        template,
+        ...(scenePlan && { scene_plan: scenePlan as unknown as Json }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", requestId);
+
+    if (error) {
+      // Non-critical: a retry would only plan the template again
+      this.logger.warn(`⚠️ Failed to store template for ${requestId}:`, error);
+    }
+  }
+
+  /**
+   * Links the script draft to the request (again, after a rolled back
+   * attempt) and marks it as used, recording both for compensation
+   * @private
+   */
+  private async markScriptDraftUsed(
+    requestId: string,
+    scriptDraft: Database["public"]["Tables"]["script_drafts"]["Row"]
+  ): Promise<void> {
+    const { data: relinked } = await supabase
+      .from("video_requests")
+      .update({ script_id: scriptDraft.id, updated_at: new Date().toISOString() })
+      .eq("id", requestId)
+      .is("script_id", null)
+      .select("id");
+
+    if (relinked && relinked.length > 0) {
+      await this.compensation.record(requestId, this.user.id, {
+        kind: "script_draft_link",
+        scriptDraftId: scriptDraft.id,
+      });
+    }
+
+    if (scriptDraft.status === "used") {
+      return;
+    }
+
+    const { error } = await supabase
+      .from("script_drafts")
+      .update({ status: "used", updated_at: new Date().toISOString() })
+      .eq("id", scriptDraft.id);
+
+    if (error) {
+      this.logger.warn(`⚠️ Failed to mark script draft ${scriptDraft.id} as used:`, error);
+      return;
+    }
+
+    await this.compensation.record(requestId, this.user.id, {
+      kind: "script_draft_status",
+      scriptDraftId: scriptDraft.id,
+      previousStatus: scriptDraft.status,
+      newStatus: "used",
+    });
+  }
+
+  /**
+   * Script already generated for a request, if any
+   * @private
+   */
+  private async findGeneratedScript(
+    requestId: string
+  ): Promise<{ id: string; generated_script: string } | null> {
+    const { data: videoRequest } = await supabase
+      .from("video_requests")
+      .select("script_id")
+      .eq("id", requestId)
+      .single();
+
+    if (!videoRequest?.script_id) {
+      return null;
+    }
+
+    const { data: script } = await supabase
+      .from("scripts")
+      .select("id, generated_script")
+      .eq("id", videoRequest.script_id)
+      .single();
+
+    return script?.generated_script ? script : null;
+  }
+
   private async fetchAndValidateVideos(
     selectedVideos: VideoType[]
   ): Promise<ValidatedVideo[]> {
@@ -880,75 +2523,24 @@ export class VideoGeneratorService {
     }
   }
 
-  private async startCreatomateRender(
+  private async startRender(
     template: any,
     requestId: string,
     scriptId: string,
     prompt: string
   ): Promise<string> {
-    try {
-        this.logger.info("🚀 Starting Creatomate render...");
-
-      // Get the server's base URL for webhook callbacks
-      const baseUrl = "https://nodejs-production-a774.up.railway.app";
-      const webhookUrl = `${baseUrl}/api/webhooks/creatomate`;
-
-      const renderPayload = {
-        template_id: "a5403674-6eaf-4114-a088-4d560d851aef",
-        modifications: template,
-        webhook_url: webhookUrl,
-        output_format: "mp4",
-        frame_rate: 30,
-        render_scale: 1.0,
-        metadata: JSON.stringify({
-          requestId,
-          userId: this.user.id,
-          scriptId,
-          prompt: prompt.substring(0, 100), // Truncate long prompts
-          timestamp: new Date().toISOString(),
-        }),
-      };
-
-      const renderResponse = await fetch(
-        "https://api.creatomate.com/v1/renders",
-        {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${process.env.CREATOMATE_API_KEY}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(renderPayload),
-        }
-      );
+    const renderProvider = getRenderProvider();
 
-      if (!renderResponse.ok) {
-        const errorData = await renderResponse.json().catch(() => ({}));
-
-        throw VideoValidationService.createError(
-          "Creatomate API request failed",
-          "CREATOMATE_API_ERROR",
-          {
-            status: renderResponse.status,
-            statusText: renderResponse.statusText,
-            errorData,
-          },
-          renderResponse.status >= 500, // Retry on server errors
-          "Video rendering service is temporarily unavailable. Please try again."
-        );
-      }
-
-      const renderData = (await renderResponse.json()) as any[];
-      const renderId = renderData[0]?.id;
+    try {
+      this.logger.info(`🚀 Starting ${renderProvider.name} render...`);
 
-      if (!renderId) {
-        throw VideoValidationService.createError(
-          "Invalid response from Creatomate API",
-          "CREATOMATE_INVALID_RESPONSE",
-          { renderData },
-          true,
-          "Video rendering service returned an invalid response. Please try again."
-        );
-      }
+      const { renderId } = await renderProvider.startRender(template, {
+        requestId,
+        userId: this.user.id,
+        scriptId,
+        prompt: prompt.substring(0, 100), // Truncate long prompts
+        timestamp: new Date().toISOString(),
+      });
 
       this.logger.info(`✅ Render started: ${renderId}`);
       return renderId;
@@ -960,18 +2552,35 @@ export class VideoGeneratorService {
       throw VideoValidationService.createError(
         "Failed to start render",
         "RENDER_START_ERROR",
-        { originalError: error },
+        { originalError: error, provider: renderProvider.name },
         true,
         "Failed to start video rendering. Please try again."
       );
     }
   }
 
+  /**
+   * Rolls back the side effects recorded for a failed or cancelled request
+   * @private
+   */
   private async cleanupOnFailure(
-    scriptId: string | null,
-    videoRequestId: string | null
+    requestId: string,
+    reason: string
   ): Promise<void> {
     this.logger.info("🧹 Cleaning up after failure...");
-    // TODO: Implement cleanup logic
+    try {
+      const report = await this.compensation.compensate(
+        requestId,
+        this.user.id,
+        reason
+      );
+      if (report.failed.length > 0) {
+        this.logger.warn(
+          `⚠️ Cleanup of request ${requestId} left ${report.failed.length} side effect(s) in place`
+        );
+      }
+    } catch (error) {
+      this.logger.error(`❌ Cleanup failed for request ${requestId}:`, error);
+    }
   }
 }
@@ -0,0 +1,149 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { BackgroundMusic } from "../../types/template";
+import { Logger } from "./watermark-service";
+
+/**
+ * Audio file played as background music
+ */
+export interface MusicTrack {
+  title: string;
+  url: string;
+}
+
+/**
+ * Service adding a background music layer to generated videos.
+ *
+ * The music is one top-level audio element spanning the whole video, added
+ * after the template is built, on its own track so the scene compositions are
+ * left untouched.
+ */
+export class MusicService {
+  private static readonly ELEMENT_NAME = "Background-Music";
+  // Video, captions and voice-over use tracks 1 to 3
+  private static readonly MUSIC_TRACK = 4;
+  private static readonly DEFAULT_VOLUME = 100;
+  private static readonly DEFAULT_DUCKING_VOLUME = 20;
+  private static readonly DEFAULT_FADE_IN = 1; // seconds
+  private static readonly DEFAULT_FADE_OUT = 2; // seconds
+
+  private db: SupabaseClient;
+  private log: Logger;
+  private uploadBucket?: string;
+
+  constructor(db?: SupabaseClient, log?: Logger, uploadBucket?: string) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    if (db) {
+      this.db = db;
+    } else {
+      try {
+        const { supabase } = require("../../config/supabase");
+        this.db = supabase;
+      } catch (error) {
+        this.db = {} as SupabaseClient;
+      }
+    }
+
+    if (log) {
+      this.log = log;
+    } else {
+      try {
+        const { logger } = require("../../config/logger");
+        this.log = logger;
+      } catch (error) {
+        this.log = {
+          info: () => {},
+          warn: () => {},
+          error: () => {},
+        };
+      }
+    }
+
+    this.uploadBucket = uploadBucket;
+  }
+
+  /**
+   * Finds the audio file of the requested music: a library track, or a track
+   * the user uploaded through /s3-upload
+   *
+   * @returns null when the track does not exist or is not the user's
+   */
+  async resolveTrack(music: BackgroundMusic, userId: string): Promise<MusicTrack | null> {
+    if (music.source === "upload") {
+      // Bucket of /s3-upload, loaded on first use like the other dependencies
+      const bucket = this.uploadBucket ?? require("../../config/aws").S3_BUCKET_NAME;
+      const uploadPrefix = `https://${bucket}.s3.amazonaws.com/videos/${userId}/`;
+      if (!music.url?.startsWith(uploadPrefix)) {
+        this.log.warn(`⚠️ Music ${music.url} is not an upload of user ${userId}`);
+        return null;
+      }
+      return { title: decodeURIComponent(music.url.slice(uploadPrefix.length)), url: music.url };
+    }
+
+    const { data: track, error } = await this.db
+      .from("music_tracks")
+      .select("title, url")
+      .eq("id", music.trackId)
+      .single();
+
+    if (error || !track) {
+      this.log.warn(`⚠️ Music library track ${music.trackId} not found`, error);
+      return null;
+    }
+
+    return track;
+  }
+
+  /**
+   * Creates the Creatomate audio element of the music.
+   *
+   * Every scene carries a voice-over, so ducking keeps the music at the
+   * ducking volume for the whole video; without ducking it plays at `volume`.
+   * Looping repeats the track until the end of the video.
+   */
+  createMusicElement(track: MusicTrack, music: BackgroundMusic): object {
+    const volume =
+      music.ducking === false
+        ? music.volume ?? MusicService.DEFAULT_VOLUME
+        : Math.min(
+            music.volume ?? MusicService.DEFAULT_VOLUME,
+            music.duckingVolume ?? MusicService.DEFAULT_DUCKING_VOLUME
+          );
+
+    return {
+      name: MusicService.ELEMENT_NAME,
+      type: "audio",
+      track: MusicService.MUSIC_TRACK,
+      time: 0,
+      source: track.url,
+      volume: `${volume}%`,
+      audio_fade_in: music.fadeIn ?? MusicService.DEFAULT_FADE_IN,
+      audio_fade_out: music.fadeOut ?? MusicService.DEFAULT_FADE_OUT,
+      loop: music.loop ?? true,
+    };
+  }
+
+  /**
+   * Adds the music element to a template, replacing any previous one
+   */
+  addMusicToTemplate(template: any, track: MusicTrack, music: BackgroundMusic): void {
+    if (!Array.isArray(template.elements)) {
+      this.log.warn(`⚠️ Template has no elements array, cannot add music`);
+      return;
+    }
+
+    template.elements = template.elements.filter(
+      (element: any) => !MusicService.isMusicElement(element)
+    );
+    template.elements.push(this.createMusicElement(track, music));
+    this.log.info(`🎵 Added background music "${track.title}"`);
+  }
+
+  /**
+   * Whether an element is the music added by addMusicToTemplate()
+   */
+  static isMusicElement(element: any): boolean {
+    return element?.type === "audio" && element.name === MusicService.ELEMENT_NAME;
+  }
+}
+
+export const musicService = new MusicService();
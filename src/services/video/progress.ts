@@ -0,0 +1,178 @@
+import { EventEmitter } from "events";
+import { SupabaseClient } from "@supabase/supabase-js";
+import { Logger } from "./watermark-service";
+
+export type VideoProgressStep =
+  | "queued"
+  | "generating_script"
+  | "validating_videos"
+  | "planning_scenes"
+  | "building_template"
+  | "watermarking"
+  | "render_started"
+  | "rendering"
+  | "done"
+  | "error"
+  | "cancelled";
+
+export interface VideoProgressEvent {
+  requestId: string;
+  step: VideoProgressStep;
+  /** Overall completion, 0-100 */
+  progress: number;
+  message?: string;
+  renderUrl?: string;
+  error?: string;
+  timestamp: string;
+}
+
+export type VideoProgressDetails = Partial<
+  Pick<VideoProgressEvent, "progress" | "message" | "renderUrl" | "error">
+>;
+
+const STEP_PROGRESS: Record<VideoProgressStep, number> = {
+  queued: 0,
+  generating_script: 5,
+  validating_videos: 15,
+  planning_scenes: 25,
+  building_template: 40,
+  watermarking: 55,
+  render_started: 60,
+  rendering: 60,
+  done: 100,
+  error: 100,
+  cancelled: 100,
+};
+
+const RENDER_PROGRESS_RANGE = { from: 60, to: 95 };
+
+/**
+ * Step-level progress of video generations.
+ *
+ * Events are broadcast in-process to SSE subscribers and the latest one is
+ * persisted on `video_requests.progress`, so a client connecting late (or to
+ * another instance than the one running the job) still gets the current state.
+ */
+export class VideoProgressService {
+  private emitter = new EventEmitter();
+  private db: SupabaseClient;
+  private log: Logger;
+
+  constructor(db?: SupabaseClient, log?: Logger) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    this.db = db ?? require("../../config/supabase").supabase;
+    this.log = log ?? require("../../config/logger").logger;
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0);
+  }
+
+  static isTerminal(step: VideoProgressStep): boolean {
+    return step === "done" || step === "error" || step === "cancelled";
+  }
+
+  /**
+   * Current progress of a video request row: its last persisted event,
+   * superseded by the request status once the request is over
+   */
+  static snapshot(videoRequest: {
+    id: string;
+    render_status: string;
+    render_url?: string | null;
+    error_message?: string | null;
+    progress?: any;
+  }): VideoProgressEvent {
+    const terminalStep: Partial<Record<string, VideoProgressStep>> = {
+      done: "done",
+      error: "error",
+      cancelled: "cancelled",
+    };
+    const step = terminalStep[videoRequest.render_status];
+    const last = videoRequest.progress as VideoProgressEvent | null | undefined;
+
+    // A terminal event left by a previous attempt does not apply to a retry
+    const lastApplies = step
+      ? last?.step === step
+      : !!last && !VideoProgressService.isTerminal(last.step);
+    if (last && lastApplies) {
+      return last;
+    }
+
+    const snapshotStep = step ?? "queued";
+    return {
+      requestId: videoRequest.id,
+      step: snapshotStep,
+      progress: STEP_PROGRESS[snapshotStep],
+      ...(step === "done" && videoRequest.render_url && {
+        renderUrl: videoRequest.render_url,
+      }),
+      ...(step === "error" && videoRequest.error_message && {
+        error: videoRequest.error_message,
+      }),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Overall progress of a render reporting its own completion ratio (0-1)
+   */
+  static renderProgress(ratio: number): number {
+    const clamped = Math.min(Math.max(ratio, 0), 1);
+    const { from, to } = RENDER_PROGRESS_RANGE;
+    return Math.round(from + (to - from) * clamped);
+  }
+
+  async publish(
+    requestId: string,
+    step: VideoProgressStep,
+    details: VideoProgressDetails = {}
+  ): Promise<VideoProgressEvent> {
+    const event: VideoProgressEvent = {
+      requestId,
+      step,
+      progress: details.progress ?? STEP_PROGRESS[step],
+      ...(details.message && { message: details.message }),
+      ...(details.renderUrl && { renderUrl: details.renderUrl }),
+      ...(details.error && { error: details.error }),
+      timestamp: new Date().toISOString(),
+    };
+
+    this.emitter.emit(requestId, event);
+
+    const { error } = await this.db
+      .from("video_requests")
+      .update({ progress: event })
+      .eq("id", requestId);
+
+    if (error) {
+      // Progress is informative only, never fail a generation over it
+      this.log.warn(`⚠️ Failed to persist progress for ${requestId}:`, error);
+    }
+
+    return event;
+  }
+
+  /**
+   * @returns A function removing the listener
+   */
+  subscribe(
+    requestId: string,
+    listener: (event: VideoProgressEvent) => void
+  ): () => void {
+    this.emitter.on(requestId, listener);
+    return () => {
+      this.emitter.off(requestId, listener);
+    };
+  }
+}
+
+let videoProgressService: VideoProgressService | null = null;
+
+/**
+ * Process-wide progress service, so publishers and SSE subscribers share events
+ */
+export function getVideoProgressService(): VideoProgressService {
+  if (!videoProgressService) {
+    videoProgressService = new VideoProgressService();
+  }
+  return videoProgressService;
+}
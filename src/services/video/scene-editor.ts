@@ -0,0 +1,270 @@
+import { ScenePlan, ScenePlanVideoAsset } from "../../types/video";
+import { DEFAULT_ASPECT_RATIO, getAspectRatioForResolution } from "../../types/template";
+import { compileSceneComposition } from "./template-compiler";
+import { WatermarkService, watermarkService } from "./watermark-service";
+import { VideoStyleService } from "./video-style-service";
+
+type Scene = ScenePlan["scenes"][number];
+
+/**
+ * Change to one scene of a stored plan. Trims set to null remove the trim.
+ */
+export interface SceneEdit {
+  scriptText?: string;
+  videoAsset?: ScenePlanVideoAsset;
+  trimStart?: number | null;
+  trimDuration?: number | null;
+  /** New 1-based position of the scene */
+  position?: number;
+}
+
+// Caption keys that belong to one scene rather than to the caption style
+const CAPTION_SCENE_KEYS = ["id", "name", "type", "track", "time", "duration", "transcript_source"];
+
+/**
+ * Applies an edit to the scene at `position` (1-based). Scenes keep their
+ * scene_number when moved: it identifies the scene and the composition
+ * rendered for it, the position of a scene is its index in the plan.
+ */
+export function applySceneEdit(
+  scenePlan: ScenePlan,
+  position: number,
+  edit: SceneEdit
+): ScenePlan {
+  const scenes = scenePlan.scenes.map((scene) => ({ ...scene }));
+  const scene = scenes[position - 1];
+  if (!scene) {
+    return scenePlan;
+  }
+
+  if (edit.scriptText !== undefined) {
+    scene.script_text = edit.scriptText;
+  }
+
+  if (edit.videoAsset) {
+    scene.video_asset = { ...edit.videoAsset };
+    delete scene.extra_assets;
+  }
+
+  if (edit.trimStart !== undefined || edit.trimDuration !== undefined) {
+    const videoAsset = { ...scene.video_asset };
+    setTrim(videoAsset, "trim_start", edit.trimStart);
+    setTrim(videoAsset, "trim_duration", edit.trimDuration);
+    scene.video_asset = videoAsset;
+    // Explicit trims replace the clips chained to cover the voice-over
+    delete scene.extra_assets;
+  }
+
+  if (edit.position !== undefined && edit.position !== position) {
+    scenes.splice(position - 1, 1);
+    scenes.splice(edit.position - 1, 0, scene);
+  }
+
+  return { ...scenePlan, scenes };
+}
+
+function setTrim(
+  videoAsset: ScenePlanVideoAsset,
+  key: "trim_start" | "trim_duration",
+  value: number | null | undefined
+): void {
+  if (value === null) {
+    delete videoAsset[key];
+  } else if (value !== undefined) {
+    videoAsset[key] = String(value);
+  }
+}
+
+/**
+ * Everything the composition of a scene is built from
+ */
+function sceneSignature(scene: Scene): string {
+  const asset = (videoAsset: ScenePlanVideoAsset) => [
+    videoAsset.id,
+    videoAsset.url,
+    videoAsset.trim_start ?? null,
+    videoAsset.trim_duration ?? null,
+  ];
+  return JSON.stringify([
+    scene.script_text,
+    asset(scene.video_asset),
+    (scene.extra_assets ?? []).map(asset),
+  ]);
+}
+
+/**
+ * Scene numbers of the plan whose content differs from the rendered plan
+ */
+export function findEditedScenes(renderedPlan: ScenePlan, editedPlan: ScenePlan): number[] {
+  const rendered = new Map(
+    renderedPlan.scenes.map((scene) => [scene.scene_number, sceneSignature(scene)])
+  );
+  return editedPlan.scenes
+    .filter((scene) => rendered.get(scene.scene_number) !== sceneSignature(scene))
+    .map((scene) => scene.scene_number);
+}
+
+function isSceneComposition(element: any): boolean {
+  return element?.type === "composition" && !VideoStyleService.isCardElement(element);
+}
+
+function getSceneCompositions(template: any): any[] {
+  const elements: any[] = Array.isArray(template?.elements) ? template.elements : [];
+  return elements.filter(isSceneComposition);
+}
+
+/**
+ * Whether the template has one composition per planned scene, which scene
+ * edits rely on. Creative (LLM-written) templates may not.
+ */
+export function isTemplateEditable(template: any, scenePlan: ScenePlan): boolean {
+  const compositions = getSceneCompositions(template);
+  return compositions.length > 0 && compositions.length === scenePlan.scenes.length;
+}
+
+/**
+ * ElevenLabs voice of a voice-over
+ */
+export interface SceneVoice {
+  voiceId: string;
+  voiceModel?: string;
+}
+
+function findVoice(composition: any): SceneVoice | undefined {
+  const elements: any[] = Array.isArray(composition?.elements) ? composition.elements : [];
+  for (const element of elements) {
+    const provider =
+      element?.type === "audio" && typeof element.provider === "string" ? element.provider : "";
+    const voiceId = /voice_id=(\S+)/.exec(provider)?.[1];
+    if (voiceId) {
+      const voiceModel = /model_id=(\S+)/.exec(provider)?.[1];
+      return voiceModel ? { voiceId, voiceModel } : { voiceId };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Voice of the voice-overs of a template, undefined when it has none
+ */
+export function findTemplateVoice(template: any): SceneVoice | undefined {
+  return getSceneCompositions(template).map(findVoice).find(Boolean);
+}
+
+function findCaptionProperties(composition: any): Record<string, any> | null {
+  const elements: any[] = Array.isArray(composition?.elements) ? composition.elements : [];
+  const caption = elements.find(
+    (element) => element?.type === "text" && element.transcript_source
+  );
+  if (!caption) {
+    return null;
+  }
+  return Object.fromEntries(
+    Object.entries(caption).filter(([key]) => !CAPTION_SCENE_KEYS.includes(key))
+  );
+}
+
+/**
+ * Rebuilds the template of an edited plan. Compositions of unchanged scenes
+ * are kept as they are, moved along with their scene; only edited scenes are
+ * compiled again, with the voice, caption style and watermark of the
+ * composition they replace. Intro/outro cards stay in place and transitions
+ * follow the new scene order.
+ *
+ * @param voice New voice of the voice-overs, every scene is rebuilt with it (dubbing)
+ * @returns the template and the positions (1-based) of the rebuilt scenes
+ */
+export function rebuildEditedTemplate(
+  template: any,
+  renderedPlan: ScenePlan,
+  editedPlan: ScenePlan,
+  voice?: SceneVoice
+): { template: any; rebuiltScenes: number[] } {
+  const elements: any[] = Array.isArray(template?.elements) ? template.elements : [];
+  const compositions = getSceneCompositions(template);
+  const rendered = new Map(
+    renderedPlan.scenes.map((scene, index) => [
+      scene.scene_number,
+      { signature: sceneSignature(scene), composition: compositions[index] },
+    ])
+  );
+
+  const aspectRatio =
+    getAspectRatioForResolution(template.width, template.height) ?? DEFAULT_ASPECT_RATIO;
+  const defaultVoice = findTemplateVoice(template);
+  const rebuiltScenes: number[] = [];
+
+  const sceneCompositions = editedPlan.scenes.map((scene, index) => {
+    const original = rendered.get(scene.scene_number);
+    if (!voice && original?.composition && original.signature === sceneSignature(scene)) {
+      return original.composition;
+    }
+
+    rebuiltScenes.push(index + 1);
+    const previous = original?.composition ?? compositions[index] ?? compositions[0];
+    const sceneVoice = voice ?? findVoice(previous) ?? defaultVoice;
+    if (!sceneVoice) {
+      throw new Error(`Cannot rebuild scene ${index + 1}: the template has no voice-over`);
+    }
+
+    const composition = compileSceneComposition(scene, scene.scene_number, {
+      ...sceneVoice,
+      captionProperties: findCaptionProperties(previous),
+    });
+    const watermark = previous?.elements?.find((element: any) =>
+      WatermarkService.isWatermarkElement(element)
+    );
+    if (watermark) {
+      composition.elements.push(watermarkService.createWatermarkElement(aspectRatio, watermark.source));
+    }
+    return composition;
+  });
+
+  // Scene compositions take the slots of the previous ones, other elements stay
+  let sceneIndex = 0;
+  const rebuiltElements = elements.map((element) =>
+    isSceneComposition(element) ? sceneCompositions[sceneIndex++] : element
+  );
+
+  return {
+    template: {
+      ...template,
+      elements: VideoStyleService.syncTransitions(
+        rebuiltElements,
+        VideoStyleService.findTransition(elements)
+      ),
+    },
+    rebuiltScenes,
+  };
+}
+
+/**
+ * Template whose captions take another style. Each caption keeps its place
+ * in its scene; empty properties (captions disabled) remove the captions.
+ */
+export function restyleCaptions(template: any, captionProperties: Record<string, any> | null): any {
+  const enabled = !!captionProperties && Object.keys(captionProperties).length > 0;
+
+  const restyle = (composition: any) => ({
+    ...composition,
+    elements: (composition.elements ?? []).flatMap((element: any) => {
+      if (element?.type !== "text" || !element.transcript_source) {
+        return [element];
+      }
+      if (!enabled) {
+        return [];
+      }
+      const sceneKeys = Object.fromEntries(
+        Object.entries(element).filter(([key]) => CAPTION_SCENE_KEYS.includes(key))
+      );
+      return [{ ...captionProperties, ...sceneKeys }];
+    }),
+  });
+
+  return {
+    ...template,
+    elements: (template?.elements ?? []).map((element: any) =>
+      isSceneComposition(element) ? restyle(element) : element
+    ),
+  };
+}
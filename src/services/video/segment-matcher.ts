@@ -0,0 +1,273 @@
+import { ScenePlan, ScenePlanVideoAsset } from "../../types/video";
+import { VideoSegment } from "../geminiService";
+
+// The fields of VideoType the matcher reads
+export interface SegmentMatchVideo {
+  id: string;
+  title?: string;
+  upload_url: string | null;
+  duration_seconds?: number | null;
+  analysis_data?: any;
+}
+
+export interface SegmentMatcherOptions {
+  /** Estimated voice-over seconds per word (VIDEO_DURATION_FACTOR) */
+  secondsPerWord: number;
+  /** Shortest clip worth cutting, in seconds */
+  minClipDuration?: number;
+}
+
+interface TimedSegment {
+  start: number;
+  end: number;
+  keyPointWords: Set<string>;
+  descriptionWords: Set<string>;
+}
+
+interface Clip {
+  trimStart: number;
+  trimDuration: number;
+}
+
+const DEFAULT_MIN_CLIP_DURATION = 1;
+// Below this, footage is considered to cover the voice-over
+const COVERAGE_TOLERANCE = 0.05;
+const KEY_POINT_WEIGHT = 2;
+const DESCRIPTION_WEIGHT = 1;
+
+// Scripts and analyses are mostly French or English
+const STOP_WORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "you", "your", "are", "was",
+  "but", "not", "have", "has", "from", "they", "what", "when", "how", "all",
+  "les", "des", "une", "est", "pas", "que", "qui", "dans", "pour", "sur",
+  "avec", "mais", "vous", "nous", "tout", "cette", "son", "ses", "aux", "par",
+]);
+
+/**
+ * Words of a text that are meaningful for matching
+ */
+export function tokenize(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+  return new Set(words);
+}
+
+/**
+ * Seconds from an analysis timestamp ("01:05", "1:02:03", "12.5", "12s")
+ */
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value >= 0 ? value : null;
+  }
+  if (typeof value !== "string" || value.trim() === "") {
+    return null;
+  }
+
+  const parts = value.trim().replace(/s$/i, "").split(":");
+  if (parts.length > 3) {
+    return null;
+  }
+
+  let seconds = 0;
+  for (const part of parts) {
+    const amount = Number(part);
+    if (!Number.isFinite(amount) || amount < 0) {
+      return null;
+    }
+    seconds = seconds * 60 + amount;
+  }
+  return seconds;
+}
+
+/**
+ * Voice-over length of a scene, as estimated everywhere else in the pipeline
+ */
+export function estimateVoiceoverDuration(
+  scriptText: string,
+  secondsPerWord: number
+): number {
+  const wordCount = scriptText.split(/\s+/).filter((word) => word.length > 0).length;
+  return wordCount * secondsPerWord;
+}
+
+function getTimedSegments(video: SegmentMatchVideo): TimedSegment[] {
+  const segments: VideoSegment[] = Array.isArray(video.analysis_data?.segments)
+    ? video.analysis_data.segments
+    : [];
+
+  return segments.flatMap((segment) => {
+    const start = parseTimestamp(segment?.start_time);
+    const end = parseTimestamp(segment?.end_time);
+    if (start === null || end === null || end <= start) {
+      return [];
+    }
+    return [
+      {
+        start,
+        end,
+        keyPointWords: tokenize(
+          Array.isArray(segment.key_points) ? segment.key_points.join(" ") : ""
+        ),
+        descriptionWords: tokenize(segment.description ?? ""),
+      },
+    ];
+  });
+}
+
+function scoreSegment(sceneWords: Set<string>, segment: TimedSegment): number {
+  let score = 0;
+  for (const word of sceneWords) {
+    if (segment.keyPointWords.has(word)) {
+      score += KEY_POINT_WEIGHT;
+    } else if (segment.descriptionWords.has(word)) {
+      score += DESCRIPTION_WEIGHT;
+    }
+  }
+  return score;
+}
+
+/**
+ * Known length of a video: its measured duration, or at least the end of its
+ * last analysed segment
+ */
+function getVideoDuration(video: SegmentMatchVideo, segments: TimedSegment[]): number | null {
+  if (typeof video.duration_seconds === "number" && video.duration_seconds > 0) {
+    return video.duration_seconds;
+  }
+  const lastEnd = Math.max(0, ...segments.map((segment) => segment.end));
+  return lastEnd > 0 ? lastEnd : null;
+}
+
+function findBestSegment(
+  sceneWords: Set<string>,
+  segments: TimedSegment[]
+): { segment: TimedSegment; score: number } | null {
+  let best: { segment: TimedSegment; score: number } | null = null;
+  for (const segment of segments) {
+    const score = scoreSegment(sceneWords, segment);
+    // Ties keep the earliest segment
+    if (score > 0 && (!best || score > best.score)) {
+      best = { segment, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Cuts `required` seconds of a video, starting at the matched segment and
+ * sliding back when the video ends too early
+ */
+function cutClip(
+  duration: number,
+  required: number,
+  preferredStart: number
+): Clip {
+  const start = Math.min(
+    Math.max(0, preferredStart),
+    Math.max(0, duration - required)
+  );
+  return { trimStart: start, trimDuration: Math.min(required, duration - start) };
+}
+
+function formatSeconds(seconds: number): string {
+  return String(Math.round(seconds * 100) / 100);
+}
+
+function toAsset(
+  video: SegmentMatchVideo,
+  clip: Clip,
+  asset?: ScenePlanVideoAsset
+): ScenePlanVideoAsset {
+  return {
+    id: video.id,
+    url: asset?.url ?? video.upload_url ?? "",
+    title: asset?.title ?? video.title ?? "",
+    trim_start: formatSeconds(clip.trimStart),
+    trim_duration: formatSeconds(clip.trimDuration),
+  };
+}
+
+/**
+ * Computes the trims of every scene from the Gemini analysis of its footage.
+ *
+ * Each scene's text is scored against the segments of its video (key points
+ * weigh more than descriptions) and the clip starts at the best segment. Clips
+ * last as long as the estimated voice-over; when a video is too short, clips
+ * of the other videos, best match first, are chained after it. Videos whose
+ * length is unknown are left untrimmed.
+ */
+export function matchScenePlanSegments(
+  scenePlan: ScenePlan,
+  videos: SegmentMatchVideo[],
+  options: SegmentMatcherOptions
+): ScenePlan {
+  const minClipDuration = options.minClipDuration ?? DEFAULT_MIN_CLIP_DURATION;
+  const catalog = videos.map((video) => {
+    const segments = getTimedSegments(video);
+    return { video, segments, duration: getVideoDuration(video, segments) };
+  });
+
+  const scenes = scenePlan.scenes.map((scene) => {
+    const { trim_start, trim_duration, ...untrimmedAsset } = scene.video_asset;
+    const { extra_assets, ...sceneFields } = scene;
+    const primary = catalog.find((entry) => entry.video.id === scene.video_asset.id);
+
+    if (!primary || primary.duration === null) {
+      return { ...sceneFields, video_asset: untrimmedAsset };
+    }
+
+    const sceneWords = tokenize(scene.script_text);
+    const required = Math.max(
+      estimateVoiceoverDuration(scene.script_text, options.secondsPerWord),
+      minClipDuration
+    );
+
+    const primaryMatch = findBestSegment(sceneWords, primary.segments);
+    const primaryClip = cutClip(primary.duration, required, primaryMatch?.segment.start ?? 0);
+    let covered = primaryClip.trimDuration;
+
+    const chained: ScenePlanVideoAsset[] = [];
+    if (required - covered > COVERAGE_TOLERANCE) {
+      const candidates = catalog
+        .filter(
+          (entry) =>
+            entry !== primary &&
+            entry.duration !== null &&
+            entry.duration >= minClipDuration &&
+            !!entry.video.upload_url
+        )
+        .map((entry) => ({ ...entry, match: findBestSegment(sceneWords, entry.segments) }))
+        .sort(
+          (a, b) =>
+            (b.match?.score ?? 0) - (a.match?.score ?? 0) ||
+            (b.duration ?? 0) - (a.duration ?? 0)
+        );
+
+      for (const candidate of candidates) {
+        const missing = required - covered;
+        if (missing <= COVERAGE_TOLERANCE) {
+          break;
+        }
+        const clip = cutClip(
+          candidate.duration!,
+          Math.max(missing, minClipDuration),
+          candidate.match?.segment.start ?? 0
+        );
+        chained.push(toAsset(candidate.video, clip));
+        covered += clip.trimDuration;
+      }
+    }
+
+    return {
+      ...sceneFields,
+      video_asset: toAsset(primary.video, primaryClip, scene.video_asset),
+      ...(chained.length > 0 && { extra_assets: chained }),
+    };
+  });
+
+  return { ...scenePlan, scenes };
+}
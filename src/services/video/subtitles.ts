@@ -0,0 +1,200 @@
+import { ScenePlan } from "../../types/video";
+import {
+  estimateSpeechDuration,
+  parseSeconds,
+  splitTextLines,
+} from "../render/local-render-plan";
+import { VideoStyleService } from "./video-style-service";
+
+export type SubtitleFormat = "srt" | "vtt" | "json";
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+  sceneNumber: number;
+}
+
+export interface SubtitleTrack {
+  cues: SubtitleCue[];
+  /** False when the timings were fitted to the rendered video duration */
+  estimated: boolean;
+}
+
+// Creatomate's default, used when the captions set no maximum length
+const DEFAULT_MAXIMUM_LENGTH = 25;
+
+interface TimelineEntry {
+  start: number;
+  duration: number;
+  scene: { sceneNumber: number; text: string; voiceDuration: number; maxLength: number } | null;
+}
+
+function findVoiceText(composition: any): string {
+  const voice = composition.elements?.find(
+    (element: any) => element?.type === "audio" && typeof element.source === "string"
+  );
+  return voice?.source ?? "";
+}
+
+function findMaximumLength(composition: any): number {
+  const caption = composition.elements?.find(
+    (element: any) => element?.type === "text" && element.transcript_source
+  );
+  return Number(caption?.transcript_maximum_length) || DEFAULT_MAXIMUM_LENGTH;
+}
+
+function transitionDuration(composition: any): number {
+  const transition = Array.isArray(composition.animations)
+    ? composition.animations.find((animation: any) => animation?.transition === true)
+    : undefined;
+  return parseSeconds(transition?.duration) ?? 0;
+}
+
+/**
+ * Seconds a composition plays: its explicit duration, otherwise its longest
+ * track, the voice-over or the clips played in sequence
+ */
+function compositionDuration(composition: any, voiceDuration: number): number {
+  const clipsDuration = (composition.elements ?? [])
+    .filter((element: any) => element?.type === "video")
+    .reduce(
+      (total: number, clip: any) =>
+        total + (parseSeconds(clip.duration) ?? parseSeconds(clip.trim_duration) ?? 0),
+      0
+    );
+  return parseSeconds(composition.duration) ?? Math.max(clipsDuration, voiceDuration);
+}
+
+/**
+ * Cues of the voice-over of a rendered template.
+ *
+ * Scene texts come from the scene plan the template was rendered from, or
+ * from the voice-over elements when the template does not follow it (creative
+ * templates). Voice-over durations are estimated from the text; when the
+ * rendered duration is known, scene timings are scaled to match it. Each cue
+ * holds at most the caption's transcript_maximum_length characters.
+ */
+export function buildSubtitleTrack(
+  template: any,
+  scenePlan: ScenePlan | null,
+  renderDuration?: number | null
+): SubtitleTrack {
+  const compositions: any[] = (Array.isArray(template?.elements) ? template.elements : []).filter(
+    (element: any) => element?.type === "composition"
+  );
+  const sceneCompositions = compositions.filter(
+    (composition) => !VideoStyleService.isCardElement(composition)
+  );
+  const planMatches = scenePlan?.scenes.length === sceneCompositions.length;
+
+  // Compositions play one after the other, transitions overlap the previous one
+  let offset = 0;
+  let sceneIndex = 0;
+  const timeline: TimelineEntry[] = compositions.map((composition, index) => {
+    const start = index > 0 ? Math.max(0, offset - transitionDuration(composition)) : 0;
+
+    if (VideoStyleService.isCardElement(composition)) {
+      const duration = parseSeconds(composition.duration) ?? 0;
+      offset = start + duration;
+      return { start, duration, scene: null };
+    }
+
+    const planScene = planMatches ? scenePlan!.scenes[sceneIndex] : undefined;
+    sceneIndex += 1;
+    const text = (planScene?.script_text ?? findVoiceText(composition)).trim();
+    const voiceDuration = text ? estimateSpeechDuration(text) : 0;
+    const duration = compositionDuration(composition, voiceDuration);
+    offset = start + duration;
+
+    return {
+      start,
+      duration,
+      scene: {
+        sceneNumber: planScene?.scene_number ?? sceneIndex,
+        text,
+        voiceDuration,
+        maxLength: findMaximumLength(composition),
+      },
+    };
+  });
+
+  // Scale the estimated scenes so the video lasts as long as the render
+  const cardsDuration = timeline
+    .filter((entry) => !entry.scene)
+    .reduce((total, entry) => total + entry.duration, 0);
+  const estimatedScenesDuration = offset - cardsDuration;
+  const fitted =
+    !!renderDuration && renderDuration > cardsDuration && estimatedScenesDuration > 0;
+  const scale = fitted ? (renderDuration! - cardsDuration) / estimatedScenesDuration : 1;
+
+  const cues: SubtitleCue[] = [];
+  let shift = 0;
+  for (const entry of timeline) {
+    const start = entry.start + shift;
+    if (!entry.scene) {
+      continue;
+    }
+    shift += entry.duration * (scale - 1);
+
+    const { text, sceneNumber } = entry.scene;
+    const voiceDuration = Math.min(entry.scene.voiceDuration, entry.duration) * scale;
+    const lines = splitTextLines(text, entry.scene.maxLength);
+    const characters = lines.reduce((total, line) => total + line.length, 0);
+
+    // Each line is on screen for its share of the voice-over
+    let elapsed = 0;
+    for (const line of lines) {
+      const lineDuration = (voiceDuration * line.length) / characters;
+      cues.push({
+        start: roundTime(start + elapsed),
+        end: roundTime(start + elapsed + lineDuration),
+        text: line,
+        sceneNumber,
+      });
+      elapsed += lineDuration;
+    }
+  }
+
+  return { cues, estimated: !fitted };
+}
+
+function roundTime(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const milliseconds = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return (
+    `${pad(Math.floor(milliseconds / 3_600_000))}:` +
+    `${pad(Math.floor(milliseconds / 60_000) % 60)}:` +
+    `${pad(Math.floor(milliseconds / 1000) % 60)}${separator}` +
+    pad(milliseconds % 1000, 3)
+  );
+}
+
+/**
+ * SubRip (.srt) file of the cues
+ */
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+/**
+ * WebVTT (.vtt) file of the cues
+ */
+export function formatVtt(cues: SubtitleCue[]): string {
+  return [
+    "WEBVTT\n",
+    ...cues.map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}\n`
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,135 @@
+import { ScenePlan, ScenePlanVideoAsset } from "../../types/video";
+import {
+  AspectRatio,
+  CreatomateTemplate,
+  DEFAULT_ASPECT_RATIO,
+  OUTPUT_RESOLUTIONS,
+} from "../../types/template";
+import { watermarkService } from "./watermark-service";
+
+// Same tracks as the LLM-built templates
+const VIDEO_TRACK = 1;
+const CAPTION_TRACK = 2;
+const VOICE_TRACK = 3;
+
+export const ELEVENLABS_MODEL = "eleven_multilingual_v2";
+
+export interface TemplateCompilerOptions {
+  voiceId: string;
+  voiceModel?: string; // ElevenLabs model of the voice-over, ELEVENLABS_MODEL by default
+  /**
+   * Caption element properties (see convertCaptionConfigToProperties),
+   * null or empty when captions are disabled
+   */
+  captionProperties: Record<string, any> | null;
+  aspectRatio?: AspectRatio;
+  watermark?: boolean;
+  watermarkUrl?: string; // Image of the watermark, the Editia logo by default
+}
+
+function parseTrim(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const seconds = parseFloat(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : undefined;
+}
+
+function compileVideoElements(
+  scene: ScenePlan["scenes"][number],
+  sceneNumber: number
+): Record<string, any>[] {
+  const assets: ScenePlanVideoAsset[] = [
+    scene.video_asset,
+    ...(scene.extra_assets ?? []),
+  ];
+
+  return assets.map((asset, index) => {
+    const trimStart = parseTrim(asset.trim_start);
+    const trimDuration = parseTrim(asset.trim_duration);
+
+    return {
+      name: index === 0 ? `Video-${sceneNumber}` : `Video-${sceneNumber}-${index + 1}`,
+      type: "video",
+      track: VIDEO_TRACK,
+      source: asset.url,
+      fit: "cover",
+      volume: 0,
+      // The scene lasts as long as its voice-over
+      duration: null,
+      // Chained clips play one after the other on the video track
+      ...(index > 0 && { time: "auto" }),
+      ...(trimStart !== undefined && { trim_start: trimStart }),
+      ...(trimDuration && { trim_duration: trimDuration }),
+    };
+  });
+}
+
+/**
+ * Composition of one scene: its video clips, an ElevenLabs voice-over of the
+ * scene text and a caption transcribing that voice-over
+ */
+export function compileSceneComposition(
+  scene: ScenePlan["scenes"][number],
+  sceneNumber: number,
+  options: Pick<TemplateCompilerOptions, "voiceId" | "voiceModel" | "captionProperties">
+): Record<string, any> {
+  const voiceElementId = `voice-scene-${sceneNumber}`;
+
+  const sceneElements: Record<string, any>[] = [
+    ...compileVideoElements(scene, sceneNumber),
+    {
+      id: voiceElementId,
+      name: `Voiceover-${sceneNumber}`,
+      type: "audio",
+      track: VOICE_TRACK,
+      source: scene.script_text,
+      dynamic: true,
+      provider: `elevenlabs model_id=${options.voiceModel ?? ELEVENLABS_MODEL} voice_id=${options.voiceId}`,
+    },
+  ];
+
+  if (options.captionProperties && Object.keys(options.captionProperties).length > 0) {
+    sceneElements.push({
+      ...options.captionProperties,
+      name: `Subtitles-${sceneNumber}`,
+      type: "text",
+      track: CAPTION_TRACK,
+      transcript_source: voiceElementId,
+    });
+  }
+
+  return {
+    name: `Scene-${sceneNumber}`,
+    type: "composition",
+    track: VIDEO_TRACK,
+    elements: sceneElements,
+  };
+}
+
+/**
+ * Compiles a validated scene plan into a Creatomate template, without LLM.
+ *
+ * Each scene becomes a composition (see compileSceneComposition). Compositions
+ * share a track so Creatomate plays them one after the other.
+ */
+export function compileScenePlanToTemplate(
+  scenePlan: ScenePlan,
+  options: TemplateCompilerOptions
+): CreatomateTemplate {
+  const aspectRatio = options.aspectRatio ?? DEFAULT_ASPECT_RATIO;
+
+  const template: CreatomateTemplate = {
+    output_format: "mp4",
+    ...OUTPUT_RESOLUTIONS[aspectRatio],
+    elements: scenePlan.scenes.map((scene, index) =>
+      compileSceneComposition(scene, index + 1, options)
+    ),
+  };
+
+  if (options.watermark) {
+    watermarkService.addWatermarkToTemplate(template, options.watermarkUrl);
+  }
+
+  return template;
+}
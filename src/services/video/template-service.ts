@@ -11,7 +11,14 @@ import { videoValidationService } from './validation-service';
 import winston from 'winston';
 import { PromptService } from '../promptService';
 import { MODELS } from '../../config/openai';
-import { WatermarkService } from './watermark-service';
+import { WatermarkService, watermarkService } from './watermark-service';
+import type { VideoProgressStep } from './progress';
+import { compileScenePlanToTemplate } from './template-compiler';
+import { convertCaptionConfigToProperties } from '../../utils/video/preset-converter';
+import { BackgroundMusic, BrandKit, TemplateMode } from '../../types/template';
+import { musicService } from './music-service';
+import { videoStyleService } from './video-style-service';
+import { VideoValidationService } from './validation';
 
 export type TemplateConfig = {
      scriptText: string;
@@ -23,6 +30,10 @@ export type TemplateConfig = {
       systemPrompt?: string;
       captionStructure?: any;
       userId?: string; // User ID for watermark detection
+      onProgress?: (step: VideoProgressStep) => void; // Reports pipeline steps to progress subscribers
+      templateMode?: TemplateMode; // 'compiled' (default) or 'creative' (LLM-written template)
+      music?: BackgroundMusic; // Background music added once the template is built
+      brandKit?: BrandKit | null; // Defaults of the intro/outro cards
 }
 
 /**
@@ -106,6 +117,17 @@ export class VideoTemplateService {
   public async generateTemplate(
     config: TemplateConfig
   ): Promise<any> {
+    const { template } = await this.generateTemplateWithPlan(config);
+    return template;
+  }
+
+  /**
+   * Same as generateTemplate(), also returning the scene plan the template
+   * was built from (previews)
+   */
+  public async generateTemplateWithPlan(
+    config: TemplateConfig
+  ): Promise<{ scenePlan: ScenePlan; template: any }> {
     const processLogger = logger.child({ method: 'generateTemplate' });
     
     // Step 1: Validate inputs
@@ -122,6 +144,7 @@ export class VideoTemplateService {
     processLogger.info('✅ Input validation passed');
 
     // Step 2: Plan video structure
+    config.onProgress?.('planning_scenes');
     let scenePlan = await this.creatomateBuilder.planVideoStructure(
       config.scriptText,
       config.selectedVideos,
@@ -142,6 +165,14 @@ export class VideoTemplateService {
     processLogger.info('✅ Scene plan validated and repaired');
 
     // Step 4: Generate template with validated scene plan
+    config.onProgress?.('building_template');
+    if (config.templateMode !== 'creative') {
+      const template = await this.compileTemplate(config, scenePlan, processLogger as winston.Logger);
+      await this.applyVideoStyle(template, config);
+      await this.addBackgroundMusic(template, config);
+      return { scenePlan, template };
+    }
+
       const agentPrompt = process.env.CREATOMATE_BUILDER_AGENT_PROMPT || "video-creatomate-agent-v4";
 
           const promptTemplate = PromptService.fillPromptTemplate(agentPrompt, {
@@ -170,6 +201,7 @@ export class VideoTemplateService {
 
     // Step 7.5: Add watermark for free users
     if (config.userId) {
+      config.onProgress?.('watermarking');
       try {
         const watermarkAdded = await WatermarkService.addWatermarkIfNeeded(config.userId, template);
         if (watermarkAdded) {
@@ -196,6 +228,91 @@ export class VideoTemplateService {
 
     processLogger.info('✅ Final template validation passed');
 
+    await this.applyVideoStyle(template, config);
+    await this.addBackgroundMusic(template, config);
+
+    return { scenePlan, template };
+  }
+
+  /**
+   * Adds the intro/outro cards and transitions of the user's editorial
+   * profile. Styling is cosmetic: failures leave the template as it is.
+   */
+  private async applyVideoStyle(template: any, config: TemplateConfig): Promise<void> {
+    if (!config.userId) {
+      return;
+    }
+
+    try {
+      const style = await videoStyleService.getVideoStyle(config.userId);
+      if (style) {
+        videoStyleService.applyVideoStyle(template, style, config.brandKit);
+      }
+    } catch (error) {
+      logger.warn('⚠️ Failed to apply video style, continuing without it:', error);
+    }
+  }
+
+  /**
+   * Adds the requested background music, after the template is built like
+   * the watermark. A track that cannot be found fails the generation.
+   */
+  private async addBackgroundMusic(template: any, config: TemplateConfig): Promise<void> {
+    if (!config.music) {
+      return;
+    }
+
+    const track = config.userId
+      ? await musicService.resolveTrack(config.music, config.userId)
+      : null;
+
+    if (!track) {
+      throw VideoValidationService.createError(
+        'Background music track not found',
+        'MUSIC_TRACK_NOT_FOUND',
+        { music: config.music, userId: config.userId },
+        false,
+        'The selected music is not available. Please choose another track.'
+      );
+    }
+
+    musicService.addMusicToTemplate(template, track, config.music);
+  }
+
+  /**
+   * Deterministic template build: the scene plan is compiled as is, so the
+   * LLM output fixes of the creative mode are not needed
+   */
+  private async compileTemplate(
+    config: TemplateConfig,
+    scenePlan: ScenePlan,
+    processLogger: winston.Logger
+  ): Promise<any> {
+    let watermarkUrl: string | null = null;
+    if (config.userId) {
+      config.onProgress?.('watermarking');
+      watermarkUrl = await watermarkService.getWatermarkUrl(config.userId);
+    } else {
+      processLogger.warn('⚠️ No userId provided, skipping watermark check');
+    }
+
+    const template = compileScenePlanToTemplate(scenePlan, {
+      voiceId: config.voiceId,
+      captionProperties:
+        config.captionStructure ??
+        convertCaptionConfigToProperties(
+          config.captionConfig,
+          processLogger,
+          undefined,
+          { brandKit: config.brandKit }
+        ),
+      watermark: !!watermarkUrl,
+      watermarkUrl: watermarkUrl ?? undefined,
+    });
+
+    videoValidationService.validateCompiledTemplate(template);
+
+    processLogger.info(`✅ Template compiled from ${scenePlan.scenes.length} scenes`);
     return template;
   }
 
@@ -9,9 +9,14 @@ import { zodTextFormat } from 'openai/helpers/zod';
 import { ScenePlanSchema } from '../../types/video';
 import OpenAI from 'openai';
 import { VideoUrlRepairer } from './videoUrlRepairer';
+import { matchScenePlanSegments } from './segment-matcher';
 import { convertCaptionConfigToProperties } from '../../utils/video/preset-converter';
 import { TemplateConfig } from './template-service';
 import { VIDEO_DURATION_FACTOR, SAFETY_MARGIN } from '../../config/video-constants';
+import {
+  CreatomateTemplateSchema,
+  getAspectRatioForResolution,
+} from '../../types/template';
 
 interface DurationViolation {
   sceneIndex: number;
@@ -91,7 +96,7 @@ export class VideoValidationService {
 
   /**
    * Phase 2: Scene plan validation (after planning, before template generation)
-   * Simplified approach: Apply duration null strategy and validate URLs only
+   * Validates URLs, then computes trims from the video analyses
    */
   async validateAndRepairScenePlan(
     scenePlan: ScenePlan,
@@ -99,16 +104,16 @@ export class VideoValidationService {
     scriptText: string,
     logger: winston.Logger
   ): Promise<ScenePlan> {
-    logger.info(`🔍 Applying simplified validation strategy`);
+    logger.info(`🔍 Validating scene plan`);
     
-    // Step 1: Apply simplified video strategy to all scenes
-    this.applySimplifiedVideoStrategy(scenePlan, logger);
-    
-    // Step 2: URL validation (keep this as it's important for Creatomate)
+    // Step 1: URL validation (keep this as it's important for Creatomate)
     const repairedPlan = await this.validateScenePlanUrls(scenePlan, selectedVideos, logger);
     
-    logger.info(`✅ Simplified validation completed - using duration: null strategy`);
-    return repairedPlan;
+    // Step 2: Trim each scene to the segment matching its text
+    const trimmedPlan = this.applySegmentTrims(repairedPlan, selectedVideos, logger);
+    
+    logger.info(`✅ Scene plan validation completed`);
+    return trimmedPlan;
   }
 
   /**
@@ -141,31 +146,49 @@ export class VideoValidationService {
   }
 
   /**
-   * Apply simplified video strategy: remove trim logic, let Creatomate handle duration
+   * Final validation of a compiled template. Compiled templates need no fixes,
+   * they are only checked.
    */
-  private applySimplifiedVideoStrategy(scenePlan: ScenePlan, logger: winston.Logger): void {
-    logger.info(`🚧 Applying simplified video strategy to ${scenePlan.scenes.length} scenes`);
-    
-    for (let i = 0; i < scenePlan.scenes.length; i++) {
-      const scene = scenePlan.scenes[i];
-      
-      if (!scene?.video_asset) {
-        continue;
-      }
-      
-      // Remove trim properties to let Creatomate handle duration automatically
-      if (scene.video_asset.trim_start !== undefined) {
-        logger.info(`🚧 Scene ${i + 1}: Removing trim_start (${scene.video_asset.trim_start})`);
-        delete scene.video_asset.trim_start;
-      }
-      
-      if (scene.video_asset.trim_duration !== undefined) {
-        logger.info(`🚧 Scene ${i + 1}: Removing trim_duration (${scene.video_asset.trim_duration})`);
-        delete scene.video_asset.trim_duration;
-      }
+  validateCompiledTemplate(template: any): void {
+    this.validateTemplateStructure(template);
+
+    const result = CreatomateTemplateSchema.safeParse(template);
+    if (!result.success) {
+      throw new Error(
+        `Invalid template: ${result.error.issues
+          .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+          .join(', ')}`
+      );
     }
-    
-    logger.info(`✅ Simplified video strategy applied - Creatomate will handle duration automatically`);
+  }
+
+  /**
+   * Replace the planner trims with the ones matched from the analysis segments
+   */
+  private applySegmentTrims(
+    scenePlan: ScenePlan,
+    selectedVideos: VideoType[],
+    logger: winston.Logger
+  ): ScenePlan {
+    logger.info(`✂️ Matching analysis segments for ${scenePlan.scenes.length} scenes`);
+
+    const trimmedPlan = matchScenePlanSegments(scenePlan, selectedVideos, {
+      secondsPerWord: VIDEO_DURATION_FACTOR,
+    });
+
+    trimmedPlan.scenes.forEach((scene, index) => {
+      const { trim_start, trim_duration } = scene.video_asset;
+      if (trim_duration === undefined) {
+        logger.info(`✂️ Scene ${index + 1}: video length unknown, left untrimmed`);
+        return;
+      }
+      logger.info(
+        `✂️ Scene ${index + 1}: ${scene.video_asset.id} from ${trim_start}s for ${trim_duration}s` +
+          (scene.extra_assets?.length ? `, ${scene.extra_assets.length} chained clip(s)` : '')
+      );
+    });
+
+    return trimmedPlan;
   }
 
   /**
@@ -304,9 +327,11 @@ export class VideoValidationService {
       throw new Error("Invalid template: Missing required properties");
     }
 
-    // Validate dimensions for TikTok format
-    if (template.width !== 1080 || template.height !== 1920) {
-      throw new Error("Invalid template: Must be 1080x1920 for vertical video");
+    // Validate dimensions against the supported output formats
+    if (!getAspectRatioForResolution(template.width, template.height)) {
+      throw new Error(
+        `Invalid template: Unsupported resolution ${template.width}x${template.height}`
+      );
     }
 
     // Validate scenes
@@ -13,6 +13,13 @@ import {
 // Export EditorialProfile for use in other services
 export type EditorialProfile = VideoEditorialProfile;
 import { errorResponseExpress, HttpStatus } from '../../utils/api/responses';
+import {
+  AspectRatio,
+  AspectRatioSchema,
+  BackgroundMusicSchema,
+  DEFAULT_ASPECT_RATIO,
+  TemplateModeSchema,
+} from '../../types/template';
 
 /**
  * Enhanced validation result with better error handling
@@ -102,6 +109,38 @@ export class VideoValidationService {
         errors.push(...voiceErrors);
       }
 
+      if (
+        body.templateMode !== undefined &&
+        !TemplateModeSchema.safeParse(body.templateMode).success
+      ) {
+        errors.push({
+          field: 'templateMode',
+          code: 'INVALID_TEMPLATE_MODE',
+          message: `Template mode must be one of ${TemplateModeSchema.options.join(', ')}`,
+          value: body.templateMode,
+        });
+      }
+
+      if (body.aspectRatios !== undefined) {
+        const aspectRatioErrors = this.validateAspectRatios(body.aspectRatios);
+        errors.push(...aspectRatioErrors);
+      }
+
+      const music =
+        body.music !== undefined && body.music !== null
+          ? BackgroundMusicSchema.safeParse(body.music)
+          : undefined;
+      if (music && !music.success) {
+        errors.push(
+          ...music.error.issues.map((issue) => ({
+            field: ['music', ...issue.path].join('.'),
+            code: 'INVALID_MUSIC',
+            message: issue.message,
+            value: body.music,
+          }))
+        );
+      }
+
       // If there are validation errors, return them
       if (errors.length > 0) {
         return {
@@ -124,6 +163,11 @@ export class VideoValidationService {
         voiceId: body.voiceId,
         captionConfig: body.captionConfig,
         outputLanguage: body.outputLanguage,
+        aspectRatios: body.aspectRatios?.length
+          ? Array.from(new Set<AspectRatio>(body.aspectRatios))
+          : [DEFAULT_ASPECT_RATIO],
+        templateMode: body.templateMode,
+        music: music?.success ? music.data : undefined,
       };
 
       console.log(
@@ -427,6 +471,34 @@ export class VideoValidationService {
     return errors;
   }
 
+  /**
+   * Validates requested output aspect ratios
+   * @private
+   */
+  private static validateAspectRatios(
+    aspectRatios: any
+  ): ValidationErrorDetails[] {
+    if (!Array.isArray(aspectRatios)) {
+      return [
+        {
+          field: 'aspectRatios',
+          code: 'INVALID_TYPE',
+          message: 'Aspect ratios must be an array',
+          value: aspectRatios,
+        },
+      ];
+    }
+
+    return aspectRatios
+      .filter((ratio) => !AspectRatioSchema.safeParse(ratio).success)
+      .map((ratio) => ({
+        field: 'aspectRatios',
+        code: 'UNSUPPORTED_ASPECT_RATIO',
+        message: `Aspect ratio '${ratio}' is not supported (${AspectRatioSchema.options.join(', ')})`,
+        value: ratio,
+      }));
+  }
+
   /**
    * Validates videos array
    */
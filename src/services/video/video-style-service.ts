@@ -0,0 +1,289 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import {
+  BrandKit,
+  TransitionStyle,
+  VideoCard,
+  VideoStyle,
+  VideoStyleSchema,
+} from "../../types/template";
+import { Logger } from "./watermark-service";
+
+type CardKind = "intro" | "outro";
+
+/**
+ * Creatomate transition animation of each style, played at the start of an
+ * element to switch from the previous one
+ */
+const TRANSITION_ANIMATIONS: Record<Exclude<TransitionStyle, "none">, Record<string, any>> = {
+  fade: { type: "fade" },
+  slide: { type: "slide", direction: "180°" },
+  zoom: { type: "scale", start_scale: "120%", fade: true },
+};
+
+/**
+ * Service applying the video style of an editorial profile: branded intro and
+ * outro cards around the scenes and transitions between compositions.
+ *
+ * Runs as a post-processing pass once the template is built, whichever way it
+ * was built; scene compositions are only given a transition animation.
+ */
+export class VideoStyleService {
+  private static readonly CARD_NAMES: Record<CardKind, string> = {
+    intro: "Intro-Card",
+    outro: "Outro-Card",
+  };
+  private static readonly DEFAULT_CARD_DURATION = 2.5; // seconds
+  private static readonly DEFAULT_TRANSITION_DURATION = 0.5; // seconds
+  private static readonly DEFAULT_BACKGROUND_COLOR = "#000000";
+  private static readonly DEFAULT_TEXT_COLOR = "#ffffff";
+  private static readonly DEFAULT_FONT_FAMILY = "Montserrat";
+  // Same track as the scene compositions, so cards play in sequence with them
+  private static readonly CARD_TRACK = 1;
+
+  private db: SupabaseClient;
+  private log: Logger;
+
+  constructor(db?: SupabaseClient, log?: Logger) {
+    // Lazy load dependencies to avoid import-time errors in tests
+    if (db) {
+      this.db = db;
+    } else {
+      try {
+        const { supabase } = require("../../config/supabase");
+        this.db = supabase;
+      } catch (error) {
+        this.db = {} as SupabaseClient;
+      }
+    }
+
+    if (log) {
+      this.log = log;
+    } else {
+      try {
+        const { logger } = require("../../config/logger");
+        this.log = logger;
+      } catch (error) {
+        this.log = {
+          info: () => {},
+          warn: () => {},
+          error: () => {},
+        };
+      }
+    }
+  }
+
+  /**
+   * Video style of the user's editorial profile. An invalid style is ignored
+   * rather than failing the generation.
+   */
+  async getVideoStyle(userId: string): Promise<VideoStyle | null> {
+    const { data: profile, error } = await this.db
+      .from("editorial_profiles")
+      .select("video_style")
+      .eq("user_id", userId)
+      .single();
+
+    if (error || !profile?.video_style) {
+      return null;
+    }
+
+    const style = VideoStyleSchema.safeParse(profile.video_style);
+    if (!style.success) {
+      this.log.warn(`⚠️ Ignoring invalid video style of user ${userId}:`, style.error.issues);
+      return null;
+    }
+
+    return style.data;
+  }
+
+  /**
+   * Adds the intro and outro cards and the transitions of a style to a template
+   * @param brandKit Logo, handle, colors and font of cards that set none
+   */
+  applyVideoStyle(template: any, style: VideoStyle, brandKit?: BrandKit | null): void {
+    if (!Array.isArray(template.elements)) {
+      this.log.warn(`⚠️ Template has no elements array, cannot apply video style`);
+      return;
+    }
+
+    // Applying a style again replaces the previous cards
+    const elements: any[] = template.elements.filter(
+      (element: any) => !VideoStyleService.isCardElement(element)
+    );
+    const compositionIndexes = elements
+      .map((element, index) => (element?.type === "composition" ? index : -1))
+      .filter((index) => index >= 0);
+
+    // Outro first, so the index of the first scene still holds for the intro
+    if (style.outro) {
+      // Right after the last scene, before the top-level music
+      const lastComposition = compositionIndexes[compositionIndexes.length - 1];
+      elements.splice(
+        lastComposition === undefined ? elements.length : lastComposition + 1,
+        0,
+        this.createCard("outro", style.outro, brandKit)
+      );
+    }
+    if (style.intro) {
+      elements.splice(compositionIndexes[0] ?? 0, 0, this.createCard("intro", style.intro, brandKit));
+    }
+
+    template.elements = VideoStyleService.syncTransitions(
+      elements,
+      VideoStyleService.createTransition(style)
+    );
+
+    this.log.info(
+      `🎬 Applied video style (intro: ${!!style.intro}, outro: ${!!style.outro}, transition: ${
+        style.transition?.style ?? "none"
+      })`
+    );
+  }
+
+  /**
+   * Creates the composition of an intro or outro card: a plain background,
+   * the logo, the handle and the card text
+   */
+  createCard(kind: CardKind, card: VideoCard, brandKit?: BrandKit | null): object {
+    const logoUrl = card.logoUrl ?? brandKit?.logoUrl ?? undefined;
+    const handle = card.handle ?? brandKit?.handle ?? undefined;
+    const textColor =
+      card.textColor ?? brandKit?.secondaryColor ?? VideoStyleService.DEFAULT_TEXT_COLOR;
+    const fontFamily = brandKit?.fontFamily || VideoStyleService.DEFAULT_FONT_FAMILY;
+    const elements: Record<string, any>[] = [
+      {
+        type: "shape",
+        track: 1,
+        x: "50%",
+        y: "50%",
+        width: "100%",
+        height: "100%",
+        path: "M 0 0 L 100 0 L 100 100 L 0 100 Z",
+        fill_color:
+          card.backgroundColor ??
+          brandKit?.primaryColor ??
+          VideoStyleService.DEFAULT_BACKGROUND_COLOR,
+      },
+    ];
+
+    if (logoUrl) {
+      elements.push({
+        type: "image",
+        track: 2,
+        source: logoUrl,
+        fit: "contain",
+        x: "50%",
+        y: "40%",
+        width: "35 vmin",
+        height: "35 vmin",
+        animations: [
+          { time: "start", duration: 0.6, easing: "quadratic-out", type: "scale", start_scale: "80%" },
+        ],
+      });
+    }
+
+    const texts = [handle, card.text].filter(
+      (text): text is string => !!text && text.trim().length > 0
+    );
+    texts.forEach((text, index) => {
+      elements.push({
+        type: "text",
+        track: 3 + index,
+        text,
+        x: "50%",
+        y: logoUrl ? `${62 + index * 9}%` : `${48 + index * 9}%`,
+        width: "85%",
+        x_alignment: "50%",
+        y_alignment: "50%",
+        font_family: fontFamily,
+        font_weight: index === 0 && handle ? "700" : "600",
+        font_size: index === 0 ? "6 vmin" : "5 vmin",
+        fill_color: textColor,
+        animations: [{ time: "start", duration: 0.6, type: "fade" }],
+      });
+    });
+
+    return {
+      name: VideoStyleService.CARD_NAMES[kind],
+      type: "composition",
+      track: VideoStyleService.CARD_TRACK,
+      duration: card.duration ?? VideoStyleService.DEFAULT_CARD_DURATION,
+      elements,
+    };
+  }
+
+  /**
+   * Whether an element is an intro or outro card added by applyVideoStyle()
+   */
+  static isCardElement(element: any): boolean {
+    return (
+      element?.type === "composition" &&
+      Object.values(VideoStyleService.CARD_NAMES).includes(element.name)
+    );
+  }
+
+  /**
+   * Transition animation of a style, null for hard cuts
+   */
+  static createTransition(style: VideoStyle): Record<string, any> | null {
+    if (!style.transition || style.transition.style === "none") {
+      return null;
+    }
+    return {
+      time: "start",
+      duration: style.transition.duration ?? VideoStyleService.DEFAULT_TRANSITION_DURATION,
+      transition: true,
+      ...TRANSITION_ANIMATIONS[style.transition.style],
+    };
+  }
+
+  /**
+   * Transition animation used by the compositions of a template, if any
+   */
+  static findTransition(elements: any[]): Record<string, any> | null {
+    for (const element of elements) {
+      const transition = Array.isArray(element?.animations)
+        ? element.animations.find((animation: any) => animation?.transition === true)
+        : undefined;
+      if (element?.type === "composition" && transition) {
+        return transition;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Gives every composition but the first the transition, e.g. after scenes
+   * were reordered. Compositions that already match are returned as they are.
+   */
+  static syncTransitions(elements: any[], transition: Record<string, any> | null): any[] {
+    let compositionIndex = 0;
+    return elements.map((element) => {
+      if (element?.type !== "composition") {
+        return element;
+      }
+
+      const expected = compositionIndex++ > 0 ? transition : null;
+      const current = Array.isArray(element.animations)
+        ? element.animations.find((animation: any) => animation?.transition === true) ?? null
+        : null;
+      if (JSON.stringify(current) === JSON.stringify(expected)) {
+        return element;
+      }
+
+      const animations = [
+        ...(expected ? [expected] : []),
+        ...(Array.isArray(element.animations)
+          ? element.animations.filter((animation: any) => animation?.transition !== true)
+          : []),
+      ];
+      const synced = { ...element, animations };
+      if (animations.length === 0) {
+        delete synced.animations;
+      }
+      return synced;
+    });
+  }
+}
+
+export const videoStyleService = new VideoStyleService();
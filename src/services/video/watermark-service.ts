@@ -1,5 +1,10 @@
 import { SupabaseClient } from "@supabase/supabase-js";
-
+import {
+  AspectRatio,
+  DEFAULT_ASPECT_RATIO,
+  getAspectRatioForResolution,
+} from "../../types/template";
+import { BrandKitService } from "./brand-kit-service";
 
 export interface Logger {
   info(message: string, ...args: any[]): void;
@@ -7,12 +12,25 @@ export interface Logger {
   error(message: string, ...args: any[]): void;
 }
 
+/**
+ * Watermark size and corner per aspect ratio. Wider frames keep captions in
+ * their bottom band, so the watermark moves to the top right corner there.
+ */
+const WATERMARK_PLACEMENTS: Record<AspectRatio, Record<string, string>> = {
+  "9:16": { width: "20 vmin", height: "20 vmin", y: "100%", yAnchor: "100%", yAlignment: "100%" },
+  "4:5": { width: "16 vmin", height: "16 vmin", y: "0%", yAnchor: "0%", yAlignment: "0%" },
+  "1:1": { width: "16 vmin", height: "16 vmin", y: "0%", yAnchor: "0%", yAlignment: "0%" },
+  "16:9": { width: "14 vmin", height: "14 vmin", y: "0%", yAnchor: "0%", yAlignment: "0%" },
+};
+
 /**
  * Service for managing watermarks on generated videos
- * Adds Editia watermark for free users based on their subscription plan
+ * Adds Editia watermark for free users based on their subscription plan,
+ * paid users can watermark their videos with the logo of their brand kit
  */
 export class WatermarkService {
   private static readonly WATERMARK_IMAGE_URL = 'https://ai-edit-v1.s3.us-east-1.amazonaws.com/cdn/images/editia-logo.png';
+  private static readonly ELEMENT_NAME = "Watermark";
   
   private db: SupabaseClient;
   private log: Logger;
@@ -87,6 +105,31 @@ export class WatermarkService {
     }
   }
 
+  /**
+   * Logo of the user's brand kit when they chose it as watermark. Only
+   * relevant to paid plans: free plans always get the Editia watermark.
+   */
+  async getBrandWatermarkUrl(userId: string): Promise<string | null> {
+    try {
+      const brandKit = await new BrandKitService(this.db, this.log).getBrandKit(userId);
+      return brandKit?.logoWatermark && brandKit.logoUrl ? brandKit.logoUrl : null;
+    } catch (error) {
+      this.log.warn(`⚠️ Could not load brand watermark of user ${userId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Image of the user's watermark: the Editia logo on free plans, the brand
+   * kit logo if chosen on paid plans, null for no watermark
+   */
+  async getWatermarkUrl(userId: string): Promise<string | null> {
+    if (await this.shouldAddWatermark(userId)) {
+      return WatermarkService.WATERMARK_IMAGE_URL;
+    }
+    return this.getBrandWatermarkUrl(userId);
+  }
+
   /**
    * Determines if a plan ID indicates a free plan that requires watermarks
    */
@@ -107,13 +150,17 @@ export class WatermarkService {
   /**
    * Creates a Creatomate watermark element configuration
    */
-  createWatermarkElement(): object {
-    this.log.info(`🎨 Creating watermark element with image: ${WatermarkService.WATERMARK_IMAGE_URL}`);
+  createWatermarkElement(
+    aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO,
+    imageUrl: string = WatermarkService.WATERMARK_IMAGE_URL
+  ): object {
+    this.log.info(`🎨 Creating watermark element with image: ${imageUrl}`);
     
     return {
+      name: WatermarkService.ELEMENT_NAME,
       type: "image",
       track: 4, // Above video (1), text (2), and audio (3)
-      source: WatermarkService.WATERMARK_IMAGE_URL,
+      source: imageUrl,
       fit: "contain",
       width: "20 vmin", // Responsive size that adapts to video resolution
       height: "20 vmin",
@@ -128,13 +175,15 @@ export class WatermarkService {
       opacity: 0.8, // Semi-transparent
       time: 0, // Start immediately
       duration: null, // Last for entire scene duration
+      ...WatermarkService.getWatermarkPlacement(aspectRatio),
     };
   }
 
   /**
    * Adds watermark elements to all scene compositions in a Creatomate template
+   * @param imageUrl Image of the watermark, the Editia logo by default
    */
-  addWatermarkToTemplate(template: any): void {
+  addWatermarkToTemplate(template: any, imageUrl?: string): void {
     this.log.info(`🖼️ Adding watermark to template with ${template.elements?.length || 0} scenes`);
     
     if (!template.elements || !Array.isArray(template.elements)) {
@@ -142,12 +191,14 @@ export class WatermarkService {
       return;
     }
 
+    const aspectRatio =
+      getAspectRatioForResolution(template.width, template.height) ?? DEFAULT_ASPECT_RATIO;
     let watermarksAdded = 0;
     
     template.elements.forEach((composition: any, index: number) => {
       if (composition.type === 'composition' && composition.elements) {
         // Add watermark element to this scene
-        const watermarkElement = this.createWatermarkElement();
+        const watermarkElement = this.createWatermarkElement(aspectRatio, imageUrl);
         composition.elements.push(watermarkElement);
         watermarksAdded++;
         
@@ -169,10 +220,17 @@ export class WatermarkService {
         this.addWatermarkToTemplate(template);
         this.log.info(`🏷️ Watermark added for free user ${userId}`);
         return true;
-      } else {
-        this.log.info(`💎 No watermark needed for paid user ${userId}`);
-        return false;
       }
+
+      const logoUrl = await this.getBrandWatermarkUrl(userId);
+      if (logoUrl) {
+        this.addWatermarkToTemplate(template, logoUrl);
+        this.log.info(`🏷️ Brand logo watermark added for paid user ${userId}`);
+        return true;
+      }
+
+      this.log.info(`💎 No watermark needed for paid user ${userId}`);
+      return false;
     } catch (error) {
       this.log.error(`❌ Error in addWatermarkIfNeeded for user ${userId}:`, error);
       // Fail-safe: add watermark if we can't determine the plan
@@ -182,15 +240,31 @@ export class WatermarkService {
     }
   }
 
+  /**
+   * Size and position of the watermark for an aspect ratio
+   */
+  static getWatermarkPlacement(aspectRatio: AspectRatio): Record<string, string> {
+    return { ...WATERMARK_PLACEMENTS[aspectRatio] };
+  }
+
+  static isWatermarkElement(element: any): boolean {
+    // Templates stored before watermarks were named only match by image
+    return (
+      element?.type === "image" &&
+      (element.name === WatermarkService.ELEMENT_NAME ||
+        element.source === WatermarkService.WATERMARK_IMAGE_URL)
+    );
+  }
+
   // Static convenience methods for backward compatibility
   static async shouldAddWatermark(userId: string): Promise<boolean> {
     const service = new WatermarkService();
     return service.shouldAddWatermark(userId);
   }
 
-  static createWatermarkElement(): object {
+  static createWatermarkElement(aspectRatio?: AspectRatio, imageUrl?: string): object {
     const service = new WatermarkService();
-    return service.createWatermarkElement();
+    return service.createWatermarkElement(aspectRatio, imageUrl);
   }
 
   static addWatermarkToTemplate(template: any): void {
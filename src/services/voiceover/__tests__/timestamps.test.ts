@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { buildSentenceTimestamps, CharacterAlignment, splitSentences } from '../timestamps';
+
+// One character every 0.1 second
+function alignmentOf(text: string): CharacterAlignment {
+  const characters = Array.from(text);
+  return {
+    characters,
+    characterStartTimesSeconds: characters.map((_, index) => index * 0.1),
+    characterEndTimesSeconds: characters.map((_, index) => (index + 1) * 0.1),
+  };
+}
+
+describe('splitSentences', () => {
+  it('splits a script into its sentences', () => {
+    expect(splitSentences('Stop scrolling! Wake up at six. Does it work?')).toEqual([
+      'Stop scrolling!',
+      'Wake up at six.',
+      'Does it work?',
+    ]);
+  });
+
+  it('keeps a last sentence without punctuation', () => {
+    expect(splitSentences('  Hello there. And then  ')).toEqual(['Hello there.', 'And then']);
+  });
+
+  it('returns no sentence for an empty script', () => {
+    expect(splitSentences('   ')).toEqual([]);
+  });
+});
+
+describe('buildSentenceTimestamps', () => {
+  it('times each sentence from the alignment', () => {
+    const script = 'Hi there. Go now!';
+    const sentences = buildSentenceTimestamps(script, alignmentOf(script));
+
+    expect(sentences).toEqual([
+      { text: 'Hi there.', start: 0, end: 0.9 },
+      { text: 'Go now!', start: 1, end: 1.7 },
+    ]);
+  });
+
+  it('times a sentence the alignment spells differently after the previous one', () => {
+    const script = 'Wait. It costs 5 euros.';
+    const sentences = buildSentenceTimestamps(script, alignmentOf('Wait. It costs five euros.'));
+
+    expect(sentences[0]).toEqual({ text: 'Wait.', start: 0, end: 0.5 });
+    expect(sentences[1]!.start).toBe(0.5);
+    expect(sentences[1]!.end).toBeGreaterThan(sentences[1]!.start);
+  });
+
+  it('returns no sentence without alignment', () => {
+    expect(buildSentenceTimestamps('Hello.', alignmentOf(''))).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { VoiceoverSentence } from "../../types/voiceover";
+import { splitScriptHook } from "../../utils/script/script-text";
+
+/**
+ * When each character of the voiced text is said (ElevenLabs alignment)
+ */
+export interface CharacterAlignment {
+  characters: string[];
+  characterStartTimesSeconds: number[];
+  characterEndTimesSeconds: number[];
+}
+
+/**
+ * Sentences of a script, in order
+ */
+export function splitSentences(script: string): string[] {
+  const sentences: string[] = [];
+  let rest = script.trim();
+  while (rest) {
+    const split = splitScriptHook(rest);
+    sentences.push(split.hook);
+    rest = split.rest;
+  }
+  return sentences;
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+/**
+ * Times of the sentences of a script from the alignment of its voice-over.
+ * A sentence the alignment does not spell as written (normalized numbers,
+ * for instance) is timed from the characters following the previous one.
+ */
+export function buildSentenceTimestamps(
+  script: string,
+  alignment: CharacterAlignment
+): VoiceoverSentence[] {
+  const { characters, characterStartTimesSeconds: starts, characterEndTimesSeconds: ends } =
+    alignment;
+  const spoken = characters.join("");
+  const lastIndex = characters.length - 1;
+  if (lastIndex < 0) {
+    return [];
+  }
+
+  // Characters can be several code units long: map string offsets to indexes
+  const indexAt: number[] = [];
+  characters.forEach((character, index) => {
+    for (let unit = 0; unit < character.length; unit++) {
+      indexAt.push(index);
+    }
+  });
+
+  let cursor = 0;
+  return splitSentences(script).map((text) => {
+    const found = spoken.indexOf(text, cursor);
+    const from = found >= 0 ? found : Math.min(cursor, spoken.length - 1);
+    const to = Math.min(from + text.length, spoken.length) - 1;
+    cursor = to + 1;
+
+    const start = starts[indexAt[from] ?? lastIndex] ?? 0;
+    const end = ends[indexAt[to] ?? lastIndex] ?? start;
+    return { text, start: round(start), end: round(Math.max(start, end)) };
+  });
+}
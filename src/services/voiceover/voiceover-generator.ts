@@ -0,0 +1,361 @@
+import winston from "winston";
+import { ElevenLabsClient } from "@elevenlabs/elevenlabs-js";
+import { PutObjectCommand } from "@aws-sdk/client-s3";
+import { supabase } from "../../config/supabase";
+import { s3Client, S3_BUCKET_NAME } from "../../config/aws";
+import { MODELS } from "../../config/openai";
+import { Database, Json } from "../../config/supabase-types";
+import { User } from "../../types/user";
+import { ResourceType } from "../../types/ressource";
+import {
+  VoiceoverFormat,
+  VoiceoverJobPayload,
+  VoiceoverRequest,
+  VoiceoverResult,
+  VoiceoverSentence,
+  VoiceoverStatus,
+} from "../../types/voiceover";
+import { ScriptGenerator } from "../scriptGenerator";
+import { ScriptReviewer } from "../scriptReviewer";
+import { incrementUsage } from "../usageTrackingService";
+import { getJobStore } from "../queue/job-queue";
+import { Job, JobContext } from "../queue/types";
+import { VideoValidationService } from "../video/validation";
+import { ELEVENLABS_MODEL } from "../video/template-compiler";
+import { buildSentenceTimestamps } from "./timestamps";
+
+type VoiceoverRow = Database["public"]["Tables"]["voiceover_requests"]["Row"];
+
+// ElevenLabs output format and content type of each audio format
+const AUDIO_FORMATS: Record<VoiceoverFormat, { outputFormat: "mp3_44100_128" | "wav_44100"; contentType: string }> = {
+  mp3: { outputFormat: "mp3_44100_128", contentType: "audio/mpeg" },
+  wav: { outputFormat: "wav_44100", contentType: "audio/wav" },
+};
+
+let elevenLabs: ElevenLabsClient | null = null;
+
+function getElevenLabsClient(): ElevenLabsClient {
+  if (!elevenLabs) {
+    elevenLabs = new ElevenLabsClient({ apiKey: process.env.ELEVENLABS_API_KEY });
+  }
+  return elevenLabs;
+}
+
+/**
+ * Voiceover-only generation: the script is written and reviewed like the
+ * script of a video, then voiced with the user's voice clone. No video is
+ * selected nor rendered; the audio is stored in S3 under the user's prefix
+ * with the time of each sentence.
+ *
+ * Like videos, requests are answered right away and voiced by a queued job.
+ */
+export class VoiceoverGeneratorService {
+  static readonly JOB_TYPE = "voiceover.generate";
+  private static readonly JOB_MAX_ATTEMPTS = 3;
+
+  private user: User;
+  private logger: winston.Logger;
+
+  constructor(user: User, logger: winston.Logger) {
+    this.user = user;
+    this.logger = logger;
+  }
+
+  async createVoiceover(request: VoiceoverRequest): Promise<VoiceoverResult> {
+    const voiceId = await this.resolveVoiceClone(request.voiceId);
+
+    const { data: row, error } = await supabase
+      .from("voiceover_requests")
+      .insert({
+        user_id: this.user.id,
+        prompt: request.prompt,
+        system_prompt: request.systemPrompt ?? null,
+        editorial_profile: request.editorialProfile as Json,
+        output_language: request.outputLanguage,
+        voice_id: voiceId,
+        format: request.format,
+        status: "queued",
+      })
+      .select("*")
+      .single();
+
+    if (error || !row) {
+      throw VideoValidationService.createError(
+        "Failed to create voiceover request",
+        "DATABASE_ERROR",
+        { error: error?.message },
+        true,
+        "Unable to start the voiceover. Please try again."
+      );
+    }
+
+    let job: Job;
+    try {
+      job = await getJobStore().enqueue<VoiceoverJobPayload>({
+        type: VoiceoverGeneratorService.JOB_TYPE,
+        payload: { voiceoverId: row.id, userId: this.user.id },
+        maxAttempts: VoiceoverGeneratorService.JOB_MAX_ATTEMPTS,
+      });
+    } catch (enqueueError) {
+      // Nothing will ever voice the request: fail it now
+      const errorMessage =
+        enqueueError instanceof Error ? enqueueError.message : "Failed to enqueue voiceover job";
+      await this.updateVoiceover(row.id, { status: "error", error_message: errorMessage });
+      throw VideoValidationService.createError(
+        `Failed to enqueue voiceover ${row.id}: ${errorMessage}`,
+        "ENQUEUE_FAILED",
+        { voiceoverId: row.id },
+        true,
+        "Unable to start the voiceover. Please try again."
+      );
+    }
+
+    // Link the job to the request; a failed link is only logged
+    await this.updateVoiceover(row.id, { job_id: job.id });
+
+    this.logger.info(`🎙️ Voiceover ${row.id} queued with voice ${voiceId}`);
+    return VoiceoverGeneratorService.toResult(row);
+  }
+
+  /**
+   * @throws VOICEOVER_NOT_FOUND
+   */
+  async getVoiceover(voiceoverId: string): Promise<VoiceoverResult> {
+    return VoiceoverGeneratorService.toResult(await this.getOwnedVoiceover(voiceoverId));
+  }
+
+  /**
+   * Runs a queued voiceover job. The reviewed script is stored on the first
+   * attempt, so retries only voice it again.
+   */
+  async runVoiceoverJob(job: VoiceoverJobPayload, context: JobContext): Promise<void> {
+    const voiceover = await this.getOwnedVoiceover(job.voiceoverId);
+    if (voiceover.status === "done") {
+      this.logger.info(`ℹ️ Voiceover ${voiceover.id} already done`);
+      return;
+    }
+
+    try {
+      await this.updateVoiceover(voiceover.id, { status: "processing" });
+
+      const script = voiceover.script ?? (await this.writeScript(voiceover));
+      context.signal.throwIfAborted();
+
+      const { audio, sentences } = await this.voiceScript(
+        script,
+        voiceover.voice_id,
+        voiceover.format as VoiceoverFormat
+      );
+      context.signal.throwIfAborted();
+
+      const { key, url } = await this.uploadAudio(
+        voiceover.id,
+        audio,
+        voiceover.format as VoiceoverFormat
+      );
+
+      await this.updateVoiceover(voiceover.id, {
+        status: "done",
+        audio_url: url,
+        s3_key: key,
+        // Unknown without alignment, not zero
+        duration_seconds: sentences[sentences.length - 1]?.end ?? null,
+        sentences: sentences as unknown as Json,
+        error_message: null,
+      });
+      await incrementUsage(this.user.id, ResourceType.VOICEOVERS_GENERATED);
+
+      this.logger.info(`✅ Voiceover ${voiceover.id} stored at ${key}`);
+    } catch (error) {
+      const retryable = (error as any)?.retryable !== false;
+      if (!retryable || context.isFinalAttempt) {
+        await this.updateVoiceover(voiceover.id, {
+          status: "error",
+          error_message: error instanceof Error ? error.message : String(error),
+        });
+      } else {
+        this.logger.warn(`⚠️ Voiceover ${voiceover.id} attempt failed, the job will be retried`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Writes and reviews the script, as for a video, and stores it
+   * @private
+   */
+  private async writeScript(voiceover: VoiceoverRow): Promise<string> {
+    const systemPrompt = voiceover.system_prompt ?? "";
+
+    this.logger.info("🤖 Generating voiceover script...");
+    const generatedScript = await ScriptGenerator.getInstance(MODELS["o4-mini"]).generate(
+      voiceover.prompt,
+      voiceover.editorial_profile,
+      systemPrompt
+    );
+
+    this.logger.info("🔍 Reviewing voiceover script...");
+    const script = await ScriptReviewer.getInstance(MODELS["o4-mini"]).review(
+      generatedScript,
+      voiceover.editorial_profile,
+      `System Prompt from the user:
+        ${systemPrompt}
+
+        User Prompt:
+        ${voiceover.prompt}
+
+        Output Language: ${voiceover.output_language}
+        `
+    );
+
+    await this.updateVoiceover(voiceover.id, { script });
+    return script;
+  }
+
+  /**
+   * Voices the script with ElevenLabs, with the time of each character
+   * @private
+   */
+  private async voiceScript(
+    script: string,
+    voiceId: string,
+    format: VoiceoverFormat
+  ): Promise<{ audio: Buffer; sentences: VoiceoverSentence[] }> {
+    this.logger.info(`🗣️ Voicing ${script.length} characters with voice ${voiceId}...`);
+
+    let response;
+    try {
+      response = await getElevenLabsClient().textToSpeech.convertWithTimestamps(voiceId, {
+        text: script,
+        modelId: ELEVENLABS_MODEL,
+        outputFormat: AUDIO_FORMATS[format].outputFormat,
+      });
+    } catch (error) {
+      throw VideoValidationService.createError(
+        `ElevenLabs failed to voice the script: ${error instanceof Error ? error.message : error}`,
+        "VOICEOVER_SYNTHESIS_FAILED",
+        { voiceId },
+        true,
+        "The voiceover could not be generated. Please try again."
+      );
+    }
+
+    const audio = Buffer.from(response.audioBase64, "base64");
+    const sentences = response.alignment
+      ? buildSentenceTimestamps(script, response.alignment)
+      : [];
+    return { audio, sentences };
+  }
+
+  /**
+   * @private
+   */
+  private async uploadAudio(
+    voiceoverId: string,
+    audio: Buffer,
+    format: VoiceoverFormat
+  ): Promise<{ key: string; url: string }> {
+    const key = `videos/${this.user.id}/voiceovers/${voiceoverId}.${format}`;
+
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: S3_BUCKET_NAME,
+        Key: key,
+        Body: audio,
+        ContentType: AUDIO_FORMATS[format].contentType,
+        ACL: "public-read",
+      })
+    );
+
+    return { key, url: `https://${S3_BUCKET_NAME}.s3.amazonaws.com/${key}` };
+  }
+
+  /**
+   * Voice clone of the user to voice with: the requested one, which must be
+   * theirs, or their latest
+   * @private
+   */
+  private async resolveVoiceClone(voiceId?: string): Promise<string> {
+    let query = supabase
+      .from("voice_clones")
+      .select("elevenlabs_voice_id")
+      .eq("user_id", this.user.id)
+      .not("elevenlabs_voice_id", "is", null);
+    if (voiceId) {
+      query = query.eq("elevenlabs_voice_id", voiceId);
+    }
+
+    const { data: voiceClone } = await query
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!voiceClone?.elevenlabs_voice_id) {
+      throw voiceId
+        ? VideoValidationService.createError(
+            `Voice ${voiceId} is not a voice clone of user ${this.user.id}`,
+            "VOICE_NOT_FOUND",
+            { voiceId },
+            false,
+            "This voice is not one of your voice clones."
+          )
+        : VideoValidationService.createError(
+            `User ${this.user.id} has no voice clone`,
+            "VOICE_CLONE_REQUIRED",
+            {},
+            false,
+            "Clone your voice before generating a voiceover."
+          );
+    }
+
+    return voiceClone.elevenlabs_voice_id;
+  }
+
+  private async getOwnedVoiceover(voiceoverId: string): Promise<VoiceoverRow> {
+    const { data: voiceover } = await supabase
+      .from("voiceover_requests")
+      .select("*")
+      .eq("id", voiceoverId)
+      .eq("user_id", this.user.id)
+      .maybeSingle();
+
+    if (!voiceover) {
+      throw VideoValidationService.createError(
+        `Voiceover ${voiceoverId} not found`,
+        "VOICEOVER_NOT_FOUND",
+        { voiceoverId },
+        false,
+        "Voiceover not found."
+      );
+    }
+    return voiceover;
+  }
+
+  private async updateVoiceover(
+    voiceoverId: string,
+    update: Database["public"]["Tables"]["voiceover_requests"]["Update"]
+  ): Promise<void> {
+    const { error } = await supabase
+      .from("voiceover_requests")
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq("id", voiceoverId);
+
+    if (error) {
+      this.logger.error(`Failed to update voiceover ${voiceoverId}:`, error);
+    }
+  }
+
+  private static toResult(row: VoiceoverRow): VoiceoverResult {
+    return {
+      voiceoverId: row.id,
+      status: row.status as VoiceoverStatus,
+      format: row.format as VoiceoverFormat,
+      script: row.script,
+      audioUrl: row.audio_url,
+      durationSeconds: row.duration_seconds,
+      sentences: (row.sentences as unknown as VoiceoverSentence[] | null) ?? [],
+      error: row.error_message,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { supabase } from "../../config/supabase";
+import { logger } from "../../config/logger";
+import { Job, JobContext } from "../queue/types";
+import { VoiceoverJobPayload } from "../../types/voiceover";
+import { VideoValidationService } from "../video/validation";
+import { VoiceoverGeneratorService } from "./voiceover-generator";
+
+/**
+ * Queue handler for `VoiceoverGeneratorService.JOB_TYPE` jobs
+ */
+export async function handleVoiceoverJob(
+  job: Job<VoiceoverJobPayload>,
+  context: JobContext
+): Promise<void> {
+  const { voiceoverId, userId } = job.payload;
+  const jobLogger = logger.child({
+    module: "voiceoverJob",
+    jobId: job.id,
+    voiceoverId,
+    userId,
+  });
+
+  const { data: user, error } = await supabase
+    .from("users")
+    .select("*")
+    .eq("id", userId)
+    .single();
+
+  if (error || !user) {
+    throw VideoValidationService.createError(
+      `User ${userId} not found for job ${job.id}`,
+      "USER_NOT_FOUND",
+      { userId, jobId: job.id },
+      false
+    );
+  }
+
+  const voiceoverGenerator = new VoiceoverGeneratorService(user, jobLogger);
+  await voiceoverGenerator.runVoiceoverJob(job.payload, context);
+}
@@ -0,0 +1,49 @@
+import { vi } from 'vitest';
+
+export interface MockQuery {
+  table: string;
+  ops: any[][];
+  [method: string]: any;
+}
+
+// Query builder methods the mock records and chains
+const QUERY_METHODS = [
+  'select',
+  'insert',
+  'update',
+  'delete',
+  'eq',
+  'is',
+  'in',
+  'not',
+  'or',
+  'order',
+  'limit',
+  'single',
+  'maybeSingle',
+];
+
+/**
+ * Minimal chainable Supabase mock: every query resolves to `{ data, error }`
+ * from `resolve(query)` and is kept in `queries` for assertions
+ */
+export function createMockDb(resolve: (query: MockQuery) => { data?: any; error?: any }) {
+  const queries: MockQuery[] = [];
+  const db: any = {
+    from: vi.fn((table: string) => {
+      const query: MockQuery = { table, ops: [] };
+      for (const method of QUERY_METHODS) {
+        query[method] = vi.fn((...args: any[]) => {
+          query.ops.push([method, ...args]);
+          return query;
+        });
+      }
+      query.then = (onFulfilled: any, onRejected: any) =>
+        Promise.resolve({ data: null, error: null, ...resolve(query) }).then(onFulfilled, onRejected);
+      queries.push(query);
+      return query;
+    }),
+    rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
+  };
+  return { db, queries };
+}
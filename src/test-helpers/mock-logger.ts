@@ -0,0 +1,11 @@
+import { vi } from 'vitest';
+import type winston from 'winston';
+
+/**
+ * winston logger whose methods are spies; children log to the same spies
+ */
+export function createMockLogger(): winston.Logger {
+  const logger: any = { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() };
+  logger.child = vi.fn(() => logger);
+  return logger as winston.Logger;
+}
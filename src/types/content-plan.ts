@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+// Content plan: what a scheduled video is about
+export const ContentPlanSchema = z.object({
+  title: z.string().trim().min(1).max(200).nullable().optional(),
+  topic: z.string().trim().min(1).max(500),
+  // e.g. awareness, consideration, conversion
+  funnelStage: z.string().trim().min(1).max(50).nullable().optional(),
+  targetAudiencePsych: z.string().trim().max(2000).nullable().optional(),
+  // Script to say as is; written from the topic at each run when absent
+  script: z.string().trim().min(1).nullable().optional(),
+  offerContext: z.record(z.any()).nullable().optional(),
+});
+
+export type ContentPlanInput = z.infer<typeof ContentPlanSchema>;
+
+export interface ContentPlan {
+  id: string;
+  title: string | null;
+  topic: string | null;
+  funnelStage: string | null;
+  targetAudiencePsych: string | null;
+  script: string | null;
+  offerContext: Record<string, any> | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+}
+
+export const ContentPlanScheduleSchema = z.object({
+  // Five-field cron expression in UTC, e.g. "0 9 * * 1,3,5"
+  cron: z.string().trim().min(9).max(100),
+  // Video generation payload without the prompt: selectedVideos, voiceId,
+  // captionConfig, editorialProfile, outputLanguage...
+  generationSettings: z.record(z.any()),
+  dryRun: z.boolean().default(false),
+  enabled: z.boolean().default(true),
+});
+
+export type ContentPlanScheduleInput = z.infer<typeof ContentPlanScheduleSchema>;
+
+export interface ContentPlanSchedule {
+  id: string;
+  userId: string;
+  contentPlanId: string;
+  cron: string;
+  generationSettings: Record<string, any>;
+  dryRun: boolean;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+}
+
+export type ContentPlanRunStatus = "running" | "succeeded" | "skipped" | "failed" | "dry_run";
+
+export interface ContentPlanRun {
+  id: string;
+  scheduleId: string;
+  contentPlanId: string;
+  scheduledFor: string;
+  status: ContentPlanRunStatus;
+  reason: string | null;
+  scriptDraftId: string | null;
+  videoRequestId: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+}
@@ -29,3 +29,14 @@ export const CreatomateRenderResponseSchema = z.object({
 export type CreatomateRenderResponse = z.infer<
   typeof CreatomateRenderResponseSchema
 >;
+
+/**
+ * Metadata attached to every render and echoed back by the render webhook
+ */
+export interface RenderMetadata {
+  requestId: string;
+  userId: string;
+  scriptId?: string;
+  prompt?: string;
+  timestamp?: string;
+}
@@ -2,4 +2,5 @@ export enum ResourceType {
   SOURCE_VIDEOS = "source_videos",
   VOICE_CLONES = "voice_clones",
   VIDEOS_GENERATED = "videos_generated",
+  VOICEOVERS_GENERATED = "voiceovers_generated",
 }
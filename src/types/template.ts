@@ -1,17 +1,32 @@
 import { z } from "zod";
 
+// Element animation. With `transition: true`, it animates the switch from
+// the previous element of the same track.
+const AnimationSchema = z
+  .object({
+    type: z.string(),
+    time: z.union([z.number(), z.string()]).optional(),
+    duration: z.union([z.number(), z.string(), z.null()]).optional(),
+    easing: z.string().optional(),
+    transition: z.boolean().optional(),
+  })
+  .passthrough();
+
 // Base element (common properties)
 const BaseElement = z.object({
   id: z.string().optional(),
   type: z.string(),
   track: z.number().optional(),
-  time: z.number().optional(),
+  time: z.union([z.number(), z.string()]).optional(),
   duration: z.union([z.number(), z.string(), z.null()]).optional(),
+  x: z.string().optional(),
+  y: z.string().optional(),
   x_alignment: z.string().optional(),
   y_alignment: z.string().optional(),
   width: z.union([z.string(), z.number(), z.null()]).optional(),
   height: z.union([z.string(), z.number(), z.null()]).optional(),
   volume: z.union([z.number(), z.string(), z.null()]).optional(),
+  animations: z.array(AnimationSchema).optional(),
   // ... autres propriétés communes si besoin
 });
 
@@ -33,6 +48,9 @@ const AudioElement = BaseElement.extend({
   source: z.string(), // C'est ici qu'on vérifie que ce n'est PAS 'text'
   provider: z.string().optional(),
   dynamic: z.boolean().optional(),
+  loop: z.boolean().optional(),
+  audio_fade_in: z.number().optional(),
+  audio_fade_out: z.number().optional(),
   // ... autres propriétés spécifiques audio
 });
 
@@ -52,6 +70,20 @@ const TextElement = BaseElement.extend({
   // ... autres propriétés spécifiques texte
 });
 
+// Image element (watermark, brand assets)
+const ImageElement = BaseElement.extend({
+  type: z.literal("image"),
+  source: z.string(),
+  fit: z.string().optional(),
+});
+
+// Shape element (card backgrounds), `path` is an SVG path in percents
+const ShapeElement = BaseElement.extend({
+  type: z.literal("shape"),
+  path: z.string(),
+  fill_color: z.string().optional(),
+});
+
 // Composition element (peut contenir d'autres éléments)
 const CompositionElement = BaseElement.extend({
   type: z.literal("composition"),
@@ -63,26 +95,164 @@ Element = z.discriminatedUnion("type", [
   VideoElement,
   AudioElement,
   TextElement,
+  ImageElement,
+  ShapeElement,
   CompositionElement,
 ]);
 ElementArray = z.array(Element);
 
-// Template Creatomate principal
-export const CreatomateTemplateSchema = z.object({
-  output_format: z.literal("mp4"),
-  width: z
-    .number()
-    .int()
-    .refine((v) => v === 1080, {
-      message: "Width must be 1080 for vertical video.",
-    }),
-  height: z
-    .number()
-    .int()
-    .refine((v) => v === 1920, {
-      message: "Height must be 1920 for vertical video.",
-    }),
-  elements: ElementArray,
+// Output aspect ratios and their render resolutions
+export const AspectRatioSchema = z.enum(["9:16", "1:1", "4:5", "16:9"]);
+
+export type AspectRatio = z.infer<typeof AspectRatioSchema>;
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = "9:16";
+
+export const OUTPUT_RESOLUTIONS: Record<
+  AspectRatio,
+  { width: number; height: number }
+> = {
+  "9:16": { width: 1080, height: 1920 },
+  "1:1": { width: 1080, height: 1080 },
+  "4:5": { width: 1080, height: 1350 },
+  "16:9": { width: 1920, height: 1080 },
+};
+
+/**
+ * Aspect ratio rendered at the given resolution, if it is a supported one
+ */
+export function getAspectRatioForResolution(
+  width: unknown,
+  height: unknown
+): AspectRatio | undefined {
+  return AspectRatioSchema.options.find(
+    (ratio) =>
+      OUTPUT_RESOLUTIONS[ratio].width === width &&
+      OUTPUT_RESOLUTIONS[ratio].height === height
+  );
+}
+
+// How templates are built: compiled from the scene plan, or written by an LLM
+export const TemplateModeSchema = z.enum(["compiled", "creative"]);
+
+export type TemplateMode = z.infer<typeof TemplateModeSchema>;
+
+// Background music layered under the voice-over: a track the user uploaded
+// (its S3 URL) or a track of the music library. Volumes are percentages,
+// fades are in seconds.
+export const BackgroundMusicSchema = z
+  .object({
+    source: z.enum(["upload", "library"]),
+    url: z.string().url().optional(),
+    trackId: z.string().min(1).optional(),
+    volume: z.number().min(0).max(100).optional(),
+    ducking: z.boolean().optional(),
+    duckingVolume: z.number().min(0).max(100).optional(),
+    fadeIn: z.number().min(0).max(10).optional(),
+    fadeOut: z.number().min(0).max(10).optional(),
+    loop: z.boolean().optional(),
+  })
+  .refine((music) => (music.source === "upload" ? !!music.url : !!music.trackId), {
+    message: "Uploaded tracks need a url, library tracks a trackId",
+  });
+
+export type BackgroundMusic = z.infer<typeof BackgroundMusicSchema>;
+
+export const HexColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/);
+
+// Branded card played before the first or after the last scene
+export const VideoCardSchema = z.object({
+  logoUrl: z.string().url().optional(),
+  handle: z.string().max(40).optional(),
+  text: z.string().max(80).optional(), // Hook on the intro, call to action on the outro
+  backgroundColor: HexColorSchema.optional(),
+  textColor: HexColorSchema.optional(),
+  duration: z.number().min(1).max(5).optional(), // seconds
 });
 
+export const TransitionStyleSchema = z.enum(["none", "fade", "slide", "zoom"]);
+
+// Cards and transitions of an editorial profile (editorial_profiles.video_style)
+export const VideoStyleSchema = z.object({
+  intro: VideoCardSchema.optional(),
+  outro: VideoCardSchema.optional(),
+  transition: z
+    .object({
+      style: TransitionStyleSchema,
+      duration: z.number().min(0.1).max(2).optional(), // seconds
+    })
+    .optional(),
+});
+
+export type VideoCard = z.infer<typeof VideoCardSchema>;
+export type TransitionStyle = z.infer<typeof TransitionStyleSchema>;
+export type VideoStyle = z.infer<typeof VideoStyleSchema>;
+
+// Brand kit of a user (brand_kits), the defaults of captions, cards and watermark
+export const BrandKitSchema = z.object({
+  logoUrl: z.string().url().nullable().optional(),
+  primaryColor: HexColorSchema.nullable().optional(), // Caption highlight, card background
+  secondaryColor: HexColorSchema.nullable().optional(), // Card text
+  fontFamily: z.string().trim().min(1).max(64).nullable().optional(),
+  handle: z.string().max(40).nullable().optional(),
+  logoWatermark: z.boolean().optional(), // Logo instead of the Editia mark, paid plans only
+});
+
+export type BrandKit = z.infer<typeof BrandKitSchema>;
+
+export const TranscriptEffectSchema = z.enum([
+  "karaoke",
+  "highlight",
+  "fade",
+  "bounce",
+  "slide",
+  "enlarge",
+]);
+
+// Caption style of a user preset (caption_presets.style). Sizes are in vmin
+// for 9:16 videos, other aspect ratios use their own caption layout.
+export const CaptionPresetStyleSchema = z.object({
+  fontFamily: z.string().trim().min(1).max(64),
+  fontWeight: z.enum(["400", "500", "600", "700", "800", "900"]).optional(),
+  fontSize: z.number().min(3).max(16).optional(),
+  fillColor: HexColorSchema.optional(),
+  strokeColor: HexColorSchema.optional(),
+  strokeWidth: z.number().min(0).max(3).optional(),
+  backgroundColor: HexColorSchema.nullable().optional(), // null for no box
+  backgroundOpacity: z.number().min(0).max(100).optional(), // %
+  backgroundBorderRadius: z.number().min(0).max(100).optional(), // %
+  maxLength: z.number().int().min(5).max(60).optional(), // Characters per caption
+  effect: TranscriptEffectSchema.optional(),
+  highlightColor: HexColorSchema.optional(),
+});
+
+export const CaptionPresetSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  style: CaptionPresetStyleSchema,
+});
+
+export type TranscriptEffect = z.infer<typeof TranscriptEffectSchema>;
+export type CaptionPresetStyle = z.infer<typeof CaptionPresetStyleSchema>;
+export type CaptionPreset = z.infer<typeof CaptionPresetSchema> & { id: string };
+
+// Template Creatomate principal
+export const CreatomateTemplateSchema = z
+  .object({
+    output_format: z.literal("mp4"),
+    width: z.number().int(),
+    height: z.number().int(),
+    elements: ElementArray,
+  })
+  .refine(
+    (template) =>
+      getAspectRatioForResolution(template.width, template.height) !==
+      undefined,
+    {
+      message: `Resolution must be one of ${Object.values(OUTPUT_RESOLUTIONS)
+        .map(({ width, height }) => `${width}x${height}`)
+        .join(", ")}.`,
+      path: ["width"],
+    }
+  );
+
 export type CreatomateTemplate = z.infer<typeof CreatomateTemplateSchema>;
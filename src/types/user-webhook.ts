@@ -0,0 +1,57 @@
+import { z } from "zod";
+
+// Events a user webhook can subscribe to
+export const USER_WEBHOOK_EVENTS = [
+  "video.completed",
+  "video.failed",
+  "script.validated",
+  "voice_clone.created",
+] as const;
+
+export type UserWebhookEvent = (typeof USER_WEBHOOK_EVENTS)[number];
+
+export const UserWebhookSchema = z.object({
+  // Only HTTPS endpoints receive events
+  url: z
+    .string()
+    .trim()
+    .url()
+    .max(2000)
+    .refine((url) => url.startsWith("https://"), "The URL must use https"),
+  events: z.array(z.enum(USER_WEBHOOK_EVENTS)).min(1),
+  description: z.string().trim().max(200).nullable().optional(),
+  enabled: z.boolean().default(true),
+});
+
+export type UserWebhookInput = z.infer<typeof UserWebhookSchema>;
+
+export interface UserWebhook {
+  id: string;
+  url: string;
+  events: UserWebhookEvent[];
+  description: string | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type UserWebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export interface UserWebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: UserWebhookEvent;
+  payload: Record<string, any>;
+  status: UserWebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  // Delivery this one replays, if any
+  replayOf: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+export interface UserWebhookDeliveryJobPayload {
+  deliveryId: string;
+}
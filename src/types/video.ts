@@ -2,6 +2,7 @@
 
 import z from "zod";
 import { Database } from "../config/supabase-types";
+import { AspectRatio, BackgroundMusic, TemplateMode } from "./template";
 import {
   CaptionConfiguration as CoreCaptionConfiguration,
   VideoEditorialProfile as CoreEditorialProfile,
@@ -49,7 +50,16 @@ export const ScenePlanSchema = z.object({
   ),
 });
 
-export type ScenePlan = z.infer<typeof ScenePlanSchema>;
+type PlannedScene = z.infer<typeof ScenePlanSchema>["scenes"][number];
+export type ScenePlanVideoAsset = PlannedScene["video_asset"];
+
+export type ScenePlan = {
+  scenes: (PlannedScene & {
+    // Clips played after video_asset when it is shorter than the voice-over.
+    // Set by the segment matcher, not by the planner.
+    extra_assets?: ScenePlanVideoAsset[];
+  })[];
+};
 
 // Type definitions for color constraints
 export type HexColor = `#${string}`;
@@ -81,15 +91,29 @@ export const VideoRequestStatus = {
   RENDERING: CoreVideoRequestStatus.PROCESSING,
   DONE: CoreVideoRequestStatus.COMPLETED,
   ERROR: CoreVideoRequestStatus.FAILED,
+  CANCELLED: "cancelled",
 } as const;
 
-export type VideoRequestStatus = CoreVideoRequestStatus;
+export type VideoRequestStatus =
+  | CoreVideoRequestStatus
+  | typeof VideoRequestStatus.CANCELLED;
 
 // Server-specific video generation request extending core type
 export interface VideoGenerationRequest extends Omit<CoreVideoGenerationRequest, 'userId' | 'scriptId' | 'selectedVideoIds'> {
   systemPrompt: string;
   selectedVideos: VideoType[];
   voiceId: string;
+  aspectRatios?: AspectRatio[]; // One render per aspect ratio, the first one is the main request
+  templateMode?: TemplateMode; // Defaults to the compiled template
+  music?: BackgroundMusic; // Optional music layer under the voice-over
+}
+
+/**
+ * Extra render of a generation in another aspect ratio, tracked by its own video request
+ */
+export interface VideoRendition {
+  requestId: string;
+  aspectRatio: AspectRatio;
 }
 
 // export interface EditorialProfile {
@@ -100,12 +124,113 @@ export interface VideoGenerationRequest extends Omit<CoreVideoGenerationRequest,
 //   examples?: string;
 // }
 
+/**
+ * Payload persisted with a queued video generation job
+ */
+export interface VideoGenerationJobPayload {
+  requestId: string;
+  userId: string;
+  flow: "prompt" | "script" | "dub";
+  payload: VideoGenerationRequest;
+  scriptDraftId?: string;
+  renditions?: VideoRendition[];
+}
+
+/**
+ * Dubbed version of a video, rendered by its own request
+ */
+export interface VideoDub {
+  requestId: string;
+  language: string;
+  status: VideoRequestStatus;
+}
+
 export interface VideoGenerationResult {
   requestId: string;
   scriptId: string;
   renderId?: string;
   status: VideoRequestStatus;
   estimatedCompletionTime?: Date;
+  renditions?: VideoRendition[];
+}
+
+/**
+ * Low resolution frame of one scene of a preview
+ */
+export interface VideoPreviewSnapshot {
+  sceneNumber: number;
+  url: string | null; // null when the frame could not be rendered
+}
+
+export interface VideoPreviewResult {
+  previewId: string;
+  scenePlan: ScenePlan;
+  template: any; // As it will be rendered, in the first requested aspect ratio
+  snapshots: VideoPreviewSnapshot[];
+}
+
+/**
+ * Scene of a generated video. sceneNumber is its current position, while
+ * scene.scene_number identifies it across reorders.
+ */
+export interface VideoScene {
+  sceneNumber: number;
+  scene: ScenePlan["scenes"][number];
+  edited: boolean; // Changed since the last render
+}
+
+/**
+ * Edit of one scene. A new video or text re-trims the scene from the video
+ * analysis unless trims are given; null trims remove the trim.
+ */
+export interface VideoSceneEditRequest {
+  scriptText?: string;
+  videoId?: string;
+  trimStart?: number | null;
+  trimDuration?: number | null;
+  position?: number;
+}
+
+export interface VideoScenesResult {
+  requestId: string;
+  pendingEdits: boolean;
+  scenes: VideoScene[];
+}
+
+/**
+ * What the variants of a batch change, everything else being the same
+ */
+export type VideoBatchVariation = "hook" | "caption_preset" | "clip_order";
+
+export type VideoBatchStatus = "queued" | "rendering" | "done" | "partial" | "failed";
+
+/**
+ * Variants of a batch: alternative hooks (the first variant keeps the
+ * script's own hook, rewritten by the script agent when not given), caption
+ * presets, or `count` clip orders
+ */
+export interface VideoBatchRequest {
+  variation: VideoBatchVariation;
+  count: number;
+  hooks?: string[];
+  captionPresetIds?: string[];
+}
+
+export interface VideoBatchVariant {
+  requestId: string;
+  index: number; // 1-based
+  label: string; // The hook, caption preset or clip order of the variant
+  status: VideoRequestStatus;
+  renderUrl?: string | null;
+  renditions?: VideoRendition[];
+}
+
+export interface VideoBatchResult {
+  batchId: string;
+  scriptId: string | null;
+  variation: VideoBatchVariation;
+  status: VideoBatchStatus;
+  variants: VideoBatchVariant[];
 }
 
 export interface VideoGenerationError extends Error {
@@ -0,0 +1,39 @@
+export type VoiceoverFormat = "mp3" | "wav";
+
+export type VoiceoverStatus = "queued" | "processing" | "done" | "error";
+
+/**
+ * Sentence of a voiceover with when it is said, in seconds
+ */
+export interface VoiceoverSentence {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface VoiceoverRequest {
+  prompt: string;
+  systemPrompt?: string;
+  editorialProfile: any;
+  outputLanguage: string;
+  /** Voice clone of the user, their latest one when omitted */
+  voiceId?: string;
+  format: VoiceoverFormat;
+}
+
+export interface VoiceoverJobPayload {
+  voiceoverId: string;
+  userId: string;
+}
+
+export interface VoiceoverResult {
+  voiceoverId: string;
+  status: VoiceoverStatus;
+  format: VoiceoverFormat;
+  script: string | null;
+  audioUrl: string | null;
+  durationSeconds: number | null;
+  sentences: VoiceoverSentence[];
+  error: string | null;
+  createdAt: string;
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { afterListCursorFilter, decodeListCursor, encodeListCursor } from '../cursor';
+
+const cursor = {
+  createdAt: '2026-03-02T10:00:00.123456+00:00',
+  id: '5b0f5b0e-4a0e-4c5e-9a43-2f6f1f0c9d11',
+};
+
+describe('list cursors', () => {
+  it('round-trips the last row of a page, keeping microseconds', () => {
+    expect(decodeListCursor(encodeListCursor(cursor))).toEqual(cursor);
+  });
+
+  it('rejects cursors it did not make', () => {
+    expect(decodeListCursor('not-a-cursor')).toBeNull();
+    expect(decodeListCursor(Buffer.from('{"id":"a"}').toString('base64url'))).toBeNull();
+    expect(decodeListCursor(Buffer.from('["yesterday","a"]').toString('base64url'))).toBeNull();
+  });
+
+  it('rejects values that would break out of the PostgREST filter', () => {
+    const forged = Buffer.from(
+      JSON.stringify([cursor.createdAt, 'a"),user_id.neq.("x'])
+    ).toString('base64url');
+
+    expect(decodeListCursor(forged)).toBeNull();
+  });
+
+  it('keeps rows older than the cursor, or created at the same time with a lower ID', () => {
+    expect(afterListCursorFilter(cursor)).toBe(
+      'created_at.lt."2026-03-02T10:00:00.123456+00:00",' +
+        'and(created_at.eq."2026-03-02T10:00:00.123456+00:00",id.lt."5b0f5b0e-4a0e-4c5e-9a43-2f6f1f0c9d11")'
+    );
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Opaque cursors of listing endpoints paginated newest first
+ */
+
+// Postgres timestamps (microseconds are kept) and row IDs: nothing that could
+// end a quoted PostgREST value
+const CURSOR_CREATED_AT = /^\d{4}-\d{2}-\d{2}[T ][\d:.]+(Z|[+-]\d{2}(:?\d{2})?)?$/;
+const CURSOR_ID = /^[\w-]+$/;
+
+export interface ListCursor {
+  /** Creation time of the last row of the previous page */
+  createdAt: string;
+  /** ID of that row, breaking ties between rows created at the same time */
+  id: string;
+}
+
+export function encodeListCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString('base64url');
+}
+
+/**
+ * @returns null when the cursor was not made by `encodeListCursor`
+ */
+export function decodeListCursor(value: string): ListCursor | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length !== 2) {
+      return null;
+    }
+
+    const [createdAt, id] = decoded;
+    if (
+      typeof createdAt !== 'string' ||
+      typeof id !== 'string' ||
+      !CURSOR_CREATED_AT.test(createdAt) ||
+      !CURSOR_ID.test(id)
+    ) {
+      return null;
+    }
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * PostgREST `or` filter keeping the rows after the cursor, newest first
+ */
+export function afterListCursorFilter(cursor: ListCursor): string {
+  const createdAt = `"${cursor.createdAt}"`;
+  const id = `"${cursor.id}"`;
+  return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${id})`;
+}
@@ -0,0 +1,29 @@
+import { Response } from 'express';
+
+/**
+ * Server-Sent Events utilities shared by streaming endpoints
+ */
+
+/**
+ * Sets the headers that turn an Express response into an event stream
+ */
+export function openEventStream(res: Response): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+}
+
+/**
+ * Writes one SSE message carrying a JSON payload
+ */
+export function sendStreamMessage(res: Response, data: unknown): void {
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Writes an SSE comment, ignored by clients but keeping proxies from
+ * closing an idle connection
+ */
+export function sendStreamKeepAlive(res: Response): void {
+  res.write(': keep-alive\n\n');
+}
@@ -0,0 +1,75 @@
+/**
+ * Time source of background loops, replaced in tests
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+export interface IntervalRunnerOptions {
+  /** One pass of the loop */
+  tick: () => Promise<unknown>;
+  intervalMs: number;
+  /** Called when a pass throws; the loop goes on */
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Runs a task in the background, right away then `intervalMs` after each
+ * pass ends: passes never overlap.
+ */
+export class IntervalRunner {
+  private tick: () => Promise<unknown>;
+  private intervalMs: number;
+  private onError: (error: unknown) => void;
+
+  private running = false;
+  private ticking: Promise<unknown> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: IntervalRunnerOptions) {
+    this.tick = options.tick;
+    this.intervalMs = options.intervalMs;
+    this.onError = options.onError;
+  }
+
+  /**
+   * @returns false when the loop was already running
+   */
+  start(): boolean {
+    if (this.running) {
+      return false;
+    }
+    this.running = true;
+    this.scheduleTick(0);
+    return true;
+  }
+
+  /**
+   * Stop the loop and wait for the pass in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.ticking?.catch(() => undefined);
+  }
+
+  private scheduleTick(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.ticking = this.tick();
+      this.ticking
+        .catch(this.onError)
+        .finally(() => {
+          this.ticking = null;
+          this.scheduleTick(this.intervalMs);
+        });
+    }, delayMs);
+  }
+}
@@ -0,0 +1,12 @@
+import { describe, it, expect } from 'vitest';
+import { splitScriptHook } from '../script-text';
+
+describe('splitScriptHook', () => {
+  it('should split the first sentence from the rest', () => {
+    expect(splitScriptHook('« Tu dors mal ? » Voici pourquoi.')).toEqual({
+      hook: '« Tu dors mal ? »',
+      rest: 'Voici pourquoi.',
+    });
+    expect(splitScriptHook('No punctuation at all')).toEqual({ hook: 'No punctuation at all', rest: '' });
+  });
+});
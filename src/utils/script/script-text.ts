@@ -0,0 +1,18 @@
+/**
+ * Helpers on the text of scripts, shared by script writing, videos and
+ * voice-overs
+ */
+
+// First sentence, with its closing punctuation and quotes (French ones spaced)
+const HOOK_PATTERN = /^\s*[\s\S]*?[.!?…]+(?:\s?[»”)]|["'])*(?=\s|$)/;
+
+/**
+ * Splits a script into its hook (first sentence) and the rest
+ */
+export function splitScriptHook(script: string): { hook: string; rest: string } {
+  const match = HOOK_PATTERN.exec(script);
+  if (!match) {
+    return { hook: script.trim(), rest: "" };
+  }
+  return { hook: match[0].trim(), rest: script.slice(match[0].length).trim() };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import { convertCaptionConfigToProperties, getCaptionPresetProperties } from '../preset-converter';
+import { CaptionPreset } from '../../../types/template';
+
+const logger = { info: vi.fn() } as any;
+
+const customPreset: CaptionPreset = {
+  id: '5b0f5b0e-4a0e-4c5e-9a43-2f6f1f0c9d11',
+  name: 'Bold box',
+  style: {
+    fontFamily: 'Poppins',
+    fontSize: 7,
+    strokeWidth: 0,
+    backgroundColor: '#000000',
+    backgroundOpacity: 60,
+    maxLength: 18,
+    effect: 'highlight',
+    highlightColor: '#ff5500',
+  },
+};
+
+describe('convertCaptionConfigToProperties', () => {
+  it('should resolve built-in presets', () => {
+    const properties = convertCaptionConfigToProperties(
+      { enabled: true, presetId: 'beasty', placement: 'bottom' } as any,
+      logger
+    );
+
+    expect(properties).toMatchObject({ transcript_effect: 'highlight', transcript_color: '#FFFD03' });
+  });
+
+  it('should resolve the user preset the config refers to', () => {
+    const properties = convertCaptionConfigToProperties(
+      { enabled: true, presetId: customPreset.id, placement: 'top' } as any,
+      logger,
+      '9:16',
+      { customPreset }
+    );
+
+    expect(properties).toMatchObject({
+      font_family: 'Poppins',
+      font_size: '7 vmin',
+      stroke_width: '0 vmin',
+      background_color: 'rgba(0,0,0,0.6)',
+      transcript_maximum_length: 18,
+      transcript_effect: 'highlight',
+      transcript_color: '#ff5500',
+      y_alignment: '10%',
+    });
+  });
+
+  it('should let the config override the preset, and the preset the brand kit', () => {
+    const properties = convertCaptionConfigToProperties(
+      { enabled: true, presetId: customPreset.id, transcriptColor: '#00ff00' } as any,
+      logger,
+      '9:16',
+      { customPreset, brandKit: { fontFamily: 'Inter', primaryColor: '#123456' } }
+    );
+
+    expect(properties.transcript_color).toBe('#00ff00');
+    expect(properties.font_family).toBe('Poppins');
+  });
+
+  it('should ignore a user preset the config does not refer to', () => {
+    const properties = convertCaptionConfigToProperties(
+      { enabled: true, presetId: 'karaoke' } as any,
+      logger,
+      '9:16',
+      { customPreset, brandKit: { primaryColor: '#123456' } }
+    );
+
+    expect(properties.font_family).toBe('Montserrat');
+    expect(properties.transcript_color).toBe('#04f827');
+  });
+});
+
+describe('getCaptionPresetProperties', () => {
+  it('should only set the properties of the style', () => {
+    expect(getCaptionPresetProperties({ fontFamily: 'Inter', backgroundColor: null })).toEqual({
+      font_family: 'Inter',
+      font_weight: '700',
+      background_color: 'rgba(0,0,0,0)',
+    });
+  });
+});
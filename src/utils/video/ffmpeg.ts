@@ -0,0 +1,60 @@
+import { execSync } from "child_process";
+import { logger } from "../../config/logger";
+
+// Railway/production environment detection
+const isRailway =
+  process.env.RAILWAY_ENVIRONMENT === "production" ||
+  process.env.NODE_ENV === "production";
+
+// FFmpeg path detection
+let FFMPEG_PATH: string | null = null;
+
+/**
+ * Initialize FFmpeg path based on environment
+ */
+export async function initializeFFmpegPath(): Promise<string | null> {
+  if (FFMPEG_PATH) return FFMPEG_PATH;
+
+  try {
+    if (isRailway || process.platform === "linux") {
+      // Railway/Linux: Use system FFmpeg installed via nixpacks
+      logger.info("🐧 Detecting system FFmpeg (Railway/Linux)...");
+      const ffmpegPath = execSync("which ffmpeg", { encoding: "utf8" }).trim();
+      FFMPEG_PATH = ffmpegPath;
+      logger.info(`✅ Found system FFmpeg: ${FFMPEG_PATH}`);
+    } else {
+      // Local development: Try system first, then fallback to npm package
+      try {
+        logger.info("💻 Detecting system FFmpeg (local)...");
+        const ffmpegPath = execSync("which ffmpeg", {
+          encoding: "utf8",
+        }).trim();
+        FFMPEG_PATH = ffmpegPath;
+        logger.info(`✅ Found system FFmpeg: ${FFMPEG_PATH}`);
+      } catch {
+        logger.info("📦 Falling back to npm FFmpeg package...");
+        try {
+          // Fallback to npm package for local development - using dynamic import
+          const ffmpegModule = await import("@ffmpeg-installer/ffmpeg").catch(
+            () => null
+          );
+          if (ffmpegModule && ffmpegModule.path) {
+            FFMPEG_PATH = ffmpegModule.path;
+            logger.info(`✅ Found npm FFmpeg: ${FFMPEG_PATH}`);
+          } else {
+            logger.info("⚠️ No FFmpeg found via npm package");
+            FFMPEG_PATH = null;
+          }
+        } catch (npmError) {
+          logger.info("⚠️ No FFmpeg found via npm package");
+          FFMPEG_PATH = null;
+        }
+      }
+    }
+  } catch (error) {
+    logger.error("❌ FFmpeg path detection failed:", error);
+    FFMPEG_PATH = null;
+  }
+
+  return FFMPEG_PATH;
+}
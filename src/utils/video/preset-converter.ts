@@ -1,5 +1,12 @@
 import winston from "winston";
 import { CaptionConfiguration } from "../../types/video";
+import {
+  AspectRatio,
+  BrandKit,
+  CaptionPreset,
+  CaptionPresetStyle,
+  DEFAULT_ASPECT_RATIO,
+} from "../../types/template";
 
 /**
  * Video preset configuration type
@@ -196,32 +203,218 @@ const VIDEO_PRESETS: VideoPreset[] = [
   },
 ];
 
+type CaptionPlacement = "top" | "center" | "bottom";
+
+/**
+ * Caption box, text size and vertical positions per aspect ratio.
+ * Sizes are in vmin, so wider frames need smaller values to keep lines short.
+ */
+const CAPTION_LAYOUTS: Record<
+  AspectRatio,
+  {
+    width: string;
+    font_size: string;
+    stroke_width: string;
+    transcript_maximum_length: number;
+    y_alignment: Record<CaptionPlacement, string>;
+  }
+> = {
+  "9:16": {
+    width: "90%",
+    font_size: "8 vmin",
+    stroke_width: "1.05 vmin",
+    transcript_maximum_length: 25,
+    y_alignment: { top: "10%", center: "50%", bottom: "90%" },
+  },
+  "4:5": {
+    width: "90%",
+    font_size: "7 vmin",
+    stroke_width: "0.95 vmin",
+    transcript_maximum_length: 25,
+    y_alignment: { top: "12%", center: "50%", bottom: "86%" },
+  },
+  "1:1": {
+    width: "88%",
+    font_size: "6.5 vmin",
+    stroke_width: "0.9 vmin",
+    transcript_maximum_length: 30,
+    y_alignment: { top: "12%", center: "50%", bottom: "85%" },
+  },
+  "16:9": {
+    width: "75%",
+    font_size: "6 vmin",
+    stroke_width: "0.8 vmin",
+    transcript_maximum_length: 40,
+    y_alignment: { top: "12%", center: "50%", bottom: "85%" },
+  },
+};
+
 /**
  * Maps placement to y_alignment value
  * @param placement The placement option
  * @returns The y_alignment percentage
  */
-function mapPlacementToYAlignment(placement: string): string {
+function mapPlacementToYAlignment(
+  placement: string,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO
+): string {
+  const positions = CAPTION_LAYOUTS[aspectRatio].y_alignment;
   switch (placement) {
     case "top":
-      return "10%";
+      return positions.top;
     case "center":
-      return "50%";
+      return positions.center;
     case "bottom":
     default:
-      return "90%";
+      return positions.bottom;
+  }
+}
+
+/**
+ * Caption layout properties for an aspect ratio
+ * @param placement Keeps the current y_alignment when omitted
+ */
+export function getCaptionLayoutProperties(
+  aspectRatio: AspectRatio,
+  placement?: CaptionPlacement
+): Record<string, any> {
+  const { y_alignment, ...layout } = CAPTION_LAYOUTS[aspectRatio];
+  return placement
+    ? { ...layout, y_alignment: y_alignment[placement] }
+    : { ...layout };
+}
+
+/**
+ * Placement a caption y_alignment corresponds to, in any aspect ratio
+ */
+export function getCaptionPlacement(
+  yAlignment: unknown
+): CaptionPlacement | undefined {
+  for (const layout of Object.values(CAPTION_LAYOUTS)) {
+    const placements = Object.keys(layout.y_alignment) as CaptionPlacement[];
+    const placement = placements.find(
+      (candidate) => layout.y_alignment[candidate] === yAlignment
+    );
+    if (placement) {
+      return placement;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Whether a preset ID is one of the built-in presets
+ */
+export function isBuiltInCaptionPreset(presetId: string): boolean {
+  return VIDEO_PRESETS.some((preset) => preset.id === presetId);
+}
+
+/**
+ * Hex color with an opacity, as a CSS rgba() color
+ */
+function toRgba(hexColor: string, opacity: number): string {
+  const [red, green, blue] = [1, 3, 5].map((start) =>
+    parseInt(hexColor.slice(start, start + 2), 16)
+  );
+  return `rgba(${red},${green},${blue},${opacity / 100})`;
+}
+
+/**
+ * Converts the style of a user preset to Creatomate text element properties.
+ * Only the properties the style sets are returned.
+ */
+export function getCaptionPresetProperties(
+  style: CaptionPresetStyle
+): Record<string, any> {
+  const properties: Record<string, any> = {
+    font_family: style.fontFamily,
+    font_weight: style.fontWeight ?? "700",
+  };
+
+  if (style.fontSize !== undefined) {
+    properties.font_size = `${style.fontSize} vmin`;
+  }
+  if (style.fillColor) {
+    properties.fill_color = style.fillColor;
+  }
+  if (style.strokeColor) {
+    properties.stroke_color = style.strokeColor;
+  }
+  if (style.strokeWidth !== undefined) {
+    properties.stroke_width = `${style.strokeWidth} vmin`;
+  }
+  if (style.backgroundColor !== undefined) {
+    properties.background_color = style.backgroundColor
+      ? toRgba(style.backgroundColor, style.backgroundOpacity ?? 100)
+      : "rgba(0,0,0,0)";
+  }
+  if (style.backgroundBorderRadius !== undefined) {
+    properties.background_border_radius = `${style.backgroundBorderRadius}%`;
+  }
+  if (style.maxLength !== undefined) {
+    properties.transcript_maximum_length = style.maxLength;
+  }
+  if (style.effect) {
+    properties.transcript_effect = style.effect;
+  }
+  if (style.highlightColor) {
+    properties.transcript_color = style.highlightColor;
+  }
+
+  return properties;
+}
+
+/**
+ * Properties of the preset a caption configuration refers to: a built-in
+ * preset, or the user preset when its ID matches
+ */
+function getPresetProperties(
+  presetId: string | undefined,
+  customPreset?: CaptionPreset | null
+): Record<string, any> {
+  if (!presetId) {
+    return {};
   }
+
+  if (customPreset && customPreset.id === presetId) {
+    return getCaptionPresetProperties(customPreset.style);
+  }
+
+  const preset = VIDEO_PRESETS.find((candidate) => candidate.id === presetId);
+  if (!preset) {
+    return {};
+  }
+
+  // Sizes of built-in presets follow the caption layout of the aspect ratio
+  return {
+    font_family: preset.font_family,
+    font_weight: preset.font_weight,
+    fill_color: preset.fill_color,
+    stroke_color: preset.stroke_color,
+    background_color: preset.background_color,
+    background_x_padding: preset.background_x_padding,
+    background_y_padding: preset.background_y_padding,
+    background_border_radius: preset.background_border_radius,
+    transcript_effect: preset.transcript_effect,
+    transcript_color: preset.transcript_color,
+  };
 }
 
 /**
  * Converts a caption configuration to Creatomate text element properties
  * @param config The caption configuration from user input
+ * @param aspectRatio Aspect ratio of the rendered video
+ * @param options.brandKit Font and highlight color used when the config sets none
+ * @param options.customPreset User preset config.presetId may refer to
  * @returns Properties to apply to Creatomate text elements
  */
 export function convertCaptionConfigToProperties(
   config: CaptionConfiguration | null | undefined,
-  logger: winston.Logger
+  logger: winston.Logger,
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO,
+  options: { brandKit?: BrandKit | null; customPreset?: CaptionPreset | null } = {}
 ): Record<string, any> {
+  const { brandKit, customPreset } = options;
   logger.info(
     "🚧 convertCaptionConfigToProperties called with config:",
     JSON.stringify(config, null, 2)
@@ -230,7 +423,7 @@ export function convertCaptionConfigToProperties(
   // If no config provided, return default settings
   if (!config) {
     logger.info("🚧 No config provided, returning default settings 🚧");
-    return getDefaultCaptionProperties();
+    return getDefaultCaptionProperties(aspectRatio, brandKit);
   }
 
   // If captions are disabled, return empty object (will be handled by disableCaptions method)
@@ -239,29 +432,36 @@ export function convertCaptionConfigToProperties(
     return {};
   }
 
-  // Build properties directly from the config values
+  // Preset style, then the color/effect/placement overrides of the config
+  const presetProperties = getPresetProperties(config.presetId, customPreset);
   const properties = {
     // Base layout properties
-    width: "90%",
     height: "100%",
-    font_size: "8 vmin",
     fill_color: "#ffffff",
-    font_family: "Montserrat",
+    font_family: brandKit?.fontFamily || "Montserrat",
     font_weight: "700",
     x_alignment: "50%",
-    y_alignment: mapPlacementToYAlignment(config.placement || "bottom"),
     stroke_color: "#333333",
-    stroke_width: "1.05 vmin",
     background_color: "rgba(216,216,216,0)",
     background_x_padding: "26%",
     background_y_padding: "7%",
     transcript_placement: "animate",
     background_border_radius: "28%",
-    transcript_maximum_length: 25,
+    ...getCaptionLayoutProperties(aspectRatio),
+    y_alignment: mapPlacementToYAlignment(
+      config.placement || "bottom",
+      aspectRatio
+    ),
+    ...presetProperties,
 
     // User-specified properties
-    transcript_color: config.transcriptColor || "#04f827",
-    transcript_effect: config.transcriptEffect || "karaoke",
+    transcript_color:
+      config.transcriptColor ||
+      presetProperties.transcript_color ||
+      brandKit?.primaryColor ||
+      "#04f827",
+    transcript_effect:
+      config.transcriptEffect || presetProperties.transcript_effect || "karaoke",
   };
 
   logger.info(
@@ -274,27 +474,26 @@ export function convertCaptionConfigToProperties(
 /**
  * Get default caption properties (fallback when no config provided)
  */
-function getDefaultCaptionProperties(): Record<string, any> {
+function getDefaultCaptionProperties(
+  aspectRatio: AspectRatio = DEFAULT_ASPECT_RATIO,
+  brandKit?: BrandKit | null
+): Record<string, any> {
   console.log("🚧 getDefaultCaptionProperties 🚧");
   return {
-    width: "90%",
     height: "100%",
-    font_size: "8 vmin",
     fill_color: "#ffffff",
-    font_family: "Montserrat",
+    font_family: brandKit?.fontFamily || "Montserrat",
     font_weight: "700",
     x_alignment: "50%",
-    y_alignment: "90%",
     stroke_color: "#333333",
-    stroke_width: "1.05 vmin",
     background_color: "rgba(216,216,216,0)",
-    transcript_color: "#04f827",
+    transcript_color: brandKit?.primaryColor || "#04f827",
     transcript_effect: "karaoke",
     background_x_padding: "26%",
     background_y_padding: "7%",
     transcript_placement: "animate",
     background_border_radius: "28%",
-    transcript_maximum_length: 25,
+    ...getCaptionLayoutProperties(aspectRatio, "bottom"),
   };
 }
 